@@ -28,9 +28,12 @@ import {
     LiveStreamViewRef,
     ActionSheet,
     LiveAudienceList,
+    GiftRankingPanel,
     UserInfoPanel,
     CoGuestPanel,
     CoHostPanel,
+    BattleOverlay,
+    BattlePanel,
     BarrageInput,
     BarrageList,
     Like,
@@ -39,8 +42,8 @@ import {
     AudioEffectPanel,
     AudienceActionPanel,
     ConfirmDialog,
-    SVGAAnimationView,
-    SVGAAnimationViewRef,
+    GiftEffectPlayer,
+    GiftEffectPlayerRef,
     DEFAULT_AVATAR_URL,
     showToast,
     useTranslation,
@@ -50,21 +53,27 @@ import {
     useLiveListState,
     useLiveAudienceState,
     useLoginState,
-    useLiveSeatState,
-    useDeviceState,
+    useLiveSeatSelector,
+    useDeviceActions,
+    useDeviceSelector,
     useCoGuestState,
     useCoHostState,
     useLiveSummaryState,
-    useGiftState,
-    useBarrageState,
+    useGiftActions,
+    useGiftLeaderboard,
+    clearGiftLeaderboard,
+    retainGiftCombos,
+    addGiftComboListener,
+    useBarrageActions,
     CoHostStatus,
     MirrorType,
     startForegroundService,
     stopForegroundService,
+    startTranscript,
     useBaseBeautyState,
     useAudioEffectState,
 } from 'react-native-tuikit-atomic-x';
-import type { LiveUserInfoParam } from 'react-native-tuikit-atomic-x';
+import type { LiveUserInfoParam, ReceiveGiftEvent, CoHostRequestReceivedEvent, CoHostRequestEvent } from 'react-native-tuikit-atomic-x';
 import { Dimensions } from 'react-native';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
@@ -95,17 +104,19 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
     const { t } = useTranslation();
     const safeAreaInsets = useSafeAreaInsets();
     const liveStreamViewRef = useRef<LiveStreamViewRef>(null);
-    const { createLive, endLive, currentLive, fetchLiveList } = useLiveListState();
+    const { createLive, endLive, currentLive } = useLiveListState();
     const { loginUserInfo } = useLoginState();
+    const { cameraStatus, isFrontCamera, localMirrorType } = useDeviceSelector((state) => ({
+        cameraStatus: state.cameraStatus,
+        isFrontCamera: state.isFrontCamera,
+        localMirrorType: state.localMirrorType,
+    }));
     const {
-        cameraStatus,
         switchCamera,
-        isFrontCamera,
         switchMirror,
-        localMirrorType,
         closeLocalCamera,
         closeLocalMicrophone,
-    } = useDeviceState();
+    } = useDeviceActions();
 
     const localMirrorTypeRef = useRef<MirrorType>(localMirrorType);
 
@@ -128,12 +139,14 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
     });
     const [isShowExitSheet, setIsShowExitSheet] = useState(false);
     const [isShowAudienceList, setIsShowAudienceList] = useState(false);
+    const [isShowGiftRanking, setIsShowGiftRanking] = useState(false);
     const [isShowUserInfoPanel, setIsShowUserInfoPanel] = useState(false);
     const [clickUserInfo, setClickUserInfo] = useState<any>(null);
     const [isShowAnchorInfo, setIsShowAnchorInfo] = useState(true);
     const [isShowCoGuestPanelAvatar, setIsShowCoGuestPanelAvatar] = useState(true);
     const [isShowCoGuestPanel, setIsShowCoGuestPanel] = useState(false);
     const [isShowCoHostPanel, setIsShowCoHostPanel] = useState(false);
+    const [isShowBattlePanel, setIsShowBattlePanel] = useState(false);
     const [coGuestPanelTab, setCoGuestPanelTab] = useState<'requests' | 'invitees'>('requests');
     const [showCoHostConfirmModal, setShowCoHostConfirmModal] = useState(false);
     const [currentModalUserInfo, setCurrentModalUserInfo] = useState<any>(null);
@@ -186,7 +199,7 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
         }
     }, [currentLive]);
 
-    const { seatList } = useLiveSeatState(actualLiveID);
+    const seatList = useLiveSeatSelector(actualLiveID, (state) => state.seatList);
 
     const { audienceList, audienceCount } = useLiveAudienceState(actualLiveID);
     const { applicants, connected: coGuestConnected, rejectApplication } = useCoGuestState(actualLiveID);
@@ -200,8 +213,8 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
         addCoHostListener,
         removeCoHostListener,
     } = useCoHostState(actualLiveID);
-    const { addGiftListener, removeGiftListener, setLanguage } = useGiftState(actualLiveID);
-    const { appendLocalTip } = useBarrageState(actualLiveID);
+    const { addGiftListener, setLanguage } = useGiftActions(actualLiveID);
+    const { appendLocalTip } = useBarrageActions(actualLiveID);
 
     useEffect(() => {
         if (!actualLiveID) return;
@@ -220,11 +233,7 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
         });
     }, [actualLiveID, setLanguage]);
 
-    const svgaRef = useRef<SVGAAnimationViewRef>(null);
-
-    const [giftToast, setGiftToast] = useState<any>(null);
-
-    const [showSVGA, setShowSVGA] = useState(false);
+    const giftEffectRef = useRef<GiftEffectPlayerRef>(null);
 
     const displayAudiences = useMemo(() => {
         return audienceList.slice(0, 2);
@@ -301,11 +310,8 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
     useEffect(() => {
         if (!isLiveStarted) return;
 
-        const handleCoHostRequestReceived = (params?: unknown) => {
+        const handleCoHostRequestReceived = ({ inviter }: CoHostRequestReceivedEvent) => {
             try {
-                const event = typeof params === 'string' ? params : JSON.stringify(params);
-                const res = JSON.parse(event);
-                const inviter = JSON.parse(res.inviter);
                 if (coGuestConnected.length > 1 || applicants.length > 0) {
                     rejectHostConnection({
                         liveID: actualLiveID,
@@ -334,7 +340,7 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                     showCoHostInviteDialog(inviter);
                 }
             } catch (error) {
-                console.error('解析连主播请求事件失败:', error);
+                console.error('处理连主播请求事件失败:', error);
             }
         };
 
@@ -346,23 +352,16 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
             showToast(t('anchor.coHostRejected'), 2000);
         };
 
-        const handleCoHostRequestTimeout = (params?: unknown) => {
-            try {
-                setIsShowCoGuestPanelAvatar(true);
-
-                const event = typeof params === 'string' ? JSON.parse(params) : params;
-                const invitee = typeof event?.invitee === 'string' ? JSON.parse(event.invitee) : event?.invitee;
-
-                if (invitee?.userID === liveOwner?.userID) {
-                    setShowCoHostConfirmModal(false);
-                    setCurrentModalUserInfo(null);
-                    return;
-                }
+        const handleCoHostRequestTimeout = ({ invitee }: CoHostRequestEvent) => {
+            setIsShowCoGuestPanelAvatar(true);
 
-                showToast(t('anchor.coHostTimeout'), 2000);
-            } catch (error) {
-                setIsShowCoGuestPanelAvatar(true);
+            if (invitee?.userID === liveOwner?.userID) {
+                setShowCoHostConfirmModal(false);
+                setCurrentModalUserInfo(null);
+                return;
             }
+
+            showToast(t('anchor.coHostTimeout'), 2000);
         };
 
         addCoHostListener('onCoHostRequestReceived', handleCoHostRequestReceived, actualLiveID);
@@ -378,131 +377,84 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
         };
     }, [isLiveStarted, actualLiveID, coGuestConnected, applicants, isShowCoGuestPanelAvatar, isShowCoHostPanel, isShowCoGuestPanel, addCoHostListener, removeCoHostListener, rejectHostConnection, showCoHostInviteDialog]);
 
+    // 开播期间记录弹幕、礼物和点赞，结束后可在 LiveEndPage 导出
     useEffect(() => {
         if (!isLiveStarted || !actualLiveID) return;
 
-        const handleReceiveGift = (params?: unknown) => {
-            try {
-                console.log('[AnchorPage] 收到礼物事件:', params);
+        const stopTranscript = startTranscript(actualLiveID);
+        return () => {
+            stopTranscript().catch((error) => console.error('[AnchorPage] 保存直播记录失败:', error));
+        };
+    }, [isLiveStarted, actualLiveID]);
 
-                let eventData: any;
-                if (typeof params === 'string') {
-                    eventData = JSON.parse(params);
-                } else if (params && typeof params === 'object') {
-                    eventData = params;
-                } else {
-                    console.warn('[AnchorPage] 礼物事件数据格式无效:', params);
-                    return;
-                }
+    // 送礼排行在页面挂载期间统计，每场直播开播时清空，结束后保留给 LiveEndPage 展示
+    const { totalCoins: giftRankingCoins } = useGiftLeaderboard(actualLiveID);
+    useEffect(() => {
+        if (!isLiveStarted || !actualLiveID) return;
+        clearGiftLeaderboard(actualLiveID);
+    }, [isLiveStarted, actualLiveID]);
 
-                const giftData = eventData.gift;
-                if (!giftData) {
-                    console.warn('[AnchorPage] 礼物数据为空');
-                    return;
-                }
+    useEffect(() => {
+        if (!isLiveStarted || !actualLiveID) return;
 
-                let gift: any;
-                if (typeof giftData === 'string') {
-                    gift = JSON.parse(giftData);
-                } else {
-                    gift = giftData;
-                }
+        // 礼物提示和弹幕由连击统一处理，这里只负责把礼物特效加入播放队列
+        const handleReceiveGift = (event: ReceiveGiftEvent) => {
+            if (!event.gift) {
+                console.warn('[AnchorPage] 礼物数据为空');
+                return;
+            }
+            giftEffectRef.current?.enqueue(event);
+        };
 
-                console.log('[AnchorPage] 解析后的礼物数据:', gift);
+        const subscription = addGiftListener('onReceiveGift', handleReceiveGift);
 
-                const senderData = eventData.sender;
-                let sender: any;
-                if (typeof senderData === 'string') {
-                    sender = JSON.parse(senderData);
-                } else {
-                    sender = senderData;
-                }
+        return () => {
+            subscription?.remove();
+        };
+    }, [isLiveStarted, actualLiveID, addGiftListener]);
 
-                let giftIconURL = gift.iconURL || gift.iconUrl || '';
-                if (!giftIconURL) {
-                    const resourceURL = gift.resourceURL || gift.resourceUrl || '';
-                    if (resourceURL) {
-                        const urlLower = resourceURL.toLowerCase();
-                        const isPng = urlLower.endsWith('.png') || urlLower.includes('.png?');
-                        if (isPng) {
-                            giftIconURL = resourceURL;
-                        }
-                    }
-                }
+    // 同一用户连续送出的同一礼物在连击结束后合并为一条弹幕
+    useEffect(() => {
+        if (!isLiveStarted || !actualLiveID) return;
 
-                const toastData = {
-                    avatarURL: sender?.avatarURL || sender?.avatarUrl || '',
-                    name: gift.name || '',
-                    desc: '',
-                    iconURL: giftIconURL,
-                    _timestamp: Date.now(),
-                };
-                console.log('[AnchorPage] 礼物图片 URL:', giftIconURL);
-                console.log('[AnchorPage] 设置礼物 Toast:', toastData);
-                setGiftToast(toastData);
-
-                const giftLiveOwner = currentLive?.liveOwner as { userName?: string; userID?: string } | undefined;
-                const ownerUserID = giftLiveOwner?.userID;
-                const currentLoginUserID = loginUserInfo?.userID;
-
-                let receiverName: string;
-                if (currentLoginUserID && ownerUserID && currentLoginUserID === ownerUserID) {
-                    receiverName = t('anchor.giftToMe');
-                } else {
-                    receiverName = giftLiveOwner?.userName || giftLiveOwner?.userID || '';
-                }
-                const giftName = gift.name || '';
-                const giftCount = eventData.count || 1;
-                const giftTextContent = t('anchor.giftTo', { receiver: receiverName, gift: giftName, count: giftCount });
-
-                const giftMessage = {
-                    sender: sender,
-                    gift: gift,
-                    count: giftCount,
-                    textContent: giftTextContent,
-                    messageID: `gift_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                    timestamp: Date.now(),
-                };
-                console.log('[AnchorPage] 添加礼物消息到弹幕列表:', giftMessage);
-                appendLocalTip({
-                    liveID: actualLiveID,
-                    message: giftMessage as any,
-                    onSuccess: () => {
-                        console.log('[AnchorPage] 礼物消息已添加到弹幕列表');
-                    },
-                    onError: (error) => {
-                        console.error('[AnchorPage] 添加礼物消息到弹幕列表失败:', error);
-                    },
-                });
+        const releaseCombos = retainGiftCombos(actualLiveID);
+        const removeComboListener = addGiftComboListener(actualLiveID, (type, combo) => {
+            if (type !== 'end') return;
 
-                const resourceURL = gift.resourceURL || gift.resourceUrl || '';
-                if (resourceURL) {
-                    const urlLower = resourceURL.toLowerCase();
-                    const isPng = urlLower.endsWith('.png') || urlLower.includes('.png?');
-
-                    if (!isPng) {
-                        console.log('[AnchorPage] 播放收到的礼物动画:', gift.name, resourceURL);
-                        setShowSVGA(true);
-                        setTimeout(() => {
-                            if (svgaRef.current) {
-                                svgaRef.current.startAnimation(resourceURL);
-                            }
-                        }, 100);
-                    } else {
-                        console.log('[AnchorPage] 跳过 PNG 格式礼物:', gift.name);
-                    }
-                }
-            } catch (error) {
-                console.error('[AnchorPage] 处理礼物接收事件失败:', error);
-            }
-        };
+            const giftLiveOwner = currentLive?.liveOwner as { userName?: string; userID?: string } | undefined;
+            const ownerUserID = giftLiveOwner?.userID;
+            const currentLoginUserID = loginUserInfo?.userID;
 
-        addGiftListener('onReceiveGift', handleReceiveGift);
+            let receiverName: string;
+            if (currentLoginUserID && ownerUserID && currentLoginUserID === ownerUserID) {
+                receiverName = t('anchor.giftToMe');
+            } else {
+                receiverName = giftLiveOwner?.userName || giftLiveOwner?.userID || '';
+            }
+            const giftTextContent = t('anchor.giftTo', { receiver: receiverName, gift: combo.gift.name || '', count: combo.count });
+
+            const giftMessage = {
+                sender: combo.sender,
+                gift: combo.gift,
+                count: combo.count,
+                textContent: giftTextContent,
+                messageID: `gift_${combo.comboID}`,
+                timestamp: combo.updatedAt,
+            };
+            appendLocalTip({
+                liveID: actualLiveID,
+                message: giftMessage as any,
+                onError: (error) => {
+                    console.error('[AnchorPage] 添加礼物消息到弹幕列表失败:', error);
+                },
+            });
+        });
 
         return () => {
-            removeGiftListener('onReceiveGift');
+            removeComboListener();
+            releaseCombos();
         };
-    }, [isLiveStarted, actualLiveID, addGiftListener, removeGiftListener, appendLocalTip, currentLive?.liveOwner, loginUserInfo?.userID]);
+    }, [isLiveStarted, actualLiveID, appendLocalTip, currentLive?.liveOwner, loginUserInfo?.userID]);
 
     const liveOwner = useMemo(() => {
         if (!currentLive) return null;
@@ -618,18 +570,7 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
             return;
         }
 
-        if (fetchLiveList) {
-            fetchLiveList({
-                cursor: '',
-                count: 20,
-                onSuccess: () => {
-                    console.log('刷新直播列表成功');
-                },
-                onError: (error: any) => {
-                    console.error('刷新直播列表失败:', error);
-                },
-            });
-        }
+        // 面板打开时自行获取可连线主播
         setIsShowCoHostPanel(true);
     };
 
@@ -931,6 +872,15 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                                         </TouchableOpacity>
 
                                         <View style={styles.headerRight}>
+                                            <TouchableOpacity
+                                                style={styles.giftRankingEntry}
+                                                onPress={() => setIsShowGiftRanking(true)}
+                                                activeOpacity={0.7}>
+                                                <Text style={styles.giftRankingText}>
+                                                    {`🏆 ${giftRankingCoins}`}
+                                                </Text>
+                                            </TouchableOpacity>
+
                                             <TouchableOpacity
                                                 style={styles.participantsContainer}
                                                 onPress={() => setIsShowAudienceList(true)}
@@ -976,8 +926,6 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                                         mode="anchor"
                                         bottomPx={barrageBottomPx}
                                         liveID={actualLiveID}
-                                        toast={giftToast}
-                                        onToastClosed={() => setGiftToast(null)}
                                         onSenderTap={(sender) => {
                                             if (!sender?.userID) {
                                                 return;
@@ -1018,6 +966,12 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                                         <Text style={styles.liveTimer}>{liveDurationText}</Text>
                                     </TouchableOpacity>
 
+                                    <GiftRankingPanel
+                                        visible={isShowGiftRanking}
+                                        liveID={actualLiveID}
+                                        onClose={() => setIsShowGiftRanking(false)}
+                                    />
+
                                     <LiveAudienceList
                                         visible={isShowAudienceList}
                                         liveID={actualLiveID}
@@ -1049,6 +1003,20 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                                         onClose={() => setIsShowCoHostPanel(false)}
                                     />
 
+                                    {coHostStatus === CoHostStatus.CONNECTED && (
+                                        <>
+                                            <BattleOverlay
+                                                liveID={actualLiveID}
+                                                style={{ top: safeAreaInsets.top + 100 }}
+                                            />
+                                            <BattlePanel
+                                                visible={isShowBattlePanel}
+                                                liveID={actualLiveID}
+                                                onClose={() => setIsShowBattlePanel(false)}
+                                            />
+                                        </>
+                                    )}
+
 
                                     {applicants.length > 0 && isShowCoGuestPanelAvatar && (
                                         <TouchableOpacity
@@ -1121,6 +1089,20 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                                                 <Text style={styles.actionButtonText}>{t('anchor.linkHost')}</Text>
                                             </TouchableOpacity>
 
+                                            {coHostStatus === CoHostStatus.CONNECTED && (
+                                                <TouchableOpacity
+                                                    style={styles.actionButtonItem}
+                                                    onPress={() => setIsShowBattlePanel(true)}
+                                                    activeOpacity={0.7}>
+                                                    <Image
+                                                        source={require('react-native-tuikit-atomic-x/src/static/images/host-pk.png')}
+                                                        style={styles.actionButtonIcon}
+                                                        resizeMode="contain"
+                                                    />
+                                                    <Text style={styles.actionButtonText}>{t('battle.title')}</Text>
+                                                </TouchableOpacity>
+                                            )}
+
                                             <TouchableOpacity
                                                 style={styles.actionButtonItem}
                                                 onPress={() => showCoGuestPanel('requests')}
@@ -1316,16 +1298,7 @@ export function AnchorPage({ onBack, onStartLiveSuccess, onEndLive }: AnchorPage
                 </View>
             )}
 
-            {showSVGA && (
-                <SVGAAnimationView
-                    ref={svgaRef}
-                    style={styles.svgaAnimationView}
-                    onFinished={() => {
-                        console.log('[AnchorPage] SVGA animation finished');
-                        setShowSVGA(false);
-                    }}
-                />
-            )}
+            <GiftEffectPlayer ref={giftEffectRef} style={styles.svgaAnimationView} />
         </>
     );
 }
@@ -1402,6 +1375,18 @@ const styles = StyleSheet.create({
         flexDirection: 'row',
         alignItems: 'center',
     },
+    giftRankingEntry: {
+        marginRight: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 3,
+        borderRadius: 12,
+        backgroundColor: 'rgba(0, 0, 0, 0.25)',
+    },
+    giftRankingText: {
+        color: '#FFC53D',
+        fontSize: 12,
+        fontWeight: '600',
+    },
     participantsContainer: {
         flexDirection: 'row',
         alignItems: 'center',
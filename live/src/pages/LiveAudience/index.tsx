@@ -19,14 +19,15 @@ import {
     UserInfoPanel,
     BarrageInput,
     BarrageList,
+    BattleOverlay,
     CoGuestRequestPanel,
     DEFAULT_AVATAR_URL,
     showToast,
     Like,
     NetworkQualityPanel,
     GiftPicker,
-    SVGAAnimationView,
-    SVGAAnimationViewRef,
+    GiftEffectPlayer,
+    GiftEffectPlayerRef,
     useTranslation,
     i18n,
 } from 'react-native-tuikit-atomic-x';
@@ -35,16 +36,28 @@ import {
     useCoGuestState,
     useLoginState,
     useLiveAudienceState,
-    useLiveSeatState,
+    useLiveSeatActions,
+    useLiveSeatSelector,
     useCoHostState,
-    useBarrageState,
-    useDeviceState,
-    useGiftState,
+    useBarrageActions,
+    useDeviceActions,
+    useGiftActions,
+    retainGiftLeaderboard,
+    retainGiftCombos,
+    addGiftComboListener,
+    rechargeGiftBalance,
+    InsufficientBalanceError,
     GuestApplicationNoResponseReason,
     startForegroundService,
     stopForegroundService,
 } from 'react-native-tuikit-atomic-x';
-import type { LiveUserInfoParam, GiftParam } from 'react-native-tuikit-atomic-x';
+import type {
+    LiveUserInfoParam,
+    GiftParam,
+    ReceiveGiftEvent,
+    GuestApplicationRespondedEvent,
+    GuestApplicationNoResponseEvent,
+} from 'react-native-tuikit-atomic-x';
 import { Dimensions } from 'react-native';
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 
@@ -62,11 +75,12 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
     const { connected, disconnect, cancelApplication, addCoGuestGuestListener, removeCoGuestGuestListener } = useCoGuestState(liveID);
     const { loginUserInfo } = useLoginState();
     const { audienceList, audienceCount } = useLiveAudienceState(liveID);
-    const { seatList, addLiveSeatEventListener, removeLiveSeatEventListener } = useLiveSeatState(liveID);
+    const seatList = useLiveSeatSelector(liveID, (state) => state.seatList);
+    const { addLiveSeatEventListener, removeLiveSeatEventListener } = useLiveSeatActions(liveID);
     const { connected: hostConnected } = useCoHostState(liveID);
-    const { openLocalCamera, openLocalMicrophone } = useDeviceState();
-    const { addGiftListener, removeGiftListener, sendGift, setLanguage } = useGiftState(liveID);
-    const { appendLocalTip } = useBarrageState(liveID);
+    const { openLocalCamera, openLocalMicrophone } = useDeviceActions();
+    const { addGiftListener, sendGift, setLanguage } = useGiftActions(liveID);
+    const { appendLocalTip } = useBarrageActions(liveID);
 
     useEffect(() => {
         if (!liveID) return;
@@ -93,11 +107,7 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
         };
     }, [t]);
 
-    const svgaRef = useRef<SVGAAnimationViewRef>(null);
-
-    const [giftToast, setGiftToast] = useState<any>(null);
-
-    const [showSVGA, setShowSVGA] = useState(false);
+    const giftEffectRef = useRef<GiftEffectPlayerRef>(null);
 
     const [isShowExitSheet, setIsShowExitSheet] = useState(false);
     const [exitSheetItems, setExitSheetItems] = useState<string[]>([]);
@@ -233,15 +243,11 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
             showToast(t('audience.kickedOut'), 2000);
         }
 
-        const handleGuestApplicationResponded = (params?: any) => {
+        const handleGuestApplicationResponded = ({ isAccept }: GuestApplicationRespondedEvent) => {
             try {
-                const res =
-                    typeof params === 'string'
-                        ? JSON.parse(params)
-                        : params;
-                console.log('handleGuestApplicationResponded', res, res?.isAccept);
+                console.log('handleGuestApplicationResponded', isAccept);
 
-                if (res?.isAccept === true) {
+                if (isAccept === true) {
                     setLocalGuestStatus('CONNECTED');
 
                     if (localCoGuestType === 'video') {
@@ -274,18 +280,12 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
             }
         };
 
-        const handleGuestApplicationNoResponse = (params?: unknown) => {
-            try {
-                const event = typeof params === 'string' ? params : JSON.stringify(params);
-                const res = JSON.parse(event);
-                console.log('handleGuestApplicationNoResponse', res);
-                if (res.reason === GuestApplicationNoResponseReason.TIMEOUT) {
-                    setLocalGuestStatus('IDLE');
-                    showToast(t('audience.applicationTimeout'), 2000);
-                    console.log('[LiveAudiencePage] 上麦申请超时');
-                }
-            } catch (error) {
-                console.error('[LiveAudiencePage] handleGuestApplicationNoResponse error:', error);
+        const handleGuestApplicationNoResponse = ({ reason }: GuestApplicationNoResponseEvent) => {
+            console.log('handleGuestApplicationNoResponse', reason);
+            if (reason === GuestApplicationNoResponseReason.TIMEOUT) {
+                setLocalGuestStatus('IDLE');
+                showToast(t('audience.applicationTimeout'), 2000);
+                console.log('[LiveAudiencePage] 上麦申请超时');
             }
         };
         const handleKickedOffSeat = (_params?: any) => {
@@ -340,129 +340,65 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
     ]);
 
     useEffect(() => {
-        const handleReceiveGift = (params?: unknown) => {
-            try {
-                console.log('[LiveAudiencePage] 收到礼物事件:', params);
-
-                let eventData: any;
-                if (typeof params === 'string') {
-                    eventData = JSON.parse(params);
-                } else if (params && typeof params === 'object') {
-                    eventData = params;
-                } else {
-                    console.warn('[LiveAudiencePage] 礼物事件数据格式无效:', params);
-                    return;
-                }
-
-                const giftData = eventData.gift;
-                if (!giftData) {
-                    console.warn('[LiveAudiencePage] 礼物数据为空');
-                    return;
-                }
-
-                let gift: any;
-                if (typeof giftData === 'string') {
-                    gift = JSON.parse(giftData);
-                } else {
-                    gift = giftData;
-                }
-
-                console.log('[LiveAudiencePage] 解析后的礼物数据:', gift);
-
-                const senderData = eventData.sender;
-                let sender: any;
-                if (typeof senderData === 'string') {
-                    sender = JSON.parse(senderData);
-                } else {
-                    sender = senderData;
-                }
+        // 礼物提示和弹幕由连击统一处理，这里只负责把礼物特效加入播放队列
+        const handleReceiveGift = (event: ReceiveGiftEvent) => {
+            if (!event.gift) {
+                console.warn('[LiveAudiencePage] 礼物数据为空');
+                return;
+            }
+            giftEffectRef.current?.enqueue(event);
+        };
 
-                let giftIconURL = gift.iconURL || gift.iconUrl || '';
-                if (!giftIconURL) {
-                    const resourceURL = gift.resourceURL || gift.resourceUrl || '';
-                    if (resourceURL) {
-                        const urlLower = resourceURL.toLowerCase();
-                        const isPng = urlLower.endsWith('.png') || urlLower.includes('.png?');
-                        if (isPng) {
-                            giftIconURL = resourceURL;
-                        }
-                    }
-                }
+        const subscription = addGiftListener('onReceiveGift', handleReceiveGift);
 
-                const toastData = {
-                    avatarURL: sender?.avatarURL || sender?.avatarUrl || '',
-                    name: gift.name || '',
-                    desc: '',
-                    iconURL: giftIconURL,
-                    _timestamp: Date.now(),
-                };
-                console.log('[LiveAudiencePage] 礼物图片 URL:', giftIconURL);
-                console.log('[LiveAudiencePage] 设置礼物 Toast:', toastData);
-                setGiftToast(toastData);
-
-                const giftLiveOwner = currentLive?.liveOwner as { userName?: string; userID?: string } | undefined;
-                const ownerUserID = giftLiveOwner?.userID;
-                const currentLoginUserID = loginUserInfo?.userID;
-
-                let receiverName: string;
-                if (currentLoginUserID && ownerUserID && currentLoginUserID === ownerUserID) {
-                    receiverName = t('audience.giftToMe');
-                } else {
-                    receiverName = giftLiveOwner?.userName || giftLiveOwner?.userID || '';
-                }
+        return () => {
+            subscription?.remove();
+        };
+    }, [liveID, addGiftListener]);
 
-                const giftName = gift.name || '';
-                const giftCount = eventData.count || 1;
-                const giftTextContent = t('audience.giftTo', { receiver: receiverName, gift: giftName, count: giftCount });
-
-                const giftMessage = {
-                    sender: sender,
-                    gift: gift,
-                    count: giftCount,
-                    textContent: giftTextContent,
-                    messageID: `gift_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-                    timestamp: Date.now(),
-                };
-                console.log('[LiveAudiencePage] 添加礼物消息到弹幕列表:', giftMessage);
-                appendLocalTip({
-                    liveID: liveID,
-                    message: giftMessage as any,
-                    onSuccess: () => {
-                        console.log('[LiveAudiencePage] 礼物消息已添加到弹幕列表');
-                    },
-                    onError: (error) => {
-                        console.error('[LiveAudiencePage] 添加礼物消息到弹幕列表失败:', error);
-                    },
-                });
+    // 观看期间统计送礼排行，可从观众列表进入排行面板
+    useEffect(() => retainGiftLeaderboard(liveID), [liveID]);
 
-                const resourceURL = gift.resourceURL || gift.resourceUrl || '';
-                if (resourceURL) {
-                    const urlLower = resourceURL.toLowerCase();
-                    const isPng = urlLower.endsWith('.png') || urlLower.includes('.png?');
-
-                    if (!isPng) {
-                        console.log('[LiveAudiencePage] 播放收到的礼物动画:', gift.name, resourceURL);
-                        setShowSVGA(true);
-                        setTimeout(() => {
-                            if (svgaRef.current) {
-                                svgaRef.current.startAnimation(resourceURL);
-                            }
-                        }, 100);
-                    } else {
-                        console.log('[LiveAudiencePage] 跳过 PNG 格式礼物:', gift.name);
-                    }
-                }
-            } catch (error) {
-                console.error('[LiveAudiencePage] 处理礼物接收事件失败:', error);
+    // 同一用户连续送出的同一礼物在连击结束后合并为一条弹幕
+    useEffect(() => {
+        const releaseCombos = retainGiftCombos(liveID);
+        const removeComboListener = addGiftComboListener(liveID, (type, combo) => {
+            if (type !== 'end') return;
+
+            const giftLiveOwner = currentLive?.liveOwner as { userName?: string; userID?: string } | undefined;
+            const ownerUserID = giftLiveOwner?.userID;
+            const currentLoginUserID = loginUserInfo?.userID;
+
+            let receiverName: string;
+            if (currentLoginUserID && ownerUserID && currentLoginUserID === ownerUserID) {
+                receiverName = t('audience.giftToMe');
+            } else {
+                receiverName = giftLiveOwner?.userName || giftLiveOwner?.userID || '';
             }
-        };
-
-        addGiftListener('onReceiveGift', handleReceiveGift);
+            const giftTextContent = t('audience.giftTo', { receiver: receiverName, gift: combo.gift.name || '', count: combo.count });
+
+            const giftMessage = {
+                sender: combo.sender,
+                gift: combo.gift,
+                count: combo.count,
+                textContent: giftTextContent,
+                messageID: `gift_${combo.comboID}`,
+                timestamp: combo.updatedAt,
+            };
+            appendLocalTip({
+                liveID: liveID,
+                message: giftMessage as any,
+                onError: (error) => {
+                    console.error('[LiveAudiencePage] 添加礼物消息到弹幕列表失败:', error);
+                },
+            });
+        });
 
         return () => {
-            removeGiftListener('onReceiveGift');
+            removeComboListener();
+            releaseCombos();
         };
-    }, [liveID, addGiftListener, removeGiftListener, appendLocalTip, currentLive?.liveOwner, loginUserInfo?.userID]);
+    }, [liveID, appendLocalTip, currentLive?.liveOwner, loginUserInfo?.userID]);
 
     const showNetworkQualityPanel = () => {
         setIsShowNetworkQualityPanel(true);
@@ -472,8 +408,20 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
         setIsShowGiftPicker(true);
     };
 
+    // 打开宿主 App 的充值流程，未接入钱包充值时提示功能开发中
+    const handleRecharge = useCallback(async () => {
+        try {
+            const supported = await rechargeGiftBalance();
+            if (!supported) {
+                showToast(t('audience.rechargeDeveloping'), 2000);
+            }
+        } catch (error) {
+            console.error('[LiveAudiencePage] 充值失败:', error);
+        }
+    }, [t]);
+
     const handleGiftSelect = useCallback(
-        (gift: GiftParam) => {
+        (gift: GiftParam, count: number = 1) => {
             if (!gift.giftID) {
                 console.error('[LiveAudiencePage] 礼物 ID 不能为空');
                 return;
@@ -482,11 +430,16 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
             sendGift({
                 liveID,
                 giftID: String(gift.giftID),
-                count: 1,
+                count,
                 onSuccess: () => {
-                    console.log('[LiveAudiencePage] 礼物发送成功:', gift.giftID);
+                    console.log('[LiveAudiencePage] 礼物发送成功:', gift.giftID, count);
                 },
                 onError: (error) => {
+                    if (error instanceof InsufficientBalanceError) {
+                        showToast(t('audience.insufficientBalance'), 2000);
+                        handleRecharge();
+                        return;
+                    }
                     console.error('[LiveAudiencePage] 礼物发送失败:', error);
                     const errorMessage = typeof error === 'string' ? error : error.message;
                     showToast(t('audience.sendGiftFailed', { error: errorMessage }), 2000);
@@ -495,13 +448,9 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
 
             setIsShowGiftPicker(false);
         },
-        [liveID, sendGift]
+        [liveID, sendGift, handleRecharge]
     );
 
-    const handleRecharge = useCallback(() => {
-        showToast(t('audience.rechargeDeveloping'), 2000);
-    }, [t]);
-
     const handleCoGuestButtonClick = () => {
         if (shouldDisableCoGuestButton) {
             return;
@@ -753,12 +702,17 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
                                 <Text style={styles.liveTimer}>{liveDurationText}</Text>
                             </TouchableOpacity>
 
+                            {hostConnected.length > 0 && (
+                                <BattleOverlay
+                                    liveID={liveID}
+                                    style={{ top: safeAreaInsets.top + 100 }}
+                                />
+                            )}
+
                             <BarrageList
                                 mode="audience"
                                 bottomPx={bottomSafeArea}
                                 liveID={liveID}
-                                toast={giftToast}
-                                onToastClosed={() => setGiftToast(null)}
                             />
 
                             <LiveAudienceList
@@ -904,16 +858,7 @@ export function LiveAudiencePage({ liveID, onBack }: LiveAudiencePageProps) {
                                 onRecharge={handleRecharge}
                             />
 
-                            {showSVGA && (
-                                <SVGAAnimationView
-                                    ref={svgaRef}
-                                    style={styles.svgaAnimationView}
-                                    onFinished={() => {
-                                        console.log('[LiveAudiencePage] SVGA animation finished');
-                                        setShowSVGA(false);
-                                    }}
-                                />
-                            )}
+                            <GiftEffectPlayer ref={giftEffectRef} style={styles.svgaAnimationView} />
 
                             {isKeyboardVisible && (
                                 <TouchableWithoutFeedback
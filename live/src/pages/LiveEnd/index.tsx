@@ -10,9 +10,18 @@ import {
     TouchableOpacity,
     Image,
     Dimensions,
+    Share,
 } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useTranslation } from 'react-native-tuikit-atomic-x';
+import {
+    useTranslation,
+    loadTranscript,
+    exportTranscript,
+    showToast,
+    useGiftLeaderboard,
+    DEFAULT_AVATAR_URL,
+} from 'react-native-tuikit-atomic-x';
+import type { TranscriptFormat, TranscriptRecord } from 'react-native-tuikit-atomic-x';
 
 declare const global: {
     summaryData?: any;
@@ -51,10 +60,57 @@ const formatDuration = (milliseconds?: number): string => {
     return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
 };
 
-export function LiveEndPage({ onBack, liveID: _liveID, summaryData: propsSummaryData }: LiveEndPageProps) {
+const TRANSCRIPT_FORMATS: Array<{ format: TranscriptFormat; labelKey: string }> = [
+    { format: 'json', labelKey: 'liveEnd.exportJson' },
+    { format: 'csv', labelKey: 'liveEnd.exportCsv' },
+    { format: 'text', labelKey: 'liveEnd.exportText' },
+];
+
+// 结束页展示的送礼排行人数
+const TOP_CONTRIBUTOR_COUNT = 3;
+
+export function LiveEndPage({ onBack, liveID, summaryData: propsSummaryData }: LiveEndPageProps) {
     const { t } = useTranslation();
     const safeAreaInsets = useSafeAreaInsets();
     const [summaryData, setSummaryData] = useState<SummaryData | null>(null);
+    const [transcript, setTranscript] = useState<TranscriptRecord | null>(null);
+    const [includeOffset, setIncludeOffset] = useState(true);
+    // 开播期间统计的送礼排行，直播结束后仍然保留
+    const { leaderboard } = useGiftLeaderboard(liveID ?? '');
+    const topContributors = useMemo(() => leaderboard.slice(0, TOP_CONTRIBUTOR_COUNT), [leaderboard]);
+
+    // 读取开播期间保存的直播记录
+    useEffect(() => {
+        if (!liveID) {
+            return undefined;
+        }
+        let cancelled = false;
+        loadTranscript(liveID)
+            .then((record) => {
+                if (!cancelled) {
+                    setTranscript(record ?? null);
+                }
+            })
+            .catch((error) => console.error('[LiveEndPage] 读取直播记录失败:', error));
+        return () => {
+            cancelled = true;
+        };
+    }, [liveID]);
+
+    const handleExport = async (format: TranscriptFormat) => {
+        if (!transcript) {
+            return;
+        }
+        try {
+            await Share.share({
+                title: `${transcript.liveID}.${format === 'text' ? 'txt' : format}`,
+                message: exportTranscript(transcript, { format, includeOffset }),
+            });
+        } catch (error) {
+            console.error('[LiveEndPage] 导出直播记录失败:', error);
+            showToast(t('liveEnd.exportFailed'), 2000);
+        }
+    };
 
     useEffect(() => {
         let sourceData = null;
@@ -158,6 +214,54 @@ export function LiveEndPage({ onBack, liveID: _liveID, summaryData: propsSummary
                     </View>
                 </View>
             )}
+
+            {topContributors.length > 0 && (
+                <View style={styles.transcriptCard}>
+                    <Text style={styles.transcriptTitle}>{t('liveEnd.topContributors')}</Text>
+                    {topContributors.map((contributor, index) => (
+                        <View key={contributor.userID} style={styles.contributorRow}>
+                            <Text style={styles.contributorRank}>{index + 1}</Text>
+                            <Image
+                                source={{ uri: contributor.avatarURL || DEFAULT_AVATAR_URL }}
+                                style={styles.contributorAvatar}
+                            />
+                            <Text style={styles.contributorName} numberOfLines={1}>
+                                {contributor.userName || contributor.userID}
+                            </Text>
+                            <Text style={styles.contributorCoins}>
+                                {t('giftRanking.coins', { coins: contributor.totalCoins })}
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+
+            {transcript && transcript.entries.length > 0 && (
+                <View style={styles.transcriptCard}>
+                    <Text style={styles.transcriptTitle}>
+                        {t('liveEnd.transcript', { count: transcript.entries.length })}
+                    </Text>
+                    <View style={styles.transcriptActions}>
+                        {TRANSCRIPT_FORMATS.map(({ format, labelKey }) => (
+                            <TouchableOpacity
+                                key={format}
+                                style={styles.exportBtn}
+                                onPress={() => handleExport(format)}
+                                activeOpacity={0.7}>
+                                <Text style={styles.exportBtnText}>{t(labelKey)}</Text>
+                            </TouchableOpacity>
+                        ))}
+                        <TouchableOpacity
+                            style={[styles.offsetToggle, includeOffset && styles.offsetToggleActive]}
+                            onPress={() => setIncludeOffset(!includeOffset)}
+                            activeOpacity={0.7}>
+                            <Text style={styles.exportBtnText}>
+                                {`${includeOffset ? '✓ ' : ''}${t('liveEnd.includeOffset')}`}
+                            </Text>
+                        </TouchableOpacity>
+                    </View>
+                </View>
+            )}
         </View>
     );
 }
@@ -234,5 +338,71 @@ const styles = StyleSheet.create({
         marginTop: 4,
         textAlign: 'center',
     },
+    transcriptCard: {
+        backgroundColor: 'rgba(43, 44, 48, 1)',
+        borderRadius: 12,
+        paddingVertical: 16,
+        paddingHorizontal: 16,
+        width: screenWidth * 0.93,
+        marginTop: 16,
+    },
+    transcriptTitle: {
+        color: '#fff',
+        fontSize: 14,
+        fontWeight: '600',
+    },
+    contributorRow: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    contributorRank: {
+        width: 20,
+        color: '#FFC53D',
+        fontSize: 14,
+        fontWeight: 'bold',
+    },
+    contributorAvatar: {
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        marginRight: 8,
+    },
+    contributorName: {
+        flex: 1,
+        color: '#fff',
+        fontSize: 14,
+    },
+    contributorCoins: {
+        color: '#FFC53D',
+        fontSize: 13,
+    },
+    transcriptActions: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        marginTop: 12,
+    },
+    exportBtn: {
+        backgroundColor: 'rgba(43, 106, 214, 1)',
+        borderRadius: 16,
+        paddingHorizontal: 14,
+        paddingVertical: 6,
+        marginRight: 8,
+    },
+    exportBtnText: {
+        color: '#fff',
+        fontSize: 12,
+    },
+    offsetToggle: {
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.3)',
+        paddingHorizontal: 12,
+        paddingVertical: 5,
+    },
+    offsetToggleActive: {
+        borderColor: 'rgba(43, 106, 214, 1)',
+    },
 });
 
@@ -0,0 +1,66 @@
+import {
+    AtomicXError,
+    AtomicXErrorCode,
+    installMockHybridBridge,
+    toAsyncAction,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import { callNativeAPI } from '../atomic-x/utils';
+
+type TakeSeatOptions = {
+    seatIndex: number;
+    onSuccess?: () => void;
+    onError?: (error: Error | string) => void;
+};
+
+// 与 State hooks 中 action 的写法保持一致
+const takeSeat = async (params: TakeSeatOptions): Promise<void> => {
+    const { onSuccess, onError, ...seatParams } = params;
+    const result = await callNativeAPI<void>('takeSeat', seatParams);
+    if (result.success) {
+        onSuccess?.();
+    } else {
+        onError?.(AtomicXError.fromResult('takeSeat', result, 'Take seat failed'));
+    }
+};
+
+describe('AtomicXError', () => {
+    beforeEach(async () => {
+        installMockHybridBridge({ loginUser: { userID: 'anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: 'live_error' } });
+    });
+
+    afterEach(() => {
+        uninstallMockHybridBridge();
+    });
+
+    it('maps SDK error codes to categories', () => {
+        const error = new AtomicXError('takeSeat', AtomicXErrorCode.SEAT_OCCUPIED, 'Seat is occupied');
+
+        expect(error).toBeInstanceOf(Error);
+        expect(error).toBeInstanceOf(AtomicXError);
+        expect(error.category).toBe('SEAT');
+        expect(new AtomicXError('login', AtomicXErrorCode.NOT_LOGGED_IN, '').category).toBe('NOT_LOGGED_IN');
+        expect(new AtomicXError('login', 123456, '').category).toBe('UNKNOWN');
+    });
+
+    it('rejects the async variant with a structured error', async () => {
+        const takeSeatAsync = toAsyncAction(takeSeat, 'takeSeat');
+
+        await expect(takeSeatAsync({ seatIndex: 0 })).rejects.toMatchObject({
+            api: 'takeSeat',
+            code: AtomicXErrorCode.SEAT_OCCUPIED,
+            category: 'SEAT',
+        });
+        await expect(takeSeatAsync({ seatIndex: 1 })).resolves.toBeUndefined();
+    });
+
+    it('wraps thrown errors with the api name', () => {
+        const error = AtomicXError.from('sendGift', new Error('boom'));
+
+        expect(error.api).toBe('sendGift');
+        expect(error.code).toBe(AtomicXErrorCode.FAILED);
+        expect(error.message).toBe('boom');
+        expect(AtomicXError.from('sendGift', error)).toBe(error);
+    });
+});
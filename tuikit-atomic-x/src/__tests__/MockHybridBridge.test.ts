@@ -0,0 +1,172 @@
+import {
+    addListener,
+    AtomicXErrorCode,
+    createListenerGroup,
+    getListenerCount,
+    installMockHybridBridge,
+    MockHybridBridge,
+    removeListener,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import { callNativeAPI, createDecodedListener } from '../atomic-x/utils';
+import type { ReceiveGiftEvent } from '../atomic-x';
+
+const LIVE_ID = 'live_mock';
+
+const createKey = (store: string, name: string, roomID: string | null = LIVE_ID, listenerID: string | null = null) =>
+    JSON.stringify({ type: 'state', store, name, roomID, listenerID });
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('MockHybridBridge', () => {
+    let bridge: MockHybridBridge;
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Mock' } });
+    });
+
+    afterEach(() => {
+        uninstallMockHybridBridge();
+    });
+
+    it('pushes the current state when a listener is registered', async () => {
+        const received: unknown[] = [];
+        const subscription = addListener(createKey('LiveSeatStore', 'seatList'), (event) => received.push(event));
+        await flushMicrotasks();
+
+        expect(received).toHaveLength(1);
+        const seatList = JSON.parse((received[0] as { seatList: string }).seatList);
+        expect(seatList[0].userInfo.userID).toBe('anchor');
+        subscription?.remove();
+    });
+
+    it('emits messageList updates for sent and received barrage', async () => {
+        const lists: any[] = [];
+        const subscription = addListener(createKey('BarrageStore', 'messageList'), (event) => lists.push(JSON.parse(event.messageList)));
+        await flushMicrotasks();
+
+        const result = await callNativeAPI('sendTextMessage', { liveID: LIVE_ID, text: 'hello' });
+        bridge.receiveBarrage(LIVE_ID, 'hi', { userID: 'viewer', userName: 'Viewer' });
+
+        expect(result.success).toBe(true);
+        const latest = lists[lists.length - 1];
+        expect(latest.map((item: any) => item.text)).toEqual(['hello', 'hi']);
+        expect(latest[1].sender.userID).toBe('viewer');
+        subscription?.remove();
+    });
+
+    it('reports an error code when the API fails', async () => {
+        bridge.getRoom(LIVE_ID)!.allowSendMessage = false;
+        const result = await callNativeAPI('sendTextMessage', { liveID: LIVE_ID, text: 'blocked' });
+
+        expect(result.success).toBe(false);
+        expect(result.code).toBe(AtomicXErrorCode.SEND_MESSAGE_DISABLED_FOR_ALL);
+    });
+
+    it('emits onReceiveGift with JSON encoded gift and sender', async () => {
+        const events: any[] = [];
+        const subscription = addListener(createKey('GiftStore', 'onReceiveGift'), (event) => events.push(event));
+
+        await callNativeAPI('sendGift', { liveID: LIVE_ID, giftID: 'rocket', count: 2 });
+
+        expect(events).toHaveLength(1);
+        expect(JSON.parse(events[0].gift).giftID).toBe('rocket');
+        expect(JSON.parse(events[0].sender).userID).toBe('anchor');
+        expect(events[0].count).toBe(2);
+        subscription?.remove();
+    });
+
+    it('fans out one native registration to every JS listener', async () => {
+        const key = createKey('LikeStore', 'totalLikeCount');
+        const first = jest.fn();
+        const second = jest.fn();
+        const firstSubscription = addListener(key, first);
+        const secondSubscription = addListener(key, second);
+        await flushMicrotasks();
+        first.mockClear();
+        second.mockClear();
+
+        bridge.receiveLike(LIVE_ID, 3, { userID: 'viewer' });
+        expect(first).toHaveBeenCalledWith({ totalLikeCount: 3 });
+        expect(second).toHaveBeenCalledWith({ totalLikeCount: 3 });
+
+        firstSubscription?.remove();
+        bridge.receiveLike(LIVE_ID, 1, { userID: 'viewer' });
+        expect(first).toHaveBeenCalledTimes(1);
+        expect(second).toHaveBeenCalledTimes(2);
+        expect(getListenerCount(key)).toBe(1);
+
+        secondSubscription?.remove();
+        expect(getListenerCount(key)).toBe(0);
+    });
+
+    it('removes one registration of a listener subscribed twice', () => {
+        const key = createKey('LikeStore', 'totalLikeCount');
+        const listener = jest.fn();
+        addListener(key, listener);
+        addListener(key, listener);
+        expect(getListenerCount(key)).toBe(2);
+
+        removeListener(key, listener);
+        expect(getListenerCount(key)).toBe(1);
+        removeListener(key, listener);
+        expect(getListenerCount(key)).toBe(0);
+    });
+
+    it('only removes the subscriptions of the same listener group', () => {
+        const key = createKey('GiftStore', 'onReceiveGift');
+        const mine = createListenerGroup();
+        const theirs = createListenerGroup();
+        const listener = jest.fn();
+        mine.add(key, listener);
+        mine.add(key, listener);
+        const subscription = theirs.add(key, listener);
+        expect(getListenerCount(key)).toBe(3);
+
+        mine.remove(key);
+        expect(getListenerCount(key)).toBe(1);
+
+        subscription?.remove();
+        theirs.remove(key);
+        expect(getListenerCount(key)).toBe(0);
+    });
+
+    it('keeps listeners across reinstalling the bridge', async () => {
+        const key = createKey('LikeStore', 'totalLikeCount');
+        const listener = jest.fn();
+        const subscription = addListener(key, listener);
+
+        uninstallMockHybridBridge();
+        expect(getListenerCount(key)).toBe(1);
+
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Mock' } });
+        listener.mockClear();
+        bridge.receiveLike(LIVE_ID, 2, { userID: 'viewer' });
+        expect(listener).toHaveBeenCalled();
+
+        subscription?.remove();
+        expect(getListenerCount(key)).toBe(0);
+    });
+
+    it('decodes JSON encoded event fields once for every listener', async () => {
+        const key = createKey('GiftStore', 'onReceiveGift');
+        const events: ReceiveGiftEvent[] = [];
+        const listener = (event: ReceiveGiftEvent) => events.push(event);
+        const subscriptions = [
+            addListener(key, createDecodedListener(listener)),
+            addListener(key, createDecodedListener((event: ReceiveGiftEvent) => events.push(event))),
+        ];
+
+        await callNativeAPI('sendGift', { liveID: LIVE_ID, giftID: 'rose', count: 1 });
+
+        const [first, second] = events;
+        expect(events).toHaveLength(2);
+        expect(first).toBe(second);
+        expect(first?.gift.giftID).toBe('rose');
+        expect(first?.sender.userID).toBe('anchor');
+        expect(createDecodedListener(listener)).toBe(createDecodedListener(listener));
+        subscriptions.forEach((subscription) => subscription?.remove());
+    });
+});
@@ -0,0 +1,65 @@
+import { installMockHybridBridge, uninstallMockHybridBridge } from '../atomic-x';
+import {
+    clearBarrageMessageCodecs,
+    encodeBarragePayload,
+    getBarragePayload,
+    registerBarrageMessageCodec,
+} from '../atomic-x/state/BarrageState/codecs';
+import { barrageStore } from '../atomic-x/state/BarrageState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_codecs';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+interface Poll {
+    question: string;
+    options: string[];
+}
+
+const pollCodec = {
+    businessID: 'poll',
+    encode: (poll: Poll) => JSON.stringify(poll),
+    decode: (data: string) => JSON.parse(data) as Poll,
+};
+
+describe('barrage message codecs', () => {
+    let release: () => void;
+
+    beforeEach(async () => {
+        installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Codecs' } });
+        release = barrageStore.retain(LIVE_ID);
+        await flushMicrotasks();
+    });
+
+    afterEach(() => {
+        release();
+        uninstallMockHybridBridge();
+        clearBarrageMessageCodecs();
+    });
+
+    it('decodes registered custom messages before they reach messageList', async () => {
+        registerBarrageMessageCodec(pollCodec);
+        const poll = { question: 'Next song?', options: ['A', 'B'] };
+
+        await callNativeAPI('sendCustomMessage', { liveID: LIVE_ID, businessID: 'poll', data: encodeBarragePayload('poll', poll) });
+        await callNativeAPI('sendCustomMessage', { liveID: LIVE_ID, businessID: 'poll', data: 'not json' });
+
+        const [decoded, broken] = barrageStore.getState(LIVE_ID).messageList;
+        expect(decoded!.payload).toEqual(poll);
+        expect(getBarragePayload<Poll>(decoded!, 'poll')).toEqual(poll);
+        expect(getBarragePayload(decoded!, 'product')).toBeUndefined();
+        expect(broken!.payload).toBeUndefined();
+    });
+
+    it('decodes lazily when the codec is registered after the message arrived', async () => {
+        await callNativeAPI('sendCustomMessage', { liveID: LIVE_ID, businessID: 'poll', data: '{"question":"Q","options":[]}' });
+        const message = barrageStore.getState(LIVE_ID).messageList[0]!;
+        expect(message.payload).toBeUndefined();
+        expect(() => encodeBarragePayload('poll', {})).toThrow();
+
+        registerBarrageMessageCodec(pollCodec);
+        expect(getBarragePayload<Poll>(message, 'poll')).toEqual({ question: 'Q', options: [] });
+    });
+});
@@ -0,0 +1,45 @@
+import {
+    encodeBarrageSticker,
+    getBarrageSticker,
+    insertEmoji,
+    parseBarrageTokens,
+    registerBarrageEmojiPack,
+    resetBarrageEmojiPacks,
+    STICKER_BUSINESS_ID,
+} from '../atomic-x/state/BarrageState/emoji';
+
+describe('barrage emoji', () => {
+    afterEach(() => {
+        resetBarrageEmojiPacks();
+    });
+
+    it('splits text into emoji tokens and keeps unknown shortcodes as text', () => {
+        expect(parseBarrageTokens('hi[smile][nope]!')).toEqual([
+            { type: 'text', text: 'hi' },
+            { type: 'emoji', key: 'smile', emoji: { key: 'smile', text: '😄' } },
+            { type: 'text', text: '[nope]!' },
+        ]);
+        expect(insertEmoji('ab', 1, 'fire')).toEqual({ text: 'a[fire]b', cursor: 7 });
+    });
+
+    it('lets host packs add and override shortcodes', () => {
+        const unregister = registerBarrageEmojiPack({
+            packID: 'custom',
+            type: 'emoji',
+            emojis: [{ key: 'smile', source: { uri: 'https://example.com/smile.png' } }],
+        });
+        expect(parseBarrageTokens('[smile]')[0]).toMatchObject({ emoji: { source: { uri: 'https://example.com/smile.png' } } });
+
+        unregister();
+        expect(parseBarrageTokens('[smile]')[0]).toMatchObject({ emoji: { text: '😄' } });
+    });
+
+    it('decodes sticker messages only for registered sticker packs', () => {
+        const message = { businessID: STICKER_BUSINESS_ID, data: encodeBarrageSticker('bunny', 'hi') };
+        expect(getBarrageSticker(message)).toBeUndefined();
+
+        registerBarrageEmojiPack({ packID: 'bunny', type: 'sticker', emojis: [{ key: 'hi', source: 1 }] });
+        expect(getBarrageSticker(message)).toEqual({ packID: 'bunny', key: 'hi', emoji: { key: 'hi', source: 1 } });
+        expect(getBarrageSticker({ businessID: 'other', data: message.data })).toBeUndefined();
+    });
+});
@@ -0,0 +1,73 @@
+import {
+    getBarrageFloodControl,
+    installMockHybridBridge,
+    MockHybridBridge,
+    setBarrageFloodControl,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import { checkSendThrottle, clearSendRecords, recordSend } from '../atomic-x/state/BarrageState/floodControl';
+import { barrageStore } from '../atomic-x/state/BarrageState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_flood';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('barrage flood control', () => {
+    const defaults = getBarrageFloodControl();
+
+    afterEach(() => {
+        setBarrageFloodControl(defaults);
+        clearSendRecords(LIVE_ID);
+    });
+
+    it('enforces a per-user cooldown and suppresses duplicate text', () => {
+        setBarrageFloodControl({ cooldownMs: 1000, duplicateWindowMs: 5000 });
+        expect(recordSend(LIVE_ID, 'viewer', 'Hello  World', 0)).toBe(1000);
+
+        expect(checkSendThrottle(LIVE_ID, 'viewer', 'other', 400)).toEqual({ allowed: false, reason: 'COOLDOWN', retryAfterMs: 600 });
+        expect(checkSendThrottle(LIVE_ID, 'another', 'other', 400)).toEqual({ allowed: true });
+        expect(checkSendThrottle(LIVE_ID, 'viewer', 'hello world', 2000)).toEqual({ allowed: false, reason: 'DUPLICATE', retryAfterMs: 3000 });
+        expect(checkSendThrottle(LIVE_ID, 'viewer', 'other', 2000)).toEqual({ allowed: true });
+        expect(checkSendThrottle(LIVE_ID, 'viewer', 'hello world', 6000)).toEqual({ allowed: true });
+    });
+
+    describe('collapsing mode', () => {
+        let bridge: MockHybridBridge;
+        let release: () => void;
+
+        beforeEach(async () => {
+            bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+            await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Flood' } });
+            release = barrageStore.retain(LIVE_ID);
+            await flushMicrotasks();
+        });
+
+        afterEach(() => {
+            release();
+            uninstallMockHybridBridge();
+        });
+
+        it('merges repeated identical messages into one entry with a counter', () => {
+            setBarrageFloodControl({ collapseRepeated: true, collapseLookback: 2 });
+
+            bridge.receiveBarrage(LIVE_ID, '666', { userID: 'a' });
+            bridge.receiveBarrage(LIVE_ID, 'hi', { userID: 'b' });
+            bridge.receiveBarrage(LIVE_ID, '666', { userID: 'c' });
+            bridge.receiveBarrage(LIVE_ID, '666 ', { userID: 'd' });
+
+            const messageList = barrageStore.getState(LIVE_ID).messageList;
+            expect(messageList.map((message) => [message.text, message.repeatCount])).toEqual([
+                ['hi', undefined],
+                ['666', 3],
+            ]);
+        });
+
+        it('keeps every message when collapsing is off', () => {
+            bridge.receiveBarrage(LIVE_ID, '666', { userID: 'a' });
+            bridge.receiveBarrage(LIVE_ID, '666', { userID: 'b' });
+
+            expect(barrageStore.getState(LIVE_ID).messageList).toHaveLength(2);
+        });
+    });
+});
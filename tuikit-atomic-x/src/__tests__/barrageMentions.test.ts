@@ -0,0 +1,85 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    createBarrageReplyInfo,
+    encodeBarrageExtensions,
+    getBarrageMentions,
+    getBarrageReply,
+    getMentionQuery,
+    insertMention,
+    isBarrageMentioned,
+} from '../atomic-x/state/BarrageState/mentions';
+import { barrageStore } from '../atomic-x/state/BarrageState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_mentions';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('barrage mentions and replies', () => {
+    it('completes the @ query before the cursor', () => {
+        expect(getMentionQuery('hi @to', 6)).toBe('to');
+        expect(getMentionQuery('hi @', 4)).toBe('');
+        expect(getMentionQuery('mail a@b', 8)).toBeNull();
+        expect(getMentionQuery('@tom done', 9)).toBeNull();
+
+        expect(insertMention('hi @to!', 6, { userID: 'u1', userName: 'Tom' })).toEqual({ text: 'hi @Tom !', cursor: 8 });
+    });
+
+    it('only encodes mentions that are still present in the text', () => {
+        const mentions = [
+            { userID: 'u1', userName: 'Tom' },
+            { userID: 'u1', userName: 'Tom' },
+            { userID: 'u2', userName: 'Jerry' },
+        ];
+        const extensionInfo = encodeBarrageExtensions('@Tom hello', mentions, { messageID: 'm1', senderID: 'u3' });
+
+        const message = { messageID: 'm2', text: '@Tom hello', extensionInfo };
+        expect(getBarrageMentions(message)).toEqual([{ userID: 'u1', userName: 'Tom' }]);
+        expect(getBarrageReply(message)).toEqual({ messageID: 'm1', senderID: 'u3' });
+        expect(isBarrageMentioned(message, 'u1')).toBe(true);
+        expect(isBarrageMentioned(message, 'u3')).toBe(true);
+        expect(isBarrageMentioned(message, 'u2')).toBe(false);
+    });
+
+    describe('with the mock bridge', () => {
+        let bridge: MockHybridBridge;
+        let release: () => void;
+
+        beforeEach(async () => {
+            bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+            await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Mentions' } });
+            release = barrageStore.retain(LIVE_ID);
+            await flushMicrotasks();
+        });
+
+        afterEach(() => {
+            release();
+            uninstallMockHybridBridge();
+        });
+
+        it('carries reply metadata through message extensions', async () => {
+            bridge.receiveBarrage(LIVE_ID, 'first question', { userID: 'viewer', userName: 'Viewer' });
+            const original = barrageStore.getState(LIVE_ID).messageList[0]!;
+            const replyTo = createBarrageReplyInfo(original);
+
+            await callNativeAPI('sendTextMessage', {
+                liveID: LIVE_ID,
+                text: '@Viewer answer',
+                extensionInfo: encodeBarrageExtensions('@Viewer answer', [{ userID: 'viewer', userName: 'Viewer' }], replyTo),
+            });
+
+            const sent = barrageStore.getState(LIVE_ID).messageList[1]!;
+            expect(getBarrageReply(sent)).toEqual({
+                messageID: original.messageID,
+                senderID: 'viewer',
+                senderName: 'Viewer',
+                text: 'first question',
+            });
+            expect(isBarrageMentioned(sent, 'viewer')).toBe(true);
+        });
+    });
+});
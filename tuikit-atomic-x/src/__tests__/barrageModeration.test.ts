@@ -0,0 +1,94 @@
+import {
+    addBarrageModerationListener,
+    clearBarrageFilters,
+    createContactFilter,
+    createLocalMuteFilter,
+    createRegexFilter,
+    createSensitiveWordFilter,
+    installMockHybridBridge,
+    MockHybridBridge,
+    registerBarrageFilter,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import type { BarrageModerationResult } from '../atomic-x';
+import { moderateBarrage } from '../atomic-x/state/BarrageState/moderation';
+import { barrageStore } from '../atomic-x/state/BarrageState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_moderation';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('barrage moderation', () => {
+    afterEach(() => {
+        clearBarrageFilters();
+    });
+
+    it('masks sensitive words and blocks links and phone numbers before sending', () => {
+        registerBarrageFilter(createSensitiveWordFilter({ words: ['spam'] }));
+        registerBarrageFilter(createContactFilter({ stages: ['outgoing'] }));
+
+        const masked = moderateBarrage('outgoing', LIVE_ID, { text: 'no SPAM here' });
+        expect(masked.allowed).toBe(true);
+        expect(masked.text).toBe('no **** here');
+        expect(masked.flags).toEqual([{ filter: 'sensitiveWord', reason: 'SENSITIVE_WORD' }]);
+
+        expect(moderateBarrage('outgoing', LIVE_ID, { text: 'visit https://example.com' }).reason).toBe('LINK');
+        expect(moderateBarrage('outgoing', LIVE_ID, { text: 'call 138 0013 8000' }).reason).toBe('PHONE_NUMBER');
+        expect(moderateBarrage('incoming', LIVE_ID, { text: 'www.example.com', userID: 'viewer' }).allowed).toBe(true);
+    });
+
+    it('applies regex rules in order and reports results to listeners', () => {
+        const results: BarrageModerationResult[] = [];
+        const unsubscribe = addBarrageModerationListener((result) => results.push(result));
+        registerBarrageFilter(createRegexFilter({
+            rules: [
+                { pattern: /\bqq\b/gi, action: 'rewrite', replacement: '--' },
+                { pattern: /refund/i, action: 'flag', reason: 'REFUND' },
+                { pattern: /^!+$/, action: 'reject' },
+            ],
+        }));
+
+        const result = moderateBarrage('outgoing', LIVE_ID, { text: 'qq me about a refund' });
+        expect(result.text).toBe('-- me about a refund');
+        expect(result.flags).toEqual([{ filter: 'regex', reason: 'REFUND' }]);
+        expect(moderateBarrage('outgoing', LIVE_ID, { text: '!!!' }).rejectedBy).toBe('regex');
+        expect(moderateBarrage('outgoing', LIVE_ID, { text: 'hello' }).allowed).toBe(true);
+
+        unsubscribe();
+        expect(results).toHaveLength(2);
+    });
+
+    describe('incoming messages', () => {
+        let bridge: MockHybridBridge;
+        let release: () => void;
+
+        beforeEach(async () => {
+            bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+            await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Moderation' } });
+            release = barrageStore.retain(LIVE_ID);
+            await flushMicrotasks();
+        });
+
+        afterEach(() => {
+            release();
+            uninstallMockHybridBridge();
+        });
+
+        it('hides locally muted users and rewrites received text before rendering', () => {
+            const muteFilter = createLocalMuteFilter();
+            registerBarrageFilter(muteFilter);
+            registerBarrageFilter(createSensitiveWordFilter({ words: ['spam'], stages: ['incoming'] }));
+            muteFilter.mute('troll');
+
+            bridge.receiveBarrage(LIVE_ID, 'first', { userID: 'troll' });
+            bridge.receiveBarrage(LIVE_ID, 'spam again', { userID: 'viewer' });
+            muteFilter.unmute('troll');
+            bridge.receiveBarrage(LIVE_ID, 'sorry', { userID: 'troll' });
+
+            const messageList = barrageStore.getState(LIVE_ID).messageList;
+            expect(messageList.map((message) => message.text)).toEqual(['**** again', 'sorry']);
+            expect(messageList[0]?.moderationFlags).toEqual([{ filter: 'sensitiveWord', reason: 'SENSITIVE_WORD' }]);
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import { installMockHybridBridge, MockHybridBridge, uninstallMockHybridBridge } from '../atomic-x';
+import { canPinMessage, encodePinAction, isLiveAdministrator, PIN_BUSINESS_ID } from '../atomic-x/state/BarrageState/pin';
+import { retainPinnedMessage, savePinnedMessage } from '../atomic-x/state/BarrageState/pinSync';
+import { barrageStore } from '../atomic-x/state/BarrageState/store';
+import { liveAudienceStore } from '../atomic-x/state/LiveAudienceState/store';
+import { LiveUserRole } from '../atomic-x/state/LiveAudienceState/types';
+import { liveListStore } from '../atomic-x/state/LiveListState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_pin';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+const pinned = (messageID: string, text: string) => ({ messageID, text, pinnedBy: '', pinnedAt: 1 });
+
+describe('barrage pinning', () => {
+    let bridge: MockHybridBridge;
+    const releases: Array<() => void> = [];
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        releases.push(liveListStore.retain(), liveAudienceStore.retain(LIVE_ID), barrageStore.retain(LIVE_ID));
+        await flushMicrotasks();
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Pin' } });
+        bridge.joinAudience(LIVE_ID, { userID: 'viewer', userName: 'Viewer' });
+        bridge.joinAudience(LIVE_ID, { userID: 'admin', userName: 'Admin' });
+    });
+
+    afterEach(() => {
+        releases.splice(0).forEach((release) => release());
+        uninstallMockHybridBridge();
+    });
+
+    it('only accepts pin messages from the owner and administrators', async () => {
+        expect(canPinMessage(LIVE_ID, 'anchor')).toBe(true);
+        expect(canPinMessage(LIVE_ID, 'admin')).toBe(false);
+
+        bridge.receiveCustomMessage(LIVE_ID, PIN_BUSINESS_ID, encodePinAction(pinned('m1', 'spoofed')), { userID: 'viewer' });
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toBeNull();
+
+        await callNativeAPI('setAdministrator', { liveID: LIVE_ID, userID: 'admin' });
+        expect(liveAudienceStore.getState(LIVE_ID).audienceList.find((user) => user.userID === 'admin')?.role).toBe(LiveUserRole.ADMINISTRATOR);
+        expect(canPinMessage(LIVE_ID, 'admin')).toBe(true);
+        bridge.receiveCustomMessage(LIVE_ID, PIN_BUSINESS_ID, encodePinAction(pinned('m2', 'welcome')), { userID: 'admin' });
+
+        const state = barrageStore.getState(LIVE_ID);
+        expect(state.pinnedMessage).toMatchObject({ messageID: 'm2', text: 'welcome', pinnedBy: 'admin' });
+        expect(state.messageList.some((message) => message.businessID === PIN_BUSINESS_ID)).toBe(false);
+    });
+
+    it('clears the pinned message on unpin', async () => {
+        await callNativeAPI('sendCustomMessage', { liveID: LIVE_ID, businessID: PIN_BUSINESS_ID, data: encodePinAction(pinned('m1', 'hi')) });
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toMatchObject({ messageID: 'm1', pinnedBy: 'anchor' });
+
+        await callNativeAPI('sendCustomMessage', { liveID: LIVE_ID, businessID: PIN_BUSINESS_ID, data: encodePinAction(null) });
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toBeNull();
+    });
+
+    it('only treats the administrator role as an administrator', () => {
+        const audienceList = [
+            { userID: 'owner', role: LiveUserRole.OWNER },
+            { userID: 'admin', role: LiveUserRole.ADMINISTRATOR },
+            { userID: 'viewer', role: LiveUserRole.GENERAL_USER },
+        ];
+        expect(isLiveAdministrator('admin', audienceList)).toBe(true);
+        expect(isLiveAdministrator('viewer', audienceList)).toBe(false);
+        expect(isLiveAdministrator('owner', audienceList)).toBe(false);
+        expect(isLiveAdministrator(undefined, audienceList)).toBe(false);
+    });
+
+    it('restores the current pin from the room metadata for late joiners', async () => {
+        await savePinnedMessage(LIVE_ID, pinned('m1', 'welcome'));
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toBeNull();
+
+        // 晚进房的观众收不到置顶消息，只能从 metaData 恢复
+        releases.push(retainPinnedMessage(LIVE_ID));
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toMatchObject({ messageID: 'm1', text: 'welcome' });
+
+        await savePinnedMessage(LIVE_ID, null);
+        expect(barrageStore.getState(LIVE_ID).pinnedMessage).toBeNull();
+    });
+
+    it('rejects with an AtomicXError when saving the pin fails', async () => {
+        bridge.setHandler('updateLiveInfo', () => {
+            throw new Error('network');
+        });
+        await expect(savePinnedMessage(LIVE_ID, pinned('m1', 'hi'))).rejects.toMatchObject({ api: 'updateLiveInfo' });
+    });
+});
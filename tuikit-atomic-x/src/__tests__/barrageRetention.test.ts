@@ -0,0 +1,129 @@
+import {
+    AtomicXErrorCode,
+    getBarrageRetention,
+    installMockHybridBridge,
+    loadEarlierBarrageMessages,
+    MockBridgeError,
+    MockHybridBridge,
+    RingBuffer,
+    setBarrageRetention,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    barrageStore,
+    collapseEarlierMessages,
+    prependEarlierMessages,
+    takeEarlierMessages,
+} from '../atomic-x/state/BarrageState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_barrage';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+const texts = () => barrageStore.getState(LIVE_ID).messageList.map((message) => message.text);
+
+describe('barrage retention window', () => {
+    const defaults = getBarrageRetention();
+    let bridge: MockHybridBridge;
+    let release: () => void;
+
+    beforeEach(async () => {
+        setBarrageRetention({ windowSize: 3, historyCapacity: 2 });
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Barrage' } });
+        release = barrageStore.retain(LIVE_ID);
+        await flushMicrotasks();
+    });
+
+    afterEach(() => {
+        release();
+        uninstallMockHybridBridge();
+        setBarrageRetention(defaults);
+    });
+
+    const receive = (...items: string[]) => {
+        items.forEach((text) => bridge.receiveBarrage(LIVE_ID, text, { userID: 'viewer' }));
+    };
+
+    it('keeps the newest messages and moves older ones into the history buffer', () => {
+        receive('1', '2', '3', '4', '5', '6');
+
+        expect(texts()).toEqual(['4', '5', '6']);
+        expect(barrageStore.getState(LIVE_ID).hasEarlierMessages).toBe(true);
+        // 缓冲区容量为 2，最早的消息已被丢弃
+        expect(takeEarlierMessages(LIVE_ID, 5).map((message) => message.text)).toEqual(['2', '3']);
+    });
+
+    it('does not trim restored history until it is collapsed', () => {
+        receive('1', '2', '3', '4', '5');
+        prependEarlierMessages(LIVE_ID, takeEarlierMessages(LIVE_ID, 1));
+        receive('6');
+        expect(texts()).toEqual(['2', '3', '4', '5', '6']);
+
+        collapseEarlierMessages(LIVE_ID);
+        expect(texts()).toEqual(['4', '5', '6']);
+        expect(takeEarlierMessages(LIVE_ID, 5).map((message) => message.text)).toEqual(['2', '3']);
+    });
+
+    it('pages native history before the oldest known message', async () => {
+        receive('1', '2', '3', '4');
+        const result = await callNativeAPI<{ messageList: Array<{ text: string }>; hasMore: boolean }>('loadEarlierMessages', {
+            liveID: LIVE_ID,
+            count: 2,
+            beforeMessageID: barrageStore.getState(LIVE_ID).messageList[0]?.messageID,
+        });
+
+        expect(result.data?.messageList.map((message) => message.text)).toEqual(['1']);
+        expect(result.data?.hasMore).toBe(false);
+    });
+
+    it('stops asking native for history it does not support', async () => {
+        const handler = jest.fn(() => {
+            throw new MockBridgeError(AtomicXErrorCode.NOT_SUPPORT, 'not supported');
+        });
+        bridge.setHandler('loadEarlierMessages', handler);
+        receive('1', '2', '3', '4');
+
+        await expect(loadEarlierBarrageMessages(LIVE_ID, 2)).rejects.toMatchObject({ code: AtomicXErrorCode.NOT_SUPPORT });
+        // 已恢复的本地消息照常保留
+        expect(texts()).toEqual(['1', '2', '3', '4']);
+        expect(barrageStore.getState(LIVE_ID)).toMatchObject({ hasEarlierMessages: false, isLoadingEarlierMessages: false });
+
+        await expect(loadEarlierBarrageMessages(LIVE_ID, 2)).resolves.toEqual([]);
+        expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('backs off after a failure and gives up after repeated failures', async () => {
+        const handler = jest.fn(() => {
+            throw new Error('network');
+        });
+        bridge.setHandler('loadEarlierMessages', handler);
+        const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+        await expect(loadEarlierBarrageMessages(LIVE_ID)).rejects.toBeDefined();
+        await expect(loadEarlierBarrageMessages(LIVE_ID)).resolves.toEqual([]);
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(barrageStore.getState(LIVE_ID).hasEarlierMessages).toBe(true);
+
+        now.mockReturnValue(10000);
+        await expect(loadEarlierBarrageMessages(LIVE_ID)).rejects.toBeDefined();
+        now.mockReturnValue(100000);
+        await expect(loadEarlierBarrageMessages(LIVE_ID)).rejects.toBeDefined();
+        expect(handler).toHaveBeenCalledTimes(3);
+        expect(barrageStore.getState(LIVE_ID).hasEarlierMessages).toBe(false);
+        now.mockRestore();
+    });
+});
+
+describe('RingBuffer', () => {
+    it('drops the oldest items when full and pops the newest in order', () => {
+        const buffer = new RingBuffer<number>(3);
+        buffer.push(1, 2, 3, 4);
+
+        expect(buffer.size).toBe(3);
+        expect(buffer.popNewest(2)).toEqual([3, 4]);
+        expect(buffer.popNewest(5)).toEqual([2]);
+        expect(buffer.size).toBe(0);
+    });
+});
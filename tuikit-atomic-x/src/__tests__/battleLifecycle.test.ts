@@ -0,0 +1,104 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    clearBattleLifecycle,
+    computeBattleResult,
+    getLastBattleRequest,
+    retainBattleLifecycle,
+    setBattleLifecycleOptions,
+} from '../atomic-x/state/BattleState';
+import { recordBattleRequest } from '../atomic-x/state/BattleState/lifecycle';
+import { battleStore } from '../atomic-x/state/BattleState/store';
+
+const LIVE_ID = 'live_battle';
+const ANCHOR = { userID: 'anchor', nickname: 'Anchor' };
+const RIVAL = { userID: 'rival', nickname: 'Rival' };
+
+describe('battle lifecycle', () => {
+    let bridge: MockHybridBridge;
+    let release: () => void;
+
+    const status = () => battleStore.getState(LIVE_ID).battleStatus;
+
+    beforeEach(() => {
+        bridge = installMockHybridBridge({ loginUser: ANCHOR });
+        jest.useFakeTimers();
+        setBattleLifecycleOptions({ punishmentDuration: 30 });
+        release = retainBattleLifecycle(LIVE_ID);
+    });
+
+    afterEach(() => {
+        clearBattleLifecycle(LIVE_ID);
+        release();
+        jest.useRealTimers();
+        uninstallMockHybridBridge();
+    });
+
+    it('times out an unanswered request and remembers it for a rematch', () => {
+        const onTimeout = jest.fn();
+        recordBattleRequest(LIVE_ID, {
+            battleID: 'battle_1',
+            userIDList: ['rival'],
+            timeout: 10,
+            config: { duration: 180 },
+            onTimeout,
+        });
+        expect(status()).toBe('inviting');
+        expect(battleStore.getState(LIVE_ID).battleRequest).toMatchObject({ direction: 'outgoing', userIDList: ['rival'] });
+
+        jest.advanceTimersByTime(10000);
+        expect(status()).toBe('idle');
+        expect(battleStore.getState(LIVE_ID).battleRequest).toBeNull();
+        expect(onTimeout).toHaveBeenCalledWith('battle_1');
+        expect(getLastBattleRequest(LIVE_ID)).toEqual({ userIDList: ['rival'], timeout: 10, config: { duration: 180 } });
+    });
+
+    it('follows battle events through the battle and punishment period', () => {
+        recordBattleRequest(LIVE_ID, { battleID: 'battle_1', userIDList: ['rival'], timeout: 10 });
+        bridge.emit('BattleStore', 'onBattleRequestAccept', LIVE_ID, { battleID: 'battle_1', inviter: ANCHOR, invitee: RIVAL });
+        expect(status()).toBe('waiting');
+
+        bridge.emit('BattleStore', 'onBattleStarted', LIVE_ID, { battleInfo: { battleID: 'battle_1' }, inviter: ANCHOR, invitees: [RIVAL] });
+        expect(status()).toBe('inBattle');
+
+        battleStore.setState(LIVE_ID, {
+            battleUsers: [ANCHOR, RIVAL],
+            battleScore: new Map([['anchor', 520], ['rival', 30]]),
+        });
+        // the score may be cleared before the end event arrives
+        battleStore.setState(LIVE_ID, { battleScore: null });
+        bridge.emit('BattleStore', 'onBattleEnded', LIVE_ID, { battleInfo: { battleID: 'battle_1' } });
+        expect(status()).toBe('punishment');
+        expect(battleStore.getState(LIVE_ID).battleResult).toMatchObject({
+            battleID: 'battle_1',
+            winnerUserIDs: ['anchor'],
+            isDraw: false,
+        });
+
+        jest.advanceTimersByTime(30000);
+        expect(status()).toBe('idle');
+    });
+
+    it('returns to idle when an incoming request is cancelled', () => {
+        bridge.emit('BattleStore', 'onBattleRequestReceived', LIVE_ID, { battleID: 'battle_2', inviter: RIVAL, invitee: ANCHOR });
+        expect(status()).toBe('waiting');
+        expect(battleStore.getState(LIVE_ID).battleRequest).toMatchObject({ direction: 'incoming', inviter: RIVAL });
+
+        bridge.emit('BattleStore', 'onBattleRequestCancelled', LIVE_ID, { battleID: 'battle_2', inviter: RIVAL, invitee: ANCHOR });
+        expect(status()).toBe('idle');
+    });
+
+    it('treats equal scores as a draw', () => {
+        const result = computeBattleResult('battle_3', new Map([['anchor', 10]]), [ANCHOR, RIVAL]);
+        expect(result.scores.get('rival')).toBe(0);
+        expect(result.winnerUserIDs).toEqual(['anchor']);
+
+        expect(computeBattleResult('battle_3', new Map([['anchor', 10], ['rival', 10]]), [ANCHOR, RIVAL])).toMatchObject({
+            winnerUserIDs: [],
+            isDraw: true,
+        });
+    });
+});
@@ -0,0 +1,89 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    clearBattleLifecycle,
+    getBattleSupporters,
+    retainBattleLifecycle,
+    setBattleLifecycleOptions,
+} from '../atomic-x/state/BattleState';
+import { battleStore } from '../atomic-x/state/BattleState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_pk_home';
+const RIVAL_LIVE_ID = 'live_pk_rival';
+const ANCHOR = { userID: 'anchor', nickname: 'Anchor', liveID: LIVE_ID };
+const RIVAL = { userID: 'rival', nickname: 'Rival', liveID: RIVAL_LIVE_ID };
+const TOM = { userID: 'tom', userName: 'Tom' };
+const JERRY = { userID: 'jerry', userName: 'Jerry' };
+const SPIKE = { userID: 'spike', userName: 'Spike' };
+const TYKE = { userID: 'tyke', userName: 'Tyke' };
+
+describe('battle supporters', () => {
+    let bridge: MockHybridBridge;
+    let release: () => void;
+
+    const startBattle = (battleID: string) => {
+        battleStore.setState(LIVE_ID, { currentBattleInfo: { battleID }, battleUsers: [ANCHOR, RIVAL] });
+        bridge.emit('BattleStore', 'onBattleStarted', LIVE_ID, { battleInfo: { battleID }, inviter: ANCHOR, invitees: [RIVAL] });
+    };
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'PK' } });
+        setBattleLifecycleOptions({ punishmentDuration: 30 });
+        release = retainBattleLifecycle(LIVE_ID);
+    });
+
+    afterEach(() => {
+        clearBattleLifecycle(LIVE_ID);
+        release();
+        uninstallMockHybridBridge();
+    });
+
+    it('ignores gifts outside of a battle', () => {
+        bridge.receiveGift(LIVE_ID, 'rocket', 1, TOM);
+        expect(battleStore.getState(LIVE_ID).battleSupporters).toEqual({});
+    });
+
+    it('ranks the top supporters of each host and keeps them in the result', () => {
+        startBattle('battle_1');
+        bridge.receiveGift(LIVE_ID, 'rose', 5, TOM);
+        bridge.receiveGift(LIVE_ID, 'heart', 1, JERRY);
+        bridge.receiveGift(LIVE_ID, 'rose', 2, SPIKE);
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TYKE);
+        bridge.emit('GiftStore', 'onReceiveGift', LIVE_ID, {
+            liveID: RIVAL_LIVE_ID,
+            gift: { giftID: 'rocket', name: 'Rocket', coins: 520 },
+            count: 1,
+            sender: TYKE,
+        });
+
+        const { battleSupporters } = battleStore.getState(LIVE_ID);
+        expect(battleSupporters.anchor?.map((supporter) => [supporter.userID, supporter.totalCoins])).toEqual([
+            ['jerry', 10],
+            ['tom', 5],
+            ['spike', 2],
+        ]);
+        expect(battleSupporters.rival?.map((supporter) => supporter.userID)).toEqual(['tyke']);
+        expect(getBattleSupporters(LIVE_ID, 'anchor')).toHaveLength(4);
+
+        bridge.emit('BattleStore', 'onBattleEnded', LIVE_ID, { battleInfo: { battleID: 'battle_1' } });
+        bridge.receiveGift(LIVE_ID, 'rocket', 1, SPIKE);
+        expect(battleStore.getState(LIVE_ID).battleResult?.supporters).toEqual(battleSupporters);
+        expect(battleStore.getState(LIVE_ID).battleSupporters).toEqual(battleSupporters);
+    });
+
+    it('starts a new ranking for the next battle', () => {
+        startBattle('battle_1');
+        bridge.receiveGift(LIVE_ID, 'heart', 1, TOM);
+        bridge.emit('BattleStore', 'onBattleEnded', LIVE_ID, { battleInfo: { battleID: 'battle_1' } });
+
+        startBattle('battle_2');
+        expect(battleStore.getState(LIVE_ID).battleSupporters).toEqual({});
+        bridge.receiveGift(LIVE_ID, 'rose', 1, JERRY);
+        expect(getBattleSupporters(LIVE_ID, 'anchor').map((supporter) => supporter.userID)).toEqual(['jerry']);
+    });
+});
@@ -0,0 +1,140 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    clearRecentCoHosts,
+    fetchCoHostCandidatePage,
+    loadRecentCoHosts,
+    recordRecentCoHosts,
+    RECENT_CO_HOST_LIMIT,
+    setCoHostRecentStorage,
+} from '../atomic-x/state/CoHostState';
+import { coHostStore } from '../atomic-x/state/CoHostState/store';
+import { liveListStore } from '../atomic-x/state/LiveListState/store';
+import { loginStore } from '../atomic-x/state/LoginState/store';
+
+const LIVE_ID = 'live_self';
+const ANCHOR = { userID: 'anchor', nickname: 'Anchor' };
+
+const live = (liveID: string, userID: string, userName: string) => ({
+    liveID,
+    liveName: `${userName}'s live`,
+    liveOwner: { userID, userName },
+});
+
+// 模拟服务端的直播列表，按顺序分页，cursor 为下一页的起始下标
+const ROOMS = [
+    live(LIVE_ID, 'anchor', 'Anchor'),
+    live('live_alice', 'alice', 'Alice'),
+    live('live_bob', 'bob', 'Bob'),
+    live('live_carol', 'carol', 'Carol'),
+    live('live_alina', 'alina', 'Alina'),
+    live('live_dave', 'dave', 'Dave'),
+    ...Array.from({ length: 30 }, (_, i) => live(`live_host_${i}`, `host_${i}`, `Host ${i}`)),
+    live('live_eve', 'eve', 'Eve'),
+];
+
+describe('co-host candidates', () => {
+    let bridge: MockHybridBridge;
+
+    beforeEach(() => {
+        bridge = installMockHybridBridge({ loginUser: ANCHOR, rooms: ROOMS });
+        loginStore.setState({ loginUserInfo: ANCHOR });
+        setCoHostRecentStorage(null);
+    });
+
+    afterEach(() => {
+        loginStore.setState({ loginUserInfo: undefined });
+        uninstallMockHybridBridge();
+    });
+
+    it('pages through candidates without self and connected hosts', async () => {
+        coHostStore.setState(LIVE_ID, { connected: [{ userID: 'bob', liveID: 'live_bob' }] });
+
+        const first = await fetchCoHostCandidatePage(LIVE_ID, { count: 3 });
+        expect(first.list.map((item) => item.liveID)).toEqual(['live_alice']);
+        expect(first.list[0]).toMatchObject({ userID: 'alice', nickname: 'Alice' });
+        expect(first.cursor).toBe('3');
+
+        await fetchCoHostCandidatePage(LIVE_ID, { cursor: first.cursor, count: 3 });
+        expect(coHostStore.getState(LIVE_ID)).toMatchObject({
+            candidateCursor: '6',
+            isFetchingCandidates: false,
+        });
+        expect(coHostStore.getState(LIVE_ID).candidateList.map((item) => item.liveID)).toEqual([
+            'live_alice',
+            'live_carol',
+            'live_alina',
+            'live_dave',
+        ]);
+    });
+
+    it('searches on the server without touching the live list', async () => {
+        const releaseLiveList = liveListStore.retain();
+        const liveList = [live('live_square', 'square', 'Square')];
+        liveListStore.setState({ liveList, liveListCursor: 'next' });
+
+        const page = await fetchCoHostCandidatePage(LIVE_ID, { count: 2, keyword: ' ALI ' });
+        expect(page.list.map((item) => item.liveID)).toEqual(['live_alice', 'live_alina']);
+        expect(bridge.calls.find((call) => call.api === 'fetchCoHostCandidates')?.params).toMatchObject({ keyword: 'ALI' });
+        expect(coHostStore.getState(LIVE_ID).candidateKeyword).toBe('ALI');
+
+        // 排在很多页之后的主播同样能搜到
+        const byLiveID = await fetchCoHostCandidatePage(LIVE_ID, { keyword: 'live_eve' });
+        expect(byLiveID.list.map((item) => item.userID)).toEqual(['eve']);
+        expect(coHostStore.getState(LIVE_ID).candidateList.map((item) => item.userID)).toEqual(['eve']);
+
+        expect(bridge.calls.some((call) => call.api === 'fetchLiveList')).toBe(false);
+        expect(liveListStore.getState()).toMatchObject({ liveList, liveListCursor: 'next' });
+        releaseLiveList();
+    });
+
+    it('drops the result of an outdated search', async () => {
+        const outdated = fetchCoHostCandidatePage(LIVE_ID, { keyword: 'bob' });
+        await fetchCoHostCandidatePage(LIVE_ID, { keyword: 'carol' });
+        await outdated;
+        expect(coHostStore.getState(LIVE_ID).candidateList.map((item) => item.userID)).toEqual(['carol']);
+    });
+
+    it('rejects with an AtomicXError when fetching fails', async () => {
+        bridge.setHandler('fetchCoHostCandidates', () => {
+            throw new Error('network');
+        });
+        await expect(fetchCoHostCandidatePage(LIVE_ID)).rejects.toMatchObject({ api: 'fetchCoHostCandidates' });
+        expect(coHostStore.getState(LIVE_ID).isFetchingCandidates).toBe(false);
+    });
+
+    it('remembers recently connected hosts newest first', async () => {
+        const items = new Map<string, string>();
+        setCoHostRecentStorage({
+            getItem: async (key) => items.get(key) ?? null,
+            setItem: async (key, value) => {
+                items.set(key, value);
+            },
+            removeItem: async (key) => {
+                items.delete(key);
+            },
+        });
+
+        await recordRecentCoHosts([{ userID: 'alice', liveID: 'live_alice' }], 1);
+        await recordRecentCoHosts([{ userID: 'bob', liveID: 'live_bob' }, { userID: 'anchor', liveID: LIVE_ID }], 2);
+        await recordRecentCoHosts([{ userID: 'alice', liveID: 'live_alice', nickname: 'Alice' }], 3);
+        expect((await loadRecentCoHosts()).map((item) => [item.userID, item.connectedAt])).toEqual([
+            ['alice', 3],
+            ['bob', 2],
+        ]);
+        expect(items.has('AtomicX.CoHost.recent.anchor')).toBe(true);
+
+        for (let i = 0; i < RECENT_CO_HOST_LIMIT + 2; i += 1) {
+            await recordRecentCoHosts([{ userID: `user_${i}`, liveID: `live_${i}` }], 10 + i);
+        }
+        const recent = await loadRecentCoHosts();
+        expect(recent).toHaveLength(RECENT_CO_HOST_LIMIT);
+        expect(recent[0]?.userID).toBe(`user_${RECENT_CO_HOST_LIMIT + 1}`);
+
+        await clearRecentCoHosts();
+        expect(await loadRecentCoHosts()).toEqual([]);
+    });
+});
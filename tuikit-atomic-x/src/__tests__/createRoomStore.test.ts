@@ -0,0 +1,123 @@
+import {
+    createGlobalStore,
+    createRoomStore,
+    getListenerCount,
+    installMockHybridBridge,
+    MockHybridBridge,
+    shallowEqual,
+    stateDecoders,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_store';
+
+const createKey = (store: string, name: string, roomID: string | null = LIVE_ID) =>
+    JSON.stringify({ type: 'state', store, name, roomID, listenerID: null });
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+interface TestLikeState {
+    totalLikeCount: number;
+}
+
+const createLikeStore = () => createRoomStore<TestLikeState>({
+    storeName: 'LikeStore',
+    initialState: () => ({ totalLikeCount: 0 }),
+    decoders: { totalLikeCount: stateDecoders.number() },
+});
+
+describe('createRoomStore', () => {
+    let bridge: MockHybridBridge;
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Store' } });
+    });
+
+    afterEach(() => {
+        uninstallMockHybridBridge();
+    });
+
+    it('registers native listeners once per room and releases them on the last release', async () => {
+        const store = createLikeStore();
+        const key = createKey('LikeStore', 'totalLikeCount');
+
+        const releaseFirst = store.retain(LIVE_ID);
+        const releaseSecond = store.retain(LIVE_ID);
+        expect(store.getRefCount(LIVE_ID)).toBe(2);
+        expect(getListenerCount(key)).toBe(1);
+
+        releaseFirst();
+        releaseFirst();
+        expect(store.getRefCount(LIVE_ID)).toBe(1);
+        expect(getListenerCount(key)).toBe(1);
+
+        releaseSecond();
+        expect(store.getRefCount(LIVE_ID)).toBe(0);
+        expect(getListenerCount(key)).toBe(0);
+    });
+
+    it('decodes native pushes into state and disposes the room state on last release', async () => {
+        const store = createLikeStore();
+        const listener = jest.fn();
+        store.subscribe(LIVE_ID, listener);
+        const release = store.retain(LIVE_ID);
+        await flushMicrotasks();
+
+        bridge.receiveLike(LIVE_ID, 5, { userID: 'viewer' });
+        expect(store.getState(LIVE_ID).totalLikeCount).toBe(5);
+        expect(listener).toHaveBeenLastCalledWith({ totalLikeCount: 5 });
+
+        release();
+        expect(store.getState(LIVE_ID).totalLikeCount).toBe(0);
+    });
+
+    it('ignores unknown fields and values rejected by a decoder', () => {
+        const store = createRoomStore<{ status: 'ON' | 'OFF'; count: number }>({
+            storeName: 'TestStore',
+            initialState: () => ({ status: 'OFF', count: 0 }),
+            decoders: {
+                status: (value) => (value === 1 ? 'ON' : undefined),
+                count: stateDecoders.number(),
+            },
+        });
+
+        expect(store.applyNativeEvent(LIVE_ID, { status: 7, other: 1 })).toEqual({});
+        expect(store.applyNativeEvent(LIVE_ID, JSON.stringify({ status: 1, count: '3' }))).toEqual({ status: 'ON', count: 3 });
+        expect(store.getState(LIVE_ID)).toEqual({ status: 'ON', count: 3 });
+    });
+
+    it('keeps global state after release and registers with a null roomID', () => {
+        const store = createGlobalStore<{ loginStatus: string }>({
+            storeName: 'LoginStore',
+            initialState: () => ({ loginStatus: 'UNLOGIN' }),
+            decoders: { loginStatus: stateDecoders.string('UNLOGIN') },
+        });
+        const key = createKey('LoginStore', 'loginStatus', null);
+
+        const release = store.retain();
+        expect(getListenerCount(key)).toBe(1);
+        store.applyNativeEvent({ loginStatus: 'LOGINED' });
+        release();
+
+        expect(getListenerCount(key)).toBe(0);
+        expect(store.getState().loginStatus).toBe('LOGINED');
+    });
+});
+
+describe('store helpers', () => {
+    it('compares the first level of objects in shallowEqual', () => {
+        const list = [1, 2];
+        expect(shallowEqual({ list, count: 1 }, { list, count: 1 })).toBe(true);
+        expect(shallowEqual({ list, count: 1 }, { list: [1, 2], count: 1 })).toBe(false);
+        expect(shallowEqual(1, 1)).toBe(true);
+    });
+
+    it('decodes number maps from objects, entry arrays and JSON strings', () => {
+        const decode = stateDecoders.numberMap();
+        expect(decode({ a: 1, b: 'x' })).toEqual(new Map([['a', 1]]));
+        expect(decode('[["a",2]]')).toEqual(new Map([['a', 2]]));
+        expect(decode(null)).toBeNull();
+    });
+});
@@ -0,0 +1,80 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    addGiftComboListener,
+    retainGiftCombos,
+    setGiftComboOptions,
+} from '../atomic-x/state/GiftState';
+import { giftStore } from '../atomic-x/state/GiftState/store';
+import type { GiftCombo, GiftComboEventType } from '../atomic-x/state/GiftState/types';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_combo';
+const TOM = { userID: 'tom', userName: 'Tom' };
+const JERRY = { userID: 'jerry', userName: 'Jerry' };
+
+describe('gift combos', () => {
+    let bridge: MockHybridBridge;
+    let release: () => void;
+    let events: Array<[GiftComboEventType, GiftCombo]>;
+    let removeListener: () => void;
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Combo' } });
+        jest.useFakeTimers();
+        setGiftComboOptions({ windowMs: 3000 });
+        release = retainGiftCombos(LIVE_ID);
+        events = [];
+        removeListener = addGiftComboListener(LIVE_ID, (type, combo) => events.push([type, combo]));
+    });
+
+    afterEach(() => {
+        removeListener();
+        release();
+        jest.useRealTimers();
+        uninstallMockHybridBridge();
+    });
+
+    it('merges consecutive gifts from the same sender into one streak', () => {
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TOM);
+        jest.advanceTimersByTime(2000);
+        bridge.receiveGift(LIVE_ID, 'rose', 2, TOM);
+        jest.advanceTimersByTime(2000);
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TOM);
+
+        const [combo] = giftStore.getState(LIVE_ID).activeCombos;
+        expect(giftStore.getState(LIVE_ID).activeCombos).toHaveLength(1);
+        expect(combo).toMatchObject({ count: 4, streak: 3 });
+        expect(events.map(([type]) => type)).toEqual(['start', 'update', 'update']);
+
+        jest.advanceTimersByTime(3000);
+        expect(giftStore.getState(LIVE_ID).activeCombos).toEqual([]);
+        expect(events[3]![0]).toBe('end');
+        expect(events[3]![1]).toMatchObject({ comboID: combo!.comboID, count: 4 });
+    });
+
+    it('keeps separate streaks per sender and gift', () => {
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TOM);
+        bridge.receiveGift(LIVE_ID, 'heart', 1, TOM);
+        bridge.receiveGift(LIVE_ID, 'rose', 1, JERRY);
+
+        expect(giftStore.getState(LIVE_ID).activeCombos.map((combo) => [combo.sender.userID, combo.gift.giftID])).toEqual([
+            ['tom', 'rose'],
+            ['tom', 'heart'],
+            ['jerry', 'rose'],
+        ]);
+    });
+
+    it('starts a new streak once the window has passed', () => {
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TOM);
+        jest.advanceTimersByTime(3000);
+        bridge.receiveGift(LIVE_ID, 'rose', 1, TOM);
+
+        expect(events.map(([type]) => type)).toEqual(['start', 'end', 'start']);
+        expect(events[2]![1].comboID).not.toBe(events[0]![1].comboID);
+    });
+});
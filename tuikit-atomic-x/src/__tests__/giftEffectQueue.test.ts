@@ -0,0 +1,90 @@
+import { createGiftEffectScheduler, getGiftEffectURL } from '../atomic-x/state/GiftState';
+import type { GiftEffect, GiftParam } from '../atomic-x/state/GiftState/types';
+
+const gift = (giftID: string, coins: number, level?: number): GiftParam => ({
+    giftID,
+    name: giftID,
+    coins,
+    level,
+    resourceURL: `https://example.com/${giftID}.svga`,
+});
+
+const ROSE = gift('rose', 1, 1);
+const HEART = gift('heart', 10, 3);
+const CAR = gift('car', 500, 1);
+const CASTLE = gift('castle', 300, 2);
+
+describe('gift effect scheduler', () => {
+    it('skips gifts without an SVGA resource', () => {
+        expect(getGiftEffectURL({ giftID: 'png', name: 'png', resourceURL: 'https://example.com/a.PNG?x=1' })).toBe('');
+        expect(createGiftEffectScheduler().enqueue({ gift: { giftID: 'none', name: 'none' } })).toBeUndefined();
+    });
+
+    it('plays by level, then coins, then arrival order', () => {
+        const played: string[] = [];
+        const scheduler = createGiftEffectScheduler({ onPlay: (effect) => played.push(effect.gift.giftID) });
+
+        scheduler.enqueue({ gift: ROSE });
+        scheduler.enqueue({ gift: gift('lily', 1, 1) });
+        scheduler.enqueue({ gift: CAR });
+        scheduler.enqueue({ gift: CASTLE });
+        expect(scheduler.getQueue().map((effect) => effect.gift.giftID)).toEqual(['castle', 'car', 'lily']);
+
+        while (scheduler.getCurrent()) {
+            scheduler.finish();
+        }
+        expect(played).toEqual(['rose', 'castle', 'car', 'lily']);
+    });
+
+    it('drops low-value effects under load but always keeps the local user gifts', () => {
+        const dropped: GiftEffect[] = [];
+        const scheduler = createGiftEffectScheduler({
+            maxQueueLength: 3,
+            loadThreshold: 2,
+            onDrop: (effect) => dropped.push(effect),
+        });
+
+        scheduler.enqueue({ gift: CAR });
+        scheduler.enqueue({ gift: CAR });
+        scheduler.enqueue({ gift: CASTLE });
+        expect(scheduler.enqueue({ gift: ROSE })).toBeUndefined();
+        expect(scheduler.enqueue({ gift: ROSE, isSelf: true })).toBeDefined();
+        expect(scheduler.enqueue({ gift: CAR })).toBeUndefined();
+
+        expect(dropped.map((effect) => effect.gift.giftID)).toEqual(['rose', 'car']);
+        expect(scheduler.getQueue().map((effect) => [effect.gift.giftID, effect.isSelf])).toEqual([
+            ['rose', true],
+            ['castle', false],
+            ['car', false],
+        ]);
+    });
+
+    it('keeps cheap gifts of a high enough level under load', () => {
+        const dropped: string[] = [];
+        const scheduler = createGiftEffectScheduler({
+            loadThreshold: 1,
+            minLevelUnderLoad: 3,
+            onDrop: (effect) => dropped.push(effect.gift.giftID),
+        });
+
+        scheduler.enqueue({ gift: CAR });
+        scheduler.enqueue({ gift: CASTLE });
+        expect(scheduler.enqueue({ gift: HEART })).toBeDefined();
+        expect(scheduler.enqueue({ gift: ROSE })).toBeUndefined();
+        expect(dropped).toEqual(['rose']);
+    });
+
+    it('notifies subscribers and resets on clear', () => {
+        const scheduler = createGiftEffectScheduler();
+        const currents: Array<string | null> = [];
+        scheduler.subscribe((effect) => currents.push(effect?.gift.giftID ?? null));
+
+        scheduler.enqueue({ gift: CAR });
+        scheduler.enqueue({ gift: ROSE });
+        scheduler.clear();
+        scheduler.finish();
+
+        expect(currents).toEqual(['car', null]);
+        expect(scheduler.getQueue()).toEqual([]);
+    });
+});
@@ -0,0 +1,64 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    clearGiftLeaderboard,
+    getGiftLeaderboard,
+    retainGiftLeaderboard,
+} from '../atomic-x/state/GiftState';
+import { giftStore } from '../atomic-x/state/GiftState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_leaderboard';
+const TOM = { userID: 'tom', userName: 'Tom' };
+const JERRY = { userID: 'jerry', userName: 'Jerry' };
+const SPIKE = { userID: 'spike', userName: 'Spike' };
+
+describe('gift leaderboard', () => {
+    let bridge: MockHybridBridge;
+    let release: () => void;
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Leaderboard' } });
+        release = retainGiftLeaderboard(LIVE_ID);
+    });
+
+    afterEach(() => {
+        release();
+        clearGiftLeaderboard(LIVE_ID);
+        uninstallMockHybridBridge();
+    });
+
+    it('ranks senders by total coins, then arrival order', () => {
+        bridge.receiveGift(LIVE_ID, 'rose', 3, TOM);
+        bridge.receiveGift(LIVE_ID, 'rocket', 1, JERRY);
+        bridge.receiveGift(LIVE_ID, 'rose', 2, TOM);
+        bridge.receiveGift(LIVE_ID, 'rose', 5, SPIKE);
+
+        const leaderboard = giftStore.getState(LIVE_ID).leaderboard;
+        expect(leaderboard.map((contributor) => [contributor.userID, contributor.totalCoins])).toEqual([
+            ['jerry', 520],
+            ['tom', 5],
+            ['spike', 5],
+        ]);
+        expect(leaderboard.find((contributor) => contributor.userID === 'tom')).toMatchObject({
+            userName: 'Tom',
+            giftCount: 5,
+        });
+        expect(getGiftLeaderboard(LIVE_ID, 1)).toEqual([leaderboard[0]]);
+    });
+
+    it('keeps the ranking after tracking stops and restores it on the next retain', () => {
+        bridge.receiveGift(LIVE_ID, 'heart', 1, TOM);
+        release();
+
+        bridge.receiveGift(LIVE_ID, 'heart', 1, JERRY);
+        expect(getGiftLeaderboard(LIVE_ID).map((contributor) => contributor.userID)).toEqual(['tom']);
+
+        release = retainGiftLeaderboard(LIVE_ID);
+        expect(giftStore.getState(LIVE_ID).leaderboard.map((contributor) => contributor.userID)).toEqual(['tom']);
+    });
+});
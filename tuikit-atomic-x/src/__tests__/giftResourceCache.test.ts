@@ -0,0 +1,96 @@
+import {
+    clearGiftResourceCache,
+    getGiftResourceCacheStats,
+    preloadGiftResources,
+    resolveGiftResource,
+    setGiftResourceCacheOptions,
+    setGiftResourceFileSystem,
+} from '../atomic-x/giftResource';
+import type { GiftResourceFileSystem } from '../atomic-x/giftResource';
+import type { GiftCategoryParam, GiftParam } from '../atomic-x/state/GiftState/types';
+
+const gift = (giftID: string, level: number, ext = 'svga'): GiftParam => ({
+    giftID,
+    name: giftID,
+    level,
+    resourceURL: `https://cdn.example.com/${giftID}.${ext}?v=1`,
+});
+
+const createFileSystem = (sizes: Record<string, number>) => {
+    const files = new Map<string, number>();
+    const downloads: string[] = [];
+    const fs: GiftResourceFileSystem = {
+        cacheDir: '/cache/gift',
+        exists: async (path) => files.has(path),
+        download: async (url, path) => {
+            downloads.push(url);
+            const giftID = /\/(\w+)\.\w+\?/.exec(url)?.[1] ?? '';
+            if (!(giftID in sizes)) {
+                throw new Error('404');
+            }
+            files.set(path, sizes[giftID]!);
+            return { size: sizes[giftID]! };
+        },
+        unlink: async (path) => {
+            files.delete(path);
+        },
+    };
+    return { fs, files, downloads };
+};
+
+describe('gift resource cache', () => {
+    afterEach(async () => {
+        await clearGiftResourceCache();
+        setGiftResourceFileSystem(null);
+        setGiftResourceCacheOptions({ maxSizeBytes: 100 * 1024 * 1024, minLevel: 1 });
+    });
+
+    it('leaves urls untouched without a file system', async () => {
+        const progress = await preloadGiftResources([{ giftList: [gift('rocket', 3)] }]);
+        expect(progress.total).toBe(0);
+        expect(resolveGiftResource('https://cdn.example.com/rocket.svga')).toBe('https://cdn.example.com/rocket.svga');
+    });
+
+    it('preloads animations above the configured level and resolves cached paths', async () => {
+        const { fs, downloads } = createFileSystem({ rocket: 300, car: 200, rose: 10 });
+        setGiftResourceFileSystem(fs);
+        setGiftResourceCacheOptions({ minLevel: 2 });
+
+        const categories: GiftCategoryParam[] = [
+            { giftList: [gift('rose', 1), gift('rocket', 3), gift('badge', 5, 'png')] },
+            { giftList: [gift('car', 2), gift('missing', 4), gift('rocket', 3)] },
+        ];
+        const progress = await preloadGiftResources(categories);
+
+        expect(progress).toEqual({ total: 3, completed: 2, failed: 1, isLoading: false });
+        expect(downloads).toHaveLength(3);
+
+        const rocketURL = categories[0]!.giftList![1]!.resourceURL!;
+        expect(resolveGiftResource(rocketURL)).toMatch(/^\/cache\/gift\/\w+\.svga$/);
+        expect(resolveGiftResource(categories[0]!.giftList![0]!.resourceURL!)).toMatch(/^https:/);
+        expect(getGiftResourceCacheStats()).toMatchObject({ entryCount: 2, totalSize: 500, hits: 1, misses: 1 });
+
+        await preloadGiftResources(categories);
+        expect(downloads).toHaveLength(4);
+    });
+
+    it('evicts the least recently used resources over the size cap', async () => {
+        const { fs, files } = createFileSystem({ a: 40, b: 40, c: 40 });
+        setGiftResourceFileSystem(fs);
+        const nowSpy = jest.spyOn(Date, 'now');
+
+        nowSpy.mockReturnValue(1000);
+        await preloadGiftResources([{ giftList: [gift('a', 1), gift('b', 1)] }]);
+        nowSpy.mockReturnValue(2000);
+        resolveGiftResource(gift('a', 1).resourceURL!);
+        nowSpy.mockReturnValue(3000);
+        setGiftResourceCacheOptions({ maxSizeBytes: 100 });
+        await preloadGiftResources([{ giftList: [gift('c', 1)] }]);
+        nowSpy.mockRestore();
+
+        expect(resolveGiftResource(gift('b', 1).resourceURL!)).toMatch(/^https:/);
+        expect(resolveGiftResource(gift('a', 1).resourceURL!)).toMatch(/^\/cache\//);
+        expect(files.size).toBe(2);
+        expect(getGiftResourceCacheStats()).toMatchObject({ entryCount: 2, totalSize: 80, maxSize: 100 });
+    });
+});
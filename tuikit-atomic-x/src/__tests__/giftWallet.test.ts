@@ -0,0 +1,75 @@
+import {
+    AtomicXErrorCode,
+    InsufficientBalanceError,
+    installMockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    debitGiftBalance,
+    getGiftBalance,
+    refreshGiftBalance,
+    setGiftWalletProvider,
+} from '../atomic-x/state/GiftState';
+import { giftStore, giftWalletStore } from '../atomic-x/state/GiftState/store';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_wallet';
+
+describe('gift wallet', () => {
+    let releaseStore: () => void;
+
+    beforeEach(async () => {
+        installMockHybridBridge({ loginUser: { userID: 'audience', nickname: 'Audience' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Wallet' } });
+        releaseStore = giftStore.retain(LIVE_ID);
+        await callNativeAPI('refreshUsableGifts', { liveID: LIVE_ID });
+    });
+
+    afterEach(() => {
+        setGiftWalletProvider(null);
+        releaseStore();
+        uninstallMockHybridBridge();
+    });
+
+    it('skips the balance check without a wallet', () => {
+        expect(getGiftBalance()).toBeNull();
+        expect(() => debitGiftBalance(LIVE_ID, 'rocket', 1)(true)).not.toThrow();
+    });
+
+    it('rejects gifts the balance cannot cover', async () => {
+        setGiftWalletProvider({ getBalance: async () => 15 });
+        await refreshGiftBalance();
+
+        let error: unknown;
+        try {
+            debitGiftBalance(LIVE_ID, 'rocket', 1);
+        } catch (caught) {
+            error = caught;
+        }
+        expect(error).toBeInstanceOf(InsufficientBalanceError);
+        expect(error).toMatchObject({
+            code: AtomicXErrorCode.INSUFFICIENT_BALANCE,
+            category: 'INSUFFICIENT_BALANCE',
+            required: 520,
+            balance: 15,
+        });
+        expect(getGiftBalance()).toBe(15);
+    });
+
+    it('debits optimistically and rolls back failed sends', async () => {
+        setGiftWalletProvider({ getBalance: async () => 15 });
+        await refreshGiftBalance();
+
+        const settleHeart = debitGiftBalance(LIVE_ID, 'heart', 1);
+        expect(getGiftBalance()).toBe(5);
+        expect(() => debitGiftBalance(LIVE_ID, 'rose', 6)).toThrow(InsufficientBalanceError);
+
+        settleHeart(false);
+        expect(getGiftBalance()).toBe(15);
+
+        const settleRoses = debitGiftBalance(LIVE_ID, 'rose', 3);
+        settleRoses(true);
+        settleRoses(false);
+        expect(giftWalletStore.getState()).toMatchObject({ balance: 12, pendingDebit: 0 });
+    });
+});
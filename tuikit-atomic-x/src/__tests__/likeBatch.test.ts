@@ -0,0 +1,124 @@
+import {
+    installMockHybridBridge,
+    MockHybridBridge,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import {
+    addLikeBurstListener,
+    clearLikeBatch,
+    queueLike,
+    retainLikeBursts,
+    setLikeBatchOptions,
+} from '../atomic-x/state/LikeState';
+import { likeStore } from '../atomic-x/state/LikeState/store';
+import { loginStore } from '../atomic-x/state/LoginState/store';
+import type { LikeBurst } from '../atomic-x/state/LikeState/types';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_like';
+const TOM = { userID: 'tom', userName: 'Tom' };
+const JERRY = { userID: 'jerry', userName: 'Jerry' };
+const AUDIENCE = { userID: 'audience', nickname: 'Audience' };
+
+describe('like batching', () => {
+    let bridge: MockHybridBridge;
+    let release: () => void;
+    let bursts: LikeBurst[];
+    let removeListener: () => void;
+
+    const sendLikeCounts = () => bridge.calls.filter((call) => call.api === 'sendLike').map((call) => call.params?.count);
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: AUDIENCE });
+        loginStore.setState({ loginUserInfo: AUDIENCE });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Like' } });
+        jest.useFakeTimers();
+        setLikeBatchOptions({ windowMs: 6000, burstWindowMs: 1000 });
+        release = retainLikeBursts(LIVE_ID);
+        bursts = [];
+        removeListener = addLikeBurstListener(LIVE_ID, (burst) => bursts.push(burst));
+    });
+
+    afterEach(() => {
+        clearLikeBatch(LIVE_ID);
+        removeListener();
+        release();
+        jest.useRealTimers();
+        loginStore.setState({ loginUserInfo: undefined });
+        uninstallMockHybridBridge();
+    });
+
+    it('sends the first tap right away and coalesces the rest of the window', async () => {
+        queueLike(LIVE_ID);
+        await jest.advanceTimersByTimeAsync(0);
+        for (let i = 0; i < 5; i += 1) {
+            queueLike(LIVE_ID);
+            await jest.advanceTimersByTimeAsync(500);
+        }
+        expect(sendLikeCounts()).toEqual([1]);
+        expect(likeStore.getState(LIVE_ID)).toMatchObject({ totalLikeCount: 1, pendingLikeCount: 5 });
+
+        await jest.advanceTimersByTimeAsync(3500);
+        expect(sendLikeCounts()).toEqual([1, 5]);
+        expect(likeStore.getState(LIVE_ID)).toMatchObject({
+            totalLikeCount: 6,
+            pendingLikeCount: 0,
+            unconfirmedLikeCount: 0,
+        });
+    });
+
+    it('rolls back the optimistic count when sending fails', async () => {
+        const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+        bridge.setHandler('sendLike', () => {
+            throw new Error('network');
+        });
+        queueLike(LIVE_ID, 3);
+        expect(likeStore.getState(LIVE_ID).unconfirmedLikeCount).toBe(3);
+
+        await jest.advanceTimersByTimeAsync(0);
+        warnSpy.mockRestore();
+        expect(likeStore.getState(LIVE_ID)).toMatchObject({
+            totalLikeCount: 0,
+            pendingLikeCount: 0,
+            unconfirmedLikeCount: 0,
+        });
+    });
+
+    it('keeps the optimistic count until the local like message arrives', async () => {
+        bridge.setHandler('sendLike', () => undefined);
+        queueLike(LIVE_ID, 3);
+        await jest.advanceTimersByTimeAsync(0);
+
+        // 其他观众的点赞不抵扣本地的乐观计数
+        bridge.receiveLike(LIVE_ID, 5, TOM);
+        expect(likeStore.getState(LIVE_ID)).toMatchObject({ totalLikeCount: 5, unconfirmedLikeCount: 3 });
+
+        bridge.receiveLike(LIVE_ID, 3, { userID: 'audience' });
+        expect(likeStore.getState(LIVE_ID)).toMatchObject({ totalLikeCount: 8, unconfirmedLikeCount: 0 });
+    });
+
+    it('drops the optimistic count when the own like message never arrives', async () => {
+        bridge.setHandler('sendLike', () => undefined);
+        queueLike(LIVE_ID, 2);
+        await jest.advanceTimersByTimeAsync(0);
+        expect(likeStore.getState(LIVE_ID).unconfirmedLikeCount).toBe(2);
+
+        await jest.advanceTimersByTimeAsync(10000);
+        expect(likeStore.getState(LIVE_ID).unconfirmedLikeCount).toBe(0);
+    });
+
+    it('aggregates received likes into one burst per user', () => {
+        bridge.receiveLike(LIVE_ID, 1, TOM);
+        bridge.receiveLike(LIVE_ID, 4, JERRY);
+        bridge.receiveLike(LIVE_ID, 2, TOM);
+        bridge.emit('LikeStore', 'onReceiveLikesMessage', LIVE_ID, { liveID: LIVE_ID, totalLikesReceived: 20, sender: JERRY, count: 6 });
+        expect(bursts).toHaveLength(0);
+
+        jest.advanceTimersByTime(1000);
+        // 没有单条点赞数的消息按 1 计
+        expect(bursts.map((burst) => [burst.sender.userID, burst.count])).toEqual([
+            ['tom', 2],
+            ['jerry', 7],
+        ]);
+    });
+});
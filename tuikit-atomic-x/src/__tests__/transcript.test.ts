@@ -0,0 +1,73 @@
+import {
+    exportTranscript,
+    installMockHybridBridge,
+    loadTranscript,
+    MockHybridBridge,
+    startTranscript,
+    uninstallMockHybridBridge,
+} from '../atomic-x';
+import type { TranscriptRecord } from '../atomic-x';
+import { callNativeAPI } from '../atomic-x/utils';
+
+const LIVE_ID = 'live_transcript';
+
+const flushMicrotasks = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('transcript', () => {
+    let bridge: MockHybridBridge;
+
+    beforeEach(async () => {
+        bridge = installMockHybridBridge({ loginUser: { userID: 'anchor', nickname: 'Anchor' } });
+        await callNativeAPI('createLive', { liveInfo: { liveID: LIVE_ID, liveName: 'Transcript' } });
+        await flushMicrotasks();
+    });
+
+    afterEach(() => {
+        uninstallMockHybridBridge();
+    });
+
+    it('records messages, gifts and likes until stopped and keeps them after the live', async () => {
+        const stop = startTranscript(LIVE_ID, { startTime: 1000 });
+        bridge.receiveBarrage(LIVE_ID, 'hello', { userID: 'viewer', userName: 'Viewer' });
+        bridge.receiveLike(LIVE_ID, 3, { userID: 'viewer' });
+        bridge.receiveLike(LIVE_ID, 4, { userID: 'other' });
+        bridge.emit('LikeStore', 'onReceiveLikesMessage', LIVE_ID, { liveID: LIVE_ID, totalLikesReceived: 9, sender: { userID: 'viewer' }, count: 2 });
+        bridge.receiveGift(LIVE_ID, 'rose', 2, { userID: 'fan', userName: 'Fan' });
+
+        const record = await stop();
+        bridge.receiveBarrage(LIVE_ID, 'after stop', { userID: 'viewer' });
+
+        expect(record!.endTime).toBeDefined();
+        expect(record!.entries.map((entry) => [entry.type, entry.text, entry.likeCount ?? entry.giftCount])).toEqual([
+            ['message', 'hello', undefined],
+            ['like', '', 1],
+            ['like', '', 1],
+            ['like', '', 2],
+            ['gift', 'Rose', 2],
+        ]);
+        expect(await loadTranscript(LIVE_ID)).toEqual(record);
+    });
+
+    it('exports json, csv and text with an optional offset column', () => {
+        const record: TranscriptRecord = {
+            liveID: LIVE_ID,
+            startTime: Date.UTC(2026, 0, 1, 12, 0, 0),
+            entries: [
+                { type: 'gift', timestamp: Date.UTC(2026, 0, 1, 12, 1, 5), senderName: 'Fan', text: 'Rose', giftCount: 3 },
+                { type: 'message', timestamp: Date.UTC(2026, 0, 1, 12, 0, 30), senderID: 'u1', senderName: 'Tom', text: 'hi, "all"', moderationFlags: ['LINK'] },
+            ],
+        };
+
+        expect(exportTranscript(record, { format: 'csv', includeOffset: true }).split('\n')).toEqual([
+            'time,offset,type,messageID,senderID,senderName,content,count,flags',
+            '2026-01-01T12:00:30.000Z,00:00:30,message,,u1,Tom,"hi, ""all""",,LINK',
+            '2026-01-01T12:01:05.000Z,00:01:05,gift,,,Fan,Rose,3,',
+        ]);
+        expect(exportTranscript(record, { format: 'text' }).split('\n')).toEqual([
+            '[2026-01-01T12:00:30.000Z] Tom: hi, "all" {LINK}',
+            '[2026-01-01T12:01:05.000Z] Fan: [gift] Rose x3',
+        ]);
+        const json = JSON.parse(exportTranscript(record, { format: 'json', includeOffset: true }));
+        expect(json.entries.map((entry: { offsetMs: number }) => entry.offsetMs)).toEqual([30000, 65000]);
+    });
+});
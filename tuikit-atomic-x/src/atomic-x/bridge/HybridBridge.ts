@@ -1,6 +1,24 @@
 import { NativeEventEmitter, NativeModules } from 'react-native';
 
-const { HybridBridgeProxy } = NativeModules;
+/**
+ * Bridge 代理接口
+ * Native 模块 HybridBridgeProxy 与 JS 实现的 MockHybridBridge 都遵循该接口
+ */
+export interface HybridBridgeProxyModule {
+    callAPI(json: string): Promise<string>;
+    addEventListener(key: string): void;
+    removeEventListener(key: string): void;
+}
+
+/**
+ * 事件源接口，默认使用基于 Native 模块的 NativeEventEmitter
+ */
+export interface HybridEventSource {
+    addListener(eventType: string, listener: (event: any) => void): { remove: () => void };
+}
+
+let HybridBridgeProxy: HybridBridgeProxyModule | null = NativeModules.HybridBridgeProxy ?? null;
+let customEventSource: HybridEventSource | null = null;
 
 export type HybridRequest = {
     api: string;
@@ -27,9 +45,31 @@ export type HybridEvent = {
     data: string;
 };
 
-let sharedEmitter: NativeEventEmitter | null = null;
+export type HybridSubscription = {
+    remove: () => void;
+};
+
+type HybridEventListener = (event: any) => void;
 
-const subscriptionMap = new Map<string, { remove: () => void }>();
+/**
+ * 一次注册对应一条记录，同一个函数注册多次时各自独立
+ */
+type ListenerRecord = {
+    listener: HybridEventListener;
+};
+
+/**
+ * 单个 key 的订阅记录
+ * 同一个 key 只向 Native 注册一次，JS 层按 listeners 扇出
+ */
+type ListenerEntry = {
+    emitterSubscription: { remove: () => void } | null;
+    listeners: Set<ListenerRecord>;
+};
+
+let sharedEmitter: HybridEventSource | null = null;
+
+const listenerRegistry = new Map<string, ListenerEntry>();
 
 export function callAPI(request: HybridRequest): Promise<HybridResponse> {
     if (!HybridBridgeProxy) {
@@ -51,47 +91,201 @@ export function callAPI(request: HybridRequest): Promise<HybridResponse> {
         });
 }
 
-export function addListener(key: string, listener?: (event: any) => void): { remove: () => void } | void {
+/**
+ * 添加事件监听
+ * 同一个 key 可以有任意多个 JS 监听器，Native 端只在第一个监听器加入时注册
+ * @returns 本次注册的订阅句柄，调用 remove() 只移除这一次注册；Bridge 不可用时返回 undefined
+ */
+export function addListener(key: string, listener: HybridEventListener): HybridSubscription | void {
     if (!HybridBridgeProxy) {
         return;
     }
 
-    if (listener) {
-        const emitter = getEventEmitter();
-        const subscription = emitter.addListener(key, listener);
+    let entry = listenerRegistry.get(key);
+    if (!entry) {
+        entry = { emitterSubscription: null, listeners: new Set() };
+        listenerRegistry.set(key, entry);
+        attachEntry(key, entry);
+    }
+
+    const record: ListenerRecord = { listener };
+    entry.listeners.add(record);
 
-        const existingSubscription = subscriptionMap.get(key);
-        if (existingSubscription) {
-            existingSubscription.remove();
-        }
-        subscriptionMap.set(key, subscription);
+    let removed = false;
+    return {
+        remove: () => {
+            if (removed) {
+                return;
+            }
+            removed = true;
+            removeRecord(key, record);
+        },
+    };
+}
+
+/**
+ * 移除事件监听
+ * 只移除 listener 最近的一次注册，其他调用方的监听器不受影响；优先使用 addListener 返回的句柄
+ * 最后一个监听器移除后才会注销 Native 端监听
+ */
+export function removeListener(key: string, listener: HybridEventListener): void {
+    const entry = listenerRegistry.get(key);
+    if (!entry) {
+        return;
     }
+    const record = Array.from(entry.listeners).reverse().find((item) => item.listener === listener);
+    if (record) {
+        removeRecord(key, record);
+    }
+}
+
+/**
+ * 同一调用方持有的一组订阅
+ * State hooks 的 removeXxxListener 通过它只移除自己注册过的监听器
+ */
+export type HybridListenerGroup = {
+    /** 添加监听并记入本组 */
+    add(key: string, listener: HybridEventListener): HybridSubscription | void;
+    /** 移除本组在 key 下的订阅，传入 listener 时只移除该监听器 */
+    remove(key: string, listener?: HybridEventListener): void;
+    /** 移除本组的全部订阅 */
+    removeAll(): void;
+};
+
+/**
+ * 创建一组订阅
+ *
+ * @example
+ * ```ts
+ * const group = createListenerGroup();
+ * group.add(key, onEvent);
+ * // 只移除本组注册的监听器
+ * group.remove(key);
+ * ```
+ */
+export function createListenerGroup(): HybridListenerGroup {
+    const groupSubscriptions = new Map<string, { listener: HybridEventListener; subscription: HybridSubscription }[]>();
+
+    const detach = (key: string, predicate: (item: { listener: HybridEventListener }) => boolean): void => {
+        const items = groupSubscriptions.get(key);
+        if (!items) {
+            return;
+        }
+        const remaining = items.filter((item) => {
+            if (!predicate(item)) {
+                return true;
+            }
+            item.subscription.remove();
+            return false;
+        });
+        if (remaining.length > 0) {
+            groupSubscriptions.set(key, remaining);
+        } else {
+            groupSubscriptions.delete(key);
+        }
+    };
+
+    return {
+        add: (key, listener) => {
+            const subscription = addListener(key, listener);
+            if (!subscription) {
+                return;
+            }
+            const item = { listener, subscription };
+            groupSubscriptions.set(key, [...(groupSubscriptions.get(key) ?? []), item]);
+            return {
+                remove: () => detach(key, (current) => current === item),
+            };
+        },
+        remove: (key, listener) => {
+            detach(key, (item) => !listener || item.listener === listener);
+        },
+        removeAll: () => {
+            Array.from(groupSubscriptions.keys()).forEach((key) => detach(key, () => true));
+        },
+    };
+}
 
-    HybridBridgeProxy.addEventListener(key);
+/**
+ * 获取指定 key 当前的 JS 监听器数量
+ */
+export function getListenerCount(key: string): number {
+    return listenerRegistry.get(key)?.listeners.size ?? 0;
 }
 
-export function removeListener(key: string): void {
+/**
+ * 替换 Bridge 代理（例如在 Jest 或离线 Demo 中注入 MockHybridBridge）
+ * 已注册的监听会从旧代理注销并迁移到新代理，已挂载的 State hooks 无需重新订阅
+ * 传 null 时只注销 Native 端监听、保留订阅记录，之后再设置代理时重新注册，已有的订阅句柄继续有效
+ * @param proxy 新的代理，传 null 表示不可用
+ * @param eventSource 事件源，不传时使用 NativeEventEmitter
+ */
+export function setHybridBridgeProxy(proxy: HybridBridgeProxyModule | null, eventSource?: HybridEventSource | null): void {
+    listenerRegistry.forEach((entry, key) => {
+        detachEntry(key, entry);
+    });
+
+    HybridBridgeProxy = proxy;
+    customEventSource = eventSource ?? null;
+    sharedEmitter = null;
+
     if (!HybridBridgeProxy) {
         return;
     }
+    listenerRegistry.forEach((entry, key) => {
+        attachEntry(key, entry);
+    });
+}
+
+/**
+ * 恢复为 Native 模块提供的 HybridBridgeProxy
+ */
+export function resetHybridBridgeProxy(): void {
+    setHybridBridgeProxy(NativeModules.HybridBridgeProxy ?? null);
+}
 
-    const subscription = subscriptionMap.get(key);
-    if (subscription) {
-        subscription.remove();
-        subscriptionMap.delete(key);
+function attachEntry(key: string, entry: ListenerEntry): void {
+    const listeners = entry.listeners;
+    entry.emitterSubscription = getEventEmitter().addListener(key, (event: any) => {
+        // 复制一份再派发，避免回调中增删监听器影响本次遍历
+        Array.from(listeners).forEach((item) => {
+            try {
+                item.listener(event);
+            } catch (error) {
+                console.error(`[HybridBridge] Listener error for ${key}:`, error);
+            }
+        });
+    });
+    HybridBridgeProxy?.addEventListener(key);
+}
+
+function detachEntry(key: string, entry: ListenerEntry): void {
+    entry.emitterSubscription?.remove();
+    entry.emitterSubscription = null;
+    HybridBridgeProxy?.removeEventListener(key);
+}
+
+function removeRecord(key: string, record: ListenerRecord): void {
+    const entry = listenerRegistry.get(key);
+    if (!entry || !entry.listeners.delete(record)) {
+        return;
+    }
+    if (entry.listeners.size === 0) {
+        releaseEntry(key, entry);
     }
+}
 
-    HybridBridgeProxy.removeEventListener(key);
+function releaseEntry(key: string, entry: ListenerEntry): void {
+    detachEntry(key, entry);
+    listenerRegistry.delete(key);
 }
 
-function getEventEmitter(): NativeEventEmitter {
+function getEventEmitter(): HybridEventSource {
     if (!HybridBridgeProxy) {
         throw new Error('HybridBridgeProxy is not available');
     }
     if (!sharedEmitter) {
-        sharedEmitter = new NativeEventEmitter(HybridBridgeProxy);
+        sharedEmitter = customEventSource ?? new NativeEventEmitter(HybridBridgeProxy as any);
     }
     return sharedEmitter;
 }
-
-
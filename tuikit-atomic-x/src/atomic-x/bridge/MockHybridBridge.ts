@@ -0,0 +1,802 @@
+/**
+ * MockHybridBridge
+ * 纯 JS 实现的 HybridBridgeProxy，用于 Jest 单测和脱离 SDK 运行 Demo
+ *
+ * 在内存中模拟直播间、麦位、弹幕、礼物、点赞，并按 Native 端的格式派发事件：
+ * 事件名为监听 key（HybridListenerKey 的 JSON 字符串），事件数据为扁平对象，
+ * 其中对象/数组字段以 JSON 字符串形式传递
+ */
+
+import { AtomicXErrorCode } from '../errors';
+import { resetHybridBridgeProxy, setHybridBridgeProxy } from './HybridBridge';
+import type {
+    HybridBridgeProxyModule,
+    HybridEventSource,
+    HybridListenerKey,
+    HybridRequest,
+    HybridResponse,
+} from './HybridBridge';
+import type { BarrageParam } from '../state/BarrageState/types';
+import type { GiftCategoryParam, GiftParam } from '../state/GiftState/types';
+import type { LiveInfoParam, LiveUserInfoParam } from '../state/LiveListState/types';
+import { LiveUserRole } from '../state/LiveAudienceState/types';
+import type { SeatInfo } from '../state/LiveSeatState/types';
+import type { UserProfileParam } from '../state/LoginState/types';
+
+type MockEventListener = (event: any) => void;
+
+/**
+ * 自定义 API 处理函数
+ * 返回值作为响应 data；抛出 MockBridgeError 时返回对应的错误码
+ */
+export type MockApiHandler = (
+    params: Record<string, unknown>,
+    bridge: MockHybridBridge
+) => unknown | Promise<unknown>;
+
+/**
+ * Mock 接口错误，code 会原样写入 HybridResponse.code
+ */
+export class MockBridgeError extends Error {
+    code: number;
+
+    constructor(code: number, message: string) {
+        super(message);
+        this.name = 'MockBridgeError';
+        this.code = code;
+    }
+}
+
+/**
+ * Mock 直播间
+ */
+export interface MockRoom {
+    liveInfo: LiveInfoParam;
+    seatList: SeatInfo[];
+    messageList: BarrageParam[];
+    allowSendMessage: boolean;
+    audienceList: Array<LiveUserInfoParam & { role?: LiveUserRole }>;
+    totalLikeCount: number;
+    totalGiftCoins: number;
+    giftSenders: Set<string>;
+    totalMessageSent: number;
+}
+
+export interface MockHybridBridgeOptions {
+    /** 默认登录用户，不传时需先调用 login */
+    loginUser?: UserProfileParam;
+    /** 可用礼物列表 */
+    usableGifts?: GiftCategoryParam[];
+    /** 预置的直播间 */
+    rooms?: LiveInfoParam[];
+    /** 麦位数量 */
+    seatCount?: number;
+    /** 模拟接口耗时（毫秒），默认 0 */
+    latency?: number;
+}
+
+const DEFAULT_SEAT_COUNT = 9;
+
+const DEFAULT_GIFTS: GiftCategoryParam[] = [
+    {
+        categoryID: 'default',
+        name: 'Default',
+        giftList: [
+            { giftID: 'rose', name: 'Rose', iconURL: '', resourceURL: '', level: 1, coins: 1 },
+            { giftID: 'heart', name: 'Heart', iconURL: '', resourceURL: '', level: 2, coins: 10 },
+            { giftID: 'rocket', name: 'Rocket', iconURL: '', resourceURL: '', level: 5, coins: 520 },
+        ],
+    },
+];
+
+/**
+ * 将对象/数组字段序列化为 JSON 字符串，与 Native 端事件格式保持一致
+ */
+function toEventPayload(data: Record<string, unknown>): Record<string, unknown> {
+    const payload: Record<string, unknown> = {};
+    Object.keys(data).forEach((key) => {
+        const value = data[key];
+        if (value !== null && typeof value === 'object') {
+            payload[key] = JSON.stringify(value instanceof Map ? Object.fromEntries(value) : value);
+        } else {
+            payload[key] = value;
+        }
+    });
+    return payload;
+}
+
+function parseListenerKey(key: string): HybridListenerKey | null {
+    try {
+        const parsed = JSON.parse(key);
+        return parsed && typeof parsed === 'object' ? (parsed as HybridListenerKey) : null;
+    } catch {
+        return null;
+    }
+}
+
+export class MockHybridBridge implements HybridBridgeProxyModule, HybridEventSource {
+    private emitterListeners: Map<string, Set<MockEventListener>> = new Map();
+    private registeredKeys: Set<string> = new Set();
+    private handlers: Map<string, MockApiHandler> = new Map();
+    private rooms: Map<string, MockRoom> = new Map();
+    private usableGifts: GiftCategoryParam[];
+    private seatCount: number;
+    private latency: number;
+    private sequence = 0;
+
+    loginUser: UserProfileParam | null;
+    currentLiveID: string | null = null;
+
+    /** 已调用的 API 记录，便于单测断言 */
+    readonly calls: HybridRequest[] = [];
+
+    constructor(options: MockHybridBridgeOptions = {}) {
+        this.loginUser = options.loginUser ?? null;
+        this.usableGifts = options.usableGifts ?? DEFAULT_GIFTS;
+        this.seatCount = options.seatCount ?? DEFAULT_SEAT_COUNT;
+        this.latency = options.latency ?? 0;
+        (options.rooms ?? []).forEach((liveInfo) => {
+            this.rooms.set(liveInfo.liveID, this.createRoom(liveInfo));
+        });
+        this.registerDefaultHandlers();
+    }
+
+    // ---------------------------------------------------------------------
+    // HybridBridgeProxyModule
+    // ---------------------------------------------------------------------
+
+    async callAPI(json: string): Promise<string> {
+        const request = JSON.parse(json) as HybridRequest;
+        this.calls.push(request);
+
+        if (this.latency > 0) {
+            await new Promise<void>((resolve) => setTimeout(resolve, this.latency));
+        }
+
+        const response: HybridResponse = { api: request.api, code: 0 };
+        const handler = this.handlers.get(request.api);
+        try {
+            if (handler) {
+                const data = await handler(request.params ?? {}, this);
+                if (data !== undefined) {
+                    response.data = data;
+                }
+            }
+        } catch (error: any) {
+            response.code = error instanceof MockBridgeError ? error.code : AtomicXErrorCode.FAILED;
+            response.message = error?.message || 'Mock API failed';
+        }
+        return JSON.stringify(response);
+    }
+
+    addEventListener(key: string): void {
+        this.registeredKeys.add(key);
+        // 与 Native 一致：注册状态监听后立即推送一次当前值
+        const listenerKey = parseListenerKey(key);
+        if (listenerKey) {
+            const snapshot = this.getStateSnapshot(listenerKey.store, listenerKey.name, listenerKey.roomID);
+            if (snapshot !== undefined) {
+                Promise.resolve().then(() => {
+                    if (this.registeredKeys.has(key)) {
+                        this.dispatch(key, toEventPayload({ [listenerKey.name]: snapshot }));
+                    }
+                });
+            }
+        }
+    }
+
+    removeEventListener(key: string): void {
+        this.registeredKeys.delete(key);
+    }
+
+    // ---------------------------------------------------------------------
+    // HybridEventSource
+    // ---------------------------------------------------------------------
+
+    addListener(eventType: string, listener: MockEventListener): { remove: () => void } {
+        if (!this.emitterListeners.has(eventType)) {
+            this.emitterListeners.set(eventType, new Set());
+        }
+        this.emitterListeners.get(eventType)!.add(listener);
+        return {
+            remove: () => {
+                const listeners = this.emitterListeners.get(eventType);
+                if (listeners) {
+                    listeners.delete(listener);
+                    if (listeners.size === 0) {
+                        this.emitterListeners.delete(eventType);
+                    }
+                }
+            },
+        };
+    }
+
+    // ---------------------------------------------------------------------
+    // 扩展与事件
+    // ---------------------------------------------------------------------
+
+    /**
+     * 注册或覆盖某个 API 的处理函数
+     */
+    setHandler(api: string, handler: MockApiHandler): void {
+        this.handlers.set(api, handler);
+    }
+
+    /**
+     * 向所有匹配 store/name/roomID 的监听 key 派发事件（忽略 listenerID）
+     */
+    emit(store: string, name: string, roomID: string | null, data: Record<string, unknown>): void {
+        const payload = toEventPayload(data);
+        this.registeredKeys.forEach((key) => {
+            const listenerKey = parseListenerKey(key);
+            if (
+                listenerKey &&
+                listenerKey.store === store &&
+                listenerKey.name === name &&
+                (listenerKey.roomID ?? null) === (roomID ?? null)
+            ) {
+                this.dispatch(key, payload);
+            }
+        });
+    }
+
+    /**
+     * 获取指定直播间，不存在时返回 undefined
+     */
+    getRoom(liveID: string): MockRoom | undefined {
+        return this.rooms.get(liveID);
+    }
+
+    /**
+     * 模拟其他用户发送弹幕
+     */
+    receiveBarrage(liveID: string, text: string, sender: LiveUserInfoParam, extensionInfo?: Record<string, string>): void {
+        const room = this.requireRoom(liveID);
+        const message = this.createTextMessage(liveID, text, sender);
+        room.messageList = [...room.messageList, extensionInfo ? { ...message, extensionInfo } : message];
+        room.totalMessageSent += 1;
+        this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+    }
+
+    /**
+     * 模拟其他用户发送自定义消息
+     */
+    receiveCustomMessage(liveID: string, businessID: string, data: string, sender: LiveUserInfoParam): void {
+        const room = this.requireRoom(liveID);
+        const message: BarrageParam = {
+            ...this.createTextMessage(liveID, '', sender),
+            messageType: 'CUSTOM',
+            businessID,
+            data,
+        };
+        room.messageList = [...room.messageList, message];
+        this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+    }
+
+    /**
+     * 模拟其他用户送礼
+     */
+    receiveGift(liveID: string, giftID: string, count: number, sender: LiveUserInfoParam): void {
+        const room = this.requireRoom(liveID);
+        const gift = this.findGift(giftID);
+        if (!gift) {
+            throw new MockBridgeError(AtomicXErrorCode.INVALID_PARAMETER, `Unknown gift: ${giftID}`);
+        }
+        room.totalGiftCoins += (gift.coins ?? 0) * count;
+        if (sender.userID) {
+            room.giftSenders.add(sender.userID);
+        }
+        this.emit('GiftStore', 'onReceiveGift', liveID, { liveID, gift, count, sender });
+        this.emitSummary(liveID);
+    }
+
+    /**
+     * 模拟其他用户点赞
+     */
+    receiveLike(liveID: string, count: number, sender: LiveUserInfoParam): void {
+        const room = this.requireRoom(liveID);
+        room.totalLikeCount += count;
+        this.emit('LikeStore', 'onReceiveLikesMessage', liveID, {
+            liveID,
+            totalLikesReceived: room.totalLikeCount,
+            sender,
+        });
+        this.emitRoomState(liveID, 'LikeStore', 'totalLikeCount', room.totalLikeCount);
+        this.emitSummary(liveID);
+    }
+
+    /**
+     * 模拟观众进房
+     */
+    joinAudience(liveID: string, user: LiveUserInfoParam): void {
+        const room = this.requireRoom(liveID);
+        if (room.audienceList.some((item) => item.userID === user.userID)) {
+            return;
+        }
+        room.audienceList = [...room.audienceList, user];
+        this.emit('LiveAudienceStore', 'onAudienceJoined', liveID, { liveID, audience: user });
+        this.emitAudience(liveID);
+    }
+
+    /**
+     * 模拟观众离房
+     */
+    leaveAudience(liveID: string, userID: string): void {
+        const room = this.requireRoom(liveID);
+        const audience = room.audienceList.find((item) => item.userID === userID);
+        if (!audience) {
+            return;
+        }
+        room.audienceList = room.audienceList.filter((item) => item.userID !== userID);
+        this.emit('LiveAudienceStore', 'onAudienceLeft', liveID, { liveID, audience });
+        this.emitAudience(liveID);
+    }
+
+    /**
+     * 清空所有房间、监听和调用记录
+     */
+    reset(): void {
+        this.rooms.clear();
+        this.registeredKeys.clear();
+        this.emitterListeners.clear();
+        this.calls.length = 0;
+        this.currentLiveID = null;
+        this.sequence = 0;
+    }
+
+    // ---------------------------------------------------------------------
+    // 内部实现
+    // ---------------------------------------------------------------------
+
+    private dispatch(key: string, payload: Record<string, unknown>): void {
+        const listeners = this.emitterListeners.get(key);
+        if (!listeners) {
+            return;
+        }
+        Array.from(listeners).forEach((listener) => listener(payload));
+    }
+
+    private registerDefaultHandlers(): void {
+        this.setHandler('login', (params) => {
+            const userID = String(params.userID ?? '');
+            if (!userID) {
+                throw new MockBridgeError(AtomicXErrorCode.INVALID_PARAMETER, 'Missing userID');
+            }
+            this.loginUser = { userID, nickname: userID, avatarURL: '' };
+            this.emitLogin();
+            return this.loginUser;
+        });
+        this.setHandler('logout', () => {
+            this.loginUser = null;
+            this.emitLogin();
+        });
+        this.setHandler('setSelfInfo', (params) => {
+            const profile = (params.userProfile ?? {}) as UserProfileParam;
+            this.loginUser = { ...this.requireLogin(), ...profile };
+            this.emitLogin();
+            return this.loginUser;
+        });
+
+        this.setHandler('fetchLiveList', (params) => {
+            const count = Number(params.count) || 20;
+            const start = Number(params.cursor) || 0;
+            const list = Array.from(this.rooms.values())
+                .map((room) => room.liveInfo)
+                .filter((liveInfo) => liveInfo.isPublicVisible !== false);
+            const page = list.slice(start, start + count);
+            const cursor = start + count < list.length ? String(start + count) : '';
+            this.emit('LiveListStore', 'liveList', null, { liveList: page });
+            this.emit('LiveListStore', 'liveListCursor', null, { liveListCursor: cursor });
+            return { list: page, cursor };
+        });
+        // 可连线主播查询：关键字在服务端匹配，结果不写入 LiveListStore
+        this.setHandler('fetchCoHostCandidates', (params) => {
+            const count = Number(params.count) || 20;
+            const start = Number(params.cursor) || 0;
+            const keyword = String(params.keyword ?? '').trim().toLowerCase();
+            const list = Array.from(this.rooms.values())
+                .map((room) => room.liveInfo)
+                .filter((liveInfo) => liveInfo.isPublicVisible !== false)
+                .filter((liveInfo) => !keyword || [liveInfo.liveID, liveInfo.liveOwner?.userName, liveInfo.liveOwner?.userID]
+                    .some((value) => typeof value === 'string' && value.toLowerCase().includes(keyword)));
+            const page = list.slice(start, start + count);
+            return { list: page, cursor: start + count < list.length ? String(start + count) : '' };
+        });
+        this.setHandler('createLive', (params) => {
+            const owner = this.requireLogin();
+            const input = (params.liveInfo ?? {}) as LiveInfoParam;
+            if (!input.liveID) {
+                throw new MockBridgeError(AtomicXErrorCode.INVALID_PARAMETER, 'Missing liveID');
+            }
+            const liveInfo: LiveInfoParam = {
+                ...input,
+                liveOwner: { userID: owner.userID, userName: owner.nickname, avatarURL: owner.avatarURL },
+                createTime: Date.now(),
+            };
+            const room = this.createRoom(liveInfo);
+            this.rooms.set(liveInfo.liveID, room);
+            if (input.keepOwnerOnSeat !== false && room.seatList[0]) {
+                room.seatList[0].userInfo = { userID: owner.userID, nickname: owner.nickname, avatarURL: owner.avatarURL };
+            }
+            this.enterRoom(liveInfo.liveID);
+            return liveInfo;
+        });
+        this.setHandler('joinLive', (params) => {
+            this.requireLogin();
+            const liveID = String(params.liveID ?? '');
+            const room = this.requireRoom(liveID);
+            this.enterRoom(liveID);
+            const user = this.loginUser!;
+            this.joinAudience(liveID, { userID: user.userID, userName: user.nickname, avatarURL: user.avatarURL });
+            return room.liveInfo;
+        });
+        this.setHandler('leaveLive', () => {
+            const liveID = this.currentLiveID;
+            if (liveID && this.loginUser) {
+                this.leaveAudience(liveID, this.loginUser.userID);
+            }
+            this.exitRoom();
+        });
+        this.setHandler('endLive', () => {
+            const liveID = this.currentLiveID;
+            if (!liveID) {
+                throw new MockBridgeError(AtomicXErrorCode.OPERATION_INVALID_BEFORE_ENTER_ROOM, 'Not in a live room');
+            }
+            const summary = this.getSummary(liveID);
+            this.emit('LiveListStore', 'onLiveEnded', null, { liveID, reason: 'ENDED_BY_HOST', message: '' });
+            this.rooms.delete(liveID);
+            this.exitRoom();
+            return summary;
+        });
+        this.setHandler('updateLiveInfo', (params) => {
+            const room = this.requireRoom(String(params.liveID ?? ''));
+            const updates = { ...params } as Partial<LiveInfoParam>;
+            delete updates.liveID;
+            room.liveInfo = {
+                ...room.liveInfo,
+                ...updates,
+                // metaData 按 key 合并，只覆盖本次传入的字段
+                ...(updates.metaData ? { metaData: { ...room.liveInfo.metaData, ...updates.metaData } as LiveInfoParam['metaData'] } : {}),
+            };
+            this.emit('LiveListStore', 'currentLive', null, { currentLive: room.liveInfo });
+            return room.liveInfo;
+        });
+
+        this.setHandler('sendTextMessage', (params) => {
+            const liveID = String(params.liveID ?? '');
+            const room = this.requireRoom(liveID);
+            if (!room.allowSendMessage) {
+                throw new MockBridgeError(AtomicXErrorCode.SEND_MESSAGE_DISABLED_FOR_ALL, 'Sending message is not allowed');
+            }
+            const user = this.requireLogin();
+            const message = this.createTextMessage(liveID, String(params.text ?? ''), {
+                userID: user.userID,
+                userName: user.nickname,
+                avatarURL: user.avatarURL,
+            });
+            room.messageList = [
+                ...room.messageList,
+                params.extensionInfo ? { ...message, extensionInfo: params.extensionInfo as Record<string, string> } : message,
+            ];
+            room.totalMessageSent += 1;
+            this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+        });
+        this.setHandler('sendCustomMessage', (params) => {
+            const liveID = String(params.liveID ?? '');
+            const room = this.requireRoom(liveID);
+            const user = this.requireLogin();
+            const message: BarrageParam = {
+                ...this.createTextMessage(liveID, '', {
+                    userID: user.userID,
+                    userName: user.nickname,
+                    avatarURL: user.avatarURL,
+                }),
+                messageType: 'CUSTOM',
+                businessID: String(params.businessID ?? ''),
+                data: String(params.data ?? ''),
+            };
+            room.messageList = [...room.messageList, message];
+            this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+        });
+        this.setHandler('appendLocalTip', (params) => {
+            const liveID = String(params.liveID ?? '');
+            const room = this.requireRoom(liveID);
+            room.messageList = [...room.messageList, { ...(params.message as BarrageParam) }];
+            this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+        });
+        this.setHandler('loadEarlierMessages', (params) => {
+            const room = this.requireRoom(String(params.liveID ?? ''));
+            const count = Number(params.count ?? 20);
+            const beforeIndex = params.beforeMessageID
+                ? room.messageList.findIndex((message) => message.messageID === params.beforeMessageID)
+                : room.messageList.length;
+            const end = Math.max(0, beforeIndex);
+            const start = Math.max(0, end - count);
+            return { messageList: room.messageList.slice(start, end), hasMore: start > 0 };
+        });
+
+        this.setHandler('refreshUsableGifts', () => {
+            if (this.currentLiveID) {
+                this.emitRoomState(this.currentLiveID, 'GiftStore', 'usableGifts', this.usableGifts);
+            }
+            return this.usableGifts;
+        });
+        this.setHandler('setLanguage', () => undefined);
+        this.setHandler('sendGift', (params) => {
+            const user = this.requireLogin();
+            this.receiveGift(String(params.liveID ?? ''), String(params.giftID ?? ''), Number(params.count) || 1, {
+                userID: user.userID,
+                userName: user.nickname,
+                avatarURL: user.avatarURL,
+            });
+        });
+
+        this.setHandler('sendLike', (params) => {
+            const user = this.requireLogin();
+            const liveID = String(params.liveID ?? this.currentLiveID ?? '');
+            this.receiveLike(liveID, Number(params.count) || 1, {
+                userID: user.userID,
+                userName: user.nickname,
+                avatarURL: user.avatarURL,
+            });
+        });
+
+        this.setHandler('fetchAudienceList', (params) => {
+            const liveID = String(params.liveID ?? this.currentLiveID ?? '');
+            const room = this.requireRoom(liveID);
+            this.emitAudience(liveID);
+            return room.audienceList;
+        });
+
+        this.setHandler('setAdministrator', (params) => {
+            this.setAudienceRole(String(params.liveID ?? this.currentLiveID ?? ''), String(params.userID ?? ''), LiveUserRole.ADMINISTRATOR);
+        });
+        this.setHandler('revokeAdministrator', (params) => {
+            this.setAudienceRole(String(params.liveID ?? this.currentLiveID ?? ''), String(params.userID ?? ''), LiveUserRole.GENERAL_USER);
+        });
+
+        this.setHandler('takeSeat', (params) => {
+            const room = this.requireCurrentRoom();
+            const user = this.requireLogin();
+            const seat = room.seatList[Number(params.seatIndex)];
+            if (!seat) {
+                throw new MockBridgeError(AtomicXErrorCode.SEAT_INDEX_NOT_EXIST, 'Seat index out of range');
+            }
+            if (seat.isLocked) {
+                throw new MockBridgeError(AtomicXErrorCode.SEAT_LOCKED, 'Seat is locked');
+            }
+            if (seat.userInfo) {
+                throw new MockBridgeError(AtomicXErrorCode.SEAT_OCCUPIED, 'Seat is occupied');
+            }
+            room.seatList = room.seatList.map((item) =>
+                item.userInfo?.userID === user.userID ? { ...item, userInfo: null } : item
+            );
+            room.seatList[seat.index] = {
+                ...seat,
+                userInfo: { userID: user.userID, nickname: user.nickname, avatarURL: user.avatarURL },
+            };
+            this.emitRoomState(room.liveInfo.liveID, 'LiveSeatStore', 'seatList', room.seatList);
+        });
+        this.setHandler('leaveSeat', () => {
+            const room = this.requireCurrentRoom();
+            const user = this.requireLogin();
+            this.updateSeats(room, (seat) => (seat.userInfo?.userID === user.userID ? { ...seat, userInfo: null } : seat));
+        });
+        this.setHandler('kickUserOutOfSeat', (params) => {
+            const room = this.requireCurrentRoom();
+            this.updateSeats(room, (seat) => (seat.userInfo?.userID === params.userID ? { ...seat, userInfo: null } : seat));
+            this.emit('CoGuestStore', 'onKickedOffSeat', room.liveInfo.liveID, { liveID: room.liveInfo.liveID });
+        });
+        this.setHandler('moveUserToSeat', (params) => {
+            const room = this.requireCurrentRoom();
+            const from = room.seatList[Number(params.fromSeatIndex)];
+            const to = room.seatList[Number(params.toSeatIndex)];
+            if (!from || !to || !from.userInfo || to.userInfo || to.isLocked) {
+                throw new MockBridgeError(AtomicXErrorCode.FAILED, 'Seat move is not allowed');
+            }
+            const userInfo = from.userInfo;
+            this.updateSeats(room, (seat) => {
+                if (seat.index === from.index) {
+                    return { ...seat, userInfo: null };
+                }
+                return seat.index === to.index ? { ...seat, userInfo } : seat;
+            });
+        });
+        this.setHandler('lockSeat', (params) => {
+            const room = this.requireCurrentRoom();
+            this.updateSeats(room, (seat) => (seat.index === Number(params.seatIndex) ? { ...seat, isLocked: true } : seat));
+        });
+        this.setHandler('unlockSeat', (params) => {
+            const room = this.requireCurrentRoom();
+            this.updateSeats(room, (seat) => (seat.index === Number(params.seatIndex) ? { ...seat, isLocked: false } : seat));
+        });
+    }
+
+    private createRoom(liveInfo: LiveInfoParam): MockRoom {
+        const seatCount = liveInfo.maxSeatCount ?? this.seatCount;
+        const columns = Math.ceil(Math.sqrt(seatCount));
+        const size = Math.floor(720 / columns);
+        const seatList: SeatInfo[] = Array.from({ length: seatCount }, (_, index) => ({
+            index,
+            isLocked: false,
+            userInfo: null,
+            region: {
+                x: (index % columns) * size,
+                y: Math.floor(index / columns) * size,
+                w: size,
+                h: size,
+                zorder: index,
+            },
+        }));
+        return {
+            liveInfo,
+            seatList,
+            messageList: [],
+            allowSendMessage: !liveInfo.isMessageDisable,
+            audienceList: [],
+            totalLikeCount: 0,
+            totalGiftCoins: 0,
+            giftSenders: new Set(),
+            totalMessageSent: 0,
+        };
+    }
+
+    private createTextMessage(liveID: string, text: string, sender: LiveUserInfoParam): BarrageParam {
+        this.sequence += 1;
+        return {
+            liveID,
+            messageID: `mock_msg_${this.sequence}`,
+            sequence: this.sequence,
+            messageType: 'TEXT',
+            textContent: text,
+            text,
+            sender,
+            userID: sender.userID,
+            nickname: sender.userName,
+            avatarURL: sender.avatarURL,
+            timestamp: Date.now(),
+            timestampInSecond: Math.floor(Date.now() / 1000),
+        };
+    }
+
+    private enterRoom(liveID: string): void {
+        const room = this.requireRoom(liveID);
+        this.currentLiveID = liveID;
+        this.emit('LiveListStore', 'currentLive', null, { currentLive: room.liveInfo });
+        this.emitRoomState(liveID, 'LiveSeatStore', 'seatList', room.seatList);
+        this.emitRoomState(liveID, 'BarrageStore', 'messageList', room.messageList);
+        this.emitRoomState(liveID, 'BarrageStore', 'allowSendMessage', room.allowSendMessage);
+        this.emitRoomState(liveID, 'GiftStore', 'usableGifts', this.usableGifts);
+    }
+
+    private exitRoom(): void {
+        this.currentLiveID = null;
+        this.emit('LiveListStore', 'currentLive', null, { currentLive: null });
+    }
+
+    private updateSeats(room: MockRoom, updater: (seat: SeatInfo) => SeatInfo): void {
+        room.seatList = room.seatList.map(updater);
+        this.emitRoomState(room.liveInfo.liveID, 'LiveSeatStore', 'seatList', room.seatList);
+    }
+
+    private emitRoomState(liveID: string, store: string, name: string, value: unknown): void {
+        this.emit(store, name, liveID, { [name]: value });
+    }
+
+    private emitLogin(): void {
+        this.emit('LoginStore', 'loginUserInfo', null, { loginUserInfo: this.loginUser });
+        this.emit('LoginStore', 'loginStatus', null, { loginStatus: this.loginUser ? 'LOGINED' : 'LOGOUT' });
+    }
+
+    private setAudienceRole(liveID: string, userID: string, role: LiveUserRole): void {
+        const room = this.requireRoom(liveID);
+        if (!room.audienceList.some((item) => item.userID === userID)) {
+            throw new MockBridgeError(AtomicXErrorCode.USER_NOT_EXIST, `User ${userID} is not in the room`);
+        }
+        room.audienceList = room.audienceList.map((item) => (item.userID === userID ? { ...item, role } : item));
+        this.emitAudience(liveID);
+    }
+
+    private emitAudience(liveID: string): void {
+        const room = this.requireRoom(liveID);
+        this.emitRoomState(liveID, 'LiveAudienceStore', 'audienceList', room.audienceList);
+        this.emitRoomState(liveID, 'LiveAudienceStore', 'audienceCount', room.audienceList.length);
+    }
+
+    private emitSummary(liveID: string): void {
+        this.emitRoomState(liveID, 'LiveSummaryStore', 'summaryData', this.getSummary(liveID));
+    }
+
+    private getSummary(liveID: string): Record<string, unknown> {
+        const room = this.requireRoom(liveID);
+        return {
+            totalDuration: room.liveInfo.createTime ? Date.now() - room.liveInfo.createTime : 0,
+            totalViewers: room.audienceList.length,
+            totalMessageSent: room.totalMessageSent,
+            totalGiftCoins: room.totalGiftCoins,
+            totalGiftUniqueSenders: room.giftSenders.size,
+            totalLikesReceived: room.totalLikeCount,
+        };
+    }
+
+    /**
+     * 获取 store/name 对应的当前状态，用于注册监听时推送初始值
+     */
+    private getStateSnapshot(store: string, name: string, roomID: string | null): unknown {
+        if (store === 'LoginStore') {
+            if (name === 'loginUserInfo') {
+                return this.loginUser;
+            }
+            return name === 'loginStatus' ? (this.loginUser ? 'LOGINED' : 'UNLOGIN') : undefined;
+        }
+        if (store === 'LiveListStore' && name === 'currentLive') {
+            return this.currentLiveID ? this.rooms.get(this.currentLiveID)?.liveInfo ?? null : null;
+        }
+        const room = roomID ? this.rooms.get(roomID) : undefined;
+        if (!room) {
+            return undefined;
+        }
+        const snapshots: Record<string, Record<string, unknown>> = {
+            BarrageStore: { messageList: room.messageList, allowSendMessage: room.allowSendMessage },
+            LiveSeatStore: { seatList: room.seatList },
+            LikeStore: { totalLikeCount: room.totalLikeCount },
+            GiftStore: { usableGifts: this.usableGifts },
+            LiveAudienceStore: { audienceList: room.audienceList, audienceCount: room.audienceList.length },
+        };
+        return snapshots[store]?.[name];
+    }
+
+    private findGift(giftID: string): GiftParam | undefined {
+        for (const category of this.usableGifts) {
+            const gift = category.giftList?.find((item) => item.giftID === giftID);
+            if (gift) {
+                return gift;
+            }
+        }
+        return undefined;
+    }
+
+    private requireLogin(): UserProfileParam {
+        if (!this.loginUser) {
+            throw new MockBridgeError(AtomicXErrorCode.SDK_NOT_INITIALIZED, 'Not logged in');
+        }
+        return this.loginUser;
+    }
+
+    private requireRoom(liveID: string): MockRoom {
+        const room = this.rooms.get(liveID);
+        if (!room) {
+            throw new MockBridgeError(AtomicXErrorCode.ROOM_ID_INVALID, `Live room not found: ${liveID}`);
+        }
+        return room;
+    }
+
+    private requireCurrentRoom(): MockRoom {
+        if (!this.currentLiveID) {
+            throw new MockBridgeError(AtomicXErrorCode.OPERATION_INVALID_BEFORE_ENTER_ROOM, 'Not in a live room');
+        }
+        return this.requireRoom(this.currentLiveID);
+    }
+}
+
+/**
+ * 创建并注入 MockHybridBridge，之后所有 State hooks 都会走 JS 实现
+ *
+ * @example
+ * ```ts
+ * const bridge = installMockHybridBridge({ loginUser: { userID: 'anchor' } });
+ * bridge.receiveBarrage('live_1', 'hello', { userID: 'viewer' });
+ * ```
+ */
+export function installMockHybridBridge(options?: MockHybridBridgeOptions): MockHybridBridge {
+    const bridge = new MockHybridBridge(options);
+    setHybridBridgeProxy(bridge, bridge);
+    return bridge;
+}
+
+/**
+ * 移除 MockHybridBridge，恢复 Native 模块（若存在）
+ */
+export function uninstallMockHybridBridge(): void {
+    resetHybridBridgeProxy();
+}
@@ -0,0 +1,272 @@
+/**
+ * State 模块错误定义
+ *
+ * Native 返回的错误码与 SDK 保持一致，这里按业务含义归类，
+ * 便于调用方通过 category 或具体 code 做分支处理
+ */
+
+import type { StateResult } from '../types';
+
+/**
+ * 常用 SDK 错误码
+ */
+export enum AtomicXErrorCode {
+    /** 通用失败 */
+    FAILED = -1,
+    /** 调用频率超限 */
+    FREQ_LIMIT = -2,
+    /** 重复操作 */
+    REPEAT_OPERATION = -3,
+    /** 参数非法 */
+    INVALID_PARAMETER = -1001,
+    /** SDK 未初始化（通常是未登录） */
+    SDK_NOT_INITIALIZED = -1002,
+    /** 没有权限 */
+    PERMISSION_DENIED = -1003,
+    /** 需要开通付费套餐 */
+    REQUIRE_PAYMENT = -1004,
+    /** 摄像头启动失败 */
+    CAMERA_START_FAIL = -1100,
+    /** 摄像头未授权 */
+    CAMERA_NOT_AUTHORIZED = -1101,
+    /** 摄像头被占用 */
+    CAMERA_OCCUPIED = -1102,
+    /** 没有可用摄像头 */
+    CAMERA_DEVICE_EMPTY = -1103,
+    /** 麦克风启动失败 */
+    MICROPHONE_START_FAIL = -1104,
+    /** 麦克风未授权 */
+    MICROPHONE_NOT_AUTHORIZED = -1105,
+    /** 麦克风被占用 */
+    MICROPHONE_OCCUPIED = -1106,
+    /** 没有可用麦克风 */
+    MICROPHONE_DEVICE_EMPTY = -1107,
+    /** 进房前不支持该操作 */
+    OPERATION_INVALID_BEFORE_ENTER_ROOM = -2101,
+    /** 房主不支持退房 */
+    EXIT_NOT_SUPPORTED_FOR_ROOM_OWNER = -2102,
+    /** 当前房间类型不支持该操作 */
+    OPERATION_NOT_SUPPORTED_IN_CURRENT_ROOM_TYPE = -2103,
+    /** 房间 ID 非法 */
+    ROOM_ID_INVALID = -2105,
+    /** 已在其他房间中 */
+    ALREADY_IN_OTHER_ROOM = -2108,
+    /** 用户不存在 */
+    USER_NOT_EXIST = -2200,
+    /** 需要房主权限 */
+    USER_NEED_OWNER_PERMISSION = -2300,
+    /** 需要管理员权限 */
+    USER_NEED_ADMIN_PERMISSION = -2301,
+    /** 信令请求无权限 */
+    REQUEST_NO_PERMISSION = -2310,
+    /** 信令请求 ID 无效 */
+    REQUEST_ID_INVALID = -2311,
+    /** 信令请求重复 */
+    REQUEST_ID_REPEAT = -2312,
+    /** 麦位数量超出上限 */
+    MAX_SEAT_COUNT_LIMIT = -2340,
+    /** 当前用户已在麦上 */
+    ALREADY_IN_SEAT = -2341,
+    /** 麦位已被占用 */
+    SEAT_OCCUPIED = -2342,
+    /** 麦位已锁定 */
+    SEAT_LOCKED = -2343,
+    /** 麦位不存在 */
+    SEAT_INDEX_NOT_EXIST = -2344,
+    /** 用户不在麦上 */
+    USER_NOT_IN_SEAT = -2345,
+    /** 麦位已满 */
+    ALL_SEAT_OCCUPIED = -2346,
+    /** 全员禁言 */
+    SEND_MESSAGE_DISABLED_FOR_ALL = -2380,
+    /** 当前用户被禁言 */
+    SEND_MESSAGE_DISABLED_FOR_CURRENT = -2381,
+    /** IM SDK 未登录 */
+    NOT_LOGGED_IN = 6014,
+    /** 功能不支持 */
+    NOT_SUPPORT = 100006,
+    /** 内容被本地审核拦截（客户端错误码，不由 SDK 返回） */
+    CONTENT_REJECTED = -90001,
+    /** 余额不足，由本地钱包校验（客户端错误码，不由 SDK 返回） */
+    INSUFFICIENT_BALANCE = -90002,
+}
+
+/**
+ * 错误分类
+ * - `NOT_LOGGED_IN`: 未登录或登录失效
+ * - `INVALID_PARAMETER`: 参数缺失或非法
+ * - `PERMISSION_DENIED`: 无权限（房主/管理员权限、系统授权）
+ * - `DEVICE`: 摄像头、麦克风等设备错误
+ * - `ROOM`: 直播间状态错误
+ * - `SEAT`: 麦位相关错误
+ * - `MESSAGE_DISABLED`: 被禁言
+ * - `CONTENT_REJECTED`: 内容被本地审核拦截
+ * - `INSUFFICIENT_BALANCE`: 余额不足
+ * - `RATE_LIMITED`: 调用频率超限
+ * - `REPEAT_OPERATION`: 重复操作
+ * - `NOT_SUPPORTED`: 功能不支持
+ * - `UNKNOWN`: 其他错误
+ */
+export type AtomicXErrorCategory =
+    | 'NOT_LOGGED_IN'
+    | 'INVALID_PARAMETER'
+    | 'PERMISSION_DENIED'
+    | 'DEVICE'
+    | 'ROOM'
+    | 'SEAT'
+    | 'MESSAGE_DISABLED'
+    | 'CONTENT_REJECTED'
+    | 'INSUFFICIENT_BALANCE'
+    | 'RATE_LIMITED'
+    | 'REPEAT_OPERATION'
+    | 'NOT_SUPPORTED'
+    | 'UNKNOWN';
+
+const ERROR_CATEGORY_MAP: Record<number, AtomicXErrorCategory> = {
+    [AtomicXErrorCode.FREQ_LIMIT]: 'RATE_LIMITED',
+    [AtomicXErrorCode.REPEAT_OPERATION]: 'REPEAT_OPERATION',
+    [AtomicXErrorCode.REQUEST_ID_REPEAT]: 'REPEAT_OPERATION',
+    [AtomicXErrorCode.SDK_NOT_INITIALIZED]: 'NOT_LOGGED_IN',
+    [AtomicXErrorCode.NOT_LOGGED_IN]: 'NOT_LOGGED_IN',
+    [AtomicXErrorCode.INVALID_PARAMETER]: 'INVALID_PARAMETER',
+    [AtomicXErrorCode.ROOM_ID_INVALID]: 'INVALID_PARAMETER',
+    [AtomicXErrorCode.REQUEST_ID_INVALID]: 'INVALID_PARAMETER',
+    [AtomicXErrorCode.USER_NOT_EXIST]: 'INVALID_PARAMETER',
+    [AtomicXErrorCode.PERMISSION_DENIED]: 'PERMISSION_DENIED',
+    [AtomicXErrorCode.REQUIRE_PAYMENT]: 'PERMISSION_DENIED',
+    [AtomicXErrorCode.USER_NEED_OWNER_PERMISSION]: 'PERMISSION_DENIED',
+    [AtomicXErrorCode.USER_NEED_ADMIN_PERMISSION]: 'PERMISSION_DENIED',
+    [AtomicXErrorCode.REQUEST_NO_PERMISSION]: 'PERMISSION_DENIED',
+    [AtomicXErrorCode.CAMERA_START_FAIL]: 'DEVICE',
+    [AtomicXErrorCode.CAMERA_NOT_AUTHORIZED]: 'DEVICE',
+    [AtomicXErrorCode.CAMERA_OCCUPIED]: 'DEVICE',
+    [AtomicXErrorCode.CAMERA_DEVICE_EMPTY]: 'DEVICE',
+    [AtomicXErrorCode.MICROPHONE_START_FAIL]: 'DEVICE',
+    [AtomicXErrorCode.MICROPHONE_NOT_AUTHORIZED]: 'DEVICE',
+    [AtomicXErrorCode.MICROPHONE_OCCUPIED]: 'DEVICE',
+    [AtomicXErrorCode.MICROPHONE_DEVICE_EMPTY]: 'DEVICE',
+    [AtomicXErrorCode.OPERATION_INVALID_BEFORE_ENTER_ROOM]: 'ROOM',
+    [AtomicXErrorCode.EXIT_NOT_SUPPORTED_FOR_ROOM_OWNER]: 'ROOM',
+    [AtomicXErrorCode.ALREADY_IN_OTHER_ROOM]: 'ROOM',
+    [AtomicXErrorCode.OPERATION_NOT_SUPPORTED_IN_CURRENT_ROOM_TYPE]: 'NOT_SUPPORTED',
+    [AtomicXErrorCode.NOT_SUPPORT]: 'NOT_SUPPORTED',
+    [AtomicXErrorCode.MAX_SEAT_COUNT_LIMIT]: 'SEAT',
+    [AtomicXErrorCode.ALREADY_IN_SEAT]: 'SEAT',
+    [AtomicXErrorCode.SEAT_OCCUPIED]: 'SEAT',
+    [AtomicXErrorCode.SEAT_LOCKED]: 'SEAT',
+    [AtomicXErrorCode.SEAT_INDEX_NOT_EXIST]: 'SEAT',
+    [AtomicXErrorCode.USER_NOT_IN_SEAT]: 'SEAT',
+    [AtomicXErrorCode.ALL_SEAT_OCCUPIED]: 'SEAT',
+    [AtomicXErrorCode.SEND_MESSAGE_DISABLED_FOR_ALL]: 'MESSAGE_DISABLED',
+    [AtomicXErrorCode.SEND_MESSAGE_DISABLED_FOR_CURRENT]: 'MESSAGE_DISABLED',
+    [AtomicXErrorCode.CONTENT_REJECTED]: 'CONTENT_REJECTED',
+    [AtomicXErrorCode.INSUFFICIENT_BALANCE]: 'INSUFFICIENT_BALANCE',
+};
+
+/**
+ * 根据错误码获取错误分类
+ */
+export function getErrorCategory(code: number): AtomicXErrorCategory {
+    return ERROR_CATEGORY_MAP[code] ?? 'UNKNOWN';
+}
+
+/**
+ * State action 统一错误类型
+ * 继承自 Error，可直接传给原有的 onError 回调
+ */
+export class AtomicXError extends Error {
+    /** 出错的 API 名称 */
+    readonly api: string;
+    /** SDK 错误码 */
+    readonly code: number;
+    /** 错误分类 */
+    readonly category: AtomicXErrorCategory;
+
+    constructor(api: string, code: number, message: string) {
+        super(message);
+        this.name = 'AtomicXError';
+        this.api = api;
+        this.code = code;
+        this.category = getErrorCategory(code);
+        Object.setPrototypeOf(this, AtomicXError.prototype);
+    }
+
+    /**
+     * 由 callNativeAPI 的失败结果创建错误
+     */
+    static fromResult(api: string, result: StateResult<unknown>, fallbackMessage: string): AtomicXError {
+        return new AtomicXError(api, result.code ?? AtomicXErrorCode.FAILED, result.error || fallbackMessage);
+    }
+
+    /**
+     * 将任意异常包装为 AtomicXError
+     */
+    static from(api: string, error: unknown): AtomicXError {
+        if (error instanceof AtomicXError) {
+            return error;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        return new AtomicXError(api, AtomicXErrorCode.FAILED, message);
+    }
+}
+
+/**
+ * 内容被本地审核拦截
+ * reason 为拦截原因（如 `SENSITIVE_WORD`），可用于展示给用户
+ */
+export class ContentRejectedError extends AtomicXError {
+    /** 拦截原因 */
+    readonly reason: string;
+    /** 拦截该内容的过滤器名称 */
+    readonly filter: string;
+
+    constructor(api: string, filter: string, reason: string, message?: string) {
+        super(api, AtomicXErrorCode.CONTENT_REJECTED, message || `Content rejected by ${filter}: ${reason}`);
+        this.name = 'ContentRejectedError';
+        this.reason = reason;
+        this.filter = filter;
+        Object.setPrototypeOf(this, ContentRejectedError.prototype);
+    }
+}
+
+/**
+ * 发送过于频繁被本地限制
+ * - `COOLDOWN`: 冷却时间内，错误码为 FREQ_LIMIT
+ * - `DUPLICATE`: 重复发送相同内容，错误码为 REPEAT_OPERATION
+ */
+export class SendThrottledError extends AtomicXError {
+    readonly reason: 'COOLDOWN' | 'DUPLICATE';
+    /** 多久之后可以再次发送（毫秒） */
+    readonly retryAfterMs: number;
+
+    constructor(api: string, reason: 'COOLDOWN' | 'DUPLICATE', retryAfterMs: number) {
+        super(
+            api,
+            reason === 'COOLDOWN' ? AtomicXErrorCode.FREQ_LIMIT : AtomicXErrorCode.REPEAT_OPERATION,
+            reason === 'COOLDOWN' ? `Sending too fast, retry after ${retryAfterMs}ms` : 'Duplicate message'
+        );
+        this.name = 'SendThrottledError';
+        this.reason = reason;
+        this.retryAfterMs = retryAfterMs;
+        Object.setPrototypeOf(this, SendThrottledError.prototype);
+    }
+}
+
+/**
+ * 余额不足，送礼前由本地钱包校验拦截
+ * required 为本次需要的金币数，balance 为当前可用余额
+ */
+export class InsufficientBalanceError extends AtomicXError {
+    /** 本次需要的金币数 */
+    readonly required: number;
+    /** 当前可用余额 */
+    readonly balance: number;
+
+    constructor(api: string, required: number, balance: number) {
+        super(api, AtomicXErrorCode.INSUFFICIENT_BALANCE, `Insufficient balance: required ${required}, available ${balance}`);
+        this.name = 'InsufficientBalanceError';
+        this.required = required;
+        this.balance = balance;
+        Object.setPrototypeOf(this, InsufficientBalanceError.prototype);
+    }
+}
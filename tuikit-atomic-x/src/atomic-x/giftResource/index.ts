@@ -0,0 +1,330 @@
+/**
+ * 礼物资源预加载与本地缓存
+ *
+ * refreshUsableGifts 成功后预先下载达到指定等级的礼物 SVGA 资源，按最近最少使用（LRU）淘汰，
+ * 总大小不超过上限；SVGAAnimationView 播放时优先使用本地缓存路径。
+ *
+ * 组件库不依赖具体的文件系统实现，需要通过 setGiftResourceFileSystem 传入；
+ * 未设置时不会预加载，播放时直接使用网络地址。
+ *
+ * @example
+ * ```ts
+ * setGiftResourceFileSystem({
+ *     cacheDir: `${RNFS.CachesDirectoryPath}/gift`,
+ *     exists: RNFS.exists,
+ *     download: async (url, path) => {
+ *         const { bytesWritten } = await RNFS.downloadFile({ fromUrl: url, toFile: path }).promise;
+ *         return { size: bytesWritten };
+ *     },
+ *     unlink: RNFS.unlink,
+ * }, AsyncStorage);
+ * setGiftResourceCacheOptions({ maxSizeBytes: 50 * 1024 * 1024, minLevel: 2 });
+ * ```
+ */
+
+import { getGiftEffectURL } from '../state/GiftState/effectQueue';
+import type { GiftCategoryParam } from '../state/GiftState/types';
+import type {
+    GiftPreloadListener,
+    GiftPreloadProgress,
+    GiftResourceCacheEntry,
+    GiftResourceCacheOptions,
+    GiftResourceCacheStats,
+    GiftResourceFileSystem,
+    GiftResourceStorage,
+} from './types';
+
+export * from './types';
+
+const STORAGE_KEY = 'atomicx_gift_resource_cache';
+// 缓存索引变化后延迟写入存储，避免播放时频繁写入
+const PERSIST_DELAY = 1000;
+
+const cacheOptions: Required<GiftResourceCacheOptions> = {
+    maxSizeBytes: 100 * 1024 * 1024,
+    minLevel: 1,
+    concurrency: 2,
+};
+
+const memoryItems = new Map<string, string>();
+const memoryStorage: GiftResourceStorage = {
+    getItem: async (key) => memoryItems.get(key) ?? null,
+    setItem: async (key, value) => {
+        memoryItems.set(key, value);
+    },
+    removeItem: async (key) => {
+        memoryItems.delete(key);
+    },
+};
+
+let fileSystem: GiftResourceFileSystem | null = null;
+let storage: GiftResourceStorage = memoryStorage;
+// 资源地址 -> 缓存记录
+const entries = new Map<string, GiftResourceCacheEntry>();
+let hits = 0;
+let misses = 0;
+// 缓存索引从存储中恢复完成前不开始下载
+let loadPromise: Promise<void> = Promise.resolve();
+// 多次预加载依次执行
+let preloadChain: Promise<unknown> = Promise.resolve();
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+let progress: GiftPreloadProgress = { total: 0, completed: 0, failed: 0, isLoading: false };
+const preloadListeners = new Set<GiftPreloadListener>();
+
+function hashURL(url: string): string {
+    let hash = 5381;
+    for (let i = 0; i < url.length; i += 1) {
+        hash = (hash * 33 + url.charCodeAt(i)) % 4294967296;
+    }
+    return `${hash.toString(16)}_${url.length}`;
+}
+
+function getCachePath(fs: GiftResourceFileSystem, url: string): string {
+    const match = /\.([a-z0-9]+)$/i.exec(url.split(/[?#]/)[0] ?? '');
+    return `${fs.cacheDir}/${hashURL(url)}${match ? `.${match[1]!.toLowerCase()}` : ''}`;
+}
+
+function getTotalSize(): number {
+    let total = 0;
+    entries.forEach((entry) => {
+        total += entry.size;
+    });
+    return total;
+}
+
+function updateProgress(updates: Partial<GiftPreloadProgress>): void {
+    progress = { ...progress, ...updates };
+    const snapshot = { ...progress };
+    preloadListeners.forEach((listener) => {
+        try {
+            listener(snapshot);
+        } catch (error) {
+            console.error('[GiftResource] preload listener error:', error);
+        }
+    });
+}
+
+async function persistIndex(): Promise<void> {
+    try {
+        await storage.setItem(STORAGE_KEY, JSON.stringify(Array.from(entries.values())));
+    } catch (error) {
+        console.warn('[GiftResource] 保存缓存索引失败:', error);
+    }
+}
+
+function schedulePersist(): void {
+    if (persistTimer) {
+        return;
+    }
+    persistTimer = setTimeout(() => {
+        persistTimer = null;
+        persistIndex();
+    }, PERSIST_DELAY);
+}
+
+// 从存储中恢复缓存索引，丢弃文件已被系统清理的记录
+async function loadIndex(fs: GiftResourceFileSystem): Promise<void> {
+    try {
+        const raw = await storage.getItem(STORAGE_KEY);
+        const saved = raw ? (JSON.parse(raw) as GiftResourceCacheEntry[]) : [];
+        for (const entry of Array.isArray(saved) ? saved : []) {
+            if (entry?.url && entry.path && (await fs.exists(entry.path)) && fileSystem === fs) {
+                entries.set(entry.url, entry);
+            }
+        }
+    } catch (error) {
+        console.warn('[GiftResource] 读取缓存索引失败:', error);
+    }
+}
+
+/**
+ * 设置文件系统和缓存索引存储，传 null 关闭本地缓存；存储默认使用内存
+ */
+export function setGiftResourceFileSystem(next: GiftResourceFileSystem | null, nextStorage?: GiftResourceStorage | null): void {
+    fileSystem = next;
+    storage = nextStorage ?? memoryStorage;
+    entries.clear();
+    hits = 0;
+    misses = 0;
+    loadPromise = next ? loadIndex(next) : Promise.resolve();
+}
+
+/**
+ * 配置礼物资源缓存参数，缩小上限时会立即淘汰超出的资源
+ */
+export function setGiftResourceCacheOptions(options: GiftResourceCacheOptions): void {
+    const { maxSizeBytes, minLevel, concurrency } = options;
+    if (maxSizeBytes !== undefined) {
+        cacheOptions.maxSizeBytes = Math.max(0, maxSizeBytes);
+        evictGiftResources();
+    }
+    if (minLevel !== undefined) {
+        cacheOptions.minLevel = minLevel;
+    }
+    if (concurrency !== undefined) {
+        cacheOptions.concurrency = Math.max(1, Math.floor(concurrency));
+    }
+}
+
+/**
+ * 获取当前礼物资源缓存配置
+ */
+export function getGiftResourceCacheOptions(): Required<GiftResourceCacheOptions> {
+    return { ...cacheOptions };
+}
+
+// 按最近使用时间从旧到新淘汰，直到总大小不超过上限
+async function evictGiftResources(): Promise<void> {
+    const fs = fileSystem;
+    let total = getTotalSize();
+    if (!fs || total <= cacheOptions.maxSizeBytes) {
+        return;
+    }
+    const sorted = Array.from(entries.values()).sort((a, b) => a.lastUsedAt - b.lastUsedAt);
+    for (const entry of sorted) {
+        if (total <= cacheOptions.maxSizeBytes) {
+            break;
+        }
+        entries.delete(entry.url);
+        total -= entry.size;
+        try {
+            await fs.unlink(entry.path);
+        } catch (error) {
+            console.warn('[GiftResource] 删除缓存文件失败:', entry.path, error);
+        }
+    }
+    schedulePersist();
+}
+
+async function runPreload(categories: GiftCategoryParam[]): Promise<GiftPreloadProgress> {
+    const fs = fileSystem;
+    if (!fs) {
+        return { ...progress };
+    }
+    await loadPromise;
+
+    const urls = new Set<string>();
+    categories.forEach((category) => {
+        category.giftList?.forEach((gift) => {
+            const url = getGiftEffectURL(gift);
+            if (url && (gift.level ?? 0) >= cacheOptions.minLevel && !entries.has(url)) {
+                urls.add(url);
+            }
+        });
+    });
+    const queue = Array.from(urls);
+    updateProgress({ total: queue.length, completed: 0, failed: 0, isLoading: queue.length > 0 });
+    if (queue.length === 0) {
+        return { ...progress };
+    }
+
+    const worker = async (): Promise<void> => {
+        let url = queue.shift();
+        while (url) {
+            try {
+                const path = getCachePath(fs, url);
+                const { size } = await fs.download(url, path);
+                // 下载期间切换了文件系统，结果作废
+                if (fileSystem !== fs) {
+                    return;
+                }
+                entries.set(url, { url, path, size: Math.max(0, Number(size) || 0), lastUsedAt: Date.now() });
+                updateProgress({ completed: progress.completed + 1 });
+            } catch (error) {
+                console.warn('[GiftResource] 预加载失败:', url, error);
+                updateProgress({ failed: progress.failed + 1 });
+            }
+            url = queue.shift();
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(cacheOptions.concurrency, queue.length) }, worker));
+
+    await evictGiftResources();
+    schedulePersist();
+    updateProgress({ isLoading: false });
+    return { ...progress };
+}
+
+/**
+ * 预加载礼物列表中的特效资源，已缓存的跳过；未设置文件系统时直接返回
+ */
+export function preloadGiftResources(categories: GiftCategoryParam[]): Promise<GiftPreloadProgress> {
+    const run = preloadChain.then(() => runPreload(categories));
+    preloadChain = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * 获取可播放的资源地址：已缓存时返回本地路径并刷新使用时间，否则返回原地址
+ */
+export function resolveGiftResource(url: string): string {
+    const entry = entries.get(url);
+    if (!entry) {
+        if (fileSystem && url) {
+            misses += 1;
+        }
+        return url;
+    }
+    hits += 1;
+    entry.lastUsedAt = Date.now();
+    schedulePersist();
+    return entry.path;
+}
+
+/**
+ * 获取最近一次预加载的进度
+ */
+export function getGiftPreloadProgress(): GiftPreloadProgress {
+    return { ...progress };
+}
+
+/**
+ * 监听预加载进度，返回移除函数
+ */
+export function addGiftPreloadListener(listener: GiftPreloadListener): () => void {
+    preloadListeners.add(listener);
+    return () => {
+        preloadListeners.delete(listener);
+    };
+}
+
+/**
+ * 获取缓存统计
+ */
+export function getGiftResourceCacheStats(): GiftResourceCacheStats {
+    return {
+        entryCount: entries.size,
+        totalSize: getTotalSize(),
+        maxSize: cacheOptions.maxSizeBytes,
+        hits,
+        misses,
+    };
+}
+
+/**
+ * 获取已缓存的资源，按最近使用时间从新到旧排序
+ */
+export function getGiftResourceCacheEntries(): GiftResourceCacheEntry[] {
+    return Array.from(entries.values()).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+}
+
+/**
+ * 删除所有缓存文件和缓存索引
+ */
+export async function clearGiftResourceCache(): Promise<void> {
+    const fs = fileSystem;
+    const removed = Array.from(entries.values());
+    entries.clear();
+    hits = 0;
+    misses = 0;
+    if (persistTimer) {
+        clearTimeout(persistTimer);
+        persistTimer = null;
+    }
+    if (fs) {
+        await Promise.all(removed.map((entry) => fs.unlink(entry.path).catch((error) => {
+            console.warn('[GiftResource] 删除缓存文件失败:', entry.path, error);
+        })));
+    }
+    await storage.removeItem(STORAGE_KEY);
+}
@@ -0,0 +1,72 @@
+/**
+ * 礼物资源缓存类型定义
+ */
+
+/**
+ * 文件系统适配器，可基于 react-native-fs、react-native-blob-util 等实现
+ */
+export interface GiftResourceFileSystem {
+    /** 缓存目录，不带结尾的 `/` */
+    cacheDir: string;
+    exists(path: string): Promise<boolean>;
+    /** 下载到指定路径，返回文件大小（字节） */
+    download(url: string, path: string): Promise<{ size: number }>;
+    unlink(path: string): Promise<void>;
+}
+
+/**
+ * 缓存索引存储适配器，接口与 AsyncStorage 兼容
+ */
+export interface GiftResourceStorage {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+/**
+ * 礼物资源缓存配置
+ */
+export interface GiftResourceCacheOptions {
+    /** 缓存总大小上限（字节），超出后按最近最少使用淘汰，默认 100MB */
+    maxSizeBytes?: number;
+    /** 只预加载等级不低于该值的礼物，默认 1 */
+    minLevel?: number;
+    /** 同时下载的数量，默认 2 */
+    concurrency?: number;
+}
+
+/**
+ * 已缓存的资源
+ */
+export interface GiftResourceCacheEntry {
+    url: string;
+    path: string;
+    size: number;
+    lastUsedAt: number;
+}
+
+/**
+ * 缓存统计
+ */
+export interface GiftResourceCacheStats {
+    entryCount: number;
+    totalSize: number;
+    maxSize: number;
+    /** 播放时命中本地缓存的次数 */
+    hits: number;
+    /** 播放时未命中、使用网络地址的次数 */
+    misses: number;
+}
+
+/**
+ * 预加载进度
+ */
+export interface GiftPreloadProgress {
+    /** 本次需要下载的资源数量，已缓存的不计入 */
+    total: number;
+    completed: number;
+    failed: number;
+    isLoading: boolean;
+}
+
+export type GiftPreloadListener = (progress: GiftPreloadProgress) => void;
@@ -8,15 +8,30 @@
 // 导出 Bridge（Native 桥接层）
 export * from './bridge/HybridBridge';
 
+// 导出 Mock Bridge（Jest 单测 / 脱离 Native 运行 Demo）
+export * from './bridge/MockHybridBridge';
+
 // 导出类型
 export * from './types';
 
+// 导出错误定义
+export * from './errors';
+
 // 导出工具函数
 export * from './utils';
 
+// 导出通用 Store（createRoomStore / createGlobalStore）
+export * from './store';
+
 // 导出 State 模块（包含所有 State hooks 和类型）
 export * from './state';
 
+// 导出直播文字记录（弹幕、礼物、点赞的本地记录与导出）
+export * from './transcript';
+
+// 导出礼物资源预加载与本地缓存
+export * from './giftResource';
+
 // 版本信息
 export const VERSION = '1.0.0';
 
@@ -8,81 +8,23 @@
  * Application Scenarios: Voice-changing live streaming, karaoke streaming, audio entertainment, professional audio effects, and other scenarios requiring audio processing.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
-    AudioChangerTypeParam,
-    AudioReverbTypeParam,
     SetAudioChangerTypeOptions,
     SetAudioReverbTypeOptions,
     SetVoiceEarMonitorEnableOptions,
     VolumeOptions,
+    AudioEffectEventMap,
+    AudioEffectEventName,
 } from './types';
 import { audioEffectStore } from './store';
-
-/**
- * Audio effect listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Voice changer type mapping table
- */
-const CHANGER_TYPE_MAP: Record<number, AudioChangerTypeParam> = {
-    0: 'NONE',
-    1: 'CHILD',
-    2: 'LITTLE_GIRL',
-    3: 'MAN',
-    4: 'HEAVY_METAL',
-    5: 'COLD',
-    6: 'FOREIGNER',
-    7: 'TRAPPED_BEAST',
-    8: 'FATSO',
-    9: 'STRONG_CURRENT',
-    10: 'HEAVY_MACHINERY',
-    11: 'ETHEREAL',
-} as const;
-
-/**
- * Reverb type mapping table
- */
-const REVERB_TYPE_MAP: Record<number, AudioReverbTypeParam> = {
-    0: 'NONE',
-    1: 'KTV',
-    2: 'SMALL_ROOM',
-    3: 'AUDITORIUM',
-    4: 'DEEP',
-    5: 'LOUD',
-    6: 'METALLIC',
-    7: 'MAGNETIC',
-} as const;
-
-/**
- * Audio effect state event name constants
- */
-const AUDIO_EFFECT_EVENTS = [
-    'isEarMonitorOpened',
-    'earMonitorVolume',
-    'audioChangerType',
-    'audioReverbType',
-];
-
-/**
- * Safe JSON parse
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-    try {
-        if (!json || typeof json !== 'string') {
-            return defaultValue;
-        }
-        return JSON.parse(json) as T;
-    } catch (error) {
-        console.error('safeJsonParse error:', error);
-        return defaultValue;
-    }
-}
+import type { AudioEffectState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * Voice changer type string to number reverse mapping
@@ -116,30 +58,6 @@ const REVERB_TYPE_STRING_MAP: Record<string, number> = {
     'MAGNETIC': 7,
 };
 
-/**
- * Map voice changer type code to voice changer type
- */
-function mapChangerTypeCodeToChangerType(typeCode: number): AudioChangerTypeParam | null {
-    const mappedType = CHANGER_TYPE_MAP[typeCode];
-    if (mappedType === undefined) {
-        console.warn(`Unknown changer type code: ${typeCode}`);
-        return null;
-    }
-    return mappedType;
-}
-
-/**
- * Map reverb type code to reverb type
- */
-function mapReverbTypeCodeToReverbType(typeCode: number): AudioReverbTypeParam | null {
-    const mappedType = REVERB_TYPE_MAP[typeCode];
-    if (mappedType === undefined) {
-        console.warn(`Unknown reverb type code: ${typeCode}`);
-        return null;
-    }
-    return mappedType;
-}
-
 /**
  * AudioEffectState Hook
  * 
@@ -175,8 +93,8 @@ function mapReverbTypeCodeToReverbType(typeCode: number): AudioReverbTypeParam |
  * ```
  */
 export function useAudioEffectState(liveID: string) {
-    // Get initial state from global store
-    const initialState = audioEffectStore.getState(liveID);
+    // Read state from the global store; native listeners are registered once and shared by every mounted hook
+    const state = audioEffectStore.useStore(liveID, (current) => current);
 
     /**
      * Ear monitor switch state
@@ -184,7 +102,7 @@ export function useAudioEffectState(liveID: string) {
      * @description Controls whether to enable ear monitor function, true for enabled, false for disabled
      * @default Get initial value from global store
      */
-    const [isEarMonitorOpened, setIsEarMonitorOpened] = useState<boolean>(initialState.isEarMonitorOpened);
+    const isEarMonitorOpened = state.isEarMonitorOpened;
 
     /**
      * Ear monitor volume level
@@ -192,7 +110,7 @@ export function useAudioEffectState(liveID: string) {
      * @description Volume level of ear monitor function, used to adjust ear monitor sound level
      * @default Get initial value from global store
      */
-    const [earMonitorVolume, setEarMonitorVolume] = useState<number>(initialState.earMonitorVolume);
+    const earMonitorVolume = state.earMonitorVolume;
 
     /**
      * Voice changer type
@@ -200,7 +118,7 @@ export function useAudioEffectState(liveID: string) {
      * @description Current applied voice changer effect type, supports multiple voice effects (e.g., male voice, female voice, metallic, etc.)
      * @default Get initial value from global store
      */
-    const [audioChangerType, setAudioChangerTypeState] = useState<AudioChangerTypeParam>(initialState.audioChangerType);
+    const audioChangerType = state.audioChangerType;
 
     /**
      * Reverb type
@@ -208,172 +126,7 @@ export function useAudioEffectState(liveID: string) {
      * @description Current applied reverb effect type, supports multiple reverb effects (e.g., KTV, auditorium, deep, etc.)
      * @default Get initial value from global store
      */
-    const [audioReverbType, setAudioReverbTypeState] = useState<AudioReverbTypeParam>(initialState.audioReverbType);
-
-    // Subscribe to global store state changes
-    useEffect(() => {
-        if (!liveID) {
-            return;
-        }
-
-        // Subscribe to state changes
-        const unsubscribe = audioEffectStore.subscribe(liveID, (state) => {
-            setIsEarMonitorOpened(state.isEarMonitorOpened);
-            setEarMonitorVolume(state.earMonitorVolume);
-            setAudioChangerTypeState(state.audioChangerType);
-            setAudioReverbTypeState(state.audioReverbType);
-        });
-
-        // Clean up subscription
-        return unsubscribe;
-    }, [liveID]);
-
-    // Event listener references
-    type WritableMap = Record<string, unknown>;
-
-    /**
-     * Handle audio effect state change events
-     * Update global store, store will automatically notify all subscribers
-     */
-    const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-        try {
-            // If event is already an object, use it directly; otherwise try to parse
-            const data = event && typeof event === 'object' && !Array.isArray(event)
-                ? event
-                : typeof event === 'string'
-                    ? JSON.parse(event)
-                    : event;
-
-            console.log(`[AudioEffectState] ${eventName} event received:`, JSON.stringify(data));
-
-            // Check if data's keys match any values in AUDIO_EFFECT_EVENTS
-            if (data && typeof data === 'object' && !Array.isArray(data)) {
-                const updates: {
-                    isEarMonitorOpened?: boolean;
-                    earMonitorVolume?: number;
-                    audioChangerType?: AudioChangerTypeParam;
-                    audioReverbType?: AudioReverbTypeParam;
-                } = {};
-
-                Object.keys(data).forEach((key) => {
-                    if (AUDIO_EFFECT_EVENTS.includes(key)) {
-                        const value = data[key];
-
-                        // Update corresponding reactive data based on different keys
-                        if (key === 'isEarMonitorOpened') {
-                            const parsedData = typeof value === 'boolean' ? value : Boolean(value);
-                            updates.isEarMonitorOpened = parsedData;
-                        } else if (key === 'earMonitorVolume') {
-                            // earMonitorVolume is number type
-                            const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-                            updates.earMonitorVolume = parsedData;
-                        } else if (key === 'audioChangerType') {
-                            // audioChangerType needs to be mapped from type code
-                            let type: AudioChangerTypeParam | null = null;
-                            
-                            if (typeof value === 'number') {
-                                type = mapChangerTypeCodeToChangerType(value);
-                            } else if (typeof value === 'string') {
-                                // Try to match directly as string type first
-                                if (CHANGER_TYPE_STRING_MAP[value] !== undefined) {
-                                    type = value as AudioChangerTypeParam;
-                                } else {
-                                    // Try to parse as number
-                                    const numValue = parseInt(value, 10);
-                                    if (!isNaN(numValue)) {
-                                        type = mapChangerTypeCodeToChangerType(numValue);
-                                    }
-                                }
-                            }
-                            
-                            console.log('audioChangerType', type);
-                            if (type) {
-                                updates.audioChangerType = type;
-                            } else {
-                                console.error(`Invalid changer type received: ${value}`);
-                            }
-                        } else if (key === 'audioReverbType') {
-                            // audioReverbType needs to be mapped from type code
-                            let type: AudioReverbTypeParam | null = null;
-                            
-                            if (typeof value === 'number') {
-                                type = mapReverbTypeCodeToReverbType(value);
-                            } else if (typeof value === 'string') {
-                                // Try to match directly as string type first
-                                if (REVERB_TYPE_STRING_MAP[value] !== undefined) {
-                                    type = value as AudioReverbTypeParam;
-                                } else {
-                                    // Try to parse as number
-                                    const numValue = parseInt(value, 10);
-                                    if (!isNaN(numValue)) {
-                                        type = mapReverbTypeCodeToReverbType(numValue);
-                                    }
-                                }
-                            }
-                            
-                            console.log('audioReverbType', type);
-                            if (type) {
-                                updates.audioReverbType = type;
-                            } else {
-                                console.error(`Invalid reverb type received: ${value}`);
-                            }
-                        }
-                    }
-                });
-
-                // Batch update global store (only update once to avoid multiple notifications)
-                if (Object.keys(updates).length > 0) {
-                    audioEffectStore.setState(liveID, updates);
-                }
-            }
-        } catch (error) {
-            console.error(`[AudioEffectState] ${eventName} event parse error:`, error);
-            console.log(`[AudioEffectState] ${eventName} event received (raw):`, event);
-        }
-    }, [liveID]);
-
-    /**
-     * Bind event listeners
-     */
-    useEffect(() => {
-        const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-            return {
-                type: 'state',
-                store: 'AudioEffectStore',
-                name: eventName,
-                roomID: null,
-                listenerID: listenerID ?? null,
-            };
-        };
-
-        // Save listener cleanup function references
-        const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-        AUDIO_EFFECT_EVENTS.forEach((eventName) => {
-            const keyObject = createListenerKeyObject(eventName);
-            const key = JSON.stringify(keyObject);
-            console.log(key);
-            // addListener will automatically register Native and JS layer event listeners
-            const subscription = addListener(key, handleEvent(eventName));
-            if (subscription) {
-                cleanupFunctions.push(subscription);
-            }
-
-            console.log(`[AudioEffectState] Added listener for: ${eventName}, eventName=${key}`);
-        });
-
-        return () => {
-            AUDIO_EFFECT_EVENTS.forEach((eventName) => {
-                const keyObject = createListenerKeyObject(eventName);
-                const key = JSON.stringify(keyObject);
-                removeListener(key);
-            });
-            // Also clean up JS layer subscriptions
-            cleanupFunctions.forEach((cleanup) => {
-                cleanup.remove();
-            });
-        };
-    }, [handleEvent]);
+    const audioReverbType = state.audioReverbType;
 
     /**
      * Set voice changer effect
@@ -392,7 +145,7 @@ export function useAudioEffectState(liveID: string) {
     const setAudioChangerType = useCallback(async (params: SetAudioChangerTypeOptions): Promise<void> => {
         // Validate required parameters
         if (!params.changerType) {
-            const error = new Error('Missing required parameter: changerType');
+            const error = new AtomicXError('setAudioChangerType', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: changerType');
             params.onError?.(error);
             return;
         }
@@ -412,11 +165,11 @@ export function useAudioEffectState(liveID: string) {
                 // Only trigger callback on success, state update handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set audio changer type failed');
+                const error = AtomicXError.fromResult('setAudioChangerType', result, 'Set audio changer type failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setAudioChangerType', error);
             onError?.(err);
         }
     }, []);
@@ -437,7 +190,7 @@ export function useAudioEffectState(liveID: string) {
     const setAudioReverbType = useCallback(async (params: SetAudioReverbTypeOptions): Promise<void> => {
         // Validate required parameters
         if (!params.reverbType) {
-            const error = new Error('Missing required parameter: reverbType');
+            const error = new AtomicXError('setAudioReverbType', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: reverbType');
             params.onError?.(error);
             return;
         }
@@ -457,11 +210,11 @@ export function useAudioEffectState(liveID: string) {
                 // Only trigger callback on success, state update handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set audio reverb type failed');
+                const error = AtomicXError.fromResult('setAudioReverbType', result, 'Set audio reverb type failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setAudioReverbType', error);
             onError?.(err);
         }
     }, []);
@@ -482,7 +235,7 @@ export function useAudioEffectState(liveID: string) {
     const setVoiceEarMonitorEnable = useCallback(async (params: SetVoiceEarMonitorEnableOptions): Promise<void> => {
         // Validate required parameters
         if (params.enable === undefined) {
-            const error = new Error('Missing required parameter: enable');
+            const error = new AtomicXError('setVoiceEarMonitorEnable', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: enable');
             params.onError?.(error);
             return;
         }
@@ -496,11 +249,11 @@ export function useAudioEffectState(liveID: string) {
                 // Only trigger callback on success, state update handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set voice ear monitor enable failed');
+                const error = AtomicXError.fromResult('setVoiceEarMonitorEnable', result, 'Set voice ear monitor enable failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setVoiceEarMonitorEnable', error);
             onError?.(err);
         }
     }, []);
@@ -521,7 +274,7 @@ export function useAudioEffectState(liveID: string) {
     const setVoiceEarMonitorVolume = useCallback(async (params: VolumeOptions): Promise<void> => {
         // Validate required parameters
         if (params.volume === undefined) {
-            const error = new Error('Missing required parameter: volume');
+            const error = new AtomicXError('setVoiceEarMonitorVolume', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: volume');
             params.onError?.(error);
             return;
         }
@@ -535,19 +288,22 @@ export function useAudioEffectState(liveID: string) {
                 // Only trigger callback on success, state update handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set voice ear monitor volume failed');
+                const error = AtomicXError.fromResult('setVoiceEarMonitorVolume', result, 'Set voice ear monitor volume failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setVoiceEarMonitorVolume', error);
             onError?.(err);
         }
     }, []);
 
+    // 本 hook 注册的监听器，removeAudioEffectListener 只移除这些，不影响其他调用方
+    const [listenerGroup] = useState(createListenerGroup);
+
     /**
      * Add audio effect event listener
      *
-     * @param eventName - Event name
+     * @param eventName - Event name, options: 'onAudioEffectChanged'(audio effect changed)
      * @param listener - Event callback function
      * @param listenerID - Listener ID (optional)
      * @example
@@ -557,7 +313,7 @@ export function useAudioEffectState(liveID: string) {
      * });
      * ```
      */
-    const addAudioEffectListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+    const addAudioEffectListener = useCallback(<K extends AudioEffectEventName>(eventName: K, listener: StateEventListener<AudioEffectEventMap, K>, listenerID?: string): HybridSubscription | void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'AudioEffectStore',
@@ -565,20 +321,20 @@ export function useAudioEffectState(liveID: string) {
             roomID: null,
             listenerID: listenerID ?? null,
         };
-        addListener(JSON.stringify(createListenerKeyObject), listener);
-    }, []);
+        return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+    }, [listenerGroup]);
 
     /**
      * Remove audio effect event listener
      *
-     * @param eventName - Event name
+     * @param eventName - Event name, options: 'onAudioEffectChanged'(audio effect changed)
      * @param listenerID - Listener ID (optional)
      * @example
      * ```tsx
      * removeAudioEffectListener('onAudioEffectChanged');
      * ```
      */
-    const removeAudioEffectListener = useCallback((eventName: string, listenerID?: string): void => {
+    const removeAudioEffectListener = useCallback((eventName: AudioEffectEventName, listenerID?: string): void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'AudioEffectStore',
@@ -586,8 +342,16 @@ export function useAudioEffectState(liveID: string) {
             roomID: null,
             listenerID: listenerID ?? null,
         };
-        removeListener(JSON.stringify(createListenerKeyObject));
-    }, []);
+        listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+    }, [listenerGroup]);
+
+    // Promise-based variants: resolve with native data, reject with AtomicXError
+    const asyncActions = useMemo(() => ({
+        setAudioChangerTypeAsync: toAsyncAction(setAudioChangerType, 'setAudioChangerType'),
+        setAudioReverbTypeAsync: toAsyncAction(setAudioReverbType, 'setAudioReverbType'),
+        setVoiceEarMonitorEnableAsync: toAsyncAction(setVoiceEarMonitorEnable, 'setVoiceEarMonitorEnable'),
+        setVoiceEarMonitorVolumeAsync: toAsyncAction(setVoiceEarMonitorVolume, 'setVoiceEarMonitorVolume'),
+    }), [setAudioChangerType, setAudioReverbType, setVoiceEarMonitorEnable, setVoiceEarMonitorVolume]);
 
     return {
         audioChangerType,          // Voice changer state
@@ -600,8 +364,22 @@ export function useAudioEffectState(liveID: string) {
         setVoiceEarMonitorVolume,  // Set ear monitor volume
         addAudioEffectListener,    // Add audio effect event listener
         removeAudioEffectListener, // Remove audio effect event listener
+        ...asyncActions,    // Promise-based action variants
     };
 }
 
+/**
+ * Subscribe to a single slice of the audio effect state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const changerType = useAudioEffectSelector(liveID, (state) => state.audioChangerType);
+ * ```
+ */
+export function useAudioEffectSelector<T>(liveID: string, selector: (state: AudioEffectState) => T, equalityFn?: EqualityFn<T>): T {
+    return audioEffectStore.useStore(liveID, selector, equalityFn);
+}
+
 export default useAudioEffectState;
 
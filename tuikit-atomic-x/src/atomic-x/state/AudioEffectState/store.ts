@@ -1,14 +1,16 @@
 /**
  * AudioEffectState Store
- * 单例模式全局状态存储，解决状态隔离问题
+ * 全局状态存储，按 liveID 索引，由 createRoomStore 统一管理 Native 订阅
+ * 音效是设备级状态，Native 监听不区分直播间，组件卸载后保留设置
  */
 
+import { createRoomStore, stateDecoders } from '../../store';
 import type { AudioChangerTypeParam, AudioReverbTypeParam } from './types';
 
 /**
  * 单个直播间的音效状态
  */
-interface AudioEffectState {
+export interface AudioEffectState {
   isEarMonitorOpened: boolean;
   earMonitorVolume: number;
   audioChangerType: AudioChangerTypeParam;
@@ -16,114 +18,70 @@ interface AudioEffectState {
 }
 
 /**
- * 状态变化监听器
+ * 变声类型映射表
  */
-type StateChangeListener = (state: AudioEffectState) => void;
+const CHANGER_TYPE_MAP: Record<number, AudioChangerTypeParam> = {
+  0: 'NONE',
+  1: 'CHILD',
+  2: 'LITTLE_GIRL',
+  3: 'MAN',
+  4: 'HEAVY_METAL',
+  5: 'COLD',
+  6: 'FOREIGNER',
+  7: 'TRAPPED_BEAST',
+  8: 'FATSO',
+  9: 'STRONG_CURRENT',
+  10: 'HEAVY_MACHINERY',
+  11: 'ETHEREAL',
+} as const;
 
 /**
- * 全局状态存储
- * 按 liveID 索引，每个直播间有独立的状态
+ * 混响类型映射表
  */
-class AudioEffectStore {
-  private static instance: AudioEffectStore;
-  private states: Map<string, AudioEffectState> = new Map();
-  private listeners: Map<string, Set<StateChangeListener>> = new Map();
+const REVERB_TYPE_MAP: Record<number, AudioReverbTypeParam> = {
+  0: 'NONE',
+  1: 'KTV',
+  2: 'SMALL_ROOM',
+  3: 'AUDITORIUM',
+  4: 'DEEP',
+  5: 'LOUD',
+  6: 'METALLIC',
+  7: 'MAGNETIC',
+} as const;
 
-  private constructor() {}
-
-  static getInstance(): AudioEffectStore {
-    if (!AudioEffectStore.instance) {
-      AudioEffectStore.instance = new AudioEffectStore();
-    }
-    return AudioEffectStore.instance;
-  }
-
-  /**
-   * 获取指定直播间的状态
-   */
-  getState(liveID: string): AudioEffectState {
-    if (!this.states.has(liveID)) {
-      this.states.set(liveID, {
-        isEarMonitorOpened: false,
-        earMonitorVolume: 0,
-        audioChangerType: 'NONE',
-        audioReverbType: 'NONE',
-      });
-    }
-    return this.states.get(liveID)!;
-  }
-
-  /**
-   * 更新指定直播间的状态
-   */
-  setState(liveID: string, updates: Partial<AudioEffectState>): void {
-    const currentState = this.getState(liveID);
-    const newState: AudioEffectState = {
-      ...currentState,
-      ...updates,
-    };
-    this.states.set(liveID, newState);
-
-    // 通知所有订阅者
-    this.notifyListeners(liveID, newState);
-  }
-
-  /**
-   * 订阅状态变化
-   */
-  subscribe(liveID: string, listener: StateChangeListener): () => void {
-    if (!this.listeners.has(liveID)) {
-      this.listeners.set(liveID, new Set());
+/**
+ * 创建类型解码器：Native 可能推送类型码，也可能直接推送类型字符串
+ */
+function createTypeDecoder<T extends string>(typeMap: Record<number, T>, label: string) {
+  const types = Object.values(typeMap);
+  return (value: unknown): T | undefined => {
+    if (typeof value === 'string' && types.includes(value as T)) {
+      return value as T;
     }
-    this.listeners.get(liveID)!.add(listener);
-
-    // 立即通知当前状态
-    listener(this.getState(liveID));
-
-    // 返回取消订阅函数
-    return () => {
-      const liveListeners = this.listeners.get(liveID);
-      if (liveListeners) {
-        liveListeners.delete(listener);
-        if (liveListeners.size === 0) {
-          this.listeners.delete(liveID);
-        }
-      }
-    };
-  }
-
-  /**
-   * 通知所有订阅者
-   */
-  private notifyListeners(liveID: string, state: AudioEffectState): void {
-    const liveListeners = this.listeners.get(liveID);
-    if (liveListeners) {
-      liveListeners.forEach((listener) => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[AudioEffectStore] Listener error:', error);
-        }
-      });
+    const typeCode = typeof value === 'number' ? value : parseInt(String(value), 10);
+    const mappedType = typeMap[typeCode];
+    if (mappedType === undefined) {
+      console.error(`Invalid ${label} type received: ${value}`);
+      return undefined;
     }
-  }
-
-  /**
-   * 清理指定直播间的状态
-   */
-  clearState(liveID: string): void {
-    this.states.delete(liveID);
-    this.listeners.delete(liveID);
-  }
-
-  /**
-   * 清理所有状态
-   */
-  clearAll(): void {
-    this.states.clear();
-    this.listeners.clear();
-  }
+    return mappedType;
+  };
 }
 
-export const audioEffectStore = AudioEffectStore.getInstance();
-
+export const audioEffectStore = createRoomStore<AudioEffectState>({
+  storeName: 'AudioEffectStore',
+  roomScoped: false,
+  disposeOnRelease: false,
+  initialState: () => ({
+    isEarMonitorOpened: false,
+    earMonitorVolume: 0,
+    audioChangerType: 'NONE',
+    audioReverbType: 'NONE',
+  }),
+  decoders: {
+    isEarMonitorOpened: stateDecoders.boolean(),
+    earMonitorVolume: stateDecoders.number(),
+    audioChangerType: createTypeDecoder(CHANGER_TYPE_MAP, 'changer'),
+    audioReverbType: createTypeDecoder(REVERB_TYPE_MAP, 'reverb'),
+  },
+});
@@ -72,3 +72,21 @@ export interface VolumeOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 音效变化事件数据，只携带发生变化的设置
+ */
+export interface AudioEffectChangedEvent {
+  isEarMonitorOpened?: boolean;
+  earMonitorVolume?: number;
+  audioChangerType?: AudioChangerTypeParam;
+  audioReverbType?: AudioReverbTypeParam;
+}
+
+/**
+ * 音效事件表：事件名 -> 事件数据
+ */
+export interface AudioEffectEventMap {
+  onAudioEffectChanged: AudioEffectChangedEvent;
+}
+
+export type AudioEffectEventName = keyof AudioEffectEventMap;
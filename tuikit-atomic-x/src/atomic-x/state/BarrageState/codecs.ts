@@ -0,0 +1,108 @@
+/**
+ * 自定义消息编解码器
+ *
+ * 应用按 businessID 注册编解码器后：
+ * - sendCustomMessage 可以直接传入结构化的 payload，由编解码器编码为 data
+ * - 收到的自定义消息进入 messageList 前解码，解码结果写入消息的 payload
+ * - BarrageList 使用编解码器的 render 渲染消息
+ */
+
+import type { BarrageMessageCodec, BarrageParam } from './types';
+
+const codecs = new Map<string, BarrageMessageCodec<any>>();
+
+/**
+ * 注册编解码器，返回注销函数；同一 businessID 重复注册时后者替换前者
+ *
+ * @example
+ * ```tsx
+ * registerBarrageMessageCodec<{ question: string; options: string[] }>({
+ *   businessID: 'poll',
+ *   encode: (payload) => JSON.stringify(payload),
+ *   decode: (data) => JSON.parse(data),
+ *   render: (poll) => <PollCard poll={poll} />,
+ * });
+ * ```
+ */
+export function registerBarrageMessageCodec<T>(codec: BarrageMessageCodec<T>): () => void {
+  codecs.set(codec.businessID, codec);
+  return () => {
+    if (codecs.get(codec.businessID) === codec) {
+      codecs.delete(codec.businessID);
+    }
+  };
+}
+
+/**
+ * 注销指定 businessID 的编解码器
+ */
+export function unregisterBarrageMessageCodec(businessID: string): void {
+  codecs.delete(businessID);
+}
+
+/**
+ * 获取指定 businessID 的编解码器
+ */
+export function getBarrageMessageCodec<T = unknown>(businessID: string): BarrageMessageCodec<T> | undefined {
+  return codecs.get(businessID);
+}
+
+/**
+ * 清空所有编解码器
+ */
+export function clearBarrageMessageCodecs(): void {
+  codecs.clear();
+}
+
+/**
+ * 使用已注册的编解码器编码 payload，未注册时抛出异常
+ */
+export function encodeBarragePayload(businessID: string, payload: unknown): string {
+  const codec = codecs.get(businessID);
+  if (!codec) {
+    throw new Error(`No codec registered for businessID: ${businessID}`);
+  }
+  return codec.encode(payload);
+}
+
+function decodePayload(message: BarrageParam): unknown {
+  const codec = message.businessID ? codecs.get(message.businessID) : undefined;
+  if (!codec || typeof message.data !== 'string') {
+    return undefined;
+  }
+  try {
+    return codec.decode(message.data, message);
+  } catch (error) {
+    console.warn(`[BarrageCodec] Failed to decode ${message.businessID} message:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * 解码自定义消息，解码结果写入 payload；非自定义消息和未注册的消息原样返回
+ */
+export function decodeBarrageMessages(messages: BarrageParam[]): BarrageParam[] {
+  return messages.map((message) => {
+    if (message.payload !== undefined) {
+      return message;
+    }
+    const payload = decodePayload(message);
+    return payload === undefined ? message : { ...message, payload };
+  });
+}
+
+/**
+ * 获取消息解码后的内容，businessID 不匹配时返回 undefined；
+ * 编解码器在消息到达之后才注册时在这里补充解码
+ *
+ * @example
+ * ```ts
+ * const poll = getBarragePayload<Poll>(message, 'poll');
+ * ```
+ */
+export function getBarragePayload<T = unknown>(message: BarrageParam, businessID?: string): T | undefined {
+  if (businessID !== undefined && message.businessID !== businessID) {
+    return undefined;
+  }
+  return (message.payload ?? decodePayload(message)) as T | undefined;
+}
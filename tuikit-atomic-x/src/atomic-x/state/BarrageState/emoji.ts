@@ -0,0 +1,191 @@
+/**
+ * 弹幕表情
+ *
+ * - 小表情以 `[key]` 短码写入文本消息，渲染时解析为图片或字符
+ * - 大表情通过 sendCustomMessage 单独发送，businessID 为 STICKER_BUSINESS_ID，
+ *   data 为 `{ packID, key }` 的 JSON 字符串
+ *
+ * 内置一套 Unicode 小表情，宿主应用可以通过 registerBarrageEmojiPack 注册自己的表情包。
+ */
+
+import type {
+  BarrageEmoji,
+  BarrageEmojiPack,
+  BarrageParam,
+  BarrageSticker,
+  BarrageToken,
+} from './types';
+
+export const STICKER_BUSINESS_ID = 'atomicx_barrage_sticker';
+
+// 短码只允许字母、数字、下划线和中划线，避免误伤普通的方括号文本
+const SHORTCODE_PATTERN = /\[([\w-]+)\]/g;
+
+export const DEFAULT_EMOJI_PACK: BarrageEmojiPack = {
+  packID: 'default',
+  type: 'emoji',
+  emojis: [
+    { key: 'smile', text: '😄' },
+    { key: 'laugh', text: '😂' },
+    { key: 'love', text: '😍' },
+    { key: 'wink', text: '😉' },
+    { key: 'cool', text: '😎' },
+    { key: 'kiss', text: '😘' },
+    { key: 'think', text: '🤔' },
+    { key: 'shock', text: '😱' },
+    { key: 'cry', text: '😭' },
+    { key: 'angry', text: '😠' },
+    { key: 'clap', text: '👏' },
+    { key: 'like', text: '👍' },
+    { key: 'ok', text: '👌' },
+    { key: 'pray', text: '🙏' },
+    { key: 'heart', text: '❤️' },
+    { key: 'fire', text: '🔥' },
+    { key: 'rose', text: '🌹' },
+    { key: 'party', text: '🎉' },
+    { key: 'gift', text: '🎁' },
+    { key: 'star', text: '⭐' },
+  ],
+};
+
+const emojiPacks: BarrageEmojiPack[] = [DEFAULT_EMOJI_PACK];
+
+/**
+ * 注册表情包，返回注销函数；packID 相同的表情包重复注册时后者替换前者
+ *
+ * @example
+ * ```ts
+ * const unregister = registerBarrageEmojiPack({
+ *   packID: 'bunny',
+ *   type: 'sticker',
+ *   icon: require('./bunny/icon.png'),
+ *   emojis: [{ key: 'bunny_hi', source: require('./bunny/hi.png') }],
+ * });
+ * ```
+ */
+export function registerBarrageEmojiPack(pack: BarrageEmojiPack): () => void {
+  const index = emojiPacks.findIndex((item) => item.packID === pack.packID);
+  if (index >= 0) {
+    emojiPacks.splice(index, 1, pack);
+  } else {
+    emojiPacks.push(pack);
+  }
+  return () => {
+    const current = emojiPacks.indexOf(pack);
+    if (current >= 0) {
+      emojiPacks.splice(current, 1);
+    }
+  };
+}
+
+/**
+ * 注销指定的表情包
+ */
+export function unregisterBarrageEmojiPack(packID: string): void {
+  const index = emojiPacks.findIndex((item) => item.packID === packID);
+  if (index >= 0) {
+    emojiPacks.splice(index, 1);
+  }
+}
+
+/**
+ * 获取已注册的表情包，可按类型过滤
+ */
+export function getBarrageEmojiPacks(type?: BarrageEmojiPack['type']): BarrageEmojiPack[] {
+  return emojiPacks.filter((pack) => !type || pack.type === type);
+}
+
+/**
+ * 恢复为只有内置表情包
+ */
+export function resetBarrageEmojiPacks(): void {
+  emojiPacks.length = 0;
+  emojiPacks.push(DEFAULT_EMOJI_PACK);
+}
+
+/**
+ * 按短码查找小表情，多个表情包中存在相同短码时后注册的优先
+ */
+export function findBarrageEmoji(key: string): BarrageEmoji | undefined {
+  for (let i = emojiPacks.length - 1; i >= 0; i -= 1) {
+    const pack = emojiPacks[i]!;
+    if (pack.type !== 'emoji') {
+      continue;
+    }
+    const emoji = pack.emojis.find((item) => item.key === key);
+    if (emoji) {
+      return emoji;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 将弹幕文本解析为文字和表情片段，未注册的短码按原文保留
+ *
+ * @example
+ * ```ts
+ * parseBarrageTokens('hi[smile]');
+ * // [{ type: 'text', text: 'hi' }, { type: 'emoji', key: 'smile', emoji: {...} }]
+ * ```
+ */
+export function parseBarrageTokens(text: string): BarrageToken[] {
+  const tokens: BarrageToken[] = [];
+  let buffer = '';
+  let lastIndex = 0;
+  for (const match of text.matchAll(SHORTCODE_PATTERN)) {
+    const key = match[1]!;
+    const emoji = findBarrageEmoji(key);
+    buffer += text.slice(lastIndex, match.index);
+    lastIndex = (match.index ?? 0) + match[0].length;
+    if (!emoji) {
+      buffer += match[0];
+      continue;
+    }
+    if (buffer) {
+      tokens.push({ type: 'text', text: buffer });
+      buffer = '';
+    }
+    tokens.push({ type: 'emoji', key, emoji });
+  }
+  buffer += text.slice(lastIndex);
+  if (buffer) {
+    tokens.push({ type: 'text', text: buffer });
+  }
+  return tokens;
+}
+
+/**
+ * 在光标处插入小表情短码，返回新的文本和光标位置
+ */
+export function insertEmoji(text: string, cursor: number, key: string): { text: string; cursor: number } {
+  const inserted = `[${key}]`;
+  return {
+    text: `${text.slice(0, cursor)}${inserted}${text.slice(cursor)}`,
+    cursor: cursor + inserted.length,
+  };
+}
+
+/**
+ * 生成大表情消息的 data
+ */
+export function encodeBarrageSticker(packID: string, key: string): string {
+  return JSON.stringify({ packID, key });
+}
+
+/**
+ * 解析大表情消息，不是大表情消息或表情包未注册时返回 undefined
+ */
+export function getBarrageSticker(message: BarrageParam): BarrageSticker | undefined {
+  if (message.businessID !== STICKER_BUSINESS_ID || typeof message.data !== 'string') {
+    return undefined;
+  }
+  try {
+    const { packID, key } = JSON.parse(message.data) as { packID?: unknown; key?: unknown };
+    const pack = emojiPacks.find((item) => item.packID === packID && item.type === 'sticker');
+    const emoji = pack?.emojis.find((item) => item.key === key);
+    return emoji ? { packID: pack!.packID, key: emoji.key, emoji } : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,165 @@
+/**
+ * 弹幕防刷
+ *
+ * - 发送端：同一用户两次发送之间的冷却时间，以及一段时间内重复文本的拦截
+ * - 接收端（折叠模式）：最近几条中有相同文本时合并为一条，通过 repeatCount 显示 ×N
+ */
+
+import type { BarrageFloodControlOptions, BarrageParam } from './types';
+
+/**
+ * 发送被限制的原因
+ * - `COOLDOWN`: 冷却时间内
+ * - `DUPLICATE`: 与最近发送的内容重复
+ */
+export type BarrageThrottleReason = 'COOLDOWN' | 'DUPLICATE';
+
+export type BarrageThrottleResult =
+  | { allowed: true }
+  | { allowed: false; reason: BarrageThrottleReason; retryAfterMs: number };
+
+/**
+ * 单个用户的发送记录
+ */
+interface SenderRecord {
+  lastSentAt: number;
+  lastText: string;
+}
+
+const floodControl: Required<BarrageFloodControlOptions> = {
+  cooldownMs: 2000,
+  duplicateWindowMs: 30000,
+  collapseRepeated: false,
+  collapseLookback: 10,
+};
+
+// liveID -> userID -> 发送记录
+const senderRecords = new Map<string, Map<string, SenderRecord>>();
+
+/**
+ * 配置弹幕防刷参数
+ *
+ * @example
+ * ```ts
+ * setBarrageFloodControl({ cooldownMs: 3000, collapseRepeated: true });
+ * ```
+ */
+export function setBarrageFloodControl(options: BarrageFloodControlOptions): void {
+  const { cooldownMs, duplicateWindowMs, collapseRepeated, collapseLookback } = options;
+  if (cooldownMs !== undefined) {
+    floodControl.cooldownMs = Math.max(0, cooldownMs);
+  }
+  if (duplicateWindowMs !== undefined) {
+    floodControl.duplicateWindowMs = Math.max(0, duplicateWindowMs);
+  }
+  if (collapseRepeated !== undefined) {
+    floodControl.collapseRepeated = collapseRepeated;
+  }
+  if (collapseLookback !== undefined) {
+    floodControl.collapseLookback = Math.max(1, Math.floor(collapseLookback));
+  }
+}
+
+/**
+ * 获取当前弹幕防刷配置
+ */
+export function getBarrageFloodControl(): Required<BarrageFloodControlOptions> {
+  return { ...floodControl };
+}
+
+function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+/**
+ * 检查用户当前是否可以发送该文本
+ */
+export function checkSendThrottle(liveID: string, userID: string, text: string, now = Date.now()): BarrageThrottleResult {
+  const record = senderRecords.get(liveID)?.get(userID);
+  if (!record) {
+    return { allowed: true };
+  }
+  const elapsed = now - record.lastSentAt;
+  if (elapsed < floodControl.cooldownMs) {
+    return { allowed: false, reason: 'COOLDOWN', retryAfterMs: floodControl.cooldownMs - elapsed };
+  }
+  if (elapsed < floodControl.duplicateWindowMs && normalizeText(text) === record.lastText) {
+    return { allowed: false, reason: 'DUPLICATE', retryAfterMs: floodControl.duplicateWindowMs - elapsed };
+  }
+  return { allowed: true };
+}
+
+/**
+ * 记录一次发送，返回冷却结束的时间戳
+ */
+export function recordSend(liveID: string, userID: string, text: string, now = Date.now()): number {
+  let records = senderRecords.get(liveID);
+  if (!records) {
+    records = new Map();
+    senderRecords.set(liveID, records);
+  }
+  records.set(userID, { lastSentAt: now, lastText: normalizeText(text) });
+  return now + floodControl.cooldownMs;
+}
+
+/**
+ * 发送失败时撤销重复文本记录，允许用户重发同样的内容；冷却时间保留
+ */
+export function forgetSentText(liveID: string, userID: string): void {
+  const record = senderRecords.get(liveID)?.get(userID);
+  if (record) {
+    record.lastText = '';
+  }
+}
+
+/**
+ * 清理直播间的发送记录
+ */
+export function clearSendRecords(liveID: string): void {
+  senderRecords.delete(liveID);
+}
+
+function getCollapseText(message: BarrageParam): string | undefined {
+  // 礼物、自定义消息、本地提示不折叠
+  if (message.gift || message.businessID || (message.messageType && message.messageType !== 'TEXT')) {
+    return undefined;
+  }
+  if (!message.messageID && !message.sender && !message.userID) {
+    return undefined;
+  }
+  const text = message.text ?? message.content ?? message.textContent;
+  return typeof text === 'string' && text.trim() ? normalizeText(text) : undefined;
+}
+
+/**
+ * 将新消息追加到列表，折叠模式下与最近 collapseLookback 条中相同文本的消息合并，
+ * 合并后的消息移到列表末尾并累加 repeatCount
+ */
+export function appendWithCollapse(current: BarrageParam[], messages: BarrageParam[]): BarrageParam[] {
+  if (!floodControl.collapseRepeated || messages.length === 0) {
+    return messages.length > 0 ? current.concat(messages) : current;
+  }
+  const result = current.slice();
+  messages.forEach((message) => {
+    const text = getCollapseText(message);
+    if (text === undefined) {
+      result.push(message);
+      return;
+    }
+    const start = Math.max(0, result.length - floodControl.collapseLookback);
+    for (let i = result.length - 1; i >= start; i -= 1) {
+      const existing = result[i]!;
+      if (getCollapseText(existing) === text) {
+        result.splice(i, 1);
+        result.push({
+          ...existing,
+          repeatCount: (existing.repeatCount ?? 1) + (message.repeatCount ?? 1),
+          timestamp: message.timestamp ?? existing.timestamp,
+        });
+        return;
+      }
+    }
+    result.push(message);
+  });
+  return result;
+}
@@ -0,0 +1,67 @@
+/**
+ * 加载更早的弹幕消息
+ *
+ * 先从本地缓冲区恢复移出窗口的消息，不够时再向 Native 拉取历史消息。
+ * Native 拉取失败时保留已恢复的消息并退避，不支持或多次失败后不再拉取，避免每次滚动到顶部都请求失败。
+ */
+
+import { callNativeAPI } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import {
+  barrageStore,
+  decodeEarlierMessages,
+  hasRemoteEarlierMessages,
+  prependEarlierMessages,
+  recordEarlierMessagesFailure,
+  takeEarlierMessages,
+} from './store';
+import type { BarrageParam, LoadEarlierMessagesResult } from './types';
+
+export const DEFAULT_EARLIER_MESSAGE_COUNT = 20;
+
+/**
+ * 加载 count 条更早的消息并加到 messageList 头部，返回按时间顺序排列的消息
+ * 正在加载或 Native 拉取失败时抛出 AtomicXError
+ */
+export async function loadEarlierBarrageMessages(
+  liveID: string,
+  count = DEFAULT_EARLIER_MESSAGE_COUNT,
+): Promise<BarrageParam[]> {
+  const state = barrageStore.getState(liveID);
+  if (state.isLoadingEarlierMessages) {
+    throw new AtomicXError('loadEarlierMessages', AtomicXErrorCode.REPEAT_OPERATION, 'Earlier messages are already loading');
+  }
+
+  const cached = takeEarlierMessages(liveID, count);
+  if (cached.length >= count || !hasRemoteEarlierMessages(liveID)) {
+    prependEarlierMessages(liveID, cached);
+    return cached;
+  }
+
+  barrageStore.setState(liveID, { isLoadingEarlierMessages: true });
+  const remaining = count - cached.length;
+  const oldestMessage = [...cached, ...state.messageList].find((message) => message.messageID);
+
+  let error: AtomicXError;
+  try {
+    const result = await callNativeAPI<LoadEarlierMessagesResult>('loadEarlierMessages', {
+      liveID,
+      count: remaining,
+      beforeMessageID: oldestMessage?.messageID,
+    });
+    if (result.success) {
+      const remoteMessages = decodeEarlierMessages(liveID, result.data?.messageList);
+      const messages = [...remoteMessages, ...cached];
+      prependEarlierMessages(liveID, messages, result.data?.hasMore ?? remoteMessages.length >= remaining);
+      return messages;
+    }
+    error = AtomicXError.fromResult('loadEarlierMessages', result, 'Load earlier messages failed');
+  } catch (err) {
+    error = AtomicXError.from('loadEarlierMessages', err);
+  }
+
+  // 已恢复的本地消息照常保留
+  prependEarlierMessages(liveID, cached);
+  recordEarlierMessagesFailure(liveID, error.category === 'NOT_SUPPORTED');
+  throw error;
+}
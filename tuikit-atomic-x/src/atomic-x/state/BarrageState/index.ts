@@ -8,43 +8,72 @@
  * Application Scenarios: Barrage interaction, message management, emoji, chatroom, and other social interaction scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode, ContentRejectedError, SendThrottledError } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
-  BarrageParam,
   SendTextMessageOptions,
   SendCustomMessageOptions,
   AppendLocalTipOptions,
+  BarrageParam,
+  BarragePinnedMessage,
+  LoadEarlierMessagesOptions,
+  PinMessageOptions,
+  UnpinMessageOptions,
+  BarrageEventMap,
+  BarrageEventName,
 } from './types';
-import { barrageStore } from './store';
-
-/**
- * Barrage listener function type
- */
-type ILiveListener = (params?: unknown) => void;
+import { barrageStore, collapseEarlierMessages as collapseStoredEarlierMessages } from './store';
+import type { BarrageState } from './store';
+import { moderateBarrage } from './moderation';
+import { checkSendThrottle, forgetSentText, recordSend } from './floodControl';
+import { encodeBarrageExtensions } from './mentions';
+import { encodeBarragePayload } from './codecs';
+import { PIN_BUSINESS_ID, canPinMessage, createPinnedMessage, encodePinAction, isLiveAdministrator, isLiveOwner } from './pin';
+import { retainPinnedMessage, savePinnedMessage } from './pinSync';
+import { loadEarlierBarrageMessages } from './history';
+import { loginStore } from '../LoginState/store';
+import { liveListStore } from '../LiveListState/store';
+import { liveAudienceStore } from '../LiveAudienceState/store';
+import type { EqualityFn } from '../../store';
 
 /**
- * Barrage state event name constants
+ * Broadcast a pin or unpin action as a custom message; everyone else picks it up in the store merge
  */
-const BARRAGE_EVENTS = [
-  'messageList',
-  'allowSendMessage',
-];
+async function sendPinAction(
+  api: string,
+  liveID: string,
+  pinned: BarragePinnedMessage | null,
+  onSuccess?: () => void,
+  onError?: (error: Error | string) => void
+): Promise<void> {
+  const userID = loginStore.getState().loginUserInfo?.userID;
+  if (!canPinMessage(liveID, userID)) {
+    onError?.(new AtomicXError(api, AtomicXErrorCode.USER_NEED_ADMIN_PERMISSION, 'Only the room owner or administrators can pin messages'));
+    return;
+  }
 
-/**
- * Safe JSON parse
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
   try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
+    const result = await callNativeAPI<void>('sendCustomMessage', {
+      liveID,
+      businessID: PIN_BUSINESS_ID,
+      data: encodePinAction(pinned),
+    });
+
+    if (result.success) {
+      // Apply locally right away instead of waiting for the message to echo back
+      barrageStore.setState(liveID, { pinnedMessage: pinned });
+      // The message only reaches viewers already in the room; keep a copy in the room metadata for late joiners
+      await savePinnedMessage(liveID, pinned).catch((error) => console.warn('[BarrageState] save pinned message failed:', error));
+      onSuccess?.();
+    } else {
+      onError?.(AtomicXError.fromResult(api, result, pinned ? 'Pin message failed' : 'Unpin message failed'));
     }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
+  } catch (error: any) {
+    onError?.(AtomicXError.from(api, error));
   }
 }
 
@@ -88,8 +117,23 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useBarrageState(liveID: string) {
-  // Get initial state from global store
-  const initialState = barrageStore.getState(liveID);
+  // Only subscribe to the fields this hook returns, so slices added to the store later don't re-render every caller
+  const state = barrageStore.useStore(liveID, (current) => ({
+    messageList: current.messageList,
+    allowSendMessage: current.allowSendMessage,
+    hasEarlierMessages: current.hasEarlierMessages,
+    isLoadingEarlierMessages: current.isLoadingEarlierMessages,
+    sendCooldownUntil: current.sendCooldownUntil,
+    replyTarget: current.replyTarget,
+    pinnedMessage: current.pinnedMessage,
+  }));
+
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainPinnedMessage(liveID);
+  }, [liveID]);
 
   /**
    * Current room's barrage message list
@@ -97,7 +141,7 @@ export function useBarrageState(liveID: string) {
    * @description Stores all barrage messages in the live room, including text messages, custom messages, and other barrage data types
    * @default Get initial value from global store
    */
-  const [messageList, setMessageList] = useState<BarrageParam[]>(initialState.messageList);
+  const messageList = state.messageList;
 
   /**
    * Whether sending messages is allowed
@@ -105,125 +149,65 @@ export function useBarrageState(liveID: string) {
    * @description Controls whether the user has permission to send barrage messages, true for allowed, false for prohibited
    * @default Get initial value from global store
    */
-  const [allowSendMessage, setAllowSendMessage] = useState<boolean>(initialState.allowSendMessage);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
+  const allowSendMessage = state.allowSendMessage;
 
-    // Subscribe to state changes
-    const unsubscribe = barrageStore.subscribe(liveID, (state) => {
-      setMessageList(state.messageList);
-      setAllowSendMessage(state.allowSendMessage);
-    });
+  /**
+   * Whether earlier messages can be loaded
+   * @type {boolean}
+   * @description True when messages were moved out of the retention window or native history may have more
+   */
+  const hasEarlierMessages = state.hasEarlierMessages;
 
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
+  /**
+   * Whether earlier messages are being loaded
+   * @type {boolean}
+   */
+  const isLoadingEarlierMessages = state.isLoadingEarlierMessages;
 
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
+  /**
+   * When the current user's send cooldown ends
+   * @type {number}
+   * @description Timestamp in milliseconds, 0 when not cooling down
+   */
+  const sendCooldownUntil = state.sendCooldownUntil;
 
   /**
-   * Handle barrage state change events
-   * Update global store, store will automatically notify all subscribers
+   * Message the input box is replying to
+   * @type {BarrageParam | null}
    */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[BarrageState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data's keys match any values in BARRAGE_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          messageList?: BarrageParam[];
-          allowSendMessage?: boolean;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (BARRAGE_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'messageList') {
-              // messageList is array type
-              let parsedData: BarrageParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as BarrageParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<BarrageParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<BarrageParam[]>(JSON.stringify(value), []);
-              }
-              updates.messageList = parsedData;
-            } else if (key === 'allowSendMessage') {
-              const parsedData = typeof value === 'boolean' ? value : Boolean(value);
-              updates.allowSendMessage = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          barrageStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[BarrageState] ${eventName} event parse error:`, error);
-      console.log(`[BarrageState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
+  const replyTarget = state.replyTarget;
 
   /**
-   * Bind event listeners
+   * Message pinned by the owner or an administrator
+   * @type {BarragePinnedMessage | null}
    */
-  useEffect(() => {
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'BarrageStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-    // Save listener cleanup function references
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    BARRAGE_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register Native and JS layer event listeners
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
+  const pinnedMessage = state.pinnedMessage;
 
-      console.log(`[BarrageState] Added listener for: ${eventName}, eventName=${key}`);
-    });
+  const actions = useBarrageActions(liveID);
 
-    return () => {
-      BARRAGE_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  return {
+    messageList,          // Current room's barrage message list
+    allowSendMessage,     // Whether sending messages is allowed
+    hasEarlierMessages,   // Whether earlier messages can be loaded
+    isLoadingEarlierMessages, // Whether earlier messages are being loaded
+    sendCooldownUntil,    // When the send cooldown ends
+    replyTarget,          // Message being replied to
+    pinnedMessage,        // Message pinned by the owner or an administrator
+    ...actions,
+  };
+}
 
+/**
+ * Barrage actions and listeners without subscribing to the barrage state
+ * Components that only send messages or append tips use this hook, so they don't re-render on every new message
+ *
+ * @example
+ * ```tsx
+ * const { sendTextMessage } = useBarrageActions(liveID);
+ * const allowSendMessage = useBarrageSelector(liveID, (state) => state.allowSendMessage);
+ * ```
+ */
+export function useBarrageActions(liveID: string) {
   /**
    * Send text type barrage
    * 
@@ -241,25 +225,55 @@ export function useBarrageState(liveID: string) {
   const sendTextMessage = useCallback(async (params: SendTextMessageOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.text) {
-      const error = new Error('Missing required parameters: liveID or text');
+      const error = new AtomicXError('sendTextMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or text');
       params.onError?.(error);
       return;
     }
 
-    const { onSuccess, onError, ...messageParams } = params;
+    const { onSuccess, onError, mentions, replyTo, ...messageParams } = params;
+
+    // Per-user cooldown and duplicate suppression
+    const userID = loginStore.getState().loginUserInfo?.userID ?? '';
+    const throttle = checkSendThrottle(params.liveID, userID, params.text);
+    if (!throttle.allowed) {
+      onError?.(new SendThrottledError('sendTextMessage', throttle.reason, throttle.retryAfterMs));
+      return;
+    }
+
+    // Run outgoing moderation filters; rejected text never reaches native
+    const moderation = moderateBarrage('outgoing', params.liveID, messageParams, userID || undefined);
+    if (!moderation.allowed) {
+      onError?.(new ContentRejectedError('sendTextMessage', moderation.rejectedBy ?? '', moderation.reason ?? ''));
+      return;
+    }
+    if (!moderation.text) {
+      onError?.(new AtomicXError('sendTextMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Message is empty after moderation'));
+      return;
+    }
+
+    // Start the cooldown before the native call so repeated taps are blocked while the request is in flight
+    barrageStore.setState(params.liveID, { sendCooldownUntil: recordSend(params.liveID, userID, params.text) });
 
     try {
-      const result = await callNativeAPI<void>('sendTextMessage', messageParams);
+      // Mentions and reply info travel in the message extensions, the message itself stays a plain text message
+      const extensionInfo = encodeBarrageExtensions(moderation.text, mentions, replyTo, params.extensionInfo);
+      const result = await callNativeAPI<void>('sendTextMessage', {
+        ...messageParams,
+        text: moderation.text,
+        ...(Object.keys(extensionInfo).length > 0 ? { extensionInfo } : {}),
+      });
 
       if (result.success) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Send text message failed');
+        forgetSentText(params.liveID, userID);
+        const error = AtomicXError.fromResult('sendTextMessage', result, 'Send text message failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      forgetSentText(params.liveID, userID);
+      const err = AtomicXError.from('sendTextMessage', error);
       onError?.(err);
     }
   }, []);
@@ -277,30 +291,45 @@ export function useBarrageState(liveID: string) {
    *   onSuccess: () => console.log('Sent successfully'),
    *   onError: (error) => console.error('Send failed:', error)
    * });
+   *
+   * // With a codec registered for the businessID, pass the structured payload instead of data
+   * await sendCustomMessage({
+   *   liveID: 'your_live_id',
+   *   businessID: 'poll',
+   *   payload: { question: 'Next song?', options: ['A', 'B'] },
+   * });
    * ```
    */
   const sendCustomMessage = useCallback(async (params: SendCustomMessageOptions): Promise<void> => {
     // Validate required parameters
-    if (!params.liveID || !params.businessID || !params.data) {
-      const error = new Error('Missing required parameters: liveID, businessID or data');
+    if (!params.liveID || !params.businessID || (!params.data && params.payload === undefined)) {
+      const error = new AtomicXError('sendCustomMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID, businessID or data');
       params.onError?.(error);
       return;
     }
 
-    const { onSuccess, onError, ...customParams } = params;
+    const { onSuccess, onError, payload, ...customParams } = params;
 
     try {
+      if (payload !== undefined) {
+        try {
+          customParams.data = encodeBarragePayload(customParams.businessID, payload);
+        } catch (error: any) {
+          onError?.(new AtomicXError('sendCustomMessage', AtomicXErrorCode.INVALID_PARAMETER, error?.message || 'Encode custom message failed'));
+          return;
+        }
+      }
       const result = await callNativeAPI<void>('sendCustomMessage', customParams);
 
       if (result.success) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Send custom message failed');
+        const error = AtomicXError.fromResult('sendCustomMessage', result, 'Send custom message failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('sendCustomMessage', error);
       onError?.(err);
     }
   }, []);
@@ -322,7 +351,7 @@ export function useBarrageState(liveID: string) {
   const appendLocalTip = useCallback(async (params: AppendLocalTipOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.message) {
-      const error = new Error('Missing required parameters: liveID or message');
+      const error = new AtomicXError('appendLocalTip', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or message');
       params.onError?.(error);
       return;
     }
@@ -337,29 +366,137 @@ export function useBarrageState(liveID: string) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Append local tip failed');
+        const error = AtomicXError.fromResult('appendLocalTip', result, 'Append local tip failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('appendLocalTip', error);
+      onError?.(err);
+    }
+  }, []);
+
+  /**
+   * Load earlier barrage messages and prepend them to messageList
+   * Messages moved out of the retention window are restored first, the rest is paged from native history
+   * A failed native request backs off, and native history is treated as exhausted once it is unsupported or keeps failing
+   *
+   * @param params - Load earlier messages parameters
+   * @example
+   * ```tsx
+   * await loadEarlierMessages({
+   *   liveID: 'your_live_id',
+   *   count: 20,
+   *   onSuccess: (messages) => console.log('Loaded', messages.length),
+   *   onError: (error) => console.error('Load failed:', error)
+   * });
+   * ```
+   */
+  const loadEarlierMessages = useCallback(async (params: LoadEarlierMessagesOptions): Promise<BarrageParam[] | undefined> => {
+    // Validate required parameters
+    if (!params.liveID) {
+      const error = new AtomicXError('loadEarlierMessages', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: liveID');
+      params.onError?.(error);
+      return undefined;
+    }
+
+    const { onSuccess, onError, liveID: targetLiveID, count } = params;
+    try {
+      const messages = await loadEarlierBarrageMessages(targetLiveID, count);
+      onSuccess?.(messages);
+      return messages;
+    } catch (error: any) {
+      const err = AtomicXError.from('loadEarlierMessages', error);
       onError?.(err);
     }
+    return undefined;
+  }, []);
+
+  /**
+   * Drop loaded history from messageList and go back to the retention window
+   * Call this when the user scrolls back to the newest message
+   *
+   * @example
+   * ```tsx
+   * collapseEarlierMessages();
+   * ```
+   */
+  const collapseEarlierMessages = useCallback((): void => {
+    collapseStoredEarlierMessages(liveID);
+  }, [liveID]);
+
+  /**
+   * Set or clear the message the input box is replying to
+   *
+   * @param message - Message to reply to, null to cancel
+   * @example
+   * ```tsx
+   * setReplyTarget(message);
+   * ```
+   */
+  const setReplyTarget = useCallback((message: BarrageParam | null): void => {
+    barrageStore.setState(liveID, { replyTarget: message });
+  }, [liveID]);
+
+  /**
+   * Pin a message for everyone in the live room, replacing the current pinned message
+   * Only the room owner and administrators can pin messages
+   *
+   * @param params - Pin message parameters
+   * @example
+   * ```tsx
+   * await pinMessage({
+   *   liveID: 'your_live_id',
+   *   message,
+   *   onSuccess: () => console.log('Pinned'),
+   *   onError: (error) => console.error('Pin failed:', error)
+   * });
+   * ```
+   */
+  const pinMessage = useCallback(async (params: PinMessageOptions): Promise<void> => {
+    const { liveID: targetLiveID, message, onSuccess, onError } = params;
+    const userID = loginStore.getState().loginUserInfo?.userID ?? '';
+    const pinned = message ? createPinnedMessage(message, userID) : undefined;
+    if (!targetLiveID || !pinned) {
+      onError?.(new AtomicXError('pinMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or message.messageID'));
+      return;
+    }
+    await sendPinAction('pinMessage', targetLiveID, pinned, onSuccess, onError);
   }, []);
 
+  /**
+   * Remove the pinned message for everyone in the live room
+   *
+   * @param params - Unpin message parameters
+   * @example
+   * ```tsx
+   * await unpinMessage({ liveID: 'your_live_id' });
+   * ```
+   */
+  const unpinMessage = useCallback(async (params: UnpinMessageOptions): Promise<void> => {
+    if (!params.liveID) {
+      params.onError?.(new AtomicXError('unpinMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: liveID'));
+      return;
+    }
+    await sendPinAction('unpinMessage', params.liveID, null, params.onSuccess, params.onError);
+  }, []);
+
+  // 本 hook 注册的监听器，removeBarrageListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add barrage event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onMessageReceived'(received barrage message)
    * @param listener - Event callback function
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addBarrageListener('onMessageReceived', (params) => {
-   *   console.log('Message received:', params);
+   * addBarrageListener('onMessageReceived', ({ message }) => {
+   *   console.log('Message received:', message);
    * });
    * ```
    */
-  const addBarrageListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addBarrageListener = useCallback(<K extends BarrageEventName>(eventName: K, listener: StateEventListener<BarrageEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BarrageStore',
@@ -367,20 +504,20 @@ export function useBarrageState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove barrage event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onMessageReceived'(received barrage message)
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
    * removeBarrageListener('onMessageReceived');
    * ```
    */
-  const removeBarrageListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeBarrageListener = useCallback((eventName: BarrageEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BarrageStore',
@@ -388,19 +525,131 @@ export function useBarrageState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    sendTextMessageAsync: toAsyncAction(sendTextMessage, 'sendTextMessage'),
+    sendCustomMessageAsync: toAsyncAction(sendCustomMessage, 'sendCustomMessage'),
+    appendLocalTipAsync: toAsyncAction(appendLocalTip, 'appendLocalTip'),
+    loadEarlierMessagesAsync: toAsyncAction(loadEarlierMessages, 'loadEarlierMessages'),
+    pinMessageAsync: toAsyncAction(pinMessage, 'pinMessage'),
+    unpinMessageAsync: toAsyncAction(unpinMessage, 'unpinMessage'),
+  }), [sendTextMessage, sendCustomMessage, appendLocalTip, loadEarlierMessages, pinMessage, unpinMessage]);
 
   return {
-    messageList,          // Current room's barrage message list
-    allowSendMessage,     // Whether sending messages is allowed
     sendTextMessage,      // Send text message method
     sendCustomMessage,    // Send custom message method
     appendLocalTip,       // Add local tip message method
+    loadEarlierMessages,  // Load earlier messages method
+    collapseEarlierMessages, // Collapse loaded history method
+    setReplyTarget,       // Set the message being replied to
+    pinMessage,           // Pin a message for everyone
+    unpinMessage,         // Remove the pinned message
     addBarrageListener,   // Add barrage event listener
     removeBarrageListener, // Remove barrage event listener
+    ...asyncActions,    // Promise-based action variants
+  };
+}
+
+/**
+ * Subscribe to a single slice of the barrage state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const messageCount = useBarrageSelector(liveID, (state) => state.messageList.length);
+ * ```
+ */
+export function useBarrageSelector<T>(liveID: string, selector: (state: BarrageState) => T, equalityFn?: EqualityFn<T>): T {
+  return barrageStore.useStore(liveID, selector, equalityFn);
+}
+
+/**
+ * Pinned message of the live room and whether the login user may pin or unpin
+ * The pin is restored from the room metadata on entry, so viewers who join late also see it
+ *
+ * @example
+ * ```tsx
+ * const { pinnedMessage, canPin } = usePinnedMessage(liveID);
+ *
+ * {pinnedMessage && <Text>{pinnedMessage.text}</Text>}
+ * {pinnedMessage && canPin && <Button title="Unpin" onPress={() => unpinMessage({ liveID })} />}
+ * ```
+ */
+export function usePinnedMessage(liveID: string): { pinnedMessage: BarragePinnedMessage | null; canPin: boolean } {
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainPinnedMessage(liveID);
+  }, [liveID]);
+
+  const pinnedMessage = barrageStore.useStore(liveID, (state) => state.pinnedMessage);
+  const loginUserID = loginStore.useStore((state) => state.loginUserInfo?.userID);
+  const isOwner = liveListStore.useStore((state) => isLiveOwner(liveID, loginUserID, state.currentLive));
+  const isAdministrator = liveAudienceStore.useStore(liveID, (state) => isLiveAdministrator(loginUserID, state.audienceList));
+
+  return {
+    pinnedMessage,                        // Message pinned by the owner or an administrator
+    canPin: !!liveID && (isOwner || isAdministrator), // Whether the login user is the owner or an administrator
   };
 }
 
+export { setBarrageRetention, getBarrageRetention } from './store';
+export { DEFAULT_EARLIER_MESSAGE_COUNT, loadEarlierBarrageMessages } from './history';
+export { setBarrageFloodControl, getBarrageFloodControl } from './floodControl';
+export type { BarrageThrottleReason } from './floodControl';
+export {
+  getBarrageMentions,
+  getBarrageReply,
+  isBarrageMentioned,
+  createBarrageReplyInfo,
+  getMentionQuery,
+  insertMention,
+} from './mentions';
+export {
+  registerBarrageMessageCodec,
+  unregisterBarrageMessageCodec,
+  getBarrageMessageCodec,
+  clearBarrageMessageCodecs,
+  getBarragePayload,
+} from './codecs';
+export {
+  STICKER_BUSINESS_ID,
+  DEFAULT_EMOJI_PACK,
+  registerBarrageEmojiPack,
+  unregisterBarrageEmojiPack,
+  getBarrageEmojiPacks,
+  resetBarrageEmojiPacks,
+  findBarrageEmoji,
+  parseBarrageTokens,
+  insertEmoji,
+  encodeBarrageSticker,
+  getBarrageSticker,
+} from './emoji';
+export { PIN_BUSINESS_ID, canPinMessage, isLiveOwner, isLiveAdministrator } from './pin';
+export { retainPinnedMessage } from './pinSync';
+export {
+  registerBarrageFilter,
+  unregisterBarrageFilter,
+  getBarrageFilters,
+  clearBarrageFilters,
+  addBarrageModerationListener,
+  createSensitiveWordFilter,
+  createContactFilter,
+  createLocalMuteFilter,
+  createRegexFilter,
+} from './moderation';
+export type {
+  BarrageModerationListener,
+  SensitiveWordFilterOptions,
+  ContactFilterOptions,
+  LocalMuteFilter,
+  RegexRule,
+  RegexFilterOptions,
+} from './moderation';
+
 export default useBarrageState;
 
@@ -0,0 +1,142 @@
+/**
+ * 弹幕 @ 提及与回复
+ *
+ * 提及和回复信息通过文本消息的 extensionInfo 传递，消息本身仍是普通文本消息：
+ * - `mentions`: BarrageMention[] 的 JSON 字符串
+ * - `replyTo`: BarrageReplyInfo 的 JSON 字符串
+ */
+
+import type { BarrageMention, BarrageParam, BarrageReplyInfo } from './types';
+
+export const MENTIONS_EXTENSION_KEY = 'mentions';
+export const REPLY_TO_EXTENSION_KEY = 'replyTo';
+
+// 回复摘要最多保留的字符数
+const REPLY_TEXT_MAX_LENGTH = 40;
+
+function parseJson<T>(value: unknown): T | undefined {
+  if (typeof value !== 'string') {
+    return value === null || value === undefined ? undefined : (value as T);
+  }
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return undefined;
+  }
+}
+
+function getExtensionInfo(message: BarrageParam): Record<string, unknown> | undefined {
+  const info = parseJson<Record<string, unknown>>(message.extensionInfo);
+  return info && typeof info === 'object' ? info : undefined;
+}
+
+/**
+ * 编码提及和回复信息，合并到已有的 extensionInfo 中
+ */
+export function encodeBarrageExtensions(
+  text: string,
+  mentions: BarrageMention[] | undefined,
+  replyTo: BarrageReplyInfo | undefined,
+  extensionInfo: Record<string, string> = {}
+): Record<string, string> {
+  const result = { ...extensionInfo };
+  // 用户可能删掉了已插入的 @昵称，只保留文本中仍然存在的提及
+  const validMentions = (mentions ?? []).filter(
+    (mention, index, list) => text.includes(`@${mention.userName}`)
+      && list.findIndex((item) => item.userID === mention.userID) === index
+  );
+  if (validMentions.length > 0) {
+    result[MENTIONS_EXTENSION_KEY] = JSON.stringify(validMentions);
+  }
+  if (replyTo?.messageID) {
+    result[REPLY_TO_EXTENSION_KEY] = JSON.stringify(replyTo);
+  }
+  return result;
+}
+
+/**
+ * 获取消息中 @ 提及的用户
+ */
+export function getBarrageMentions(message: BarrageParam): BarrageMention[] {
+  const mentions = parseJson<unknown>(getExtensionInfo(message)?.[MENTIONS_EXTENSION_KEY]);
+  if (!Array.isArray(mentions)) {
+    return [];
+  }
+  return mentions.filter((item): item is BarrageMention =>
+    !!item && typeof item.userID === 'string' && typeof item.userName === 'string');
+}
+
+/**
+ * 获取消息回复的原消息，不是回复消息时返回 undefined
+ */
+export function getBarrageReply(message: BarrageParam): BarrageReplyInfo | undefined {
+  const reply = parseJson<BarrageReplyInfo>(getExtensionInfo(message)?.[REPLY_TO_EXTENSION_KEY]);
+  return reply && typeof reply.messageID === 'string' ? reply : undefined;
+}
+
+/**
+ * 消息是否 @ 了指定用户，或回复了该用户的消息
+ */
+export function isBarrageMentioned(message: BarrageParam, userID?: string): boolean {
+  if (!userID) {
+    return false;
+  }
+  return getBarrageMentions(message).some((mention) => mention.userID === userID)
+    || getBarrageReply(message)?.senderID === userID;
+}
+
+/**
+ * 根据原消息生成回复信息
+ */
+export function createBarrageReplyInfo(message: BarrageParam): BarrageReplyInfo | undefined {
+  if (!message.messageID) {
+    return undefined;
+  }
+  const sender = typeof message.sender === 'object' && message.sender !== null ? message.sender : undefined;
+  const text = message.text ?? message.content ?? message.textContent;
+  const summary = typeof text === 'string' ? Array.from(text) : [];
+  return {
+    messageID: message.messageID,
+    senderID: sender?.userID ?? message.userID,
+    senderName: sender?.userName ?? message.nickname ?? sender?.userID ?? message.userID,
+    text: summary.length > REPLY_TEXT_MAX_LENGTH
+      ? `${summary.slice(0, REPLY_TEXT_MAX_LENGTH).join('')}…`
+      : summary.join(''),
+  };
+}
+
+/**
+ * 获取光标前正在输入的 @ 关键字，用于提及自动补全；没有时返回 null
+ *
+ * @example
+ * ```ts
+ * getMentionQuery('hi @to', 6); // 'to'
+ * ```
+ */
+export function getMentionQuery(text: string, cursor: number = text.length): string | null {
+  const beforeCursor = text.slice(0, cursor);
+  const atIndex = beforeCursor.lastIndexOf('@');
+  if (atIndex < 0) {
+    return null;
+  }
+  // @ 需要位于开头或空白之后，避免把邮箱等内容当作提及
+  if (atIndex > 0 && !/\s/.test(beforeCursor[atIndex - 1]!)) {
+    return null;
+  }
+  const query = beforeCursor.slice(atIndex + 1);
+  return /\s/.test(query) ? null : query;
+}
+
+/**
+ * 用选中的用户替换光标前的 @ 关键字，返回新的文本和光标位置
+ */
+export function insertMention(text: string, cursor: number, mention: BarrageMention): { text: string; cursor: number } {
+  const beforeCursor = text.slice(0, cursor);
+  const atIndex = beforeCursor.lastIndexOf('@');
+  const start = atIndex >= 0 ? atIndex : cursor;
+  const inserted = `@${mention.userName} `;
+  return {
+    text: `${text.slice(0, start)}${inserted}${text.slice(cursor)}`,
+    cursor: start + inserted.length,
+  };
+}
@@ -0,0 +1,375 @@
+/**
+ * 弹幕审核
+ *
+ * 审核分两个阶段：outgoing（发送前）和 incoming（渲染前）。
+ * 过滤器按注册顺序执行，可以拦截、改写或标记消息：
+ * - 拦截：outgoing 阶段 sendTextMessage 以 ContentRejectedError 失败，incoming 阶段消息不进入 messageList
+ * - 改写：后续过滤器拿到改写后的文本，最终发送/渲染改写后的文本
+ * - 标记：消息照常放行，incoming 阶段标记写入消息的 moderationFlags
+ */
+
+import type {
+  BarrageFilter,
+  BarrageFilterResult,
+  BarrageModerationFlag,
+  BarrageModerationResult,
+  BarrageModerationStage,
+  BarrageParam,
+} from './types';
+
+/**
+ * 审核结果监听器，只在消息被拦截、改写或标记时通知
+ */
+export type BarrageModerationListener = (result: BarrageModerationResult) => void;
+
+const filters: BarrageFilter[] = [];
+const moderationListeners = new Set<BarrageModerationListener>();
+
+/**
+ * 注册过滤器，返回注销函数
+ *
+ * @example
+ * ```ts
+ * const unregister = registerBarrageFilter(createSensitiveWordFilter({ words: ['spam'] }));
+ * ```
+ */
+export function registerBarrageFilter(filter: BarrageFilter): () => void {
+  const index = filters.findIndex((item) => item.name === filter.name);
+  if (index >= 0) {
+    filters.splice(index, 1, filter);
+  } else {
+    filters.push(filter);
+  }
+  return () => {
+    const current = filters.indexOf(filter);
+    if (current >= 0) {
+      filters.splice(current, 1);
+    }
+  };
+}
+
+/**
+ * 注销指定名称的过滤器
+ */
+export function unregisterBarrageFilter(name: string): void {
+  const index = filters.findIndex((item) => item.name === name);
+  if (index >= 0) {
+    filters.splice(index, 1);
+  }
+}
+
+/**
+ * 获取已注册的过滤器
+ */
+export function getBarrageFilters(): BarrageFilter[] {
+  return [...filters];
+}
+
+/**
+ * 清空所有过滤器
+ */
+export function clearBarrageFilters(): void {
+  filters.length = 0;
+}
+
+/**
+ * 监听审核结果，例如上报被拦截或被标记的消息
+ */
+export function addBarrageModerationListener(listener: BarrageModerationListener): () => void {
+  moderationListeners.add(listener);
+  return () => {
+    moderationListeners.delete(listener);
+  };
+}
+
+/**
+ * 取出消息的文本内容
+ */
+export function getBarrageText(message: BarrageParam): string {
+  const text = message.text ?? message.content ?? message.textContent;
+  return typeof text === 'string' ? text : '';
+}
+
+function getSenderID(message: BarrageParam): string | undefined {
+  const sender = message.sender;
+  if (sender && typeof sender === 'object' && sender.userID) {
+    return sender.userID;
+  }
+  return message.userID ?? (typeof sender === 'string' ? sender : undefined);
+}
+
+function notifyModerationListeners(result: BarrageModerationResult): void {
+  moderationListeners.forEach((listener) => {
+    try {
+      listener(result);
+    } catch (error) {
+      console.error('[BarrageModeration] Listener error:', error);
+    }
+  });
+}
+
+/**
+ * 按注册顺序执行过滤器
+ */
+export function moderateBarrage(
+  stage: BarrageModerationStage,
+  liveID: string,
+  message: BarrageParam,
+  senderID: string | undefined = getSenderID(message)
+): BarrageModerationResult {
+  const originalText = getBarrageText(message);
+  const result: BarrageModerationResult = {
+    stage,
+    liveID,
+    allowed: true,
+    text: originalText,
+    flags: [],
+    message,
+  };
+
+  for (const filter of filters) {
+    if (filter.stages && !filter.stages.includes(stage)) {
+      continue;
+    }
+    let output: BarrageFilterResult | undefined;
+    try {
+      output = filter.filter({ stage, liveID, text: result.text, senderID, message });
+    } catch (error) {
+      console.error(`[BarrageModeration] Filter ${filter.name} error:`, error);
+      continue;
+    }
+    if (!output) {
+      continue;
+    }
+    if (output.action === 'reject') {
+      result.allowed = false;
+      result.rejectedBy = filter.name;
+      result.reason = output.reason;
+      break;
+    }
+    if (output.action === 'rewrite') {
+      result.text = output.text;
+      if (output.reason) {
+        result.flags.push({ filter: filter.name, reason: output.reason });
+      }
+    } else {
+      result.flags.push({ filter: filter.name, reason: output.reason, message: output.message });
+    }
+  }
+
+  if (!result.allowed || result.flags.length > 0 || result.text !== originalText) {
+    notifyModerationListeners(result);
+  }
+  return result;
+}
+
+/**
+ * 对 Native 推送的新消息执行 incoming 审核，返回需要渲染的消息
+ * 本地提示等没有发送者的消息不经过审核
+ */
+export function moderateIncomingMessages(liveID: string, messages: BarrageParam[]): BarrageParam[] {
+  if (filters.length === 0) {
+    return messages;
+  }
+  const result: BarrageParam[] = [];
+  messages.forEach((message) => {
+    if (!getSenderID(message)) {
+      result.push(message);
+      return;
+    }
+    const moderation = moderateBarrage('incoming', liveID, message);
+    if (!moderation.allowed) {
+      return;
+    }
+    if (moderation.text === getBarrageText(message) && moderation.flags.length === 0) {
+      result.push(message);
+      return;
+    }
+    result.push(applyModeration(message, moderation.text, moderation.flags));
+  });
+  return result;
+}
+
+function applyModeration(message: BarrageParam, text: string, flags: BarrageModerationFlag[]): BarrageParam {
+  const next: BarrageParam = { ...message };
+  (['text', 'content', 'textContent'] as const).forEach((field) => {
+    if (typeof next[field] === 'string') {
+      next[field] = text;
+    }
+  });
+  if (flags.length > 0) {
+    next.moderationFlags = [...(message.moderationFlags ?? []), ...flags];
+  }
+  return next;
+}
+
+/**
+ * 敏感词过滤器配置
+ */
+export interface SensitiveWordFilterOptions {
+  words: string[];
+  /** 命中后的处理方式，默认 `mask` 用 maskChar 逐字替换 */
+  mode?: 'mask' | 'reject';
+  maskChar?: string;
+  /** 是否区分大小写，默认不区分 */
+  caseSensitive?: boolean;
+  stages?: BarrageModerationStage[];
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * 敏感词词典过滤器
+ */
+export function createSensitiveWordFilter(options: SensitiveWordFilterOptions): BarrageFilter {
+  const { mode = 'mask', maskChar = '*', caseSensitive = false, stages } = options;
+  // 长词优先匹配，避免短词先命中导致长词只被部分替换
+  const words = options.words.filter(Boolean).sort((a, b) => b.length - a.length);
+  const pattern = words.length > 0
+    ? new RegExp(words.map(escapeRegExp).join('|'), caseSensitive ? 'g' : 'gi')
+    : null;
+
+  return {
+    name: 'sensitiveWord',
+    stages,
+    filter: ({ text }) => {
+      if (!pattern) {
+        return undefined;
+      }
+      pattern.lastIndex = 0;
+      if (!pattern.test(text)) {
+        return undefined;
+      }
+      if (mode === 'reject') {
+        return { action: 'reject', reason: 'SENSITIVE_WORD' };
+      }
+      pattern.lastIndex = 0;
+      return {
+        action: 'rewrite',
+        text: text.replace(pattern, (match) => maskChar.repeat(Array.from(match).length)),
+        reason: 'SENSITIVE_WORD',
+      };
+    },
+  };
+}
+
+/**
+ * 链接/手机号过滤器配置
+ */
+export interface ContactFilterOptions {
+  /** 是否拦截链接，默认 true */
+  blockLinks?: boolean;
+  /** 是否拦截手机号，默认 true */
+  blockPhoneNumbers?: boolean;
+  stages?: BarrageModerationStage[];
+}
+
+const LINK_PATTERN = /(https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(com|cn|net|org|io|me|cc|top|xyz)\b/i;
+// 连续 7 位以上数字（允许空格、短横线分隔），覆盖手机号和带区号的座机号
+const PHONE_NUMBER_PATTERN = /(?:\+?\d[\s-]?){7,}\d/;
+
+/**
+ * 链接、手机号拦截过滤器
+ */
+export function createContactFilter(options: ContactFilterOptions = {}): BarrageFilter {
+  const { blockLinks = true, blockPhoneNumbers = true, stages } = options;
+  return {
+    name: 'contact',
+    stages,
+    filter: ({ text }) => {
+      if (blockLinks && LINK_PATTERN.test(text)) {
+        return { action: 'reject', reason: 'LINK' };
+      }
+      if (blockPhoneNumbers && PHONE_NUMBER_PATTERN.test(text)) {
+        return { action: 'reject', reason: 'PHONE_NUMBER' };
+      }
+      return undefined;
+    },
+  };
+}
+
+/**
+ * 本地屏蔽过滤器，在 incoming 阶段隐藏被屏蔽用户的消息，仅对当前设备生效
+ */
+export interface LocalMuteFilter extends BarrageFilter {
+  mute(userID: string): void;
+  unmute(userID: string): void;
+  isMuted(userID: string): boolean;
+  getMutedUsers(): string[];
+}
+
+export function createLocalMuteFilter(initialUserIDs: string[] = []): LocalMuteFilter {
+  const mutedUsers = new Set(initialUserIDs);
+  return {
+    name: 'localMute',
+    stages: ['incoming'],
+    filter: ({ senderID }) => (
+      senderID && mutedUsers.has(senderID) ? { action: 'reject', reason: 'LOCAL_MUTED' } : undefined
+    ),
+    mute: (userID) => {
+      mutedUsers.add(userID);
+    },
+    unmute: (userID) => {
+      mutedUsers.delete(userID);
+    },
+    isMuted: (userID) => mutedUsers.has(userID),
+    getMutedUsers: () => Array.from(mutedUsers),
+  };
+}
+
+/**
+ * 正则规则
+ */
+export interface RegexRule {
+  pattern: RegExp;
+  action: 'reject' | 'rewrite' | 'flag';
+  /** action 为 rewrite 时的替换内容，默认 `***` */
+  replacement?: string;
+  /** 拦截原因，默认 `REGEX_RULE` */
+  reason?: string;
+}
+
+export interface RegexFilterOptions {
+  /** 过滤器名称，注册多组正则规则时需要区分，默认 `regex` */
+  name?: string;
+  rules: RegexRule[];
+  stages?: BarrageModerationStage[];
+}
+
+/**
+ * 正则规则过滤器
+ * 规则按顺序执行：命中 reject 规则立即拦截，rewrite 规则依次替换文本，flag 规则记录第一个命中的原因
+ */
+export function createRegexFilter(options: RegexFilterOptions): BarrageFilter {
+  const { name = 'regex', rules, stages } = options;
+  return {
+    name,
+    stages,
+    filter: ({ text }) => {
+      let current = text;
+      let flagReason: string | undefined;
+      for (const rule of rules) {
+        rule.pattern.lastIndex = 0;
+        if (!rule.pattern.test(current)) {
+          continue;
+        }
+        const reason = rule.reason ?? 'REGEX_RULE';
+        if (rule.action === 'reject') {
+          return { action: 'reject', reason };
+        }
+        if (rule.action === 'flag') {
+          flagReason = flagReason ?? reason;
+          continue;
+        }
+        rule.pattern.lastIndex = 0;
+        current = current.replace(rule.pattern, rule.replacement ?? '***');
+      }
+      if (current !== text) {
+        return { action: 'rewrite', text: current, reason: flagReason ?? 'REGEX_RULE' };
+      }
+      return flagReason ? { action: 'flag', reason: flagReason } : undefined;
+    },
+  };
+}
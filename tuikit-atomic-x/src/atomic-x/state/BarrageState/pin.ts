@@ -0,0 +1,134 @@
+/**
+ * 弹幕置顶
+ *
+ * 置顶和取消置顶通过 businessID 为 PIN_BUSINESS_ID 的自定义消息同步给直播间所有人，
+ * data 为 `{ action: 'pin', message }` 或 `{ action: 'unpin' }` 的 JSON 字符串。
+ * 收到的置顶消息不进入 messageList，只更新 pinnedMessage；
+ * 发送者不是房主或管理员时忽略，避免普通观众伪造置顶。
+ */
+
+import { liveListStore } from '../LiveListState/store';
+import type { LiveInfoParam } from '../LiveListState/types';
+import { liveAudienceStore } from '../LiveAudienceState/store';
+import { LiveUserRole } from '../LiveAudienceState/types';
+import type { LiveUserInfoParam } from '../LiveAudienceState/types';
+import { getBarrageText } from './moderation';
+import type { BarrageParam, BarragePinnedMessage } from './types';
+
+export const PIN_BUSINESS_ID = 'atomicx_barrage_pin';
+
+type PinAction =
+  | { action: 'pin'; message: BarragePinnedMessage }
+  | { action: 'unpin' };
+
+function getSenderID(message: BarrageParam): string | undefined {
+  const sender = message.sender;
+  if (sender && typeof sender === 'object' && sender.userID) {
+    return sender.userID;
+  }
+  return message.userID ?? (typeof sender === 'string' ? sender : undefined);
+}
+
+/**
+ * 用户是否为该直播间的房主
+ */
+export function isLiveOwner(liveID: string, userID: string | undefined, currentLive: LiveInfoParam | null): boolean {
+  return !!userID && currentLive?.liveID === liveID && currentLive.liveOwner?.userID === userID;
+}
+
+/**
+ * 用户是否为通过 setAdministrator 设置的管理员
+ */
+export function isLiveAdministrator(userID: string | undefined, audienceList: LiveUserInfoParam[]): boolean {
+  return !!userID && audienceList.some((user) => user.userID === userID && user.role === LiveUserRole.ADMINISTRATOR);
+}
+
+/**
+ * 用户是否可以置顶消息：房主或管理员
+ */
+export function canPinMessage(liveID: string, userID?: string): boolean {
+  return isLiveOwner(liveID, userID, liveListStore.getState().currentLive)
+    || isLiveAdministrator(userID, liveAudienceStore.getState(liveID).audienceList);
+}
+
+/**
+ * 根据原消息生成置顶内容
+ */
+export function createPinnedMessage(message: BarrageParam, pinnedBy: string, now = Date.now()): BarragePinnedMessage | undefined {
+  if (!message.messageID) {
+    return undefined;
+  }
+  const sender = typeof message.sender === 'object' && message.sender !== null ? message.sender : undefined;
+  return {
+    messageID: message.messageID,
+    text: getBarrageText(message),
+    senderID: sender?.userID ?? message.userID,
+    senderName: sender?.userName ?? message.nickname ?? sender?.userID ?? message.userID,
+    pinnedBy,
+    pinnedAt: now,
+  };
+}
+
+/**
+ * 生成置顶/取消置顶消息的 data
+ */
+export function encodePinAction(pinned: BarragePinnedMessage | null): string {
+  return JSON.stringify(pinned ? { action: 'pin', message: pinned } : { action: 'unpin' });
+}
+
+function decodePinAction(data: unknown): PinAction | undefined {
+  if (typeof data !== 'string' || !data) {
+    return undefined;
+  }
+  try {
+    const value = JSON.parse(data) as Partial<PinAction> & { message?: Partial<BarragePinnedMessage> };
+    if (value.action === 'unpin') {
+      return { action: 'unpin' };
+    }
+    if (value.action === 'pin' && typeof value.message?.messageID === 'string' && typeof value.message.text === 'string') {
+      return { action: 'pin', message: value.message as BarragePinnedMessage };
+    }
+  } catch {
+    // 无法解析的置顶消息直接丢弃
+  }
+  return undefined;
+}
+
+/**
+ * 从新消息中取出置顶消息，返回剩余的消息和最终的置顶状态；
+ * 没有有效的置顶消息时 pinnedMessage 为 undefined，表示置顶状态不变
+ */
+export function extractPinActions(
+  liveID: string,
+  messages: BarrageParam[]
+): { messages: BarrageParam[]; pinnedMessage?: BarragePinnedMessage | null } {
+  if (!messages.some((message) => message.businessID === PIN_BUSINESS_ID)) {
+    return { messages };
+  }
+  let pinnedMessage: BarragePinnedMessage | null | undefined;
+  const rest = messages.filter((message) => {
+    if (message.businessID !== PIN_BUSINESS_ID) {
+      return true;
+    }
+    const senderID = getSenderID(message);
+    const action = decodePinAction(message.data);
+    if (action && canPinMessage(liveID, senderID)) {
+      pinnedMessage = action.action === 'pin' ? { ...action.message, pinnedBy: senderID! } : null;
+    }
+    return false;
+  });
+  return { messages: rest, pinnedMessage };
+}
+
+/**
+ * 读取直播间 metaData 中的置顶记录：undefined 表示没有记录，null 表示已取消置顶
+ */
+export function getLivePinnedMessage(liveInfo: LiveInfoParam): BarragePinnedMessage | null | undefined {
+  const metaData = liveInfo.metaData as Map<string, string> | Record<string, string> | undefined;
+  const data = metaData instanceof Map ? metaData.get(PIN_BUSINESS_ID) : metaData?.[PIN_BUSINESS_ID];
+  if (data === undefined) {
+    return undefined;
+  }
+  const action = decodePinAction(data);
+  return action?.action === 'pin' ? action.message : null;
+}
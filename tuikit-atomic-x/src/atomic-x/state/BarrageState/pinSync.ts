@@ -0,0 +1,99 @@
+/**
+ * 置顶状态持久化
+ *
+ * 置顶消息只会推送给当时在房间里的观众，因此置顶时同时把 encodePinAction 的结果写入直播间 metaData 的 PIN_BUSINESS_ID 字段；
+ * 进房或 metaData 变化时从 currentLive 恢复置顶状态，晚进房的观众也能看到当前置顶。
+ */
+
+import { callNativeAPI } from '../../utils';
+import { AtomicXError } from '../../errors';
+import { liveListStore } from '../LiveListState/store';
+import type { LiveInfoParam } from '../LiveListState/types';
+import { PIN_BUSINESS_ID, encodePinAction, getLivePinnedMessage } from './pin';
+import { barrageStore } from './store';
+import type { BarragePinnedMessage } from './types';
+
+const pinRetains = new Map<string, { count: number; release: () => void }>();
+
+/**
+ * 从当前直播间的 metaData 恢复置顶状态；metaData 中没有置顶记录时保持不变
+ */
+export function syncPinnedMessageFromLive(liveID: string): void {
+  const currentLive = liveListStore.getState().currentLive;
+  if (currentLive?.liveID !== liveID) {
+    return;
+  }
+  const pinnedMessage = getLivePinnedMessage(currentLive);
+  if (pinnedMessage === undefined) {
+    return;
+  }
+  if (pinnedMessage?.messageID !== barrageStore.getState(liveID).pinnedMessage?.messageID) {
+    barrageStore.setState(liveID, { pinnedMessage });
+  }
+}
+
+/**
+ * 将置顶状态写入直播间 metaData，失败时抛出 AtomicXError
+ */
+export async function savePinnedMessage(liveID: string, pinned: BarragePinnedMessage | null): Promise<void> {
+  let error: AtomicXError;
+  try {
+    const result = await callNativeAPI<LiveInfoParam>('updateLiveInfo', {
+      liveID,
+      metaData: { [PIN_BUSINESS_ID]: pinned ? encodePinAction(pinned) : '' },
+    });
+    if (result.success) {
+      return;
+    }
+    error = AtomicXError.fromResult('updateLiveInfo', result, 'Save pinned message failed');
+  } catch (err) {
+    error = AtomicXError.from('updateLiveInfo', err);
+  }
+  throw error;
+}
+
+/**
+ * 引用计数 +1，首次引用时从 metaData 恢复置顶，并在 currentLive 变化时重新同步；返回释放函数
+ */
+export function retainPinnedMessage(liveID: string): () => void {
+  const retained = pinRetains.get(liveID);
+  if (retained) {
+    retained.count += 1;
+  } else {
+    const releaseLiveList = liveListStore.retain();
+    const releaseBarrage = barrageStore.retain(liveID);
+    let lastLive = liveListStore.getState().currentLive;
+    const unsubscribe = liveListStore.subscribe(({ currentLive }) => {
+      if (currentLive !== lastLive) {
+        lastLive = currentLive;
+        syncPinnedMessageFromLive(liveID);
+      }
+    });
+    syncPinnedMessageFromLive(liveID);
+    pinRetains.set(liveID, {
+      count: 1,
+      release: () => {
+        unsubscribe();
+        releaseBarrage();
+        releaseLiveList();
+      },
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const current = pinRetains.get(liveID);
+    if (!current) {
+      return;
+    }
+    current.count -= 1;
+    if (current.count <= 0) {
+      pinRetains.delete(liveID);
+      current.release();
+    }
+  };
+}
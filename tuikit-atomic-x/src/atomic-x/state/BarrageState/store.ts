@@ -1,125 +1,292 @@
 /**
  * BarrageState Store
- * 单例模式全局状态存储，解决状态隔离问题
+ * 全局状态存储，按 liveID 区分直播间，由 createRoomStore 统一管理 Native 订阅
+ *
+ * messageList 只保留最新的 windowSize 条消息，更早的消息移入按直播间划分的环形缓冲区，
+ * 通过 loadEarlierMessages 重新加载；缓冲区也没有时再通过 Native 拉取历史消息
  */
 
-import type { BarrageParam } from './types';
+import { createRoomStore, stateDecoders } from '../../store';
+import { RingBuffer } from '../../utils';
+import { moderateIncomingMessages } from './moderation';
+import { decodeBarrageMessages } from './codecs';
+import { extractPinActions } from './pin';
+import { appendWithCollapse, clearSendRecords } from './floodControl';
+import type { BarragePinnedMessage, BarrageParam, BarrageRetentionOptions } from './types';
 
 /**
  * 单个直播间的弹幕状态
  */
-interface BarrageState {
+export interface BarrageState {
   messageList: BarrageParam[];
   allowSendMessage: boolean;
+  /** 是否还有更早的消息可加载（本地缓冲区或 Native 历史） */
+  hasEarlierMessages: boolean;
+  /** 是否正在加载更早的消息 */
+  isLoadingEarlierMessages: boolean;
+  /** 当前用户发送冷却结束的时间戳（毫秒），0 表示不在冷却中 */
+  sendCooldownUntil: number;
+  /** 输入框正在回复的消息，由 BarrageList 设置、BarrageInput 发送时使用 */
+  replyTarget: BarrageParam | null;
+  /** 当前置顶的消息，由房主或管理员通过 pinMessage 设置 */
+  pinnedMessage: BarragePinnedMessage | null;
 }
 
 /**
- * 状态变化监听器
+ * 单个直播间的历史消息
  */
-type StateChangeListener = (state: BarrageState) => void;
+interface BarrageHistory {
+  /** 移出窗口的消息，按时间顺序保存 */
+  buffer: RingBuffer<BarrageParam>;
+  /** 通过 loadEarlierMessages 加回列表的条数，收起前不参与窗口裁剪 */
+  expandedCount: number;
+  /** Native 是否还有更早的历史消息 */
+  remoteHasMore: boolean;
+  /** 连续拉取 Native 历史消息失败的次数 */
+  remoteFailures: number;
+  /** 失败退避结束的时间戳（毫秒），此前不再请求 Native */
+  remoteRetryAt: number;
+  /** 上次 Native 推送的最后一条消息，审核可能拦截或改写消息，因此不能以 messageList 的最后一条为准 */
+  lastNativeKey?: string;
+}
 
-/**
- * 全局状态存储
- * 按 liveID 索引，每个直播间有独立的状态
- */
-class BarrageStore {
-  private static instance: BarrageStore;
-  private states: Map<string, BarrageState> = new Map();
-  private listeners: Map<string, Set<StateChangeListener>> = new Map();
+const retention: Required<BarrageRetentionOptions> = {
+  windowSize: 200,
+  historyCapacity: 1000,
+};
 
-  private constructor() {}
+// 拉取 Native 历史消息连续失败达到该次数后不再尝试
+const MAX_REMOTE_FAILURES = 3;
+// 失败后的首次退避时长，之后每次翻倍
+const REMOTE_RETRY_DELAY_MS = 5000;
 
-  static getInstance(): BarrageStore {
-    if (!BarrageStore.instance) {
-      BarrageStore.instance = new BarrageStore();
-    }
-    return BarrageStore.instance;
+const histories = new Map<string, BarrageHistory>();
+
+const decodeMessageList = stateDecoders.json<BarrageParam[]>([]);
+
+function getHistory(liveID: string): BarrageHistory {
+  let history = histories.get(liveID);
+  if (!history) {
+    history = {
+      buffer: new RingBuffer<BarrageParam>(retention.historyCapacity),
+      expandedCount: 0,
+      remoteHasMore: true,
+      remoteFailures: 0,
+      remoteRetryAt: 0,
+    };
+    histories.set(liveID, history);
   }
+  return history;
+}
 
-  /**
-   * 获取指定直播间的状态
-   */
-  getState(liveID: string): BarrageState {
-    if (!this.states.has(liveID)) {
-      this.states.set(liveID, {
-        messageList: [],
-        allowSendMessage: false,
-      });
-    }
-    return this.states.get(liveID)!;
+function hasEarlierMessages(history: BarrageHistory): boolean {
+  return history.buffer.size > 0 || history.remoteHasMore;
+}
+
+/**
+ * 消息唯一标识，本地提示等没有 messageID 的消息按内容拼接
+ */
+export function getBarrageMessageKey(message: BarrageParam): string {
+  if (message.messageID) {
+    return message.messageID;
+  }
+  if (message.sequence !== undefined && message.sequence !== null) {
+    return `seq_${String(message.sequence)}`;
   }
+  return `${message.timestamp ?? ''}_${message.userID ?? ''}_${message.text ?? message.content ?? ''}`;
+}
 
-  /**
-   * 更新指定直播间的状态
-   */
-  setState(liveID: string, updates: Partial<BarrageState>): void {
-    const currentState = this.getState(liveID);
-    const newState: BarrageState = {
-      ...currentState,
-      ...updates,
-    };
-    this.states.set(liveID, newState);
+/**
+ * 将超出窗口的旧消息移入缓冲区；用户正在查看历史消息时不裁剪
+ */
+function trimToWindow(history: BarrageHistory, messageList: BarrageParam[]): BarrageParam[] {
+  if (history.expandedCount > 0) {
+    return messageList;
+  }
+  const overflow = messageList.length - retention.windowSize;
+  if (overflow <= 0) {
+    return messageList;
+  }
+  history.buffer.push(...messageList.slice(0, overflow));
+  return messageList.slice(overflow);
+}
 
-    // 通知所有订阅者
-    this.notifyListeners(liveID, newState);
+/**
+ * 合并 Native 推送的完整消息列表：只追加上次推送最后一条之后的新消息，新消息先取出置顶消息，再经过 incoming 审核和自定义消息解码，折叠模式下合并相同内容
+ */
+function mergeMessageList(liveID: string, current: BarrageParam[], incoming: BarrageParam[]): Partial<BarrageState> {
+  const history = getHistory(liveID);
+  const lastKey = history.lastNativeKey;
+  let lastIndex = -1;
+  if (lastKey !== undefined) {
+    for (let i = incoming.length - 1; i >= 0; i -= 1) {
+      if (getBarrageMessageKey(incoming[i]!) === lastKey) {
+        lastIndex = i;
+        break;
+      }
+    }
   }
+  const newestMessage = incoming[incoming.length - 1];
+  history.lastNativeKey = newestMessage ? getBarrageMessageKey(newestMessage) : undefined;
 
-  /**
-   * 订阅状态变化
-   */
-  subscribe(liveID: string, listener: StateChangeListener): () => void {
-    if (!this.listeners.has(liveID)) {
-      this.listeners.set(liveID, new Set());
+  let merged: BarrageParam[];
+  let pinnedMessage: BarragePinnedMessage | null | undefined;
+  if (lastIndex >= 0) {
+    if (lastIndex === incoming.length - 1) {
+      return { messageList: current };
     }
-    this.listeners.get(liveID)!.add(listener);
-
-    // 立即通知当前状态
-    listener(this.getState(liveID));
-
-    // 返回取消订阅函数
-    return () => {
-      const liveListeners = this.listeners.get(liveID);
-      if (liveListeners) {
-        liveListeners.delete(listener);
-        if (liveListeners.size === 0) {
-          this.listeners.delete(liveID);
-        }
-      }
-    };
+    const extracted = extractPinActions(liveID, incoming.slice(lastIndex + 1));
+    pinnedMessage = extracted.pinnedMessage;
+    merged = appendWithCollapse(current, decodeBarrageMessages(moderateIncomingMessages(liveID, extracted.messages)));
+  } else {
+    if (lastKey !== undefined) {
+      // Native 列表已重置（例如重新进房），丢弃旧的历史消息
+      history.buffer.clear();
+      history.expandedCount = 0;
+      history.remoteHasMore = true;
+      history.remoteFailures = 0;
+      history.remoteRetryAt = 0;
+    }
+    const extracted = extractPinActions(liveID, incoming);
+    pinnedMessage = extracted.pinnedMessage;
+    merged = appendWithCollapse([], decodeBarrageMessages(moderateIncomingMessages(liveID, extracted.messages)));
   }
 
-  /**
-   * 通知所有订阅者
-   */
-  private notifyListeners(liveID: string, state: BarrageState): void {
-    const liveListeners = this.listeners.get(liveID);
-    if (liveListeners) {
-      liveListeners.forEach((listener) => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[BarrageStore] Listener error:', error);
-        }
-      });
+  return {
+    messageList: trimToWindow(history, merged),
+    hasEarlierMessages: hasEarlierMessages(history),
+    ...(pinnedMessage !== undefined ? { pinnedMessage } : {}),
+  };
+}
+
+export const barrageStore = createRoomStore<BarrageState>({
+  storeName: 'BarrageStore',
+  initialState: () => ({
+    messageList: [],
+    allowSendMessage: false,
+    hasEarlierMessages: false,
+    isLoadingEarlierMessages: false,
+    sendCooldownUntil: 0,
+    replyTarget: null,
+    pinnedMessage: null,
+  }),
+  decoders: {
+    messageList: decodeMessageList,
+    allowSendMessage: stateDecoders.boolean(),
+  },
+  normalize: (updates, state, liveID) => {
+    if (!updates.messageList) {
+      return updates;
     }
+    return { ...updates, ...mergeMessageList(liveID, state.messageList, updates.messageList) };
+  },
+  onDispose: (liveID) => {
+    histories.delete(liveID);
+    clearSendRecords(liveID);
+  },
+});
+
+/**
+ * 配置弹幕保留窗口，对已有直播间同样生效
+ *
+ * @example
+ * ```ts
+ * setBarrageRetention({ windowSize: 100, historyCapacity: 500 });
+ * ```
+ */
+export function setBarrageRetention(options: BarrageRetentionOptions): void {
+  const { windowSize, historyCapacity } = options;
+  if (windowSize !== undefined) {
+    retention.windowSize = Math.max(1, Math.floor(windowSize));
+  }
+  if (historyCapacity !== undefined && Math.floor(historyCapacity) !== retention.historyCapacity) {
+    retention.historyCapacity = Math.max(1, Math.floor(historyCapacity));
+    histories.forEach((history) => {
+      const buffer = new RingBuffer<BarrageParam>(retention.historyCapacity);
+      buffer.push(...history.buffer.popNewest(retention.historyCapacity));
+      history.buffer = buffer;
+    });
   }
+}
 
-  /**
-   * 清理指定直播间的状态
-   */
-  clearState(liveID: string): void {
-    this.states.delete(liveID);
-    this.listeners.delete(liveID);
+/**
+ * 获取当前弹幕保留窗口配置
+ */
+export function getBarrageRetention(): Required<BarrageRetentionOptions> {
+  return { ...retention };
+}
+
+/**
+ * 从本地缓冲区取出最新的 count 条历史消息，按时间顺序返回
+ */
+export function takeEarlierMessages(liveID: string, count: number): BarrageParam[] {
+  return getHistory(liveID).buffer.popNewest(count);
+}
+
+/**
+ * 现在是否可以向 Native 拉取更早的历史消息：还有更多且不在失败退避中
+ */
+export function hasRemoteEarlierMessages(liveID: string, now = Date.now()): boolean {
+  const history = getHistory(liveID);
+  return history.remoteHasMore && now >= history.remoteRetryAt;
+}
+
+/**
+ * 记录一次拉取 Native 历史消息失败
+ * Native 不支持该接口或连续失败 MAX_REMOTE_FAILURES 次后视为没有更多历史，否则按次数指数退避
+ */
+export function recordEarlierMessagesFailure(liveID: string, notSupported: boolean, now = Date.now()): void {
+  const history = getHistory(liveID);
+  history.remoteFailures += 1;
+  if (notSupported || history.remoteFailures >= MAX_REMOTE_FAILURES) {
+    history.remoteHasMore = false;
+    history.remoteRetryAt = 0;
+  } else {
+    history.remoteRetryAt = now + REMOTE_RETRY_DELAY_MS * 2 ** (history.remoteFailures - 1);
   }
+  barrageStore.setState(liveID, {
+    hasEarlierMessages: hasEarlierMessages(history),
+    isLoadingEarlierMessages: false,
+  });
+}
 
-  /**
-   * 清理所有状态
-   */
-  clearAll(): void {
-    this.states.clear();
-    this.listeners.clear();
+/**
+ * 将更早的消息加到列表头部，收起前这些消息不会被窗口裁剪
+ */
+export function prependEarlierMessages(liveID: string, messages: BarrageParam[], remoteHasMore?: boolean): void {
+  const history = getHistory(liveID);
+  history.expandedCount += messages.length;
+  if (remoteHasMore !== undefined) {
+    history.remoteHasMore = remoteHasMore;
+    history.remoteFailures = 0;
+    history.remoteRetryAt = 0;
   }
+  barrageStore.setState(liveID, (state) => ({
+    messageList: messages.length > 0 ? [...messages, ...state.messageList] : state.messageList,
+    hasEarlierMessages: hasEarlierMessages(history),
+    isLoadingEarlierMessages: false,
+  }));
 }
 
-export const barrageStore = BarrageStore.getInstance();
+/**
+ * 收起已加载的历史消息，重新按窗口裁剪
+ */
+export function collapseEarlierMessages(liveID: string): void {
+  const history = histories.get(liveID);
+  if (!history || history.expandedCount === 0) {
+    return;
+  }
+  history.expandedCount = 0;
+  barrageStore.setState(liveID, (state) => ({
+    messageList: trimToWindow(history, state.messageList),
+    hasEarlierMessages: hasEarlierMessages(history),
+  }));
+}
 
+/**
+ * 解码 Native 返回的历史消息列表，同样经过 incoming 审核和自定义消息解码；历史中的置顶消息不影响当前置顶状态
+ */
+export function decodeEarlierMessages(liveID: string, value: unknown): BarrageParam[] {
+  const { messages } = extractPinActions(liveID, decodeMessageList(value) ?? []);
+  return decodeBarrageMessages(moderateIncomingMessages(liveID, messages));
+}
@@ -2,18 +2,40 @@
  * Barrage State 类型定义
  */
 
+import type { ReactNode } from 'react';
+import type { LiveUserInfoParam } from '../LiveListState/types';
+import type { GiftParam } from '../GiftState/types';
+
 /**
  * 弹幕参数
  */
 export interface BarrageParam {
   content?: string;
   text?: string;
-  sender?: string;
+  sender?: string | LiveUserInfoParam;
   userID?: string;
   nickname?: string;
   avatarURL?: string;
   timestamp?: number;
   messageID?: string;
+  /** 接收端审核标记，由 incoming 阶段的过滤器写入 */
+  moderationFlags?: BarrageModerationFlag[];
+  /** 折叠模式下合并的相同消息条数 */
+  repeatCount?: number;
+  /** 消息扩展信息，@ 提及和回复信息通过该字段传递 */
+  extensionInfo?: Record<string, string> | string;
+  /** 自定义消息的 businessID */
+  businessID?: string;
+  /** 自定义消息的原始数据 */
+  data?: string;
+  /** 已注册编解码器的自定义消息解码后的内容 */
+  payload?: unknown;
+  /** 礼物消息的礼物，由 appendLocalTip 写入 */
+  gift?: GiftParam;
+  /** 礼物消息的礼物数量 */
+  count?: number;
+  /** 已拼好的展示文本，礼物消息使用 */
+  textContent?: string;
   [key: string]: unknown;
 }
 
@@ -23,18 +45,46 @@ export interface BarrageParam {
 export interface SendTextMessageOptions extends Record<string, unknown> {
   liveID: string;
   text: string;
+  /** @ 提及的用户，只保留文本中仍包含 `@昵称` 的用户 */
+  mentions?: BarrageMention[];
+  /** 回复的消息 */
+  replyTo?: BarrageReplyInfo;
+  extensionInfo?: Record<string, string>;
   onSuccess?: () => void;
   onError?: (error: Error | string) => void;
   [key: string]: unknown;
 }
 
+/**
+ * @ 提及的用户
+ */
+export interface BarrageMention {
+  userID: string;
+  /** 插入到文本中的昵称，文本中以 `@userName` 出现 */
+  userName: string;
+}
+
+/**
+ * 回复的原消息摘要
+ */
+export interface BarrageReplyInfo {
+  messageID: string;
+  senderID?: string;
+  senderName?: string;
+  /** 原消息文本摘要 */
+  text?: string;
+}
+
 /**
  * 发送自定义消息选项
  */
 export interface SendCustomMessageOptions extends Record<string, unknown> {
   liveID: string;
   businessID: string;
-  data: string;
+  /** 原始数据，与 payload 二选一 */
+  data?: string;
+  /** 结构化内容，由 businessID 对应的编解码器编码为 data */
+  payload?: unknown;
   onSuccess?: () => void;
   onError?: (error: Error | string) => void;
   [key: string]: unknown;
@@ -51,3 +101,239 @@ export interface AppendLocalTipOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+
+/**
+ * 弹幕保留窗口配置
+ */
+export interface BarrageRetentionOptions {
+  /** messageList 中保留的最新消息条数，默认 200 */
+  windowSize?: number;
+  /** 超出窗口的消息移入历史缓冲区，缓冲区最多保存的条数，默认 1000 */
+  historyCapacity?: number;
+}
+
+/**
+ * 弹幕防刷配置
+ */
+export interface BarrageFloodControlOptions {
+  /** 同一用户两次发送的最小间隔（毫秒），默认 2000，0 表示不限制 */
+  cooldownMs?: number;
+  /** 该时间内（毫秒）不允许重复发送相同内容，默认 30000 */
+  duplicateWindowMs?: number;
+  /** 接收端是否折叠相同内容的消息，默认 false */
+  collapseRepeated?: boolean;
+  /** 折叠时向前查找的消息条数，默认 10 */
+  collapseLookback?: number;
+}
+
+/**
+ * 加载更早弹幕选项
+ */
+export interface LoadEarlierMessagesOptions extends Record<string, unknown> {
+  liveID: string;
+  /** 本次加载条数，默认 20 */
+  count?: number;
+  onSuccess?: (messages: BarrageParam[]) => void;
+  onError?: (error: Error | string) => void;
+  [key: string]: unknown;
+}
+
+/**
+ * Native loadEarlierMessages 返回结果
+ */
+export interface LoadEarlierMessagesResult {
+  messageList: BarrageParam[] | string;
+  hasMore?: boolean;
+}
+
+/**
+ * 审核阶段
+ * - `outgoing`: 发送前，拦截或改写本端发出的文本
+ * - `incoming`: 渲染前，处理 Native 推送的 messageList
+ */
+export type BarrageModerationStage = 'outgoing' | 'incoming';
+
+/**
+ * 内置过滤器的拦截原因，自定义过滤器可使用任意字符串
+ */
+export type BarrageModerationReason =
+  | 'SENSITIVE_WORD'
+  | 'LINK'
+  | 'PHONE_NUMBER'
+  | 'LOCAL_MUTED'
+  | 'REGEX_RULE'
+  | (string & {});
+
+/**
+ * 过滤器输入
+ */
+export interface BarrageFilterContext {
+  stage: BarrageModerationStage;
+  liveID: string;
+  /** 经过前面过滤器改写后的文本 */
+  text: string;
+  /** 发送者 userID，outgoing 阶段为当前登录用户（可能为空） */
+  senderID?: string;
+  /** incoming 阶段为原始消息，outgoing 阶段为待发送的参数 */
+  message: BarrageParam;
+}
+
+/**
+ * 过滤器处理结果，返回 undefined 表示放行
+ * - `reject`: 拦截消息，outgoing 阶段不发送，incoming 阶段不渲染
+ * - `rewrite`: 改写文本后继续交给后续过滤器
+ * - `flag`: 放行并记录标记
+ */
+export type BarrageFilterResult =
+  | { action: 'reject'; reason: BarrageModerationReason; message?: string }
+  | { action: 'rewrite'; text: string; reason?: BarrageModerationReason }
+  | { action: 'flag'; reason: BarrageModerationReason; message?: string };
+
+/**
+ * 弹幕过滤器
+ */
+export interface BarrageFilter {
+  /** 过滤器名称，同名过滤器重复注册时后者替换前者 */
+  name: string;
+  /** 生效阶段，默认两个阶段都生效 */
+  stages?: BarrageModerationStage[];
+  filter(context: BarrageFilterContext): BarrageFilterResult | undefined;
+}
+
+/**
+ * 审核标记
+ */
+export interface BarrageModerationFlag {
+  filter: string;
+  reason: BarrageModerationReason;
+  message?: string;
+}
+
+/**
+ * 一次审核的结果
+ */
+export interface BarrageModerationResult {
+  stage: BarrageModerationStage;
+  liveID: string;
+  /** 是否放行 */
+  allowed: boolean;
+  /** 改写后的文本 */
+  text: string;
+  /** 拦截该消息的过滤器 */
+  rejectedBy?: string;
+  reason?: BarrageModerationReason;
+  flags: BarrageModerationFlag[];
+  message: BarrageParam;
+}
+
+/**
+ * 表情图片资源，可以是 require 的本地图片或网络图片
+ */
+export type BarrageEmojiSource = number | { uri: string };
+
+/**
+ * 单个表情
+ */
+export interface BarrageEmoji {
+  /** 短码，文本中以 `[key]` 出现，同一表情包内唯一 */
+  key: string;
+  /** 表情图片，没有图片时使用 text 渲染 */
+  source?: BarrageEmojiSource;
+  /** 无图片时渲染的字符，例如 Unicode emoji */
+  text?: string;
+  /** 显示名称 */
+  name?: string;
+}
+
+/**
+ * 表情包
+ * - `emoji`: 小表情，以短码插入文本，和文字一起渲染
+ * - `sticker`: 大表情，单独作为一条自定义消息发送
+ */
+export interface BarrageEmojiPack {
+  packID: string;
+  type: 'emoji' | 'sticker';
+  name?: string;
+  /** 面板中表情包标签的图标 */
+  icon?: BarrageEmojiSource;
+  emojis: BarrageEmoji[];
+}
+
+/**
+ * 弹幕文本解析后的片段
+ */
+export type BarrageToken =
+  | { type: 'text'; text: string }
+  | { type: 'emoji'; key: string; emoji: BarrageEmoji };
+
+/**
+ * 大表情消息内容
+ */
+export interface BarrageSticker {
+  packID: string;
+  key: string;
+  emoji: BarrageEmoji;
+}
+
+/**
+ * 自定义消息编解码器
+ */
+export interface BarrageMessageCodec<T = unknown> {
+  /** 自定义消息的 businessID，同一 businessID 只能注册一个编解码器 */
+  businessID: string;
+  /** 将结构化内容编码为 sendCustomMessage 的 data */
+  encode(payload: T): string;
+  /** 解码收到的 data，无法识别时返回 undefined，消息按未注册的自定义消息处理 */
+  decode(data: string, message: BarrageParam): T | undefined;
+  /** BarrageList 中的渲染方式，不提供时按文本消息渲染 */
+  render?(payload: T, message: BarrageParam): ReactNode;
+}
+
+/**
+ * 置顶消息
+ */
+export interface BarragePinnedMessage {
+  messageID: string;
+  text: string;
+  senderID?: string;
+  senderName?: string;
+  /** 执行置顶的房主或管理员 */
+  pinnedBy: string;
+  pinnedAt: number;
+}
+
+/**
+ * 置顶消息选项
+ */
+export interface PinMessageOptions extends Record<string, unknown> {
+  liveID: string;
+  message: BarrageParam;
+  onSuccess?: () => void;
+  onError?: (error: Error | string) => void;
+}
+
+/**
+ * 取消置顶选项
+ */
+export interface UnpinMessageOptions extends Record<string, unknown> {
+  liveID: string;
+  onSuccess?: () => void;
+  onError?: (error: Error | string) => void;
+}
+
+/**
+ * 收到弹幕消息事件数据
+ */
+export interface MessageReceivedEvent {
+  liveID: string;
+  message: BarrageParam;
+}
+
+/**
+ * 弹幕事件表：事件名 -> 事件数据
+ */
+export interface BarrageEventMap {
+  onMessageReceived: MessageReceivedEvent;
+}
+
+export type BarrageEventName = keyof BarrageEventMap;
@@ -8,47 +8,23 @@
  * Application Scenarios: Beauty live streaming, image enhancement, beauty adjustment, live beautification, and other scenarios requiring beauty functions.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   SetSmoothLevelOptions,
   SetWhitenessLevelOptions,
   SetRuddyLevelOptions,
-  RealUiValues,
   BeautyType,
+  BeautyEventMap,
+  BeautyEventName,
 } from './types';
 import { baseBeautyStore } from './store';
-
-/**
- * Beauty listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Beauty state event name constants
- */
-const BEAUTY_EVENTS = [
-  'smoothLevel',
-  'whitenessLevel',
-  'ruddyLevel',
-];
-
-/**
- * Safe JSON parse
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { BaseBeautyState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * BaseBeautyState Hook
@@ -86,8 +62,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useBaseBeautyState(liveID: string) {
-  // Get initial state from global store
-  const initialState = baseBeautyStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = baseBeautyStore.useStore(liveID, (current) => current);
 
   /**
    * Smoothing level
@@ -95,7 +71,7 @@ export function useBaseBeautyState(liveID: string) {
    * @description Value range [0,9]: 0 means off, 9 means most obvious effect
    * @default Get initial value from global store
    */
-  const [smoothLevel, setSmoothLevelState] = useState<number>(initialState.smoothLevel);
+  const smoothLevel = state.smoothLevel;
 
   /**
    * Whitening level
@@ -103,7 +79,7 @@ export function useBaseBeautyState(liveID: string) {
    * @description Value range [0,9]: 0 means off, 9 means most obvious effect
    * @default Get initial value from global store
    */
-  const [whitenessLevel, setWhitenessLevelState] = useState<number>(initialState.whitenessLevel);
+  const whitenessLevel = state.whitenessLevel;
 
   /**
    * Ruddiness level
@@ -111,129 +87,9 @@ export function useBaseBeautyState(liveID: string) {
    * @description Value range [0,9]: 0 means off, 9 means most obvious effect
    * @default Get initial value from global store
    */
-  const [ruddyLevel, setRuddyLevelState] = useState<number>(initialState.ruddyLevel);
+  const ruddyLevel = state.ruddyLevel;
 
-  const [realUiValues, setRealUiValues] = useState<RealUiValues>(initialState.realUiValues);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = baseBeautyStore.subscribe(liveID, (state) => {
-      setSmoothLevelState(state.smoothLevel);
-      setWhitenessLevelState(state.whitenessLevel);
-      setRuddyLevelState(state.ruddyLevel);
-      // Sync realUiValues from global store
-      setRealUiValues(state.realUiValues);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
-
-  /**
-   * Handle beauty state change events
-   * Update global store, store will automatically notify all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[BaseBeautyState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data's keys match any values in BEAUTY_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          smoothLevel?: number;
-          whitenessLevel?: number;
-          ruddyLevel?: number;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (BEAUTY_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'smoothLevel') {
-              // smoothLevel is number type
-              const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-              updates.smoothLevel = parsedData;
-            } else if (key === 'whitenessLevel') {
-              // whitenessLevel is number type
-              const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-              updates.whitenessLevel = parsedData;
-            } else if (key === 'ruddyLevel') {
-              // ruddyLevel is number type
-              const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-              updates.ruddyLevel = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          baseBeautyStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[BaseBeautyState] ${eventName} event parse error:`, error);
-      console.log(`[BaseBeautyState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'BaseBeautyStore',
-        name: eventName,
-        roomID: null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save listener cleanup function references
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    BEAUTY_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register Native and JS layer event listeners
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[BaseBeautyState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      BEAUTY_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent]);
+  const realUiValues = state.realUiValues;
 
   /**
    * Set smoothing level
@@ -251,14 +107,14 @@ export function useBaseBeautyState(liveID: string) {
   const setSmoothLevel = useCallback(async (params: SetSmoothLevelOptions): Promise<void> => {
     // Validate required parameters
     if (params.smoothLevel === undefined || params.smoothLevel === null) {
-      const error = new Error('Missing required parameter: smoothLevel');
+      const error = new AtomicXError('setSmoothLevel', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: smoothLevel');
       params.onError?.(error);
       return;
     }
 
     // Validate value range
     if (params.smoothLevel < 0 || params.smoothLevel > 9) {
-      const error = new Error('smoothLevel must be between 0 and 9');
+      const error = new AtomicXError('setSmoothLevel', AtomicXErrorCode.INVALID_PARAMETER, 'smoothLevel must be between 0 and 9');
       params.onError?.(error);
       return;
     }
@@ -272,11 +128,11 @@ export function useBaseBeautyState(liveID: string) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Set smooth level failed');
+        const error = AtomicXError.fromResult('setSmoothLevel', result, 'Set smooth level failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setSmoothLevel', error);
       onError?.(err);
     }
   }, []);
@@ -297,14 +153,14 @@ export function useBaseBeautyState(liveID: string) {
   const setWhitenessLevel = useCallback(async (params: SetWhitenessLevelOptions): Promise<void> => {
     // Validate required parameters
     if (params.whitenessLevel === undefined) {
-      const error = new Error('Missing required parameter: whitenessLevel');
+      const error = new AtomicXError('setWhitenessLevel', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: whitenessLevel');
       params.onError?.(error);
       return;
     }
 
     // Validate value range
     if (params.whitenessLevel < 0 || params.whitenessLevel > 9) {
-      const error = new Error('whitenessLevel must be between 0 and 9');
+      const error = new AtomicXError('setWhitenessLevel', AtomicXErrorCode.INVALID_PARAMETER, 'whitenessLevel must be between 0 and 9');
       params.onError?.(error);
       return;
     }
@@ -318,11 +174,11 @@ export function useBaseBeautyState(liveID: string) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Set whiteness level failed');
+        const error = AtomicXError.fromResult('setWhitenessLevel', result, 'Set whiteness level failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setWhitenessLevel', error);
       onError?.(err);
     }
   }, []);
@@ -343,14 +199,14 @@ export function useBaseBeautyState(liveID: string) {
   const setRuddyLevel = useCallback(async (params: SetRuddyLevelOptions): Promise<void> => {
     // Validate required parameters
     if (params.ruddyLevel === undefined) {
-      const error = new Error('Missing required parameter: ruddyLevel');
+      const error = new AtomicXError('setRuddyLevel', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: ruddyLevel');
       params.onError?.(error);
       return;
     }
 
     // Validate value range
     if (params.ruddyLevel < 0 || params.ruddyLevel > 9) {
-      const error = new Error('ruddyLevel must be between 0 and 9');
+      const error = new AtomicXError('setRuddyLevel', AtomicXErrorCode.INVALID_PARAMETER, 'ruddyLevel must be between 0 and 9');
       params.onError?.(error);
       return;
     }
@@ -364,18 +220,18 @@ export function useBaseBeautyState(liveID: string) {
         // Only trigger callback on success, state update handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Set ruddy level failed');
+        const error = AtomicXError.fromResult('setRuddyLevel', result, 'Set ruddy level failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setRuddyLevel', error);
       onError?.(err);
     }
   }, []);
 
   /**
    * Set real UI value
-   * Update both component local state and global store to ensure persistence
+   * Stored in the global store so the value survives component remounts
    * 
    * @param type - Beauty type
    * @param value - Value
@@ -385,15 +241,12 @@ export function useBaseBeautyState(liveID: string) {
    * ```
    */
   const setRealUiValue = useCallback((type: BeautyType, value: number): void => {
-    setRealUiValues((prev) => {
-      const newValues = {
-        ...prev,
+    baseBeautyStore.setState(liveID, (current) => ({
+      realUiValues: {
+        ...current.realUiValues,
         [type]: value,
-      };
-      // Sync update to global store to ensure persistence
-      baseBeautyStore.setState(liveID, { realUiValues: newValues });
-      return newValues;
-    });
+      },
+    }));
   }, [liveID]);
 
   /**
@@ -412,7 +265,7 @@ export function useBaseBeautyState(liveID: string) {
 
   /**
    * Reset real UI values
-   * Reset both component local state and global store
+   * Reset the values kept in the global store
    * 
    * @example
    * ```tsx
@@ -425,15 +278,16 @@ export function useBaseBeautyState(liveID: string) {
       smooth: 0,
       ruddy: 0,
     };
-    setRealUiValues(resetValues);
-    // Sync reset to global store
     baseBeautyStore.setState(liveID, { realUiValues: resetValues });
   }, [liveID]);
 
+  // 本 hook 注册的监听器，removeBeautyListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add beauty event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onBeautyLevelChanged'(beauty level changed)
    * @param listener - Event callback function
    * @param listenerID - Listener ID (optional)
    * @example
@@ -443,7 +297,7 @@ export function useBaseBeautyState(liveID: string) {
    * });
    * ```
    */
-  const addBeautyListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addBeautyListener = useCallback(<K extends BeautyEventName>(eventName: K, listener: StateEventListener<BeautyEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BaseBeautyStore',
@@ -451,20 +305,20 @@ export function useBaseBeautyState(liveID: string) {
       roomID: null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, []);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [listenerGroup]);
 
   /**
    * Remove beauty event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onBeautyLevelChanged'(beauty level changed)
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
    * removeBeautyListener('onBeautyLevelChanged');
    * ```
    */
-  const removeBeautyListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeBeautyListener = useCallback((eventName: BeautyEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BaseBeautyStore',
@@ -472,8 +326,15 @@ export function useBaseBeautyState(liveID: string) {
       roomID: null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, []);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    setSmoothLevelAsync: toAsyncAction(setSmoothLevel, 'setSmoothLevel'),
+    setWhitenessLevelAsync: toAsyncAction(setWhitenessLevel, 'setWhitenessLevel'),
+    setRuddyLevelAsync: toAsyncAction(setRuddyLevel, 'setRuddyLevel'),
+  }), [setSmoothLevel, setWhitenessLevel, setRuddyLevel]);
 
   return {
     smoothLevel,         // Smoothing level state
@@ -488,8 +349,22 @@ export function useBaseBeautyState(liveID: string) {
     resetRealUiValues,   // Reset real UI values method
     addBeautyListener,   // Add beauty event listener
     removeBeautyListener, // Remove beauty event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
+/**
+ * Subscribe to a single slice of the beauty state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const smoothLevel = useBaseBeautySelector(liveID, (state) => state.smoothLevel);
+ * ```
+ */
+export function useBaseBeautySelector<T>(liveID: string, selector: (state: BaseBeautyState) => T, equalityFn?: EqualityFn<T>): T {
+  return baseBeautyStore.useStore(liveID, selector, equalityFn);
+}
+
 export default useBaseBeautyState;
 
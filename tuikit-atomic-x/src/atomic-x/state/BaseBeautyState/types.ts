@@ -46,3 +46,20 @@ export interface RealUiValues {
  */
 export type BeautyType = 'whiteness' | 'smooth' | 'ruddy';
 
+/**
+ * 美颜等级变化事件数据，只携带发生变化的等级
+ */
+export interface BeautyLevelChangedEvent {
+  smoothLevel?: number;
+  whitenessLevel?: number;
+  ruddyLevel?: number;
+}
+
+/**
+ * 美颜事件表：事件名 -> 事件数据
+ */
+export interface BeautyEventMap {
+  onBeautyLevelChanged: BeautyLevelChangedEvent;
+}
+
+export type BeautyEventName = keyof BeautyEventMap;
@@ -8,85 +8,33 @@
  * Application Scenarios: Streamer battle, battle live streaming, score statistics, interactive games, and other entertainment interaction scenarios.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   BattleInfoParam,
-  SeatUserInfoParam,
   RequestBattleOptions,
   CancelBattleRequestOptions,
   AcceptBattleOptions,
   RejectBattleOptions,
   ExitBattleOptions,
+  RematchBattleOptions,
+  BattleEventMap,
+  BattleEventName,
 } from './types';
 import { battleStore } from './store';
-
-/**
- * Battle listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Battle state event name constants
- */
-const BATTLE_EVENTS = [
-  'currentBattleInfo',
-  'battleUsers',
-  'battleScore',
-];
-
-/**
- * Safe JSON parse
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
-
-/**
- * Parse Map type (convert from JSON object or array to Map)
- */
-function parseMapFromJson(json: string): Map<string, number> | null {
-  try {
-    if (!json || typeof json !== 'string') {
-      return null;
-    }
-    const parsed = JSON.parse(json);
-    if (!parsed || typeof parsed !== 'object') {
-      return null;
-    }
-    // If array format [["key", value], ...]
-    if (Array.isArray(parsed)) {
-      const map = new Map<string, number>();
-      parsed.forEach(([key, value]: [string, number]) => {
-        if (typeof key === 'string' && typeof value === 'number') {
-          map.set(key, value);
-        }
-      });
-      return map;
-    }
-    // If object format { "key": value, ... }
-    const map = new Map<string, number>();
-    Object.entries(parsed).forEach(([key, value]) => {
-      if (typeof value === 'number') {
-        map.set(key, value);
-      }
-    });
-    return map;
-  } catch (error) {
-    console.error('parseMapFromJson error:', error);
-    return null;
-  }
-}
+import {
+  answerBattleRequest,
+  cancelBattleRequestState,
+  getLastBattleRequest,
+  recordBattleRequest,
+  retainBattleLifecycle,
+} from './lifecycle';
+import type { BattleState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * BattleState Hook
@@ -125,8 +73,16 @@ function parseMapFromJson(json: string): Map<string, number> | null {
  * ```
  */
 export function useBattleState(liveID: string) {
-  // Get initial state from global store
-  const initialState = battleStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = battleStore.useStore(liveID, (current) => current);
+
+  // Derive battleStatus / battleResult from battle events while any hook is mounted
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainBattleLifecycle(liveID);
+  }, [liveID]);
 
   /**
    * Current battle information
@@ -134,7 +90,7 @@ export function useBattleState(liveID: string) {
    * @description Stores detailed information of current battle, including battle ID, state, duration, etc. null means no ongoing battle
    * @default Get initial value from global store
    */
-  const [currentBattleInfo, setCurrentBattleInfo] = useState<BattleInfoParam | null>(initialState.currentBattleInfo);
+  const currentBattleInfo = state.currentBattleInfo;
 
   /**
    * Battle user list
@@ -142,7 +98,7 @@ export function useBattleState(liveID: string) {
    * @description List of all users participating in current battle, including user basic information and battle state
    * @default Get initial value from global store
    */
-  const [battleUsers, setBattleUsers] = useState<SeatUserInfoParam[]>(initialState.battleUsers);
+  const battleUsers = state.battleUsers;
 
   /**
    * Battle score mapping
@@ -150,154 +106,35 @@ export function useBattleState(liveID: string) {
    * @description Stores scores of users in battle, key is user ID, value is score, null means no score data
    * @default Get initial value from global store
    */
-  const [battleScore, setBattleScore] = useState<Map<string, number> | null>(initialState.battleScore);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = battleStore.subscribe(liveID, (state) => {
-      setCurrentBattleInfo(state.currentBattleInfo);
-      setBattleUsers(state.battleUsers);
-      setBattleScore(state.battleScore);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
+  const battleScore = state.battleScore;
 
   /**
-   * Handle battle state change events
-   * Update global store, store will automatically notify all subscribers
+   * Battle lifecycle status
+   * @type {BattleStatus}
+   * @description 'idle' | 'inviting' (request sent) | 'waiting' (request received, or accepted and waiting for start) | 'inBattle' | 'punishment' (post-battle period)
    */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[BattleState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data's keys match any values in BATTLE_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          currentBattleInfo?: BattleInfoParam | null;
-          battleUsers?: SeatUserInfoParam[];
-          battleScore?: Map<string, number> | null;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (BATTLE_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'currentBattleInfo') {
-              // currentBattleInfo can be object or null
-              let parsedData: BattleInfoParam | null;
-              if (value === null || value === undefined) {
-                parsedData = null;
-              } else if (typeof value === 'object') {
-                parsedData = value as BattleInfoParam;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<BattleInfoParam | null>(value, null);
-              } else {
-                parsedData = safeJsonParse<BattleInfoParam | null>(JSON.stringify(value), null);
-              }
-              updates.currentBattleInfo = parsedData;
-            } else if (key === 'battleUsers') {
-              // battleUsers is array type
-              let parsedData: SeatUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as SeatUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<SeatUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<SeatUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.battleUsers = parsedData;
-            } else if (key === 'battleScore') {
-              // battleScore needs special parsing to Map
-              let parsedData: Map<string, number> | null;
-              if (value === null || value === undefined) {
-                parsedData = null;
-              } else if (value instanceof Map) {
-                parsedData = value;
-              } else if (typeof value === 'string') {
-                parsedData = parseMapFromJson(value);
-              } else {
-                parsedData = parseMapFromJson(JSON.stringify(value));
-              }
-              updates.battleScore = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          battleStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[BattleState] ${eventName} event parse error:`, error);
-      console.log(`[BattleState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
+  const battleStatus = state.battleStatus;
 
   /**
-   * Bind event listeners
+   * Pending battle request
+   * @type {BattleRequestInfo | null}
+   * @description Outgoing or incoming request that has not been settled yet, `expiresAt` is the local timeout deadline of an outgoing request
    */
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
+  const battleRequest = state.battleRequest;
 
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'BattleStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save listener cleanup function references
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    BATTLE_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register Native and JS layer event listeners
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[BattleState] Added listener for: ${eventName}, eventName=${key}`);
-    });
+  /**
+   * Result of the last battle
+   * @type {BattleResult | null}
+   * @description Computed from battleScore when the battle ends, cleared when the next battle starts
+   */
+  const battleResult = state.battleResult;
 
-    return () => {
-      BATTLE_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  /**
+   * Top supporters of each host during the current battle
+   * @type {Record<string, BattleSupporter[]>}
+   * @description Key is the host user ID, value is the top 3 gift senders for that host ranked by total coins; reset when a battle starts
+   */
+  const battleSupporters = state.battleSupporters;
 
   /**
    * Request battle
@@ -318,30 +155,41 @@ export function useBattleState(liveID: string) {
    * });
    * ```
    */
-  const requestBattle = useCallback(async (params: RequestBattleOptions): Promise<void> => {
+  const requestBattle = useCallback(async (params: RequestBattleOptions): Promise<BattleInfoParam | undefined> => {
     // Validate required parameters
     if (!params.liveID || !params.userIDList || params.userIDList.length === 0) {
-      const error = new Error('Missing required parameters: liveID or userIDList');
+      const error = new AtomicXError('requestBattle', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or userIDList');
       params.onError?.(error);
-      return;
+      return undefined;
     }
 
-    const { onSuccess, onError, ...battleParams } = params;
+    const { onSuccess, onError, onTimeout, ...battleParams } = params;
 
     try {
       const result = await callNativeAPI<BattleInfoParam>('requestBattle', battleParams);
 
       if (result.success) {
-        // Trigger callback on success, state update handled by event listener
+        // Track the request locally so the timeout is surfaced even without a native event
+        if (result.data?.battleID) {
+          recordBattleRequest(params.liveID, {
+            battleID: result.data.battleID,
+            userIDList: params.userIDList,
+            timeout: params.timeout,
+            config: params.config,
+            onTimeout,
+          });
+        }
         onSuccess?.(result.data, result.data);
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Request battle failed');
+        const error = AtomicXError.fromResult('requestBattle', result, 'Request battle failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('requestBattle', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -362,7 +210,7 @@ export function useBattleState(liveID: string) {
   const cancelBattleRequest = useCallback(async (params: CancelBattleRequestOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.battleID || !params.userIDList || params.userIDList.length === 0) {
-      const error = new Error('Missing required parameters: liveID, battleID or userIDList');
+      const error = new AtomicXError('cancelBattleRequest', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID, battleID or userIDList');
       params.onError?.(error);
       return;
     }
@@ -373,13 +221,14 @@ export function useBattleState(liveID: string) {
       const result = await callNativeAPI<void>('cancelBattleRequest', cancelParams);
 
       if (result.success) {
+        cancelBattleRequestState(params.liveID, params.battleID);
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Cancel battle request failed');
+        const error = AtomicXError.fromResult('cancelBattleRequest', result, 'Cancel battle request failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('cancelBattleRequest', error);
       onError?.(err);
     }
   }, []);
@@ -401,7 +250,7 @@ export function useBattleState(liveID: string) {
   const acceptBattle = useCallback(async (params: AcceptBattleOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.battleID) {
-      const error = new Error('Missing required parameters: liveID or battleID');
+      const error = new AtomicXError('acceptBattle', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or battleID');
       params.onError?.(error);
       return;
     }
@@ -412,13 +261,14 @@ export function useBattleState(liveID: string) {
       const result = await callNativeAPI<void>('acceptBattle', acceptParams);
 
       if (result.success) {
+        answerBattleRequest(params.liveID, params.battleID, true);
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Accept battle failed');
+        const error = AtomicXError.fromResult('acceptBattle', result, 'Accept battle failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('acceptBattle', error);
       onError?.(err);
     }
   }, []);
@@ -440,7 +290,7 @@ export function useBattleState(liveID: string) {
   const rejectBattle = useCallback(async (params: RejectBattleOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.battleID) {
-      const error = new Error('Missing required parameters: liveID or battleID');
+      const error = new AtomicXError('rejectBattle', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or battleID');
       params.onError?.(error);
       return;
     }
@@ -451,13 +301,14 @@ export function useBattleState(liveID: string) {
       const result = await callNativeAPI<void>('rejectBattle', rejectParams);
 
       if (result.success) {
+        answerBattleRequest(params.liveID, params.battleID, false);
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Reject battle failed');
+        const error = AtomicXError.fromResult('rejectBattle', result, 'Reject battle failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('rejectBattle', error);
       onError?.(err);
     }
   }, []);
@@ -479,7 +330,7 @@ export function useBattleState(liveID: string) {
   const exitBattle = useCallback(async (params: ExitBattleOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.battleID) {
-      const error = new Error('Missing required parameters: liveID or battleID');
+      const error = new AtomicXError('exitBattle', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or battleID');
       params.onError?.(error);
       return;
     }
@@ -492,15 +343,62 @@ export function useBattleState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Exit battle failed');
+        const error = AtomicXError.fromResult('exitBattle', result, 'Exit battle failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('exitBattle', error);
       onError?.(err);
     }
   }, []);
 
+  /**
+   * Request a rematch with the same opponents, timeout and config as the last battle request sent from this live
+   *
+   * @param params - Rematch parameters
+   * @example
+   * ```tsx
+   * if (battleStatus === 'punishment') {
+   *   await rematch({
+   *     liveID: 'your_live_id',
+   *     onSuccess: (battleInfo) => console.log('Rematch requested:', battleInfo),
+   *     onError: (error) => console.error('Rematch failed:', error)
+   *   });
+   * }
+   * ```
+   */
+  const rematch = useCallback(async (params: RematchBattleOptions): Promise<BattleInfoParam | undefined> => {
+    if (!params.liveID) {
+      const error = new AtomicXError('rematch', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID');
+      params.onError?.(error);
+      return undefined;
+    }
+
+    const status = battleStore.getState(params.liveID).battleStatus;
+    if (status !== 'idle' && status !== 'punishment') {
+      const error = new AtomicXError('rematch', AtomicXErrorCode.REPEAT_OPERATION, `Cannot rematch while battle status is ${status}`);
+      params.onError?.(error);
+      return undefined;
+    }
+
+    const lastRequest = getLastBattleRequest(params.liveID);
+    if (!lastRequest || lastRequest.userIDList.length === 0) {
+      const error = new AtomicXError('rematch', AtomicXErrorCode.INVALID_PARAMETER, 'No previous battle request to rematch');
+      params.onError?.(error);
+      return undefined;
+    }
+
+    return requestBattle({
+      ...params,
+      userIDList: lastRequest.userIDList,
+      timeout: lastRequest.timeout,
+      config: lastRequest.config,
+    });
+  }, [requestBattle]);
+
+  // 本 hook 注册的监听器，removeBattleListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add battle event listener
    * 
@@ -509,12 +407,12 @@ export function useBattleState(liveID: string) {
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addBattleListener('onBattleStarted', (params) => {
-   *   console.log('Battle started:', params);
+   * addBattleListener('onBattleStarted', ({ battleInfo, inviter, invitees }) => {
+   *   console.log('Battle started:', battleInfo.battleID, inviter.userID, invitees.length);
    * });
    * ```
    */
-  const addBattleListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addBattleListener = useCallback(<K extends BattleEventName>(eventName: K, listener: StateEventListener<BattleEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BattleStore',
@@ -522,8 +420,8 @@ export function useBattleState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove battle event listener
@@ -535,7 +433,7 @@ export function useBattleState(liveID: string) {
    * removeBattleListener('onBattleStarted');
    * ```
    */
-  const removeBattleListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeBattleListener = useCallback((eventName: BattleEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'BattleStore',
@@ -543,22 +441,69 @@ export function useBattleState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    requestBattleAsync: toAsyncAction(requestBattle, 'requestBattle'),
+    cancelBattleRequestAsync: toAsyncAction(cancelBattleRequest, 'cancelBattleRequest'),
+    acceptBattleAsync: toAsyncAction(acceptBattle, 'acceptBattle'),
+    rejectBattleAsync: toAsyncAction(rejectBattle, 'rejectBattle'),
+    exitBattleAsync: toAsyncAction(exitBattle, 'exitBattle'),
+    rematchAsync: toAsyncAction(rematch, 'rematch'),
+  }), [requestBattle, cancelBattleRequest, acceptBattle, rejectBattle, exitBattle, rematch]);
 
   return {
     currentBattleInfo,      // Current battle information
     battleUsers,            // Battle user list
     battleScore,            // Battle score mapping
+    battleStatus,           // Battle lifecycle status
+    battleRequest,          // Pending battle request
+    battleResult,           // Result of the last battle
+    battleSupporters,       // Top 3 supporters per host
     requestBattle,          // Request battle
     cancelBattleRequest,    // Cancel battle request
     acceptBattle,           // Accept battle
     rejectBattle,           // Reject battle
     exitBattle,             // Exit battle
+    rematch,                // Request a rematch with the last opponents and config
     addBattleListener,      // Add battle event listener
     removeBattleListener,   // Remove battle event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
+/**
+ * Subscribe to a single slice of the battle state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const battleID = useBattleSelector(liveID, (state) => state.currentBattleInfo?.battleID);
+ * ```
+ */
+export function useBattleSelector<T>(liveID: string, selector: (state: BattleState) => T, equalityFn?: EqualityFn<T>): T {
+  return battleStore.useStore(liveID, selector, equalityFn);
+}
+
+export {
+  setBattleLifecycleOptions,
+  getBattleLifecycleOptions,
+  transitionBattleStatus,
+  computeBattleResult,
+  getLastBattleRequest,
+  retainBattleLifecycle,
+  clearBattleLifecycle,
+} from './lifecycle';
+export type { LastBattleRequest } from './lifecycle';
+export {
+  BATTLE_SUPPORTER_LIMIT,
+  getBattleSupporters,
+  getTopBattleSupporters,
+  recordBattleSupport,
+  clearBattleSupporters,
+} from './supporters';
+
 export default useBattleState;
 
@@ -0,0 +1,490 @@
+/**
+ * PK 流程状态机
+ *
+ * 根据 PK 事件（邀请收到 / 接受 / 拒绝 / 取消 / 超时、开始、结束）推导 battleStatus，
+ * 本地按 timeout 为发出的邀请计时，结束时根据 battleScore 计算胜负并进入惩罚时间。
+ * 最近一次发出邀请的 userIDList、timeout 和 config 会被记录，供再来一局使用。
+ * PK 期间收到的礼物同时计入支持者排行（见 supporters.ts）。
+ */
+
+import { addListener } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import { createDecodedListener } from '../../utils';
+import type { ReceiveGiftEvent } from '../GiftState/types';
+import { battleStore } from './store';
+import type { BattleState } from './store';
+import { clearBattleSupporters, getTopBattleSupporters, recordBattleSupport } from './supporters';
+import type {
+  BattleConfigParam,
+  BattleEndedEvent,
+  BattleEventMap,
+  BattleEventName,
+  BattleLifecycleEvent,
+  BattleLifecycleOptions,
+  BattleRequestEvent,
+  BattleResult,
+  BattleStatus,
+  BattleSupporter,
+  SeatUserInfoParam,
+} from './types';
+
+const LISTENER_ID = 'AtomicXBattleLifecycle';
+
+/**
+ * 最近一次发出的 PK 邀请
+ */
+export interface LastBattleRequest {
+  userIDList: string[];
+  timeout?: number;
+  config?: BattleConfigParam;
+}
+
+/**
+ * 发出邀请后需要记录的信息
+ */
+interface OutgoingBattleRequest extends LastBattleRequest {
+  battleID: string;
+  onTimeout?: (battleID: string) => void;
+}
+
+/**
+ * 各阶段允许的事件及目标阶段，表中没有的事件不改变阶段
+ */
+const BATTLE_TRANSITIONS: Record<BattleStatus, Partial<Record<BattleLifecycleEvent, BattleStatus>>> = {
+  idle: {
+    requestSent: 'inviting',
+    requestReceived: 'waiting',
+    started: 'inBattle',
+    ended: 'punishment',
+  },
+  inviting: {
+    requestAccepted: 'waiting',
+    requestRejected: 'idle',
+    requestCancelled: 'idle',
+    requestTimeout: 'idle',
+    started: 'inBattle',
+  },
+  waiting: {
+    requestRejected: 'idle',
+    requestCancelled: 'idle',
+    requestTimeout: 'idle',
+    started: 'inBattle',
+  },
+  inBattle: {
+    ended: 'punishment',
+  },
+  punishment: {
+    requestSent: 'inviting',
+    requestReceived: 'waiting',
+    started: 'inBattle',
+    punishmentEnded: 'idle',
+  },
+};
+
+const lifecycleOptions: Required<BattleLifecycleOptions> = {
+  punishmentDuration: 30,
+};
+
+// liveID -> 最近一次发出的邀请
+const lastRequests = new Map<string, LastBattleRequest>();
+// liveID -> 发出邀请的超时回调
+const timeoutCallbacks = new Map<string, { battleID: string; onTimeout: (battleID: string) => void }>();
+// liveID -> 邀请本地超时定时器
+const requestTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// liveID -> 惩罚时间结束定时器
+const punishmentTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// liveID -> 最近一次非空的得分和参与者，Native 可能先清空得分再通知结束
+const scoreSnapshots = new Map<string, { scores: Map<string, number>; users: SeatUserInfoParam[] }>();
+// liveID -> 引用计数与 Native 订阅
+const lifecycleRetains = new Map<string, { count: number; release: () => void }>();
+
+/**
+ * 配置 PK 流程参数
+ *
+ * @example
+ * ```ts
+ * setBattleLifecycleOptions({ punishmentDuration: 60 });
+ * ```
+ */
+export function setBattleLifecycleOptions(options: BattleLifecycleOptions): void {
+  if (options.punishmentDuration !== undefined) {
+    lifecycleOptions.punishmentDuration = Math.max(0, options.punishmentDuration);
+  }
+}
+
+/**
+ * 获取当前 PK 流程配置
+ */
+export function getBattleLifecycleOptions(): Required<BattleLifecycleOptions> {
+  return { ...lifecycleOptions };
+}
+
+/**
+ * 计算事件发生后的 PK 阶段，事件在当前阶段无效时返回原阶段
+ */
+export function transitionBattleStatus(status: BattleStatus, event: BattleLifecycleEvent): BattleStatus {
+  return BATTLE_TRANSITIONS[status][event] ?? status;
+}
+
+/**
+ * 根据得分计算 PK 结果：得分最高者获胜，所有参与者得分相同时为平局
+ */
+export function computeBattleResult(
+  battleID: string,
+  scores: Map<string, number> | null,
+  users: SeatUserInfoParam[],
+  supporters: Record<string, BattleSupporter[]> = {},
+  now = Date.now(),
+): BattleResult {
+  const scoreMap = new Map<string, number>();
+  users.forEach((user) => scoreMap.set(user.userID, scores?.get(user.userID) ?? 0));
+  scores?.forEach((score, userID) => scoreMap.set(userID, score));
+
+  const values = Array.from(scoreMap.values());
+  const topScore = values.length > 0 ? Math.max(...values) : 0;
+  const isDraw = values.length < 2 || values.every((score) => score === topScore);
+  return {
+    battleID,
+    scores: scoreMap,
+    users,
+    winnerUserIDs: isDraw
+      ? []
+      : Array.from(scoreMap.entries()).filter(([, score]) => score === topScore).map(([userID]) => userID),
+    isDraw,
+    supporters,
+    endedAt: now,
+  };
+}
+
+/**
+ * 获取直播间最近一次发出的 PK 邀请
+ */
+export function getLastBattleRequest(liveID: string): LastBattleRequest | undefined {
+  return lastRequests.get(liveID);
+}
+
+function clearRequestTimer(liveID: string): void {
+  const timer = requestTimers.get(liveID);
+  if (timer) {
+    clearTimeout(timer);
+    requestTimers.delete(liveID);
+  }
+}
+
+function clearPunishmentTimer(liveID: string): void {
+  const timer = punishmentTimers.get(liveID);
+  if (timer) {
+    clearTimeout(timer);
+    punishmentTimers.delete(liveID);
+  }
+}
+
+function transition(liveID: string, event: BattleLifecycleEvent): BattleStatus {
+  const current = battleStore.getState(liveID).battleStatus;
+  const next = transitionBattleStatus(current, event);
+  if (next !== current) {
+    battleStore.setState(liveID, { battleStatus: next });
+  }
+  return next;
+}
+
+/**
+ * 结束进行中的邀请并切换阶段
+ */
+function settleBattleRequest(liveID: string, event: BattleLifecycleEvent): void {
+  clearRequestTimer(liveID);
+  timeoutCallbacks.delete(liveID);
+  battleStore.setState(liveID, { battleRequest: null });
+  transition(liveID, event);
+}
+
+/**
+ * 记录本直播间发出的 PK 邀请，进入 inviting 并按 timeout 开始计时
+ */
+export function recordBattleRequest(liveID: string, request: OutgoingBattleRequest, now = Date.now()): void {
+  const { battleID, userIDList, timeout, config, onTimeout } = request;
+  if (!liveID || !battleID) {
+    return;
+  }
+  lastRequests.set(liveID, { userIDList: [...userIDList], timeout, config });
+  clearRequestTimer(liveID);
+  clearPunishmentTimer(liveID);
+  if (onTimeout) {
+    timeoutCallbacks.set(liveID, { battleID, onTimeout });
+  } else {
+    timeoutCallbacks.delete(liveID);
+  }
+
+  battleStore.setState(liveID, {
+    battleRequest: {
+      battleID,
+      direction: 'outgoing',
+      userIDList: [...userIDList],
+      accepted: false,
+      expiresAt: timeout ? now + timeout * 1000 : 0,
+    },
+  });
+  transition(liveID, 'requestSent');
+
+  if (timeout) {
+    // Native 未通知超时时由本地兜底
+    requestTimers.set(liveID, setTimeout(() => {
+      requestTimers.delete(liveID);
+      handleBattleRequestTimeout(liveID, battleID);
+    }, timeout * 1000));
+  }
+}
+
+/**
+ * 邀请超时：发出的邀请无人接受或收到的邀请未处理时回到空闲
+ */
+export function handleBattleRequestTimeout(liveID: string, battleID: string, userID?: string): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (!request || request.battleID !== battleID) {
+    return;
+  }
+  if (request.direction === 'outgoing' && userID) {
+    // 多人邀请时单个用户超时，等待其余用户
+    const remaining = request.userIDList.filter((item) => item !== userID);
+    if (remaining.length > 0 || request.accepted) {
+      battleStore.setState(liveID, { battleRequest: { ...request, userIDList: remaining } });
+      return;
+    }
+  }
+  if (request.direction === 'outgoing' && request.accepted) {
+    clearRequestTimer(liveID);
+    return;
+  }
+  const callback = timeoutCallbacks.get(liveID);
+  settleBattleRequest(liveID, 'requestTimeout');
+  if (callback?.battleID === battleID) {
+    try {
+      callback.onTimeout(battleID);
+    } catch (error) {
+      console.error('[BattleLifecycle] onTimeout error:', error);
+    }
+  }
+}
+
+/**
+ * 本地响应收到的邀请：接受后等待 PK 开始，拒绝后回到空闲
+ */
+export function answerBattleRequest(liveID: string, battleID: string, accepted: boolean): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (!request || request.battleID !== battleID || request.direction !== 'incoming') {
+    return;
+  }
+  if (accepted) {
+    battleStore.setState(liveID, { battleRequest: { ...request, accepted: true } });
+    return;
+  }
+  settleBattleRequest(liveID, 'requestRejected');
+}
+
+/**
+ * 本地取消发出的邀请
+ */
+export function cancelBattleRequestState(liveID: string, battleID: string): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (request?.battleID === battleID) {
+    settleBattleRequest(liveID, 'requestCancelled');
+  }
+}
+
+function handleRequestReceived(liveID: string, { battleID, inviter, invitee }: BattleRequestEvent): void {
+  const status = battleStore.getState(liveID).battleStatus;
+  if (!battleID || transitionBattleStatus(status, 'requestReceived') === status) {
+    return;
+  }
+  clearPunishmentTimer(liveID);
+  battleStore.setState(liveID, {
+    battleRequest: {
+      battleID,
+      direction: 'incoming',
+      inviter,
+      userIDList: invitee?.userID ? [invitee.userID] : [],
+      accepted: false,
+      expiresAt: 0,
+    },
+  });
+  transition(liveID, 'requestReceived');
+}
+
+function handleRequestAccept(liveID: string, { battleID, invitee }: BattleRequestEvent): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (!request || request.battleID !== battleID || request.direction !== 'outgoing') {
+    return;
+  }
+  clearRequestTimer(liveID);
+  timeoutCallbacks.delete(liveID);
+  battleStore.setState(liveID, {
+    battleRequest: {
+      ...request,
+      userIDList: request.userIDList.filter((userID) => userID !== invitee?.userID),
+      accepted: true,
+    },
+  });
+  transition(liveID, 'requestAccepted');
+}
+
+function handleRequestReject(liveID: string, { battleID, invitee }: BattleRequestEvent): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (!request || request.battleID !== battleID) {
+    return;
+  }
+  const remaining = request.userIDList.filter((userID) => userID !== invitee?.userID);
+  if (request.direction === 'outgoing' && (remaining.length > 0 || request.accepted)) {
+    battleStore.setState(liveID, { battleRequest: { ...request, userIDList: remaining } });
+    return;
+  }
+  settleBattleRequest(liveID, 'requestRejected');
+}
+
+function handleRequestCancelled(liveID: string, { battleID }: BattleRequestEvent): void {
+  const request = battleStore.getState(liveID).battleRequest;
+  if (request?.battleID === battleID && request.direction === 'incoming') {
+    settleBattleRequest(liveID, 'requestCancelled');
+  }
+}
+
+function handleBattleStarted(liveID: string): void {
+  clearRequestTimer(liveID);
+  clearPunishmentTimer(liveID);
+  timeoutCallbacks.delete(liveID);
+  scoreSnapshots.delete(liveID);
+  clearBattleSupporters(liveID);
+  battleStore.setState(liveID, { battleRequest: null, battleResult: null });
+  transition(liveID, 'started');
+}
+
+function handleBattleEnded(liveID: string, { battleInfo }: BattleEndedEvent, now = Date.now()): void {
+  const state = battleStore.getState(liveID);
+  const battleID = battleInfo?.battleID ?? state.currentBattleInfo?.battleID ?? '';
+  const snapshot = scoreSnapshots.get(liveID);
+  const scores = state.battleScore && state.battleScore.size > 0 ? state.battleScore : snapshot?.scores ?? null;
+  const users = state.battleUsers.length > 0 ? state.battleUsers : snapshot?.users ?? [];
+  scoreSnapshots.delete(liveID);
+  clearPunishmentTimer(liveID);
+
+  battleStore.setState(liveID, {
+    battleResult: computeBattleResult(battleID, scores, users, getTopBattleSupporters(liveID), now),
+  });
+  if (transition(liveID, 'ended') !== 'punishment') {
+    return;
+  }
+  if (lifecycleOptions.punishmentDuration <= 0) {
+    transition(liveID, 'punishmentEnded');
+    return;
+  }
+  punishmentTimers.set(liveID, setTimeout(() => {
+    punishmentTimers.delete(liveID);
+    transition(liveID, 'punishmentEnded');
+  }, lifecycleOptions.punishmentDuration * 1000));
+}
+
+/**
+ * 丢弃直播间的 PK 流程状态和定时器，回到空闲
+ */
+export function clearBattleLifecycle(liveID: string): void {
+  clearRequestTimer(liveID);
+  clearPunishmentTimer(liveID);
+  timeoutCallbacks.delete(liveID);
+  scoreSnapshots.delete(liveID);
+  lastRequests.delete(liveID);
+  clearBattleSupporters(liveID);
+  battleStore.setState(liveID, { battleStatus: 'idle', battleRequest: null, battleResult: null });
+}
+
+function addLifecycleListener<K extends BattleEventName>(
+  liveID: string,
+  eventName: K,
+  listener: (event: BattleEventMap[K]) => void,
+): HybridSubscription | void {
+  const key: HybridListenerKey = {
+    type: 'state',
+    store: 'BattleStore',
+    name: eventName,
+    roomID: liveID,
+    listenerID: LISTENER_ID,
+  };
+  return addListener(JSON.stringify(key), createDecodedListener(listener));
+}
+
+/**
+ * 引用计数 +1，首次引用时监听 Native 的 PK 事件和收礼事件并开始推导 PK 阶段；返回释放函数
+ * 最后一个引用释放时停止计时，已推导的状态随 store 一起释放
+ */
+export function retainBattleLifecycle(liveID: string): () => void {
+  const retained = lifecycleRetains.get(liveID);
+  if (retained) {
+    retained.count += 1;
+  } else {
+    const releaseStore = battleStore.retain(liveID);
+    // PK 期间的收礼计入支持者排行
+    const giftKey: HybridListenerKey = {
+      type: 'state',
+      store: 'GiftStore',
+      name: 'onReceiveGift',
+      roomID: liveID,
+      listenerID: LISTENER_ID,
+    };
+    const subscriptions = [
+      addLifecycleListener(liveID, 'onBattleRequestReceived', (event) => handleRequestReceived(liveID, event)),
+      addLifecycleListener(liveID, 'onBattleRequestAccept', (event) => handleRequestAccept(liveID, event)),
+      addLifecycleListener(liveID, 'onBattleRequestReject', (event) => handleRequestReject(liveID, event)),
+      addLifecycleListener(liveID, 'onBattleRequestCancelled', (event) => handleRequestCancelled(liveID, event)),
+      addLifecycleListener(liveID, 'onBattleRequestTimeout', (event) => {
+        handleBattleRequestTimeout(liveID, event.battleID, event.invitee?.userID);
+      }),
+      addLifecycleListener(liveID, 'onBattleStarted', () => handleBattleStarted(liveID)),
+      addLifecycleListener(liveID, 'onBattleEnded', (event) => handleBattleEnded(liveID, event)),
+      addListener(
+        JSON.stringify(giftKey),
+        createDecodedListener((event: ReceiveGiftEvent) => recordBattleSupport(liveID, event)),
+      ),
+    ];
+    const syncBattleState = (state: BattleState) => {
+      if (state.battleScore && state.battleScore.size > 0) {
+        scoreSnapshots.set(liveID, { scores: state.battleScore, users: state.battleUsers });
+      }
+      // 进房时 PK 已在进行中，没有收到开始事件
+      const battleID = state.currentBattleInfo?.battleID;
+      if (battleID && state.battleStatus === 'idle' && battleID !== state.battleResult?.battleID) {
+        transition(liveID, 'started');
+      }
+    };
+    const unsubscribeState = battleStore.subscribe(liveID, syncBattleState);
+    syncBattleState(battleStore.getState(liveID));
+    lifecycleRetains.set(liveID, {
+      count: 1,
+      release: () => {
+        subscriptions.forEach((subscription) => subscription?.remove());
+        unsubscribeState();
+        clearRequestTimer(liveID);
+        clearPunishmentTimer(liveID);
+        timeoutCallbacks.delete(liveID);
+        scoreSnapshots.delete(liveID);
+        // 惩罚计时已停止，不再停留在惩罚阶段
+        transition(liveID, 'punishmentEnded');
+        releaseStore();
+      },
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const current = lifecycleRetains.get(liveID);
+    if (!current) {
+      return;
+    }
+    current.count -= 1;
+    if (current.count <= 0) {
+      lifecycleRetains.delete(liveID);
+      current.release();
+    }
+  };
+}
@@ -0,0 +1,113 @@
+/**
+ * PK 支持者排行
+ *
+ * PK 进行中（currentBattleInfo 存在且未进入惩罚时间）收到的礼物按收礼直播间归属到对应主播，
+ * 再按送礼用户累计礼物价值排序。每场 PK 开始时重新统计，结束时前 3 名写入 PK 结果。
+ */
+
+import { liveListStore } from '../LiveListState/store';
+import type { ReceiveGiftEvent } from '../GiftState/types';
+import { battleStore } from './store';
+import type { BattleSupporter } from './types';
+
+/** 每位主播展示的支持者数量 */
+export const BATTLE_SUPPORTER_LIMIT = 3;
+
+// liveID -> 正在统计的 battleID 与 主播 userID -> 送礼用户 userID -> 支持者
+const battleSupporters = new Map<string, { battleID: string; hosts: Map<string, Map<string, BattleSupporter>> }>();
+
+/**
+ * 排行比较：累计价值高的在前，其次礼物数量多的在前，都相同时先达到的在前
+ */
+function compareSupporters(a: BattleSupporter, b: BattleSupporter): number {
+  return b.totalCoins - a.totalCoins || b.giftCount - a.giftCount || a.lastGiftAt - b.lastGiftAt;
+}
+
+/**
+ * 找到收礼直播间对应的 PK 主播：优先匹配参与者的 liveID，本直播间再按房主匹配
+ */
+function resolveBattleHost(liveID: string, receiverLiveID: string): string | undefined {
+  const { battleUsers } = battleStore.getState(liveID);
+  const matched = battleUsers.find((user) => user.liveID === receiverLiveID);
+  if (matched) {
+    return matched.userID;
+  }
+  if (receiverLiveID !== liveID) {
+    return undefined;
+  }
+  const currentLive = liveListStore.getState().currentLive;
+  return currentLive?.liveID === liveID ? currentLive.liveOwner?.userID : undefined;
+}
+
+/**
+ * 获取 PK 期间为某位主播送礼的支持者排行，limit 为空时返回全部
+ */
+export function getBattleSupporters(liveID: string, hostUserID: string, limit?: number): BattleSupporter[] {
+  const sorted = Array.from(battleSupporters.get(liveID)?.hosts.get(hostUserID)?.values() ?? []).sort(compareSupporters);
+  return limit === undefined ? sorted : sorted.slice(0, Math.max(0, limit));
+}
+
+/**
+ * 获取每位主播的前 3 名支持者
+ */
+export function getTopBattleSupporters(liveID: string): Record<string, BattleSupporter[]> {
+  const top: Record<string, BattleSupporter[]> = {};
+  battleSupporters.get(liveID)?.hosts.forEach((_, hostUserID) => {
+    top[hostUserID] = getBattleSupporters(liveID, hostUserID, BATTLE_SUPPORTER_LIMIT);
+  });
+  return top;
+}
+
+function syncSupportersState(liveID: string): void {
+  battleStore.setState(liveID, { battleSupporters: getTopBattleSupporters(liveID) });
+}
+
+/**
+ * 记录一次收到礼物事件，PK 进行中时返回送礼用户在对应主播下更新后的贡献
+ */
+export function recordBattleSupport(liveID: string, event: ReceiveGiftEvent, now = Date.now()): BattleSupporter | undefined {
+  const userID = event?.sender?.userID;
+  const state = battleStore.getState(liveID);
+  const battleID = state.currentBattleInfo?.battleID;
+  if (!liveID || !userID || !event.gift || !battleID || state.battleStatus === 'punishment') {
+    return undefined;
+  }
+  const hostUserID = resolveBattleHost(liveID, event.liveID || liveID);
+  if (!hostUserID) {
+    return undefined;
+  }
+
+  let room = battleSupporters.get(liveID);
+  if (!room || room.battleID !== battleID) {
+    room = { battleID, hosts: new Map() };
+    battleSupporters.set(liveID, room);
+  }
+  let supporters = room.hosts.get(hostUserID);
+  if (!supporters) {
+    supporters = new Map();
+    room.hosts.set(hostUserID, supporters);
+  }
+  const count = event.count || 1;
+  const previous = supporters.get(userID);
+  const supporter: BattleSupporter = {
+    userID,
+    userName: event.sender.userName || previous?.userName,
+    avatarURL: event.sender.avatarURL || previous?.avatarURL,
+    totalCoins: (previous?.totalCoins ?? 0) + (event.gift.coins ?? 0) * count,
+    giftCount: (previous?.giftCount ?? 0) + count,
+    lastGiftAt: now,
+  };
+  supporters.set(userID, supporter);
+  syncSupportersState(liveID);
+  return supporter;
+}
+
+/**
+ * 清空直播间的 PK 支持者排行
+ */
+export function clearBattleSupporters(liveID: string): void {
+  battleSupporters.delete(liveID);
+  if (Object.keys(battleStore.getState(liveID).battleSupporters).length > 0) {
+    battleStore.setState(liveID, { battleSupporters: {} });
+  }
+}
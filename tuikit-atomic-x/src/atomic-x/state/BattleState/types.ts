@@ -44,6 +44,19 @@ export interface RequestBattleOptions extends Record<string, unknown> {
   config?: BattleConfigParam;
   onSuccess?: (battleInfo?: BattleInfoParam, result?: unknown) => void;
   onError?: (error: Error | string) => void;
+  /** 邀请在 timeout 秒内无人接受时回调 */
+  onTimeout?: (battleID: string) => void;
+  [key: string]: unknown;
+}
+
+/**
+ * 再来一局选项，沿用上一次 PK 邀请的 userIDList、timeout 和 config
+ */
+export interface RematchBattleOptions extends Record<string, unknown> {
+  liveID: string;
+  onSuccess?: (battleInfo?: BattleInfoParam, result?: unknown) => void;
+  onError?: (error: Error | string) => void;
+  onTimeout?: (battleID: string) => void;
   [key: string]: unknown;
 }
 
@@ -92,6 +105,57 @@ export interface ExitBattleOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * PK 开始事件数据
+ */
+export interface BattleStartedEvent {
+  battleInfo: BattleInfoParam;
+  inviter: SeatUserInfoParam;
+  invitees: SeatUserInfoParam[];
+}
+
+/**
+ * PK 结束事件数据
+ */
+export interface BattleEndedEvent {
+  battleInfo: BattleInfoParam;
+  reason?: number | string;
+}
+
+/**
+ * 用户加入 / 退出 PK 事件数据
+ */
+export interface BattleUserEvent {
+  battleID: string;
+  battleUser: SeatUserInfoParam;
+}
+
+/**
+ * PK 请求相关事件数据（收到、取消、超时、接受、拒绝）
+ */
+export interface BattleRequestEvent {
+  battleID: string;
+  inviter: SeatUserInfoParam;
+  invitee: SeatUserInfoParam;
+}
+
+/**
+ * PK 事件表：事件名 -> 事件数据
+ */
+export interface BattleEventMap {
+  onBattleStarted: BattleStartedEvent;
+  onBattleEnded: BattleEndedEvent;
+  onUserJoinBattle: BattleUserEvent;
+  onUserExitBattle: BattleUserEvent;
+  onBattleRequestReceived: BattleRequestEvent;
+  onBattleRequestCancelled: BattleRequestEvent;
+  onBattleRequestTimeout: BattleRequestEvent;
+  onBattleRequestAccept: BattleRequestEvent;
+  onBattleRequestReject: BattleRequestEvent;
+}
+
+export type BattleEventName = keyof BattleEventMap;
+
 /**
  * 直播监听器接口
  */
@@ -99,3 +163,80 @@ export interface ILiveListener {
   callback: (params?: unknown) => void;
 }
 
+/**
+ * PK 阶段
+ * - idle: 空闲
+ * - inviting: 已发出邀请，等待对方响应
+ * - waiting: 收到邀请待处理，或邀请已被接受、等待 PK 开始
+ * - inBattle: PK 进行中
+ * - punishment: PK 已结束，处于惩罚时间
+ */
+export type BattleStatus = 'idle' | 'inviting' | 'waiting' | 'inBattle' | 'punishment';
+
+/**
+ * 驱动 PK 阶段变化的事件
+ */
+export type BattleLifecycleEvent =
+  | 'requestSent'
+  | 'requestReceived'
+  | 'requestAccepted'
+  | 'requestRejected'
+  | 'requestCancelled'
+  | 'requestTimeout'
+  | 'started'
+  | 'ended'
+  | 'punishmentEnded';
+
+/**
+ * 进行中的 PK 邀请
+ */
+export interface BattleRequestInfo {
+  battleID: string;
+  /** outgoing: 本直播间发出；incoming: 本直播间收到 */
+  direction: 'outgoing' | 'incoming';
+  inviter?: SeatUserInfoParam;
+  /** 尚未响应的被邀请用户 */
+  userIDList: string[];
+  /** 是否已有被邀请用户接受 */
+  accepted: boolean;
+  /** 邀请过期时间（毫秒时间戳），0 表示未知 */
+  expiresAt: number;
+}
+
+/**
+ * PK 结果，根据结束时的 battleScore 计算
+ */
+export interface BattleResult {
+  battleID: string;
+  scores: Map<string, number>;
+  users: SeatUserInfoParam[];
+  /** 得分最高的用户，并列时有多个 */
+  winnerUserIDs: string[];
+  /** 所有参与者得分相同 */
+  isDraw: boolean;
+  /** 主播 userID -> 送礼最多的前 3 名支持者 */
+  supporters: Record<string, BattleSupporter[]>;
+  endedAt: number;
+}
+
+/**
+ * PK 期间为某位主播送礼的支持者
+ */
+export interface BattleSupporter {
+  userID: string;
+  userName?: string;
+  avatarURL?: string;
+  /** PK 期间送出的礼物价值（coins × 数量） */
+  totalCoins: number;
+  /** PK 期间送出的礼物数量 */
+  giftCount: number;
+  lastGiftAt: number;
+}
+
+/**
+ * PK 流程配置
+ */
+export interface BattleLifecycleOptions {
+  /** PK 结束后的惩罚时间（秒），默认 30，为 0 时结束后直接回到空闲 */
+  punishmentDuration?: number;
+}
@@ -8,13 +8,13 @@
  * Application Scenarios: Audience co-guest, interactive Q&A, online karaoke, game streaming, and other scenarios requiring audience participation.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
-  LiveUserInfoParam,
-  SeatUserInfoParam,
   ApplyForSeatOptions,
   CancelApplicationOptions,
   AcceptApplicationOptions,
@@ -24,38 +24,14 @@ import type {
   AcceptInvitationOptions,
   RejectInvitationOptions,
   DisconnectOptions,
+  CoGuestGuestEventMap,
+  CoGuestGuestEventName,
+  CoGuestHostEventMap,
+  CoGuestHostEventName,
 } from './types';
 import { coGuestStore } from './store';
-
-/**
- * Co-guest listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Co-guest state event name constants
- */
-const CO_GUEST_EVENTS = [
-  'connected',
-  'invitees',
-  'applicants',
-  'candidates',
-];
-
-/**
- * Safe JSON parse
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { CoGuestState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * CoGuestState Hook
@@ -93,8 +69,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useCoGuestState(liveID: string) {
-  // Get initial state from global store
-  const initialState = coGuestStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = coGuestStore.useStore(liveID, (current) => current);
 
   /**
    * @memberof module:CoGuestState
@@ -109,7 +85,7 @@ export function useCoGuestState(liveID: string) {
    * });
    * ```
    */
-  const [connected, setConnected] = useState<SeatUserInfoParam[]>(initialState.connected);
+  const connected = state.connected;
 
   /**
    * @memberof module:CoGuestState
@@ -124,7 +100,7 @@ export function useCoGuestState(liveID: string) {
    * });
    * ```
    */
-  const [invitees, setInvitees] = useState<LiveUserInfoParam[]>(initialState.invitees);
+  const invitees = state.invitees;
 
   /**
    * @memberof module:CoGuestState
@@ -139,7 +115,7 @@ export function useCoGuestState(liveID: string) {
    * });
    * ```
    */
-  const [applicants, setApplicants] = useState<LiveUserInfoParam[]>(initialState.applicants);
+  const applicants = state.applicants;
 
   /**
    * @memberof module:CoGuestState
@@ -154,163 +130,7 @@ export function useCoGuestState(liveID: string) {
    * });
    * ```
    */
-  const [candidates, setCandidates] = useState<LiveUserInfoParam[]>(initialState.candidates);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = coGuestStore.subscribe(liveID, (state) => {
-      setConnected(state.connected);
-      setInvitees(state.invitees);
-      setApplicants(state.applicants);
-      setCandidates(state.candidates);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
-
-  /**
-   * Handle co-guest state change events
-   * Update global store, store will automatically notify all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // 如果 event 已经是对象，直接使用；否则尝试解析
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[CoGuestState] ${eventName} event received:`, JSON.stringify(data));
-
-      // 检查 data 的 key 是否匹配 CO_GUEST_EVENTS 中的某个值
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          connected?: SeatUserInfoParam[];
-          invitees?: LiveUserInfoParam[];
-          applicants?: LiveUserInfoParam[];
-          candidates?: LiveUserInfoParam[];
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (CO_GUEST_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // 根据不同的 key 更新对应的响应式数据
-            if (key === 'connected') {
-              // connected 是数组类型
-              let parsedData: SeatUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as SeatUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<SeatUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<SeatUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.connected = parsedData;
-            } else if (key === 'invitees') {
-              // invitees 是数组类型
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.invitees = parsedData;
-            } else if (key === 'applicants') {
-              // applicants 是数组类型
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.applicants = parsedData;
-            } else if (key === 'candidates') {
-              // candidates 是数组类型
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.candidates = parsedData;
-            }
-          }
-        });
-
-        // 批量更新全局 store（只更新一次，避免多次通知）
-        if (Object.keys(updates).length > 0) {
-          coGuestStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[CoGuestState] ${eventName} event parse error:`, error);
-      console.log(`[CoGuestState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * 绑定事件监听
-   */
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'CoGuestStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // 保存监听器清理函数的引用
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    CO_GUEST_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener 会自动注册 Native 端和 JS 层的事件监听器
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[CoGuestState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      CO_GUEST_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // 同时清理 JS 层的订阅
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  const candidates = state.candidates;
 
   /**
    * 申请连麦座位
@@ -337,11 +157,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Apply for seat failed');
+        const error = AtomicXError.fromResult('applyForSeat', result, 'Apply for seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('applyForSeat', error);
       onError?.(err);
     }
   }, []);
@@ -368,11 +188,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Cancel application failed');
+        const error = AtomicXError.fromResult('cancelApplication', result, 'Cancel application failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('cancelApplication', error);
       onError?.(err);
     }
   }, []);
@@ -395,7 +215,7 @@ export function useCoGuestState(liveID: string) {
   const acceptApplication = useCallback(async (params: AcceptApplicationOptions): Promise<void> => {
     // 验证必填参数
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('acceptApplication', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -408,11 +228,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Accept application failed');
+        const error = AtomicXError.fromResult('acceptApplication', result, 'Accept application failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('acceptApplication', error);
       onError?.(err);
     }
   }, []);
@@ -434,7 +254,7 @@ export function useCoGuestState(liveID: string) {
   const rejectApplication = useCallback(async (params: RejectApplicationOptions): Promise<void> => {
     // 验证必填参数
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('rejectApplication', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -447,11 +267,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Reject application failed');
+        const error = AtomicXError.fromResult('rejectApplication', result, 'Reject application failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('rejectApplication', error);
       onError?.(err);
     }
   }, []);
@@ -476,7 +296,7 @@ export function useCoGuestState(liveID: string) {
   const inviteToSeat = useCallback(async (params: InviteToSeatOptions): Promise<void> => {
     // 验证必填参数
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('inviteToSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -489,11 +309,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Invite to seat failed');
+        const error = AtomicXError.fromResult('inviteToSeat', result, 'Invite to seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('inviteToSeat', error);
       onError?.(err);
     }
   }, []);
@@ -515,7 +335,7 @@ export function useCoGuestState(liveID: string) {
   const cancelInvitation = useCallback(async (params: CancelInvitationOptions): Promise<void> => {
     // 验证必填参数
     if (!params.inviteeID) {
-      const error = new Error('Missing required parameter: inviteeID');
+      const error = new AtomicXError('cancelInvitation', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: inviteeID');
       params.onError?.(error);
       return;
     }
@@ -528,11 +348,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Cancel invitation failed');
+        const error = AtomicXError.fromResult('cancelInvitation', result, 'Cancel invitation failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('cancelInvitation', error);
       onError?.(err);
     }
   }, []);
@@ -554,7 +374,7 @@ export function useCoGuestState(liveID: string) {
   const acceptInvitation = useCallback(async (params: AcceptInvitationOptions): Promise<void> => {
     // 验证必填参数
     if (!params.inviterID) {
-      const error = new Error('Missing required parameter: inviterID');
+      const error = new AtomicXError('acceptInvitation', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: inviterID');
       params.onError?.(error);
       return;
     }
@@ -567,11 +387,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Accept invitation failed');
+        const error = AtomicXError.fromResult('acceptInvitation', result, 'Accept invitation failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('acceptInvitation', error);
       onError?.(err);
     }
   }, []);
@@ -593,7 +413,7 @@ export function useCoGuestState(liveID: string) {
   const rejectInvitation = useCallback(async (params: RejectInvitationOptions): Promise<void> => {
     // 验证必填参数
     if (!params.inviterID) {
-      const error = new Error('Missing required parameter: inviterID');
+      const error = new AtomicXError('rejectInvitation', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: inviterID');
       params.onError?.(error);
       return;
     }
@@ -606,11 +426,11 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Reject invitation failed');
+        const error = AtomicXError.fromResult('rejectInvitation', result, 'Reject invitation failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('rejectInvitation', error);
       onError?.(err);
     }
   }, []);
@@ -637,15 +457,18 @@ export function useCoGuestState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Disconnect failed');
+        const error = AtomicXError.fromResult('disconnect', result, 'Disconnect failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('disconnect', error);
       onError?.(err);
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeCoGuestGuestListener / removeCoGuestHostListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * 添加连麦嘉宾侧事件监听
    * 
@@ -655,12 +478,12 @@ export function useCoGuestState(liveID: string) {
    * @param listenerID - 监听器ID（可选）
    * @example
    * ```tsx
-   * addCoGuestGuestListener('onHostInvitationReceived', (params) => {
-   *   console.log('收到主播邀请:', params);
+   * addCoGuestGuestListener('onHostInvitationReceived', ({ hostUser }) => {
+   *   console.log('收到主播邀请:', hostUser.userID);
    * });
    * ```
    */
-  const addCoGuestGuestListener = useCallback((eventName: string, listener: ILiveListener, liveIDParam?: string, listenerID?: string): void => {
+  const addCoGuestGuestListener = useCallback(<K extends CoGuestGuestEventName>(eventName: K, listener: StateEventListener<CoGuestGuestEventMap, K>, liveIDParam?: string, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoGuestStore',
@@ -668,8 +491,8 @@ export function useCoGuestState(liveID: string) {
       roomID: liveIDParam ?? liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * 移除连麦嘉宾侧事件监听
@@ -682,7 +505,7 @@ export function useCoGuestState(liveID: string) {
    * removeCoGuestGuestListener('onHostInvitationReceived');
    * ```
    */
-  const removeCoGuestGuestListener = useCallback((eventName: string, liveIDParam?: string, listenerID?: string): void => {
+  const removeCoGuestGuestListener = useCallback((eventName: CoGuestGuestEventName, liveIDParam?: string, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoGuestStore',
@@ -690,8 +513,8 @@ export function useCoGuestState(liveID: string) {
       roomID: liveIDParam ?? liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
 
   /**
    * 添加连麦主播侧事件监听
@@ -706,7 +529,7 @@ export function useCoGuestState(liveID: string) {
    * });
    * ```
    */
-  const addCoGuestHostListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addCoGuestHostListener = useCallback(<K extends CoGuestHostEventName>(eventName: K, listener: StateEventListener<CoGuestHostEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoGuestStore',
@@ -714,8 +537,8 @@ export function useCoGuestState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * 移除连麦主播侧事件监听
@@ -727,7 +550,7 @@ export function useCoGuestState(liveID: string) {
    * removeCoGuestHostListener('onGuestApplicationReceived');
    * ```
    */
-  const removeCoGuestHostListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeCoGuestHostListener = useCallback((eventName: CoGuestHostEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoGuestStore',
@@ -735,8 +558,21 @@ export function useCoGuestState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise 风格的 action：成功时 resolve Native 返回的 data，失败时 reject AtomicXError
+  const asyncActions = useMemo(() => ({
+    applyForSeatAsync: toAsyncAction(applyForSeat, 'applyForSeat'),
+    cancelApplicationAsync: toAsyncAction(cancelApplication, 'cancelApplication'),
+    acceptApplicationAsync: toAsyncAction(acceptApplication, 'acceptApplication'),
+    rejectApplicationAsync: toAsyncAction(rejectApplication, 'rejectApplication'),
+    inviteToSeatAsync: toAsyncAction(inviteToSeat, 'inviteToSeat'),
+    cancelInvitationAsync: toAsyncAction(cancelInvitation, 'cancelInvitation'),
+    acceptInvitationAsync: toAsyncAction(acceptInvitation, 'acceptInvitation'),
+    rejectInvitationAsync: toAsyncAction(rejectInvitation, 'rejectInvitation'),
+    disconnectAsync: toAsyncAction(disconnect, 'disconnect'),
+  }), [applyForSeat, cancelApplication, acceptApplication, rejectApplication, inviteToSeat, cancelInvitation, acceptInvitation, rejectInvitation, disconnect]);
 
   return {
     connected,                    // 已连接的连麦嘉宾列表
@@ -756,9 +592,22 @@ export function useCoGuestState(liveID: string) {
     removeCoGuestGuestListener,   // 移除嘉宾侧事件监听
     addCoGuestHostListener,       // 添加主播侧事件监听
     removeCoGuestHostListener,    // 移除主播侧事件监听
+    ...asyncActions,    // Promise 风格的 action
   };
 }
 
-export default useCoGuestState;
+/**
+ * Subscribe to a single slice of the co-guest state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const applicantCount = useCoGuestSelector(liveID, (state) => state.applicants.length);
+ * ```
+ */
+export function useCoGuestSelector<T>(liveID: string, selector: (state: CoGuestState) => T, equalityFn?: EqualityFn<T>): T {
+  return coGuestStore.useStore(liveID, selector, equalityFn);
+}
 
+export default useCoGuestState;
 
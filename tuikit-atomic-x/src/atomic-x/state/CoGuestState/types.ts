@@ -124,6 +124,93 @@ export interface DisconnectOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 主播邀请事件数据（观众侧）
+ */
+export interface HostInvitationEvent {
+  hostUser: LiveUserInfoParam;
+}
+
+/**
+ * 连麦申请响应事件数据（观众侧）
+ */
+export interface GuestApplicationRespondedEvent {
+  isAccept: boolean;
+  hostUser: LiveUserInfoParam;
+}
+
+/**
+ * 连麦申请无响应事件数据（观众侧）
+ */
+export interface GuestApplicationNoResponseEvent {
+  reason: GuestApplicationNoResponseReason;
+}
+
+/**
+ * 被踢下麦事件数据（观众侧）
+ */
+export interface KickedOffSeatEvent {
+  seatIndex?: number;
+  hostUser?: LiveUserInfoParam;
+}
+
+/**
+ * 观众侧连麦事件表：事件名 -> 事件数据
+ */
+export interface CoGuestGuestEventMap {
+  onHostInvitationReceived: HostInvitationEvent;
+  onHostInvitationCancelled: HostInvitationEvent;
+  onGuestApplicationResponded: GuestApplicationRespondedEvent;
+  onGuestApplicationNoResponse: GuestApplicationNoResponseEvent;
+  onKickedOffSeat: KickedOffSeatEvent;
+}
+
+export type CoGuestGuestEventName = keyof CoGuestGuestEventMap;
+
+/**
+ * 连麦申请事件数据（主播侧）
+ */
+export interface GuestApplicationEvent {
+  guestUser: LiveUserInfoParam;
+}
+
+/**
+ * 连麦申请被其他主播处理事件数据（主播侧）
+ */
+export interface GuestApplicationProcessedByOtherHostEvent {
+  guestUser: LiveUserInfoParam;
+  hostUser: LiveUserInfoParam;
+}
+
+/**
+ * 邀请上麦响应事件数据（主播侧）
+ */
+export interface HostInvitationRespondedEvent {
+  isAccept: boolean;
+  guestUser: LiveUserInfoParam;
+}
+
+/**
+ * 邀请上麦无响应事件数据（主播侧）
+ */
+export interface HostInvitationNoResponseEvent {
+  guestUser: LiveUserInfoParam;
+  reason: GuestApplicationNoResponseReason;
+}
+
+/**
+ * 主播侧连麦事件表：事件名 -> 事件数据
+ */
+export interface CoGuestHostEventMap {
+  onGuestApplicationReceived: GuestApplicationEvent;
+  onGuestApplicationCancelled: GuestApplicationEvent;
+  onGuestApplicationProcessedByOtherHost: GuestApplicationProcessedByOtherHostEvent;
+  onHostInvitationResponded: HostInvitationRespondedEvent;
+  onHostInvitationNoResponse: HostInvitationNoResponseEvent;
+}
+
+export type CoGuestHostEventName = keyof CoGuestHostEventMap;
+
 /**
  * 直播监听器接口
  */
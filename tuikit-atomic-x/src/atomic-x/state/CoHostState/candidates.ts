@@ -0,0 +1,113 @@
+/**
+ * 可连线主播分页与搜索
+ *
+ * 候选主播通过独立的 fetchCoHostCandidates 查询获取，不写入 LiveListStore，不影响直播列表页的 liveList 和 liveListCursor。
+ * 关键字随请求交给服务端匹配，可以搜到直播列表任意位置的主播；返回后再排除本直播间、自己开的直播间和已连线的主播。
+ */
+
+import { callNativeAPI } from '../../utils';
+import { AtomicXError } from '../../errors';
+import { loginStore } from '../LoginState/store';
+import type { LiveInfoParam } from '../LiveListState/types';
+import { coHostStore } from './store';
+import type { CoHostCandidatePage, CoHostUserParam } from './types';
+
+export const DEFAULT_CANDIDATE_COUNT = 20;
+
+// liveID -> 最近一次从头获取的序号，用于丢弃过期的搜索结果
+const fetchSeqs = new Map<string, number>();
+
+/**
+ * 将直播间信息转为可连线主播，缺少房主信息时返回 undefined
+ */
+export function toCoHostCandidate(liveInfo: LiveInfoParam): CoHostUserParam | undefined {
+  const owner = liveInfo?.liveOwner;
+  if (!liveInfo?.liveID || !owner?.userID) {
+    return undefined;
+  }
+  return {
+    userID: owner.userID,
+    nickname: owner.userName,
+    avatarURL: owner.avatarURL,
+    liveID: liveInfo.liveID,
+    liveName: liveInfo.liveName,
+  };
+}
+
+/**
+ * 主播是否匹配关键字：直播间 ID、昵称或 userID 包含关键字，不区分大小写；关键字为空时总是匹配
+ * 用于过滤本地的最近连线列表，候选主播的关键字匹配由服务端完成
+ */
+export function matchesCoHostKeyword(candidate: CoHostUserParam, keyword?: string): boolean {
+  const normalized = keyword?.trim().toLowerCase();
+  if (!normalized) {
+    return true;
+  }
+  return [candidate.liveID, candidate.nickname, candidate.userID]
+    .some((value) => typeof value === 'string' && value.toLowerCase().includes(normalized));
+}
+
+function mergeCandidates(existing: CoHostUserParam[], incoming: CoHostUserParam[]): CoHostUserParam[] {
+  const seen = new Set(existing.map((item) => item.liveID));
+  return [...existing, ...incoming.filter((item) => !seen.has(item.liveID))];
+}
+
+/**
+ * 获取一页可连线主播并写入 candidateList；cursor 为空时从头获取并替换列表
+ * 获取失败时抛出 AtomicXError
+ */
+export async function fetchCoHostCandidatePage(
+  liveID: string,
+  options: { cursor?: string; count?: number; keyword?: string } = {},
+): Promise<CoHostCandidatePage> {
+  const count = Math.max(1, options.count ?? DEFAULT_CANDIDATE_COUNT);
+  const keyword = options.keyword?.trim() ?? '';
+  const isFirstPage = !options.cursor;
+  const seq = (fetchSeqs.get(liveID) ?? 0) + (isFirstPage ? 1 : 0);
+  fetchSeqs.set(liveID, seq);
+
+  coHostStore.setState(liveID, isFirstPage
+    ? { isFetchingCandidates: true, candidateKeyword: keyword }
+    : { isFetchingCandidates: true });
+
+  const selfUserID = loginStore.getState().loginUserInfo?.userID;
+  const connectedLiveIDs = new Set(coHostStore.getState(liveID).connected.map((item) => item.liveID));
+  let list: CoHostUserParam[];
+  let cursor: string;
+
+  try {
+    const result = await callNativeAPI<{ list: LiveInfoParam[]; cursor?: string }>('fetchCoHostCandidates', {
+      liveID,
+      cursor: options.cursor ?? '',
+      count,
+      keyword,
+    });
+    if (!result.success) {
+      throw AtomicXError.fromResult('fetchCoHostCandidates', result, 'Fetch co-host candidates failed');
+    }
+    list = (result.data?.list ?? [])
+      .map(toCoHostCandidate)
+      .filter((candidate): candidate is CoHostUserParam => (
+        !!candidate &&
+        candidate.liveID !== liveID &&
+        candidate.userID !== selfUserID &&
+        !connectedLiveIDs.has(candidate.liveID)
+      ));
+    cursor = result.data?.cursor ?? '';
+  } catch (error) {
+    if (fetchSeqs.get(liveID) === seq) {
+      coHostStore.setState(liveID, { isFetchingCandidates: false });
+    }
+    throw AtomicXError.from('fetchCoHostCandidates', error);
+  }
+
+  // 期间已开始新的搜索，丢弃本次结果
+  if (fetchSeqs.get(liveID) === seq) {
+    coHostStore.setState(liveID, (state) => ({
+      candidateList: isFirstPage ? mergeCandidates([], list) : mergeCandidates(state.candidateList, list),
+      candidateCursor: cursor,
+      isFetchingCandidates: false,
+    }));
+  }
+  return { list, cursor };
+}
@@ -8,51 +8,29 @@
  * Use Cases: Host connections, collaborative streaming, cross-platform connections, and streamer interactions.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
-import { coHostStore } from './store';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import { coHostRecentStore, coHostStore } from './store';
+import type { CoHostState } from './store';
+import { DEFAULT_CANDIDATE_COUNT, fetchCoHostCandidatePage } from './candidates';
+import { clearRecentCoHosts, retainRecentCoHosts } from './recent';
+import type { EqualityFn } from '../../store';
 import type {
-  LiveUserInfoParam,
   RequestHostConnectionOptions,
   CancelHostConnectionOptions,
   AcceptHostConnectionOptions,
   RejectHostConnectionOptions,
   ExitHostConnectionOptions,
+  FetchCoHostCandidatesOptions,
+  CoHostCandidatePage,
+  RecentCoHost,
+  CoHostEventMap,
+  CoHostEventName,
 } from './types';
-import { CoHostStatus } from './types';
-
-/**
- * Co-host listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Co-host status event name constants
- */
-const CO_HOST_EVENTS = [
-  'connected',
-  'invitees',
-  'applicant',
-  'candidates',
-  'coHostStatus',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
 
 /**
  * CoHostState Hook
@@ -89,8 +67,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useCoHostState(liveID: string) {
-  // Get initial state from global store
-  const initialState = coHostStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = coHostStore.useStore(liveID, (current) => current);
 
   /**
    * @memberof module:CoHostState
@@ -105,7 +83,7 @@ export function useCoHostState(liveID: string) {
    * });
    * ```
    */
-  const [connected, setConnected] = useState<LiveUserInfoParam[]>(initialState.connected);
+  const connected = state.connected;
 
   /**
    * @memberof module:CoHostState
@@ -120,7 +98,7 @@ export function useCoHostState(liveID: string) {
    * });
    * ```
    */
-  const [invitees, setInvitees] = useState<LiveUserInfoParam[]>(initialState.invitees);
+  const invitees = state.invitees;
 
   /**
    * @memberof module:CoHostState
@@ -134,7 +112,7 @@ export function useCoHostState(liveID: string) {
    * }
    * ```
    */
-  const [applicant, setApplicant] = useState<LiveUserInfoParam | undefined>(initialState.applicant);
+  const applicant = state.applicant;
 
   /**
    * @memberof module:CoHostState
@@ -149,7 +127,32 @@ export function useCoHostState(liveID: string) {
    * });
    * ```
    */
-  const [candidates, setCandidates] = useState<LiveUserInfoParam[]>(initialState.candidates);
+  const candidates = state.candidates;
+
+  /**
+   * Candidate hosts loaded by fetchCoHostCandidates
+   * @type {CoHostUserParam[]}
+   * @description Pages are appended in order; self, this live and connected hosts are excluded
+   */
+  const candidateList = state.candidateList;
+
+  /**
+   * Cursor of the next candidate page, empty when there are no more pages
+   * @type {string}
+   */
+  const candidateCursor = state.candidateCursor;
+
+  /**
+   * Keyword of the current candidate search
+   * @type {string}
+   */
+  const candidateKeyword = state.candidateKeyword;
+
+  /**
+   * Whether a candidate page is being fetched
+   * @type {boolean}
+   */
+  const isFetchingCandidates = state.isFetchingCandidates;
 
   /**
    * @memberof module:CoHostState
@@ -164,174 +167,46 @@ export function useCoHostState(liveID: string) {
    * }
    * ```
    */
-  const [coHostStatus, setCoHostStatus] = useState<CoHostStatus>(initialState.coHostStatus);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = coHostStore.subscribe(liveID, (state) => {
-      setConnected(state.connected);
-      setInvitees(state.invitees);
-      setApplicant(state.applicant);
-      setCandidates(state.candidates);
-      setCoHostStatus(state.coHostStatus);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
+  const coHostStatus = state.coHostStatus;
 
   /**
-   * Handle co-host status change events
-   * Updates global store, which automatically notifies all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[CoHostState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data's keys match any value in CO_HOST_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          connected?: LiveUserInfoParam[];
-          invitees?: LiveUserInfoParam[];
-          applicant?: LiveUserInfoParam | undefined;
-          candidates?: LiveUserInfoParam[];
-          coHostStatus?: CoHostStatus;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (CO_HOST_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'connected') {
-              // connected is array type
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.connected = parsedData;
-            } else if (key === 'invitees') {
-              // invitees is array type
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.invitees = parsedData;
-            } else if (key === 'applicant') {
-              // applicant can be object or null
-              let parsedData: LiveUserInfoParam | undefined;
-              if (value === null || value === undefined) {
-                parsedData = undefined;
-              } else if (typeof value === 'object') {
-                parsedData = value as LiveUserInfoParam;
-              } else if (typeof value === 'string') {
-                const parsed = safeJsonParse<LiveUserInfoParam | null>(value, null);
-                parsedData = parsed || undefined;
-              } else {
-                const parsed = safeJsonParse<LiveUserInfoParam | null>(JSON.stringify(value), null);
-                parsedData = parsed || undefined;
-              }
-              updates.applicant = parsedData;
-            } else if (key === 'candidates') {
-              // candidates is array type
-              let parsedData: LiveUserInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveUserInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveUserInfoParam[]>(JSON.stringify(value), []);
-              }
-              updates.candidates = parsedData;
-            } else if (key === 'coHostStatus') {
-              // coHostStatus is enum type
-              const numValue = typeof value === 'number' ? value : (Number(value) || CoHostStatus.DISCONNECTED);
-              const parsedData = isNaN(numValue) ? CoHostStatus.DISCONNECTED : (numValue as CoHostStatus);
-              updates.coHostStatus = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          coHostStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[CoHostState] ${eventName} event parse error:`, error);
-      console.log(`[CoHostState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * Bind event listeners
+   * Fetch candidate hosts page by page, optionally searching by live ID or nickname
+   * An empty cursor starts over and replaces candidateList, otherwise the page is appended
+   *
+   * @param params - Fetch parameters
+   * @example
+   * ```tsx
+   * // Search
+   * await fetchCoHostCandidates({ liveID, cursor: '', count: 20, keyword: 'alice' });
+   *
+   * // Load more
+   * if (candidateCursor) {
+   *   await fetchCoHostCandidates({ liveID, cursor: candidateCursor, keyword: candidateKeyword });
+   * }
+   * ```
    */
-  useEffect(() => {
-    if (!liveID) {
-      return;
+  const fetchCoHostCandidates = useCallback(async (params: FetchCoHostCandidatesOptions): Promise<CoHostCandidatePage | undefined> => {
+    const { onSuccess, onError, liveID: targetLiveID, cursor, count, keyword } = params;
+    if (!targetLiveID) {
+      const error = new AtomicXError('fetchCoHostCandidates', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID');
+      onError?.(error);
+      return undefined;
     }
 
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'CoHostStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    CO_HOST_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener automatically registers event listeners for both Native side and JS layer
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[CoHostState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      CO_HOST_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
+    try {
+      const page = await fetchCoHostCandidatePage(targetLiveID, {
+        cursor,
+        count: count ?? DEFAULT_CANDIDATE_COUNT,
+        keyword,
       });
-    };
-  }, [handleEvent, liveID]);
+      onSuccess?.();
+      return page;
+    } catch (error: any) {
+      const err = AtomicXError.from('fetchCoHostCandidates', error);
+      onError?.(err);
+    }
+    return undefined;
+  }, []);
 
   /**
    * Request host connection
@@ -355,12 +230,12 @@ export function useCoHostState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Request host connection failed');
+        const error = AtomicXError.fromResult('requestHostConnection', result, 'Request host connection failed');
         (error as any).code = result.code;
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('requestHostConnection', error);
       onError?.(err);
     }
   }, []);
@@ -388,11 +263,11 @@ export function useCoHostState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Cancel host connection failed');
+        const error = AtomicXError.fromResult('cancelHostConnection', result, 'Cancel host connection failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('cancelHostConnection', error);
       onError?.(err);
     }
   }, []);
@@ -414,7 +289,7 @@ export function useCoHostState(liveID: string) {
   const acceptHostConnection = useCallback(async (params: AcceptHostConnectionOptions): Promise<void> => {
     // Validate required parameters
     if (!params.fromHostLiveID) {
-      const error = new Error('Missing required parameter: fromHostLiveID');
+      const error = new AtomicXError('acceptHostConnection', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: fromHostLiveID');
       params.onError?.(error);
       return;
     }
@@ -427,11 +302,11 @@ export function useCoHostState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Accept host connection failed');
+        const error = AtomicXError.fromResult('acceptHostConnection', result, 'Accept host connection failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('acceptHostConnection', error);
       onError?.(err);
     }
   }, []);
@@ -453,7 +328,7 @@ export function useCoHostState(liveID: string) {
   const rejectHostConnection = useCallback(async (params: RejectHostConnectionOptions): Promise<void> => {
     // Validate required parameters
     if (!params.fromHostLiveID) {
-      const error = new Error('Missing required parameter: fromHostLiveID');
+      const error = new AtomicXError('rejectHostConnection', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: fromHostLiveID');
       params.onError?.(error);
       return;
     }
@@ -466,11 +341,11 @@ export function useCoHostState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Reject host connection failed');
+        const error = AtomicXError.fromResult('rejectHostConnection', result, 'Reject host connection failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('rejectHostConnection', error);
       onError?.(err);
     }
   }, []);
@@ -497,15 +372,18 @@ export function useCoHostState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Exit host connection failed');
+        const error = AtomicXError.fromResult('exitHostConnection', result, 'Exit host connection failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('exitHostConnection', error);
       onError?.(err);
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeCoHostListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add co-host event listener
    * 
@@ -515,12 +393,12 @@ export function useCoHostState(liveID: string) {
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addCoHostListener('onCoHostRequestReceived', (params) => {
-   *   console.log('Received connection request:', params);
+   * addCoHostListener('onCoHostRequestReceived', ({ inviter }) => {
+   *   console.log('Received connection request:', inviter.liveID);
    * });
    * ```
    */
-  const addCoHostListener = useCallback((eventName: string, listener: ILiveListener, liveIDParam?: string, listenerID?: string): void => {
+  const addCoHostListener = useCallback(<K extends CoHostEventName>(eventName: K, listener: StateEventListener<CoHostEventMap, K>, liveIDParam?: string, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoHostStore',
@@ -528,8 +406,8 @@ export function useCoHostState(liveID: string) {
       roomID: liveIDParam ?? liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove co-host event listener
@@ -542,7 +420,7 @@ export function useCoHostState(liveID: string) {
    * removeCoHostListener('onCoHostRequestReceived');
    * ```
    */
-  const removeCoHostListener = useCallback((eventName: string, liveIDParam?: string, listenerID?: string): void => {
+  const removeCoHostListener = useCallback((eventName: CoHostEventName, liveIDParam?: string, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'CoHostStore',
@@ -550,8 +428,18 @@ export function useCoHostState(liveID: string) {
       roomID: liveIDParam ?? liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    requestHostConnectionAsync: toAsyncAction(requestHostConnection, 'requestHostConnection'),
+    cancelHostConnectionAsync: toAsyncAction(cancelHostConnection, 'cancelHostConnection'),
+    acceptHostConnectionAsync: toAsyncAction(acceptHostConnection, 'acceptHostConnection'),
+    rejectHostConnectionAsync: toAsyncAction(rejectHostConnection, 'rejectHostConnection'),
+    exitHostConnectionAsync: toAsyncAction(exitHostConnection, 'exitHostConnection'),
+    fetchCoHostCandidatesAsync: toAsyncAction(fetchCoHostCandidates, 'fetchCoHostCandidates'),
+  }), [requestHostConnection, cancelHostConnection, acceptHostConnection, rejectHostConnection, exitHostConnection, fetchCoHostCandidates]);
 
   return {
     coHostStatus,            // Current co-host status
@@ -559,6 +447,11 @@ export function useCoHostState(liveID: string) {
     invitees,                // List of invited co-hosts
     applicant,               // Current applicant co-host info
     candidates,              // List of candidate co-hosts available for invitation
+    candidateList,           // Candidate hosts loaded by fetchCoHostCandidates
+    candidateCursor,         // Cursor of the next candidate page
+    candidateKeyword,        // Keyword of the current candidate search
+    isFetchingCandidates,    // Fetching a candidate page
+    fetchCoHostCandidates,   // Fetch / search candidate hosts page by page
     requestHostConnection,   // Request host connection
     cancelHostConnection,    // Cancel host connection request
     acceptHostConnection,    // Accept host connection request
@@ -566,9 +459,65 @@ export function useCoHostState(liveID: string) {
     exitHostConnection,      // Exit host connection
     addCoHostListener,       // Add co-host event listener
     removeCoHostListener,    // Remove co-host event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
-export default useCoHostState;
+/**
+ * Subscribe to a single slice of the co-host state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const coHostStatus = useCoHostSelector(liveID, (state) => state.coHostStatus);
+ * ```
+ */
+export function useCoHostSelector<T>(liveID: string, selector: (state: CoHostState) => T, equalityFn?: EqualityFn<T>): T {
+  return coHostStore.useStore(liveID, selector, equalityFn);
+}
 
+/**
+ * Hosts recently connected with, newest first, persisted per login user
+ * Hosts joining this live's connection are recorded while the hook is mounted; use setCoHostRecentStorage to persist across restarts
+ *
+ * @example
+ * ```tsx
+ * const { recentCoHosts } = useRecentCoHosts(liveID);
+ *
+ * recentCoHosts.map((host) => <Text key={host.liveID}>{host.nickname}</Text>);
+ * ```
+ */
+export function useRecentCoHosts(liveID: string): { recentCoHosts: RecentCoHost[]; clearRecentCoHosts: () => Promise<void> } {
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainRecentCoHosts(liveID);
+  }, [liveID]);
+
+  const recentCoHosts = coHostRecentStore.useStore((state) => state.recentCoHosts);
+  const clear = useCallback(() => clearRecentCoHosts(), []);
+
+  return {
+    recentCoHosts,                 // Recently connected hosts, newest first
+    clearRecentCoHosts: clear,     // Clear the records of the login user
+  };
+}
+
+export {
+  DEFAULT_CANDIDATE_COUNT,
+  toCoHostCandidate,
+  matchesCoHostKeyword,
+  fetchCoHostCandidatePage,
+} from './candidates';
+export {
+  RECENT_CO_HOST_LIMIT,
+  setCoHostRecentStorage,
+  loadRecentCoHosts,
+  recordRecentCoHosts,
+  clearRecentCoHosts,
+  retainRecentCoHosts,
+} from './recent';
+
+export default useCoHostState;
 
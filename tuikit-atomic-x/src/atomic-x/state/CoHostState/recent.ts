@@ -0,0 +1,170 @@
+/**
+ * 最近连线过的主播
+ *
+ * 连线成功的主播按时间倒序记录，按登录用户分别保存，最多保留 RECENT_CO_HOST_LIMIT 个。
+ * 默认使用内存存储，应用重启后丢失；需要持久化时通过 setCoHostRecentStorage 传入 AsyncStorage 等实现。
+ *
+ * @example
+ * ```ts
+ * import AsyncStorage from '@react-native-async-storage/async-storage';
+ * setCoHostRecentStorage(AsyncStorage);
+ * ```
+ */
+
+import { loginStore } from '../LoginState/store';
+import { coHostRecentStore, coHostStore } from './store';
+import type { CoHostRecentStorage, CoHostUserParam, RecentCoHost } from './types';
+
+export const RECENT_CO_HOST_LIMIT = 10;
+const STORAGE_KEY_PREFIX = 'AtomicX.CoHost.recent.';
+
+const memoryItems = new Map<string, string>();
+const memoryStorage: CoHostRecentStorage = {
+  getItem: async (key) => memoryItems.get(key) ?? null,
+  setItem: async (key, value) => {
+    memoryItems.set(key, value);
+  },
+  removeItem: async (key) => {
+    memoryItems.delete(key);
+  },
+};
+
+let storage: CoHostRecentStorage = memoryStorage;
+// 当前已加载记录对应的登录用户
+let loadedUserID: string | undefined;
+// liveID -> 引用计数与连线列表订阅
+const recentRetains = new Map<string, { count: number; release: () => void }>();
+
+/**
+ * 设置本地存储实现，传 null 恢复为内存存储
+ */
+export function setCoHostRecentStorage(next: CoHostRecentStorage | null): void {
+  storage = next ?? memoryStorage;
+  loadedUserID = undefined;
+  coHostRecentStore.setState({ recentCoHosts: [], isLoaded: false });
+}
+
+function getLoginUserID(): string | undefined {
+  return loginStore.getState().loginUserInfo?.userID;
+}
+
+function getStorageKey(userID: string): string {
+  return `${STORAGE_KEY_PREFIX}${userID}`;
+}
+
+/**
+ * 读取当前登录用户最近连线过的主播，未登录时返回空列表
+ */
+export async function loadRecentCoHosts(): Promise<RecentCoHost[]> {
+  const userID = getLoginUserID();
+  if (!userID) {
+    return [];
+  }
+  if (loadedUserID === userID && coHostRecentStore.getState().isLoaded) {
+    return coHostRecentStore.getState().recentCoHosts;
+  }
+
+  let recentCoHosts: RecentCoHost[] = [];
+  try {
+    const value = await storage.getItem(getStorageKey(userID));
+    const parsed: unknown = value ? JSON.parse(value) : [];
+    recentCoHosts = Array.isArray(parsed)
+      ? parsed.filter((item): item is RecentCoHost => !!item?.userID && !!item?.liveID)
+      : [];
+  } catch (error) {
+    console.warn('[CoHostRecent] load failed:', error);
+  }
+  // 读取期间切换了账号
+  if (getLoginUserID() !== userID) {
+    return [];
+  }
+  loadedUserID = userID;
+  coHostRecentStore.setState({ recentCoHosts, isLoaded: true });
+  return recentCoHosts;
+}
+
+/**
+ * 记录连线成功的主播，已存在的移到最前
+ */
+export async function recordRecentCoHosts(users: CoHostUserParam[], now = Date.now()): Promise<void> {
+  const userID = getLoginUserID();
+  const valid = users.filter((user) => user?.userID && user.liveID && user.userID !== userID);
+  if (!userID || valid.length === 0) {
+    return;
+  }
+  const current = await loadRecentCoHosts();
+  const added: RecentCoHost[] = valid.map((user) => ({
+    userID: user.userID,
+    nickname: user.nickname,
+    avatarURL: user.avatarURL,
+    liveID: user.liveID,
+    connectedAt: now,
+  }));
+  const addedLiveIDs = new Set(added.map((item) => item.liveID));
+  const recentCoHosts = [...added, ...current.filter((item) => !addedLiveIDs.has(item.liveID))]
+    .slice(0, RECENT_CO_HOST_LIMIT);
+
+  coHostRecentStore.setState({ recentCoHosts, isLoaded: true });
+  try {
+    await storage.setItem(getStorageKey(userID), JSON.stringify(recentCoHosts));
+  } catch (error) {
+    console.warn('[CoHostRecent] save failed:', error);
+  }
+}
+
+/**
+ * 清空当前登录用户的最近连线记录
+ */
+export async function clearRecentCoHosts(): Promise<void> {
+  const userID = getLoginUserID();
+  coHostRecentStore.setState({ recentCoHosts: [], isLoaded: !!userID });
+  if (userID) {
+    loadedUserID = userID;
+    await storage.removeItem(getStorageKey(userID));
+  }
+}
+
+/**
+ * 引用计数 +1，首次引用时加载记录并在连线列表新增主播时写入；返回释放函数
+ */
+export function retainRecentCoHosts(liveID: string): () => void {
+  const retained = recentRetains.get(liveID);
+  if (retained) {
+    retained.count += 1;
+  } else {
+    const releaseStore = coHostStore.retain(liveID);
+    let known = new Set(coHostStore.getState(liveID).connected.map((user) => user.liveID));
+    const unsubscribe = coHostStore.subscribe(liveID, ({ connected }) => {
+      const joined = connected.filter((user) => user.liveID && user.liveID !== liveID && !known.has(user.liveID));
+      known = new Set(connected.map((user) => user.liveID));
+      if (joined.length > 0) {
+        recordRecentCoHosts(joined as CoHostUserParam[]);
+      }
+    });
+    loadRecentCoHosts();
+    recentRetains.set(liveID, {
+      count: 1,
+      release: () => {
+        unsubscribe();
+        releaseStore();
+      },
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const current = recentRetains.get(liveID);
+    if (!current) {
+      return;
+    }
+    current.count -= 1;
+    if (current.count <= 0) {
+      recentRetains.delete(liveID);
+      current.release();
+    }
+  };
+}
@@ -89,6 +89,99 @@ export interface ExitHostConnectionOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 连线主播信息（携带所在直播间 ID）
+ */
+export interface CoHostUserParam extends LiveUserInfoParam {
+  liveID: string;
+}
+
+/**
+ * 获取可连线主播选项
+ */
+export interface FetchCoHostCandidatesOptions extends Record<string, unknown> {
+  liveID: string;
+  /** 分页游标，空字符串表示从头获取并替换已有列表 */
+  cursor?: string;
+  /** 每页数量，默认 20 */
+  count?: number;
+  /** 由服务端按直播间 ID、主播昵称或 userID 搜索，不区分大小写 */
+  keyword?: string;
+  onSuccess?: () => void;
+  onError?: (error: Error | string) => void;
+  [key: string]: unknown;
+}
+
+/**
+ * 一页可连线主播
+ */
+export interface CoHostCandidatePage {
+  list: CoHostUserParam[];
+  /** 下一页游标，为空表示没有更多 */
+  cursor: string;
+}
+
+/**
+ * 最近连线过的主播
+ */
+export interface RecentCoHost extends CoHostUserParam {
+  connectedAt: number;
+}
+
+/**
+ * 最近连线记录的存储适配器，接口与 AsyncStorage 兼容
+ */
+export interface CoHostRecentStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+/**
+ * 收到连线请求事件数据
+ */
+export interface CoHostRequestReceivedEvent {
+  inviter: CoHostUserParam;
+  extensionInfo?: string;
+}
+
+/**
+ * 连线请求取消 / 超时事件数据
+ */
+export interface CoHostRequestEvent {
+  inviter: CoHostUserParam;
+  invitee: CoHostUserParam;
+}
+
+/**
+ * 连线请求被接受 / 拒绝事件数据
+ */
+export interface CoHostRequestRespondedEvent {
+  invitee: CoHostUserParam;
+}
+
+/**
+ * 连线主播进出事件数据
+ */
+export interface CoHostUserEvent {
+  userInfo: CoHostUserParam;
+}
+
+/**
+ * 连线事件表：事件名 -> 事件数据
+ */
+export interface CoHostEventMap {
+  onCoHostRequestReceived: CoHostRequestReceivedEvent;
+  onCoHostRequestCancelled: CoHostRequestEvent;
+  onCoHostRequestAccepted: CoHostRequestRespondedEvent;
+  onCoHostRequestRejected: CoHostRequestRespondedEvent;
+  onCoHostRequestTimeout: CoHostRequestEvent;
+  onCoHostUserJoined: CoHostUserEvent;
+  onCoHostUserLeft: CoHostUserEvent;
+}
+
+export type CoHostEventName = keyof CoHostEventMap;
+
 /**
  * 直播监听器接口
  */
@@ -8,25 +8,14 @@
  * Use Cases: Device management, permission control, audio/video capture, device failure handling, and other fundamental technical scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useCallback, useMemo, useState } from 'react';
 import { Platform, PermissionsAndroid } from 'react-native';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
-import {
-    DeviceStatus,
-    DeviceStatusCode,
-    DeviceErrorEnum,
-    DeviceErrorCode,
-    AudioOutput,
-    MirrorType,
-} from './types';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
-    DeviceStatusType,
-    DeviceStatusCodeType,
-    DeviceErrorType,
-    DeviceErrorCodeType,
-    AudioOutputType,
     OpenLocalMicrophoneOptions,
     SetAudioRouteOptions,
     OpenLocalCameraOptions,
@@ -34,69 +23,13 @@ import type {
     UpdateVideoQualityOptions,
     SwitchMirrorOptions,
     VolumeOptions,
-    NetworkInfo,
-    LocalVideoQuality,
+    DeviceActionOptions,
+    DeviceEventMap,
+    DeviceEventName,
 } from './types';
 import { deviceStore } from './store';
-
-/**
- * Device listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Device status event name constants
- */
-const DEVICE_EVENTS = [
-    'microphoneStatus',
-    'microphoneLastError',
-    'captureVolume',
-    'currentMicVolume',
-    'outputVolume',
-    'cameraStatus',
-    'cameraLastError',
-    'isFrontCamera',
-    'localMirrorType',
-    'localVideoQuality',
-    'currentAudioRoute',
-    'screenStatus',
-    'networkInfo',
-];
-
-/**
- * Device status code to device status mapping
- */
-const DEVICE_STATUS_MAP: Record<DeviceStatusCodeType, DeviceStatusType> = {
-    [DeviceStatusCode.OFF]: DeviceStatus.OFF,
-    [DeviceStatusCode.ON]: DeviceStatus.ON,
-} as const;
-
-/**
- * Device error code to device error mapping
- */
-const DEVICE_ERROR_MAP: Record<DeviceErrorCodeType, DeviceErrorType> = {
-    [DeviceErrorCode.NO_ERROR]: DeviceErrorEnum.NO_ERROR,
-    [DeviceErrorCode.NO_DEVICE_DETECTED]: DeviceErrorEnum.NO_DEVICE_DETECTED,
-    [DeviceErrorCode.NO_SYSTEM_PERMISSION]: DeviceErrorEnum.NO_SYSTEM_PERMISSION,
-    [DeviceErrorCode.NOT_SUPPORT_CAPTURE]: DeviceErrorEnum.NOT_SUPPORT_CAPTURE,
-    [DeviceErrorCode.OCCUPIED_ERROR]: DeviceErrorEnum.OCCUPIED_ERROR,
-    [DeviceErrorCode.UNKNOWN_ERROR]: DeviceErrorEnum.UNKNOWN_ERROR,
-} as const;
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-    try {
-        if (!json || typeof json !== 'string') {
-            return defaultValue;
-        }
-        return JSON.parse(json) as T;
-    } catch (error) {
-        console.error('safeJsonParse error:', error);
-        return defaultValue;
-    }
-}
+import type { DeviceState } from './store';
+import type { EqualityFn } from '../../store';
 
 const AUDIO_ROUTE_STRING_MAP: Record<string, number> = {
     'SPEAKERPHONE': 0,
@@ -110,34 +43,6 @@ const VIDEO_QUALITY_STRING_MAP: Record<string, number> = {
     'VIDEOQUALITY_1080P': 4,
 };
 
-/**
- * Map status code to device status
- */
-function mapStatusCodeToDeviceStatus(
-    statusCode: number
-): DeviceStatusType | null {
-    const mappedStatus = DEVICE_STATUS_MAP[statusCode as DeviceStatusCodeType];
-    if (!mappedStatus) {
-        console.warn(`Unknown device status code: ${statusCode}`);
-        return null;
-    }
-    return mappedStatus;
-}
-
-/**
- * Map error code to device error
- */
-function mapErrorCodeToDeviceError(errorCode: number): DeviceErrorType | null {
-    const mappedError = DEVICE_ERROR_MAP[errorCode as DeviceErrorCodeType];
-    if (!mappedError) {
-        console.warn(`Unknown device error code: ${errorCode}`);
-        return null;
-    }
-    return mappedError;
-}
-
-
-
 /**
  * DeviceState Hook
  * 
@@ -170,8 +75,8 @@ function mapErrorCodeToDeviceError(errorCode: number): DeviceErrorType | null {
  * ```
  */
 export function useDeviceState() {
-    // Get initial state from global store
-    const initialState = deviceStore.getState();
+    // Read state from the global store; native listeners are registered once and shared by every mounted hook
+    const state = deviceStore.useStore((current) => current);
 
     /**
      * @memberof module:DeviceState
@@ -186,7 +91,7 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [microphoneStatus, setMicrophoneStatus] = useState<DeviceStatusType | undefined>(initialState.microphoneStatus);
+    const microphoneStatus = state.microphoneStatus;
 
     /**
      * @memberof module:DeviceState
@@ -200,7 +105,7 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [microphoneLastError, setMicrophoneLastError] = useState<DeviceErrorType | undefined>(initialState.microphoneLastError);
+    const microphoneLastError = state.microphoneLastError;
 
     /**
      * @memberof module:DeviceState
@@ -212,7 +117,7 @@ export function useDeviceState() {
      * console.log('Audio publish permission:', hasPublishAudioPermission);
      * ```
      */
-    const [hasPublishAudioPermission, setHasPublishAudioPermission] = useState<boolean>(initialState.hasPublishAudioPermission);
+    const hasPublishAudioPermission = state.hasPublishAudioPermission;
 
     /**
      * @memberof module:DeviceState
@@ -224,7 +129,7 @@ export function useDeviceState() {
      * console.log('Capture volume:', captureVolume);
      * ```
      */
-    const [captureVolume, setStateCaptureVolume] = useState<number>(initialState.captureVolume);
+    const captureVolume = state.captureVolume;
 
     /**
      * @memberof module:DeviceState
@@ -236,7 +141,7 @@ export function useDeviceState() {
      * console.log('Current microphone volume:', currentMicVolume);
      * ```
      */
-    const [currentMicVolume, setCurrentMicVolume] = useState<number>(initialState.currentMicVolume);
+    const currentMicVolume = state.currentMicVolume;
 
     /**
      * @memberof module:DeviceState
@@ -251,7 +156,7 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [cameraStatus, setCameraStatus] = useState<DeviceStatusType | undefined>(initialState.cameraStatus);
+    const cameraStatus = state.cameraStatus;
 
     /**
      * @memberof module:DeviceState
@@ -265,7 +170,7 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [cameraLastError, setCameraLastError] = useState<DeviceErrorType | undefined>(initialState.cameraLastError);
+    const cameraLastError = state.cameraLastError;
 
     /**
      * @memberof module:DeviceState
@@ -277,7 +182,7 @@ export function useDeviceState() {
      * console.log('Is front camera:', isFrontCamera);
      * ```
      */
-    const [isFrontCamera, setIsFrontCamera] = useState<boolean | undefined>(initialState.isFrontCamera);
+    const isFrontCamera = state.isFrontCamera;
 
     /**
      * @memberof module:DeviceState
@@ -289,7 +194,7 @@ export function useDeviceState() {
      * console.log('Local mirror type:', localMirrorType);
      * ```
      */
-    const [localMirrorType, setLocalMirrorType] = useState<MirrorType>(initialState.localMirrorType);
+    const localMirrorType = state.localMirrorType;
 
     /**
      * @memberof module:DeviceState
@@ -303,7 +208,7 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [localVideoQuality, setLocalVideoQuality] = useState<LocalVideoQuality | undefined>(initialState.localVideoQuality);
+    const localVideoQuality = state.localVideoQuality;
 
     /**
      * @memberof module:DeviceState
@@ -315,7 +220,7 @@ export function useDeviceState() {
      * console.log('Output volume:', outputVolume);
      * ```
      */
-    const [outputVolume, setStateOutputVolume] = useState<number>(initialState.outputVolume);
+    const outputVolume = state.outputVolume;
 
     /**
      * @memberof module:DeviceState
@@ -327,7 +232,7 @@ export function useDeviceState() {
      * console.log('Current audio route:', currentAudioRoute);
      * ```
      */
-    const [currentAudioRoute, setCurrentAudioRoute] = useState<AudioOutputType | undefined>(initialState.currentAudioRoute);
+    const currentAudioRoute = state.currentAudioRoute;
 
     /**
      * @memberof module:DeviceState
@@ -339,7 +244,7 @@ export function useDeviceState() {
      * console.log('Screen share status:', screenStatus);
      * ```
      */
-    const [screenStatus, setScreenStatus] = useState<DeviceStatusType | undefined>(initialState.screenStatus);
+    const screenStatus = state.screenStatus;
 
     /**
      * @memberof module:DeviceState
@@ -353,166 +258,51 @@ export function useDeviceState() {
      * }
      * ```
      */
-    const [networkInfo, setNetworkInfo] = useState<NetworkInfo | undefined>(initialState.networkInfo);
-
-    // Subscribe to global store state changes
-    useEffect(() => {
-        // Subscribe to state changes
-        const unsubscribe = deviceStore.subscribe((state) => {
-            setMicrophoneStatus(state.microphoneStatus);
-            setMicrophoneLastError(state.microphoneLastError);
-            setHasPublishAudioPermission(state.hasPublishAudioPermission);
-            setStateCaptureVolume(state.captureVolume);
-            setCurrentMicVolume(state.currentMicVolume);
-            setCameraStatus(state.cameraStatus);
-            setCameraLastError(state.cameraLastError);
-            setIsFrontCamera(state.isFrontCamera);
-            setLocalMirrorType(state.localMirrorType);
-            setLocalVideoQuality(state.localVideoQuality);
-            setStateOutputVolume(state.outputVolume);
-            setCurrentAudioRoute(state.currentAudioRoute);
-            setScreenStatus(state.screenStatus);
-            setNetworkInfo(state.networkInfo);
-        });
-
-        // Clean up subscription
-        return unsubscribe;
-    }, []);
+    const networkInfo = state.networkInfo;
 
-    type WritableMap = Record<string, unknown>;
+    const actions = useDeviceActions();
 
-    /**
-     * Handle device status change events
-     * Updates global store, which automatically notifies all subscribers
-     */
-    const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-        try {
-            // If event is already an object, use it directly; otherwise try to parse
-            const data = event && typeof event === 'object' && !Array.isArray(event)
-                ? event
-                : typeof event === 'string'
-                    ? JSON.parse(event)
-                    : event;
-
-            // Check if data's keys match any value in DEVICE_EVENTS
-            if (data && typeof data === 'object' && !Array.isArray(data)) {
-                const updates: Partial<typeof initialState> = {};
-
-                Object.keys(data).forEach((key) => {
-                    if (DEVICE_EVENTS.includes(key)) {
-                        const value = data[key];
-
-                        // Update corresponding reactive data based on different keys
-                        if (key === 'microphoneStatus') {
-                            const statusCode = typeof value === 'number' ? value : (Number(value) || -1);
-                            const status = mapStatusCodeToDeviceStatus(statusCode);
-                            if (status) {
-                                updates.microphoneStatus = status;
-                            }
-                        } else if (key === 'microphoneLastError') {
-                            const errorCode = typeof value === 'number' ? value : (Number(value) || -1);
-                            const error = mapErrorCodeToDeviceError(errorCode);
-                            if (error) {
-                                updates.microphoneLastError = error;
-                            }
-                        } else if (key === 'captureVolume') {
-                            const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-                            updates.captureVolume = parsedData;
-                        } else if (key === 'currentMicVolume') {
-                            const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-                            updates.currentMicVolume = parsedData;
-                        } else if (key === 'outputVolume') {
-                            const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-                            updates.outputVolume = parsedData;
-                        } else if (key === 'cameraStatus') {
-                            const statusCode = typeof value === 'number' ? value : (Number(value) || -1);
-                            const status = mapStatusCodeToDeviceStatus(statusCode);
-                            if (status) {
-                                updates.cameraStatus = status;
-                            }
-                        } else if (key === 'cameraLastError') {
-                            const errorCode = typeof value === 'number' ? value : (Number(value) || -1);
-                            const error = mapErrorCodeToDeviceError(errorCode);
-                            if (error) {
-                                updates.cameraLastError = error;
-                            }
-                        } else if (key === 'isFrontCamera') {
-                            const parsedData = typeof value === 'boolean' ? value : Boolean(value);
-                            updates.isFrontCamera = parsedData;
-                        } else if (key === 'localMirrorType') {
-                            const parsedData = typeof value === 'number' ? value as MirrorType : (Number(value) as MirrorType);
-                            updates.localMirrorType = parsedData;
-                        } else if (key === 'localVideoQuality') {
-                            const payloadStr = typeof value === 'string' ? value : JSON.stringify(value);
-                            const parsedData = safeJsonParse<LocalVideoQuality>(payloadStr, {} as LocalVideoQuality);
-                            updates.localVideoQuality = parsedData;
-                        } else if (key === 'currentAudioRoute') {
-                            const payloadStr = typeof value === 'string' ? value : JSON.stringify(value);
-                            const parsedData = safeJsonParse<AudioOutputType>(payloadStr, AudioOutput.SPEAKERPHONE);
-                            updates.currentAudioRoute = parsedData;
-                        } else if (key === 'screenStatus') {
-                            const statusCode = typeof value === 'number' ? value : (Number(value) || -1);
-                            const status = mapStatusCodeToDeviceStatus(statusCode);
-                            if (status) {
-                                updates.screenStatus = status;
-                            }
-                        } else if (key === 'networkInfo') {
-                            const payloadStr = typeof value === 'string' ? value : JSON.stringify(value);
-                            const parsedData = safeJsonParse<NetworkInfo>(payloadStr, {} as NetworkInfo);
-                            updates.networkInfo = parsedData;
-                        }
-                    }
-                });
-
-                // Batch update global store (only update once to avoid multiple notifications)
-                if (Object.keys(updates).length > 0) {
-                    deviceStore.setState(updates);
-                }
-            }
-        } catch (error) {
-            console.error(`[DeviceState] ${eventName} event parse error:`, error);
-        }
-    }, []);
+    return {
+        // Microphone-related state - read from global store
+        microphoneStatus,
+        microphoneLastError,
+        hasPublishAudioPermission,
+        captureVolume,
+        currentMicVolume,
 
-    /**
-     * Bind event listeners
-     */
-    useEffect(() => {
-        const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-            return {
-                type: 'state',
-                store: 'DeviceStore',
-                name: eventName,
-                roomID: null,
-                listenerID: listenerID ?? null,
-            };
-        };
-        // Save references to listener cleanup functions
-        const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-        DEVICE_EVENTS.forEach((eventName) => {
-            const keyObject = createListenerKeyObject(eventName);
-            const key = JSON.stringify(keyObject);
-            // addListener automatically registers event listeners for both Native side and JS layer
-            const subscription = addListener(key, handleEvent(eventName));
-            if (subscription) {
-                cleanupFunctions.push(subscription);
-            }
-        });
-
-        return () => {
-            DEVICE_EVENTS.forEach((eventName) => {
-                const keyObject = createListenerKeyObject(eventName);
-                const key = JSON.stringify(keyObject);
-                removeListener(key);
-            });
-            // Also clean up JS layer subscriptions
-            cleanupFunctions.forEach((cleanup) => {
-                cleanup.remove();
-            });
-        };
-    }, [handleEvent]);
+        // Camera-related state - read from global store
+        cameraStatus,
+        cameraLastError,
+        isFrontCamera,
+        localMirrorType,  // Key: read from store
+        localVideoQuality,
+
+        // Audio output-related state - read from global store
+        outputVolume,
+        currentAudioRoute,
+
+        // Screen share-related state - read from global store
+        screenStatus,
 
+        // Network info state - read from global store
+        networkInfo,
+
+        // Methods
+        ...actions,
+    };
+}
+
+/**
+ * Device actions and listeners without subscribing to the device state
+ * currentMicVolume changes with every volume callback, so components that only operate on devices should use this hook
+ *
+ * @example
+ * ```tsx
+ * const { openLocalCamera, openLocalMicrophone } = useDeviceActions();
+ * const isFrontCamera = useDeviceSelector((state) => state.isFrontCamera);
+ * ```
+ */
+export function useDeviceActions() {
     /**
      * Request Android permissions
      * 
@@ -594,11 +384,11 @@ export function useDeviceState() {
                 // Only trigger callback on success, state update is handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Open local microphone failed');
+                const error = AtomicXError.fromResult('openLocalMicrophone', result, 'Open local microphone failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('openLocalMicrophone', error);
             onError?.(err);
         }
     }, [requestAndroidPermission]);
@@ -611,11 +401,22 @@ export function useDeviceState() {
      * closeLocalMicrophone();
      * ```
      */
-    const closeLocalMicrophone = useCallback(async (): Promise<void> => {
+    const closeLocalMicrophone = useCallback(async (params?: DeviceActionOptions): Promise<void> => {
+        const { onSuccess, onError } = params || {};
+
         try {
-            await callNativeAPI<void>('closeLocalMicrophone');
+            const result = await callNativeAPI<void>('closeLocalMicrophone');
+
+            if (result.success) {
+                onSuccess?.();
+            } else {
+                const error = AtomicXError.fromResult('closeLocalMicrophone', result, 'Close local microphone failed');
+                console.error('closeLocalMicrophone error:', error);
+                onError?.(error);
+            }
         } catch (error) {
             console.error('closeLocalMicrophone error:', error);
+            onError?.(AtomicXError.from('closeLocalMicrophone', error));
         }
     }, []);
 
@@ -641,11 +442,11 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set capture volume failed');
+                const error = AtomicXError.fromResult('setCaptureVolume', result, 'Set capture volume failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setCaptureVolume', error);
             onError?.(err);
         }
     }, []);
@@ -672,11 +473,11 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set output volume failed');
+                const error = AtomicXError.fromResult('setOutputVolume', result, 'Set output volume failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setOutputVolume', error);
             onError?.(err);
         }
     }, []);
@@ -709,11 +510,11 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Set audio route failed');
+                const error = AtomicXError.fromResult('setAudioRoute', result, 'Set audio route failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('setAudioRoute', error);
             onError?.(err);
         }
     }, []);
@@ -746,11 +547,11 @@ export function useDeviceState() {
                 // Only trigger callback on success, state update is handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Open local camera failed');
+                const error = AtomicXError.fromResult('openLocalCamera', result, 'Open local camera failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('openLocalCamera', error);
             onError?.(err);
         }
     }, [requestAndroidPermission]);
@@ -763,11 +564,22 @@ export function useDeviceState() {
      * closeLocalCamera();
      * ```
      */
-    const closeLocalCamera = useCallback(async (): Promise<void> => {
+    const closeLocalCamera = useCallback(async (params?: DeviceActionOptions): Promise<void> => {
+        const { onSuccess, onError } = params || {};
+
         try {
-            await callNativeAPI<void>('closeLocalCamera');
+            const result = await callNativeAPI<void>('closeLocalCamera');
+
+            if (result.success) {
+                onSuccess?.();
+            } else {
+                const error = AtomicXError.fromResult('closeLocalCamera', result, 'Close local camera failed');
+                console.error('closeLocalCamera error:', error);
+                onError?.(error);
+            }
         } catch (error) {
             console.error('closeLocalCamera error:', error);
+            onError?.(AtomicXError.from('closeLocalCamera', error));
         }
     }, []);
 
@@ -793,11 +605,11 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Switch camera failed');
+                const error = AtomicXError.fromResult('switchCamera', result, 'Switch camera failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('switchCamera', error);
             onError?.(err);
         }
     }, []);
@@ -828,15 +640,15 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Switch mirror failed');
+                const error = AtomicXError.fromResult('switchMirror', result, 'Switch mirror failed');
                 onError?.(error);
             }
         } catch (error: any) {
             console.error('[DeviceState] switchMirror error:', error);
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('switchMirror', error);
             onError?.(err);
         }
-    }, [localMirrorType]);
+    }, []);
 
     /**
      * Update video quality
@@ -867,11 +679,11 @@ export function useDeviceState() {
             if (result.success) {
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Update video quality failed');
+                const error = AtomicXError.fromResult('updateVideoQuality', result, 'Update video quality failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('updateVideoQuality', error);
             onError?.(err);
         }
     }, []);
@@ -884,11 +696,22 @@ export function useDeviceState() {
      * startScreenShare();
      * ```
      */
-    const startScreenShare = useCallback(async (): Promise<void> => {
+    const startScreenShare = useCallback(async (params?: DeviceActionOptions): Promise<void> => {
+        const { onSuccess, onError } = params || {};
+
         try {
-            await callNativeAPI<void>('startScreenShare');
+            const result = await callNativeAPI<void>('startScreenShare');
+
+            if (result.success) {
+                onSuccess?.();
+            } else {
+                const error = AtomicXError.fromResult('startScreenShare', result, 'Start screen share failed');
+                console.error('startScreenShare error:', error);
+                onError?.(error);
+            }
         } catch (error) {
             console.error('startScreenShare error:', error);
+            onError?.(AtomicXError.from('startScreenShare', error));
         }
     }, []);
 
@@ -900,18 +723,32 @@ export function useDeviceState() {
      * stopScreenShare();
      * ```
      */
-    const stopScreenShare = useCallback(async (): Promise<void> => {
+    const stopScreenShare = useCallback(async (params?: DeviceActionOptions): Promise<void> => {
+        const { onSuccess, onError } = params || {};
+
         try {
-            await callNativeAPI<void>('stopScreenShare');
+            const result = await callNativeAPI<void>('stopScreenShare');
+
+            if (result.success) {
+                onSuccess?.();
+            } else {
+                const error = AtomicXError.fromResult('stopScreenShare', result, 'Stop screen share failed');
+                console.error('stopScreenShare error:', error);
+                onError?.(error);
+            }
         } catch (error) {
             console.error('stopScreenShare error:', error);
+            onError?.(AtomicXError.from('stopScreenShare', error));
         }
     }, []);
 
+    // 本 hook 注册的监听器，removeDeviceListener 只移除这些，不影响其他调用方
+    const [listenerGroup] = useState(createListenerGroup);
+
     /**
      * Add device event listener
      *
-     * @param eventName - Event name
+     * @param eventName - Event name, options: 'onDeviceStatusChanged'(device status changed)
      * @param listener - Event callback function
      * @param listenerID - Listener ID (optional)
      * @example
@@ -921,7 +758,7 @@ export function useDeviceState() {
      * });
      * ```
      */
-    const addDeviceListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+    const addDeviceListener = useCallback(<K extends DeviceEventName>(eventName: K, listener: StateEventListener<DeviceEventMap, K>, listenerID?: string): HybridSubscription | void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'DeviceStore',
@@ -929,20 +766,20 @@ export function useDeviceState() {
             roomID: null,
             listenerID: listenerID ?? null,
         };
-        addListener(JSON.stringify(createListenerKeyObject), listener);
-    }, []);
+        return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+    }, [listenerGroup]);
 
     /**
      * Remove device event listener
      *
-     * @param eventName - Event name
+     * @param eventName - Event name, options: 'onDeviceStatusChanged'(device status changed)
      * @param listenerID - Listener ID (optional)
      * @example
      * ```tsx
      * removeDeviceListener('onDeviceStatusChanged');
      * ```
      */
-    const removeDeviceListener = useCallback((eventName: string, listenerID?: string): void => {
+    const removeDeviceListener = useCallback((eventName: DeviceEventName, listenerID?: string): void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'DeviceStore',
@@ -950,35 +787,26 @@ export function useDeviceState() {
             roomID: null,
             listenerID: listenerID ?? null,
         };
-        removeListener(JSON.stringify(createListenerKeyObject));
-    }, []);
+        listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+    }, [listenerGroup]);
+
+    // Promise-based variants: resolve with native data, reject with AtomicXError
+    const asyncActions = useMemo(() => ({
+        openLocalMicrophoneAsync: toAsyncAction(openLocalMicrophone, 'openLocalMicrophone'),
+        setCaptureVolumeAsync: toAsyncAction(setCaptureVolume, 'setCaptureVolume'),
+        setOutputVolumeAsync: toAsyncAction(setOutputVolume, 'setOutputVolume'),
+        setAudioRouteAsync: toAsyncAction(setAudioRoute, 'setAudioRoute'),
+        openLocalCameraAsync: toAsyncAction(openLocalCamera, 'openLocalCamera'),
+        switchCameraAsync: toAsyncAction(switchCamera, 'switchCamera'),
+        switchMirrorAsync: toAsyncAction(switchMirror, 'switchMirror'),
+        updateVideoQualityAsync: toAsyncAction(updateVideoQuality, 'updateVideoQuality'),
+        closeLocalMicrophoneAsync: toAsyncAction(closeLocalMicrophone, 'closeLocalMicrophone'),
+        closeLocalCameraAsync: toAsyncAction(closeLocalCamera, 'closeLocalCamera'),
+        startScreenShareAsync: toAsyncAction(startScreenShare, 'startScreenShare'),
+        stopScreenShareAsync: toAsyncAction(stopScreenShare, 'stopScreenShare'),
+    }), [openLocalMicrophone, setCaptureVolume, setOutputVolume, setAudioRoute, openLocalCamera, switchCamera, switchMirror, updateVideoQuality, closeLocalMicrophone, closeLocalCamera, startScreenShare, stopScreenShare]);
 
     return {
-        // Microphone-related state - read from global store
-        microphoneStatus,
-        microphoneLastError,
-        hasPublishAudioPermission,
-        captureVolume,
-        currentMicVolume,
-
-        // Camera-related state - read from global store
-        cameraStatus,
-        cameraLastError,
-        isFrontCamera,
-        localMirrorType,  // Key: read from store
-        localVideoQuality,
-
-        // Audio output-related state - read from global store
-        outputVolume,
-        currentAudioRoute,
-
-        // Screen share-related state - read from global store
-        screenStatus,
-
-        // Network info state - read from global store
-        networkInfo,
-
-        // Methods
         openLocalMicrophone,         // Open local microphone
         closeLocalMicrophone,        // Close local microphone
         setCaptureVolume,            // Set capture volume
@@ -993,8 +821,22 @@ export function useDeviceState() {
         stopScreenShare,             // Stop screen share
         addDeviceListener,           // Add device event listener
         removeDeviceListener,        // Remove device event listener
+        ...asyncActions,    // Promise-based action variants
     };
 }
 
+/**
+ * Subscribe to a single slice of the device state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const cameraStatus = useDeviceSelector((state) => state.cameraStatus);
+ * ```
+ */
+export function useDeviceSelector<T>(selector: (state: DeviceState) => T, equalityFn?: EqualityFn<T>): T {
+    return deviceStore.useStore(selector, equalityFn);
+}
+
 export default useDeviceState;
 
@@ -1,22 +1,32 @@
 /**
  * DeviceState Store
- * 单例模式全局状态存储，解决设备状态在多个组件之间不共享的问题
+ * 全局设备状态，不区分直播间，由 createGlobalStore 统一管理 Native 订阅
+ * 解决设备状态在多个组件之间不共享的问题
  */
 
+import { createGlobalStore, stateDecoders } from '../../store';
 import type {
     DeviceStatusType,
+    DeviceStatusCodeType,
     DeviceErrorType,
+    DeviceErrorCodeType,
     AudioOutputType,
-    MirrorType,
     NetworkInfo,
     LocalVideoQuality,
 } from './types';
-import { MirrorType as MirrorTypeEnum } from './types';
+import {
+    DeviceStatus,
+    DeviceStatusCode,
+    DeviceErrorEnum,
+    DeviceErrorCode,
+    AudioOutput,
+    MirrorType,
+} from './types';
 
 /**
  * 全局设备状态结构
  */
-interface DeviceState {
+export interface DeviceState {
     microphoneStatus?: DeviceStatusType;
     microphoneLastError?: DeviceErrorType;
     hasPublishAudioPermission: boolean;
@@ -34,17 +44,54 @@ interface DeviceState {
 }
 
 /**
- * 状态变化监听器
+ * 设备状态码 -> 设备状态
+ */
+const DEVICE_STATUS_MAP: Record<DeviceStatusCodeType, DeviceStatusType> = {
+    [DeviceStatusCode.OFF]: DeviceStatus.OFF,
+    [DeviceStatusCode.ON]: DeviceStatus.ON,
+} as const;
+
+/**
+ * 设备错误码 -> 设备错误
+ */
+const DEVICE_ERROR_MAP: Record<DeviceErrorCodeType, DeviceErrorType> = {
+    [DeviceErrorCode.NO_ERROR]: DeviceErrorEnum.NO_ERROR,
+    [DeviceErrorCode.NO_DEVICE_DETECTED]: DeviceErrorEnum.NO_DEVICE_DETECTED,
+    [DeviceErrorCode.NO_SYSTEM_PERMISSION]: DeviceErrorEnum.NO_SYSTEM_PERMISSION,
+    [DeviceErrorCode.NOT_SUPPORT_CAPTURE]: DeviceErrorEnum.NOT_SUPPORT_CAPTURE,
+    [DeviceErrorCode.OCCUPIED_ERROR]: DeviceErrorEnum.OCCUPIED_ERROR,
+    [DeviceErrorCode.UNKNOWN_ERROR]: DeviceErrorEnum.UNKNOWN_ERROR,
+} as const;
+
+/**
+ * 解码设备状态，未知状态码忽略
  */
-type StateChangeListener = (state: DeviceState) => void;
+function decodeDeviceStatus(value: unknown): DeviceStatusType | undefined {
+    const statusCode = typeof value === 'number' ? value : (Number(value) || -1);
+    const mappedStatus = DEVICE_STATUS_MAP[statusCode as DeviceStatusCodeType];
+    if (!mappedStatus) {
+        console.warn(`Unknown device status code: ${statusCode}`);
+        return undefined;
+    }
+    return mappedStatus;
+}
 
 /**
- * 全局设备状态存储
- * 注意：设备状态是全局唯一的，不按 liveID 维度区分
+ * 解码设备错误，未知错误码忽略
  */
-class DeviceStore {
-    private static instance: DeviceStore;
-    private state: DeviceState = {
+function decodeDeviceError(value: unknown): DeviceErrorType | undefined {
+    const errorCode = typeof value === 'number' ? value : (Number(value) || -1);
+    const mappedError = DEVICE_ERROR_MAP[errorCode as DeviceErrorCodeType];
+    if (!mappedError) {
+        console.warn(`Unknown device error code: ${errorCode}`);
+        return undefined;
+    }
+    return mappedError;
+}
+
+export const deviceStore = createGlobalStore<DeviceState>({
+    storeName: 'DeviceStore',
+    initialState: () => ({
         microphoneStatus: undefined,
         microphoneLastError: undefined,
         hasPublishAudioPermission: true,
@@ -53,98 +100,26 @@ class DeviceStore {
         cameraStatus: undefined,
         cameraLastError: undefined,
         isFrontCamera: undefined,
-        localMirrorType: MirrorTypeEnum.AUTO,
+        localMirrorType: MirrorType.AUTO,
         localVideoQuality: undefined,
         outputVolume: 0,
         currentAudioRoute: undefined,
         screenStatus: undefined,
         networkInfo: undefined,
-    };
-    private listeners: Set<StateChangeListener> = new Set();
-
-    private constructor() { }
-
-    static getInstance(): DeviceStore {
-        if (!DeviceStore.instance) {
-            DeviceStore.instance = new DeviceStore();
-        }
-        return DeviceStore.instance;
-    }
-
-    /**
-     * 获取当前设备状态
-     */
-    getState(): DeviceState {
-        return this.state;
-    }
-
-    /**
-     * 更新设备状态（部分字段）
-     */
-    setState(updates: Partial<DeviceState>): void {
-        const hasChanged = Object.keys(updates).some(
-            (key) => this.state[key as keyof DeviceState] !== updates[key as keyof DeviceState]
-        );
-
-        if (hasChanged) {
-            this.state = {
-                ...this.state,
-                ...updates,
-            };
-            this.notifyListeners();
-        }
-    }
-
-    /**
-     * 订阅设备状态变化
-     */
-    subscribe(listener: StateChangeListener): () => void {
-        this.listeners.add(listener);
-
-        // 订阅时立即推一次当前快照，保证后挂载组件能拿到已有的设备状态
-        listener(this.state);
-
-        // 返回取消订阅函数
-        return () => {
-            this.listeners.delete(listener);
-        };
-    }
-
-    /**
-     * 通知所有订阅者
-     */
-    private notifyListeners(): void {
-        this.listeners.forEach((listener) => {
-            try {
-                listener(this.state);
-            } catch (error) {
-                console.error('[DeviceStore] Listener error:', error);
-            }
-        });
-    }
-
-    /**
-     * 清理当前设备状态（通常用于重置场景）
-     */
-    clearState(): void {
-        this.state = {
-            microphoneStatus: undefined,
-            microphoneLastError: undefined,
-            hasPublishAudioPermission: true,
-            captureVolume: 0,
-            currentMicVolume: 0,
-            cameraStatus: undefined,
-            cameraLastError: undefined,
-            isFrontCamera: undefined,
-            localMirrorType: MirrorTypeEnum.AUTO,
-            localVideoQuality: undefined,
-            outputVolume: 0,
-            currentAudioRoute: undefined,
-            screenStatus: undefined,
-            networkInfo: undefined,
-        };
-        this.notifyListeners();
-    }
-}
-
-export const deviceStore = DeviceStore.getInstance();
+    }),
+    decoders: {
+        microphoneStatus: decodeDeviceStatus,
+        microphoneLastError: decodeDeviceError,
+        captureVolume: stateDecoders.number(),
+        currentMicVolume: stateDecoders.number(),
+        outputVolume: stateDecoders.number(),
+        cameraStatus: decodeDeviceStatus,
+        cameraLastError: decodeDeviceError,
+        isFrontCamera: stateDecoders.boolean(),
+        localMirrorType: (value) => Number(value) as MirrorType,
+        localVideoQuality: stateDecoders.json<LocalVideoQuality>({} as LocalVideoQuality),
+        currentAudioRoute: stateDecoders.json<AudioOutputType>(AudioOutput.SPEAKERPHONE),
+        screenStatus: decodeDeviceStatus,
+        networkInfo: stateDecoders.json<NetworkInfo>({} as NetworkInfo),
+    },
+});
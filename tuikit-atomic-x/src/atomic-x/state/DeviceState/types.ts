@@ -74,6 +74,14 @@ export enum MirrorType {
   DISABLE = 2,
 }
 
+/**
+ * 无参数设备操作选项（关闭麦克风/摄像头、开始/停止屏幕分享）
+ */
+export interface DeviceActionOptions extends Record<string, unknown> {
+  onSuccess?: () => void;
+  onError?: (error: Error | string) => void;
+}
+
 /**
  * 打开本地麦克风选项
  */
@@ -157,3 +165,22 @@ export interface LocalVideoQuality extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 设备状态变化事件数据，只携带发生变化的设备
+ */
+export interface DeviceStatusChangedEvent {
+  microphoneStatus?: DeviceStatusType;
+  microphoneLastError?: DeviceErrorType;
+  cameraStatus?: DeviceStatusType;
+  cameraLastError?: DeviceErrorType;
+  screenStatus?: DeviceStatusType;
+}
+
+/**
+ * 设备事件表：事件名 -> 事件数据
+ */
+export interface DeviceEventMap {
+  onDeviceStatusChanged: DeviceStatusChangedEvent;
+}
+
+export type DeviceEventName = keyof DeviceEventMap;
@@ -0,0 +1,248 @@
+/**
+ * 礼物连击
+ *
+ * 同一用户在时间窗口内连续送出的同一礼物合并为一次连击，累计 ×N；
+ * 窗口内没有新的同类礼物时连击结束，通过监听器发出 `end` 事件
+ */
+
+import { addListener } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import { createDecodedListener } from '../../utils';
+import { giftStore } from './store';
+import type {
+  GiftCombo,
+  GiftComboEventType,
+  GiftComboListener,
+  GiftComboOptions,
+  ReceiveGiftEvent,
+} from './types';
+
+const LISTENER_ID = 'AtomicXGiftCombo';
+
+/**
+ * 进行中的连击及其超时定时器
+ */
+interface ActiveCombo {
+  combo: GiftCombo;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+const comboOptions: Required<GiftComboOptions> = {
+  windowMs: 3000,
+};
+
+// liveID -> 连击 key -> 进行中的连击
+const activeCombos = new Map<string, Map<string, ActiveCombo>>();
+// liveID -> 连击监听器
+const comboListeners = new Map<string, Set<GiftComboListener>>();
+// liveID -> 引用计数与 Native 订阅
+const comboRetains = new Map<string, { count: number; release: () => void }>();
+
+let comboSeq = 0;
+
+/**
+ * 配置礼物连击参数
+ *
+ * @example
+ * ```ts
+ * setGiftComboOptions({ windowMs: 5000 });
+ * ```
+ */
+export function setGiftComboOptions(options: GiftComboOptions): void {
+  if (options.windowMs !== undefined) {
+    comboOptions.windowMs = Math.max(0, options.windowMs);
+  }
+}
+
+/**
+ * 获取当前礼物连击配置
+ */
+export function getGiftComboOptions(): Required<GiftComboOptions> {
+  return { ...comboOptions };
+}
+
+function getComboKey(event: ReceiveGiftEvent): string {
+  return `${event.sender?.userID ?? ''}|${event.gift?.giftID ?? ''}`;
+}
+
+function emitComboEvent(liveID: string, type: GiftComboEventType, combo: GiftCombo): void {
+  comboListeners.get(liveID)?.forEach((listener) => {
+    try {
+      listener(type, combo);
+    } catch (error) {
+      console.error('[GiftCombo] listener error:', error);
+    }
+  });
+}
+
+// 按开始时间排序写入 giftStore，供 UI 渲染
+function syncComboState(liveID: string): void {
+  const combos = Array.from(activeCombos.get(liveID)?.values() ?? [])
+    .map(({ combo }) => combo)
+    .sort((a, b) => a.startedAt - b.startedAt);
+  giftStore.setState(liveID, { activeCombos: combos });
+}
+
+function endCombo(liveID: string, key: string): void {
+  const roomCombos = activeCombos.get(liveID);
+  const active = roomCombos?.get(key);
+  if (!roomCombos || !active) {
+    return;
+  }
+  roomCombos.delete(key);
+  if (roomCombos.size === 0) {
+    activeCombos.delete(liveID);
+  }
+  syncComboState(liveID);
+  emitComboEvent(liveID, 'end', active.combo);
+}
+
+/**
+ * 处理一次收到礼物事件，返回更新后的连击
+ */
+export function feedGiftCombo(liveID: string, event: ReceiveGiftEvent, now = Date.now()): GiftCombo | undefined {
+  if (!liveID || !event?.gift?.giftID) {
+    return undefined;
+  }
+  const key = getComboKey(event);
+  const count = event.count || 1;
+  let roomCombos = activeCombos.get(liveID);
+  if (!roomCombos) {
+    roomCombos = new Map();
+    activeCombos.set(liveID, roomCombos);
+  }
+
+  const existing = roomCombos.get(key);
+  const type: GiftComboEventType = existing ? 'update' : 'start';
+  if (existing) {
+    clearTimeout(existing.timer);
+  }
+  const combo: GiftCombo = existing
+    ? {
+      ...existing.combo,
+      gift: event.gift,
+      sender: event.sender ?? existing.combo.sender,
+      count: existing.combo.count + count,
+      streak: existing.combo.streak + 1,
+      updatedAt: now,
+      expiresAt: now + comboOptions.windowMs,
+    }
+    : {
+      comboID: `combo_${now}_${++comboSeq}`,
+      liveID,
+      gift: event.gift,
+      sender: event.sender,
+      count,
+      streak: 1,
+      startedAt: now,
+      updatedAt: now,
+      expiresAt: now + comboOptions.windowMs,
+    };
+  const timer = setTimeout(() => endCombo(liveID, key), comboOptions.windowMs);
+  roomCombos.set(key, { combo, timer });
+
+  syncComboState(liveID);
+  emitComboEvent(liveID, type, combo);
+  return combo;
+}
+
+/**
+ * 立即结束直播间内所有进行中的连击，会发出 `end` 事件
+ */
+export function flushGiftCombos(liveID: string): void {
+  const roomCombos = activeCombos.get(liveID);
+  if (!roomCombos) {
+    return;
+  }
+  Array.from(roomCombos.entries()).forEach(([key, active]) => {
+    clearTimeout(active.timer);
+    endCombo(liveID, key);
+  });
+}
+
+/**
+ * 丢弃直播间内所有进行中的连击，不发出 `end` 事件
+ */
+export function clearGiftCombos(liveID: string): void {
+  activeCombos.get(liveID)?.forEach(({ timer }) => clearTimeout(timer));
+  if (activeCombos.delete(liveID)) {
+    syncComboState(liveID);
+  }
+}
+
+/**
+ * 监听直播间的连击事件，返回移除函数
+ *
+ * @example
+ * ```ts
+ * const remove = addGiftComboListener(liveID, (type, combo) => {
+ *   if (type === 'end') {
+ *     console.log(combo.sender.userName, combo.gift.name, combo.count);
+ *   }
+ * });
+ * ```
+ */
+export function addGiftComboListener(liveID: string, listener: GiftComboListener): () => void {
+  let listeners = comboListeners.get(liveID);
+  if (!listeners) {
+    listeners = new Set();
+    comboListeners.set(liveID, listeners);
+  }
+  listeners.add(listener);
+  return () => {
+    const current = comboListeners.get(liveID);
+    current?.delete(listener);
+    if (current && current.size === 0) {
+      comboListeners.delete(liveID);
+    }
+  };
+}
+
+/**
+ * 引用计数 +1，首次引用时监听 Native 的收礼事件并开始统计连击；返回释放函数
+ * 最后一个引用释放时丢弃进行中的连击
+ */
+export function retainGiftCombos(liveID: string): () => void {
+  const retained = comboRetains.get(liveID);
+  if (retained) {
+    retained.count += 1;
+  } else {
+    const releaseStore = giftStore.retain(liveID);
+    const key: HybridListenerKey = {
+      type: 'state',
+      store: 'GiftStore',
+      name: 'onReceiveGift',
+      roomID: liveID,
+      listenerID: LISTENER_ID,
+    };
+    const subscription: HybridSubscription | void = addListener(
+      JSON.stringify(key),
+      createDecodedListener((event: ReceiveGiftEvent) => feedGiftCombo(liveID, event)),
+    );
+    comboRetains.set(liveID, {
+      count: 1,
+      release: () => {
+        subscription?.remove();
+        clearGiftCombos(liveID);
+        releaseStore();
+      },
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const current = comboRetains.get(liveID);
+    if (!current) {
+      return;
+    }
+    current.count -= 1;
+    if (current.count <= 0) {
+      comboRetains.delete(liveID);
+      current.release();
+    }
+  };
+}
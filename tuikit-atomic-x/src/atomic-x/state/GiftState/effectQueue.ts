@@ -0,0 +1,180 @@
+/**
+ * 礼物特效调度
+ *
+ * 全屏 SVGA 特效同一时间只播放一个，其余按优先级排队：
+ * 本地用户送出的礼物优先且总会播放，其次按礼物等级、单价排序，同优先级先到先播；
+ * 排队过多时丢弃低价值（单价低且未达到保留等级）的特效，超过上限时丢弃优先级最低的特效
+ */
+
+import type { GiftEffect, GiftEffectSchedulerOptions, GiftParam, ReceiveGiftEvent } from './types';
+
+/**
+ * 加入队列的礼物
+ */
+export interface GiftEffectInput extends Partial<Pick<ReceiveGiftEvent, 'count' | 'sender'>> {
+  gift: GiftParam;
+  isSelf?: boolean;
+}
+
+/**
+ * 礼物特效调度器
+ */
+export interface GiftEffectScheduler {
+  /** 加入队列，返回排队中的特效；没有可播放资源或被丢弃时返回 undefined */
+  enqueue(input: GiftEffectInput): GiftEffect | undefined;
+  /** 当前特效播放完成，开始播放下一个 */
+  finish(): void;
+  /** 清空队列并停止当前特效 */
+  clear(): void;
+  getCurrent(): GiftEffect | null;
+  getQueue(): GiftEffect[];
+  /** 监听当前播放的特效变化，返回移除函数 */
+  subscribe(listener: (current: GiftEffect | null) => void): () => void;
+}
+
+const DEFAULT_OPTIONS = {
+  maxQueueLength: 10,
+  loadThreshold: 5,
+  minCoinsUnderLoad: 100,
+};
+
+let effectSeq = 0;
+
+/**
+ * 获取礼物的 SVGA 特效地址，PNG 等静态资源没有特效，返回空字符串
+ */
+export function getGiftEffectURL(gift: GiftParam): string {
+  const resourceURL = gift.resourceURL || (gift.resourceUrl as string | undefined) || '';
+  const urlLower = resourceURL.toLowerCase();
+  if (!resourceURL || urlLower.endsWith('.png') || urlLower.includes('.png?')) {
+    return '';
+  }
+  return resourceURL;
+}
+
+/**
+ * 特效优先级比较，返回负数表示 a 先播放
+ */
+export function compareGiftEffects(a: GiftEffect, b: GiftEffect): number {
+  if (a.isSelf !== b.isSelf) {
+    return a.isSelf ? -1 : 1;
+  }
+  const levelDiff = (b.gift.level ?? 0) - (a.gift.level ?? 0);
+  if (levelDiff !== 0) {
+    return levelDiff;
+  }
+  const coinsDiff = (b.gift.coins ?? 0) - (a.gift.coins ?? 0);
+  if (coinsDiff !== 0) {
+    return coinsDiff;
+  }
+  return a.enqueuedAt - b.enqueuedAt;
+}
+
+/**
+ * 创建礼物特效调度器，每个特效播放视图对应一个调度器
+ *
+ * @example
+ * ```ts
+ * const scheduler = createGiftEffectScheduler({ maxQueueLength: 5 });
+ * scheduler.subscribe((effect) => effect && svgaRef.current?.startAnimation(effect.url));
+ * scheduler.enqueue({ gift, count, sender, isSelf: sender.userID === loginUserID });
+ * // SVGAAnimationView onFinished
+ * scheduler.finish();
+ * ```
+ */
+export function createGiftEffectScheduler(options: GiftEffectSchedulerOptions = {}): GiftEffectScheduler {
+  const maxQueueLength = Math.max(1, Math.floor(options.maxQueueLength ?? DEFAULT_OPTIONS.maxQueueLength));
+  const loadThreshold = Math.max(0, Math.floor(options.loadThreshold ?? DEFAULT_OPTIONS.loadThreshold));
+  const minCoinsUnderLoad = options.minCoinsUnderLoad ?? DEFAULT_OPTIONS.minCoinsUnderLoad;
+  const minLevelUnderLoad = options.minLevelUnderLoad;
+
+  let queue: GiftEffect[] = [];
+  let current: GiftEffect | null = null;
+  const listeners = new Set<(current: GiftEffect | null) => void>();
+
+  const notify = (): void => {
+    listeners.forEach((listener) => listener(current));
+  };
+
+  const drop = (effect: GiftEffect): void => {
+    options.onDrop?.(effect);
+  };
+
+  const isLowValue = (effect: GiftEffect): boolean => {
+    if (minLevelUnderLoad !== undefined && (effect.gift.level ?? 0) >= minLevelUnderLoad) {
+      return false;
+    }
+    return (effect.gift.coins ?? 0) < minCoinsUnderLoad;
+  };
+
+  const playNext = (): void => {
+    current = queue.shift() ?? null;
+    if (current) {
+      options.onPlay?.(current);
+    }
+    notify();
+  };
+
+  const enqueue = (input: GiftEffectInput): GiftEffect | undefined => {
+    const url = getGiftEffectURL(input.gift);
+    if (!url) {
+      return undefined;
+    }
+    const effect: GiftEffect = {
+      effectID: `effect_${++effectSeq}`,
+      url,
+      gift: input.gift,
+      count: input.count || 1,
+      sender: input.sender,
+      isSelf: !!input.isSelf,
+      enqueuedAt: effectSeq,
+    };
+
+    if (!effect.isSelf && queue.length >= loadThreshold && isLowValue(effect)) {
+      drop(effect);
+      return undefined;
+    }
+
+    queue = [...queue, effect].sort(compareGiftEffects);
+    if (queue.length > maxQueueLength) {
+      // 本地用户的特效不参与淘汰，全部是本地特效时允许超出上限
+      const victimIndex = queue.map((item) => item.isSelf).lastIndexOf(false);
+      if (victimIndex >= 0) {
+        const [victim] = queue.splice(victimIndex, 1);
+        drop(victim!);
+        if (victim === effect) {
+          return undefined;
+        }
+      }
+    }
+
+    if (!current) {
+      playNext();
+    }
+    return effect;
+  };
+
+  return {
+    enqueue,
+    finish: () => {
+      if (current) {
+        playNext();
+      }
+    },
+    clear: () => {
+      queue = [];
+      if (current) {
+        current = null;
+        notify();
+      }
+    },
+    getCurrent: () => current,
+    getQueue: () => [...queue],
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
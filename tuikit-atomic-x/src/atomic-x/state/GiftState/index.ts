@@ -8,44 +8,29 @@
  * Use Cases: Gift rewards, virtual currency, gift effects, gift statistics, and other commercialization scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   GiftCategoryParam,
   RefreshUsableGiftsOptions,
   SendGiftOptions,
   SetLanguageOptions,
+  GiftCombo,
+  GiftContributor,
+  GiftEventMap,
+  GiftEventName,
 } from './types';
-import { giftStore } from './store';
-
-/**
- * Gift listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Gift status event name constants
- */
-const GIFT_EVENTS = [
-  'usableGifts',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import { giftStore, giftWalletStore } from './store';
+import { retainGiftCombos } from './combo';
+import { retainGiftLeaderboard } from './leaderboard';
+import { debitGiftBalance, rechargeGiftBalance, refreshGiftBalance } from './wallet';
+import { preloadGiftResources } from '../../giftResource';
+import type { GiftState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * GiftState Hook
@@ -89,8 +74,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useGiftState(liveID: string) {
-  // Get initial state from global store
-  const initialState = giftStore.getState(liveID);
+  // Only subscribe to what this hook returns; combos and the leaderboard change on every gift and have their own hooks
+  const state = giftStore.useStore(liveID, (current) => ({ usableGifts: current.usableGifts }));
 
   /**
    * @memberof module:GiftState
@@ -108,125 +93,27 @@ export function useGiftState(liveID: string) {
    * });
    * ```
    */
-  const [usableGifts, setUsableGifts] = useState<GiftCategoryParam[]>(initialState.usableGifts);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = giftStore.subscribe(liveID, (state) => {
-      setUsableGifts(state.usableGifts);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
-
-  /**
-   * Handle gift status change events
-   * Updates global store, which automatically notifies all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[GiftState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data's keys match any value in GIFT_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          usableGifts?: GiftCategoryParam[];
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (GIFT_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'usableGifts') {
-              // usableGifts is array type
-              let parsedData: GiftCategoryParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as GiftCategoryParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<GiftCategoryParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<GiftCategoryParam[]>(JSON.stringify(value), []);
-              }
-              updates.usableGifts = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          giftStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[GiftState] ${eventName} event parse error:`, error);
-      console.log(`[GiftState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'GiftStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
+  const usableGifts = state.usableGifts;
 
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    GIFT_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener automatically registers event listeners for both Native side and JS layer
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
+  const actions = useGiftActions(liveID);
 
-      console.log(`[GiftState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      GIFT_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  return {
+    usableGifts,         // Usable gifts list
+    ...actions,
+  };
+}
 
+/**
+ * Gift actions and listeners without subscribing to the gift state
+ * Pages that only listen for gifts or set the language use this hook, so they don't re-render on every gift
+ *
+ * @example
+ * ```tsx
+ * const { addGiftListener, setLanguage } = useGiftActions(liveID);
+ * const usableGifts = useGiftSelector(liveID, (state) => state.usableGifts);
+ * ```
+ */
+export function useGiftActions(liveID: string) {
   /**
    * Refresh usable gifts list
    * 
@@ -240,24 +127,29 @@ export function useGiftState(liveID: string) {
    * });
    * ```
    */
-  const refreshUsableGifts = useCallback(async (params?: RefreshUsableGiftsOptions): Promise<void> => {
+  const refreshUsableGifts = useCallback(async (params?: RefreshUsableGiftsOptions): Promise<GiftCategoryParam[] | undefined> => {
     const { onSuccess, onError, ...refreshParams } = params || {};
 
     try {
       const result = await callNativeAPI<GiftCategoryParam[]>('refreshUsableGifts', refreshParams);
 
       if (result.success) {
+        // Download animation resources ahead of time so the first big gift plays smoothly
+        const categories = Array.isArray(result.data) ? result.data : giftStore.getState(liveID).usableGifts;
+        preloadGiftResources(categories).catch((error) => console.warn('[GiftState] preload gift resources failed:', error));
         // Only trigger callback on success, state update is handled by event listener
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Refresh usable gifts failed');
+        const error = AtomicXError.fromResult('refreshUsableGifts', result, 'Refresh usable gifts failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('refreshUsableGifts', error);
       onError?.(err);
     }
-  }, []);
+    return undefined;
+  }, [liveID]);
 
   /**
    * Send gift
@@ -278,25 +170,31 @@ export function useGiftState(liveID: string) {
   const sendGift = useCallback(async (params: SendGiftOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.giftID || params.count === undefined) {
-      const error = new Error('Missing required parameters: liveID, giftID or count');
+      const error = new AtomicXError('sendGift', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID, giftID or count');
       params.onError?.(error);
       return;
     }
 
     const { onSuccess, onError, ...giftParams } = params;
+    let settleDebit: ((success: boolean) => void) | undefined;
 
     try {
+      // Debit the wallet optimistically; throws InsufficientBalanceError when the balance can't cover the gift
+      settleDebit = debitGiftBalance(params.liveID, params.giftID, params.count);
       const result = await callNativeAPI<void>('sendGift', giftParams);
 
       if (result.success) {
+        settleDebit(true);
         // Only trigger callback on success, state update is handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Send gift failed');
+        settleDebit(false);
+        const error = AtomicXError.fromResult('sendGift', result, 'Send gift failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      settleDebit?.(false);
+      const err = AtomicXError.from('sendGift', error);
       onError?.(err);
     }
   }, []);
@@ -318,7 +216,7 @@ export function useGiftState(liveID: string) {
   const setLanguage = useCallback(async (params: SetLanguageOptions): Promise<void> => {
     // Validate required parameters
     if (!params.liveID || !params.language) {
-      const error = new Error('Missing required parameters: liveID or language');
+      const error = new AtomicXError('setLanguage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: liveID or language');
       params.onError?.(error);
       return;
     }
@@ -332,15 +230,18 @@ export function useGiftState(liveID: string) {
         // Only trigger callback on success, state update is handled by event listener
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Set language failed');
+        const error = AtomicXError.fromResult('setLanguage', result, 'Set language failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setLanguage', error);
       onError?.(err);
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeGiftListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add gift event listener
    * 
@@ -349,12 +250,12 @@ export function useGiftState(liveID: string) {
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addGiftListener('onReceiveGift', (params) => {
-   *   console.log('Received gift:', params);
+   * addGiftListener('onReceiveGift', ({ gift, count, sender }) => {
+   *   console.log('Received gift:', gift.name, count, sender.userID);
    * });
    * ```
    */
-  const addGiftListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addGiftListener = useCallback(<K extends GiftEventName>(eventName: K, listener: StateEventListener<GiftEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'GiftStore',
@@ -362,8 +263,8 @@ export function useGiftState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove gift event listener
@@ -375,7 +276,7 @@ export function useGiftState(liveID: string) {
    * removeGiftListener('onReceiveGift');
    * ```
    */
-  const removeGiftListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeGiftListener = useCallback((eventName: GiftEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'GiftStore',
@@ -383,18 +284,146 @@ export function useGiftState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    refreshUsableGiftsAsync: toAsyncAction(refreshUsableGifts, 'refreshUsableGifts'),
+    sendGiftAsync: toAsyncAction(sendGift, 'sendGift'),
+    setLanguageAsync: toAsyncAction(setLanguage, 'setLanguage'),
+  }), [refreshUsableGifts, sendGift, setLanguage]);
 
   return {
-    usableGifts,         // Usable gifts list
     refreshUsableGifts,  // Refresh usable gifts list
     sendGift,            // Send gift
     setLanguage,         // Set gift language
     addGiftListener,     // Add gift event listener
     removeGiftListener,  // Remove gift event listener
+    ...asyncActions,    // Promise-based action variants
+  };
+}
+
+/**
+ * Subscribe to a single slice of the gift state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const usableGifts = useGiftSelector(liveID, (state) => state.usableGifts);
+ * ```
+ */
+export function useGiftSelector<T>(liveID: string, selector: (state: GiftState) => T, equalityFn?: EqualityFn<T>): T {
+  return giftStore.useStore(liveID, selector, equalityFn);
+}
+
+/**
+ * Track gift combos of the live room
+ * Consecutive gifts from the same sender with the same giftID inside the combo window are merged into one streak
+ *
+ * @example
+ * ```tsx
+ * const combos = useGiftCombos(liveID);
+ *
+ * combos.map((combo) => (
+ *   <Text key={combo.comboID}>{combo.sender.userName} {combo.gift.name} ×{combo.count}</Text>
+ * ));
+ * ```
+ */
+export function useGiftCombos(liveID: string): GiftCombo[] {
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainGiftCombos(liveID);
+  }, [liveID]);
+
+  return giftStore.useStore(liveID, (state) => state.activeCombos);
+}
+
+/**
+ * Per-live gift leaderboard ranked by total coins
+ * Tracking starts when the first hook mounts; the ranking is kept after unmount so the end-of-live summary can read it
+ *
+ * @example
+ * ```tsx
+ * const { leaderboard, totalCoins } = useGiftLeaderboard(liveID);
+ *
+ * leaderboard.slice(0, 3).map((contributor, index) => (
+ *   <Text key={contributor.userID}>{index + 1}. {contributor.userName} {contributor.totalCoins}</Text>
+ * ));
+ * ```
+ */
+export function useGiftLeaderboard(liveID: string): { leaderboard: GiftContributor[]; totalCoins: number } {
+  useEffect(() => {
+    if (!liveID) {
+      return undefined;
+    }
+    return retainGiftLeaderboard(liveID);
+  }, [liveID]);
+
+  const leaderboard = giftStore.useStore(liveID, (state) => state.leaderboard);
+  const totalCoins = useMemo(() => leaderboard.reduce((sum, contributor) => sum + contributor.totalCoins, 0), [leaderboard]);
+
+  return {
+    leaderboard,  // Contributors sorted by total coins
+    totalCoins,   // Total coins received in this live
   };
 }
 
+/**
+ * Coin wallet provided by the host app via setGiftWalletProvider
+ * `balance` already excludes gifts that are still being sent, and is null until the first query finishes
+ *
+ * @example
+ * ```tsx
+ * const { hasWallet, balance, recharge } = useGiftWallet();
+ *
+ * {hasWallet && <Text onPress={recharge}>{balance ?? '--'}</Text>}
+ * ```
+ */
+export function useGiftWallet() {
+  const wallet = giftWalletStore.useStore((state) => state);
+  const balance = wallet.balance === null ? null : Math.max(0, wallet.balance - wallet.pendingDebit);
+
+  const refreshBalance = useCallback(() => refreshGiftBalance(), []);
+  const recharge = useCallback(() => rechargeGiftBalance(), []);
+
+  return {
+    hasWallet: wallet.hasWallet,  // Whether a wallet provider is set
+    balance,                      // Available balance
+    isLoading: wallet.isLoading,  // Querying balance
+    refreshBalance,               // Query balance again
+    recharge,                     // Open the host recharge flow, resolves false when not supported
+  };
+}
+
+export {
+  setGiftComboOptions,
+  getGiftComboOptions,
+  addGiftComboListener,
+  retainGiftCombos,
+  flushGiftCombos,
+  clearGiftCombos,
+} from './combo';
+export {
+  getGiftLeaderboard,
+  recordGiftContribution,
+  clearGiftLeaderboard,
+  retainGiftLeaderboard,
+} from './leaderboard';
+export {
+  setGiftWalletProvider,
+  getGiftWalletProvider,
+  getGiftBalance,
+  setGiftBalance,
+  refreshGiftBalance,
+  rechargeGiftBalance,
+  debitGiftBalance,
+  findUsableGift,
+} from './wallet';
+export { createGiftEffectScheduler, getGiftEffectURL, compareGiftEffects } from './effectQueue';
+export type { GiftEffectInput, GiftEffectScheduler } from './effectQueue';
+
 export default useGiftState;
 
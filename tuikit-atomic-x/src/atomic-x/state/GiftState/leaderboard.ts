@@ -0,0 +1,125 @@
+/**
+ * 送礼排行
+ *
+ * 根据收到礼物事件按送礼用户累计礼物价值（coins × 数量）、礼物数量和最近送礼时间。
+ * 排行数据在停止统计后仍然保留，直播结束页可以继续读取；同一 liveID 重新开播前需要调用 clearGiftLeaderboard
+ */
+
+import { addListener } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import { createDecodedListener } from '../../utils';
+import { giftStore } from './store';
+import type { GiftContributor, ReceiveGiftEvent } from './types';
+
+const LISTENER_ID = 'AtomicXGiftLeaderboard';
+
+// liveID -> userID -> 送礼贡献
+const contributors = new Map<string, Map<string, GiftContributor>>();
+// liveID -> 引用计数与 Native 订阅
+const leaderboardRetains = new Map<string, { count: number; release: () => void }>();
+
+/**
+ * 排行比较：累计价值高的在前，其次礼物数量多的在前，都相同时先达到的在前
+ */
+function compareContributors(a: GiftContributor, b: GiftContributor): number {
+  return b.totalCoins - a.totalCoins || b.giftCount - a.giftCount || a.lastGiftAt - b.lastGiftAt;
+}
+
+/**
+ * 获取直播间的送礼排行，limit 为空时返回全部
+ */
+export function getGiftLeaderboard(liveID: string, limit?: number): GiftContributor[] {
+  const sorted = Array.from(contributors.get(liveID)?.values() ?? []).sort(compareContributors);
+  return limit === undefined ? sorted : sorted.slice(0, Math.max(0, limit));
+}
+
+function syncLeaderboardState(liveID: string): void {
+  giftStore.setState(liveID, { leaderboard: getGiftLeaderboard(liveID) });
+}
+
+/**
+ * 记录一次收到礼物事件，返回送礼用户更新后的贡献
+ */
+export function recordGiftContribution(liveID: string, event: ReceiveGiftEvent, now = Date.now()): GiftContributor | undefined {
+  const userID = event?.sender?.userID;
+  if (!liveID || !userID || !event.gift) {
+    return undefined;
+  }
+  let roomContributors = contributors.get(liveID);
+  if (!roomContributors) {
+    roomContributors = new Map();
+    contributors.set(liveID, roomContributors);
+  }
+  const count = event.count || 1;
+  const previous = roomContributors.get(userID);
+  const contributor: GiftContributor = {
+    userID,
+    userName: event.sender.userName || previous?.userName,
+    avatarURL: event.sender.avatarURL || previous?.avatarURL,
+    totalCoins: (previous?.totalCoins ?? 0) + (event.gift.coins ?? 0) * count,
+    giftCount: (previous?.giftCount ?? 0) + count,
+    lastGiftAt: now,
+  };
+  roomContributors.set(userID, contributor);
+  syncLeaderboardState(liveID);
+  return contributor;
+}
+
+/**
+ * 清空直播间的送礼排行
+ */
+export function clearGiftLeaderboard(liveID: string): void {
+  if (contributors.delete(liveID)) {
+    syncLeaderboardState(liveID);
+  }
+}
+
+/**
+ * 引用计数 +1，首次引用时监听 Native 的收礼事件并开始统计；返回释放函数
+ * 释放后不再统计，已有的排行数据保留
+ */
+export function retainGiftLeaderboard(liveID: string): () => void {
+  const retained = leaderboardRetains.get(liveID);
+  if (retained) {
+    retained.count += 1;
+  } else {
+    const releaseStore = giftStore.retain(liveID);
+    // 状态被释放后重新创建时从统计数据恢复
+    syncLeaderboardState(liveID);
+    const key: HybridListenerKey = {
+      type: 'state',
+      store: 'GiftStore',
+      name: 'onReceiveGift',
+      roomID: liveID,
+      listenerID: LISTENER_ID,
+    };
+    const subscription: HybridSubscription | void = addListener(
+      JSON.stringify(key),
+      createDecodedListener((event: ReceiveGiftEvent) => recordGiftContribution(liveID, event)),
+    );
+    leaderboardRetains.set(liveID, {
+      count: 1,
+      release: () => {
+        subscription?.remove();
+        releaseStore();
+      },
+    });
+  }
+
+  let released = false;
+  return () => {
+    if (released) {
+      return;
+    }
+    released = true;
+    const current = leaderboardRetains.get(liveID);
+    if (!current) {
+      return;
+    }
+    current.count -= 1;
+    if (current.count <= 0) {
+      leaderboardRetains.delete(liveID);
+      current.release();
+    }
+  };
+}
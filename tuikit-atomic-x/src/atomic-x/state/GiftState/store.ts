@@ -1,123 +1,54 @@
 /**
  * GiftState Store
- * 单例模式全局状态存储，解决状态隔离问题
+ * 全局状态存储，按 liveID 区分直播间，由 createRoomStore 统一管理 Native 订阅
  */
 
-import type { GiftCategoryParam } from './types';
+import { createGlobalStore, createRoomStore, stateDecoders } from '../../store';
+import type { GiftCategoryParam, GiftCombo, GiftContributor } from './types';
 
 /**
  * 单个直播间的礼物状态
  */
-interface GiftState {
+export interface GiftState {
   usableGifts: GiftCategoryParam[];
+  /** 进行中的礼物连击，按开始时间排序，仅在本地维护 */
+  activeCombos: GiftCombo[];
+  /** 送礼排行，按累计价值从高到低排序，仅在本地维护 */
+  leaderboard: GiftContributor[];
 }
 
-/**
- * 状态变化监听器
- */
-type StateChangeListener = (state: GiftState) => void;
+export const giftStore = createRoomStore<GiftState>({
+  storeName: 'GiftStore',
+  initialState: () => ({
+    usableGifts: [],
+    activeCombos: [],
+    leaderboard: [],
+  }),
+  decoders: {
+    usableGifts: stateDecoders.json<GiftCategoryParam[]>([]),
+  },
+});
 
 /**
- * 全局状态存储
- * 按 liveID 索引，每个直播间有独立的状态
+ * 金币钱包状态，不区分直播间，仅在本地维护
  */
-class GiftStore {
-  private static instance: GiftStore;
-  private states: Map<string, GiftState> = new Map();
-  private listeners: Map<string, Set<StateChangeListener>> = new Map();
-
-  private constructor() {}
-
-  static getInstance(): GiftStore {
-    if (!GiftStore.instance) {
-      GiftStore.instance = new GiftStore();
-    }
-    return GiftStore.instance;
-  }
-
-  /**
-   * 获取指定直播间的状态
-   */
-  getState(liveID: string): GiftState {
-    if (!this.states.has(liveID)) {
-      this.states.set(liveID, {
-        usableGifts: [],
-      });
-    }
-    return this.states.get(liveID)!;
-  }
-
-  /**
-   * 更新指定直播间的状态
-   */
-  setState(liveID: string, updates: Partial<GiftState>): void {
-    const currentState = this.getState(liveID);
-    const newState: GiftState = {
-      ...currentState,
-      ...updates,
-    };
-    this.states.set(liveID, newState);
-
-    // 通知所有订阅者
-    this.notifyListeners(liveID, newState);
-  }
-
-  /**
-   * 订阅状态变化
-   */
-  subscribe(liveID: string, listener: StateChangeListener): () => void {
-    if (!this.listeners.has(liveID)) {
-      this.listeners.set(liveID, new Set());
-    }
-    this.listeners.get(liveID)!.add(listener);
-
-    // 立即通知当前状态
-    listener(this.getState(liveID));
-
-    // 返回取消订阅函数
-    return () => {
-      const liveListeners = this.listeners.get(liveID);
-      if (liveListeners) {
-        liveListeners.delete(listener);
-        if (liveListeners.size === 0) {
-          this.listeners.delete(liveID);
-        }
-      }
-    };
-  }
-
-  /**
-   * 通知所有订阅者
-   */
-  private notifyListeners(liveID: string, state: GiftState): void {
-    const liveListeners = this.listeners.get(liveID);
-    if (liveListeners) {
-      liveListeners.forEach((listener) => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[GiftStore] Listener error:', error);
-        }
-      });
-    }
-  }
-
-  /**
-   * 清理指定直播间的状态
-   */
-  clearState(liveID: string): void {
-    this.states.delete(liveID);
-    this.listeners.delete(liveID);
-  }
-
-  /**
-   * 清理所有状态
-   */
-  clearAll(): void {
-    this.states.clear();
-    this.listeners.clear();
-  }
+export interface GiftWalletState {
+  /** 是否设置了钱包 */
+  hasWallet: boolean;
+  /** 最近一次查询到的余额，未查询时为 null */
+  balance: number | null;
+  /** 发送中的礼物预扣的金币数 */
+  pendingDebit: number;
+  isLoading: boolean;
 }
 
-export const giftStore = GiftStore.getInstance();
-
+export const giftWalletStore = createGlobalStore<GiftWalletState>({
+  storeName: 'GiftWalletStore',
+  initialState: () => ({
+    hasWallet: false,
+    balance: null,
+    pendingDebit: 0,
+    isLoading: false,
+  }),
+  decoders: {},
+});
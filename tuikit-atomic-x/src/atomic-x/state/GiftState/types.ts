@@ -2,6 +2,8 @@
  * Gift State 类型定义
  */
 
+import type { LiveUserInfoParam } from '../LiveListState/types';
+
 /**
  * 礼物参数类型定义
  */
@@ -61,6 +63,119 @@ export interface SetLanguageOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 收到礼物事件数据
+ */
+export interface ReceiveGiftEvent {
+  liveID: string;
+  gift: GiftParam;
+  count: number;
+  sender: LiveUserInfoParam;
+}
+
+/**
+ * 礼物连击配置
+ */
+export interface GiftComboOptions {
+  /** 同一用户同一礼物两次之间的最大间隔，超过后连击结束，默认 3000ms */
+  windowMs?: number;
+}
+
+/**
+ * 礼物连击：同一用户在时间窗口内连续送出的同一礼物合并为一次连击
+ */
+export interface GiftCombo {
+  comboID: string;
+  liveID: string;
+  gift: GiftParam;
+  sender: LiveUserInfoParam;
+  /** 连击内累计的礼物数量 */
+  count: number;
+  /** 连击内收到的礼物事件次数 */
+  streak: number;
+  startedAt: number;
+  updatedAt: number;
+  /** 在此之前没有新的同类礼物则连击结束 */
+  expiresAt: number;
+}
+
+/**
+ * 连击事件类型
+ * - `start`: 新连击开始
+ * - `update`: 连击数量增加
+ * - `end`: 连击超时结束，combo 为最终结果
+ */
+export type GiftComboEventType = 'start' | 'update' | 'end';
+
+export type GiftComboListener = (type: GiftComboEventType, combo: GiftCombo) => void;
+
+/**
+ * 礼物特效调度配置
+ */
+export interface GiftEffectSchedulerOptions {
+  /** 等待播放的特效数量上限，超出后丢弃优先级最低的特效，默认 10 */
+  maxQueueLength?: number;
+  /** 排队数量达到该值时视为高负载，开始丢弃低价值特效，默认 5 */
+  loadThreshold?: number;
+  /** 高负载时单价低于该值的特效会被丢弃，默认 100 */
+  minCoinsUnderLoad?: number;
+  /** 高负载时等级达到该值的特效不受单价限制，不设置时只按单价判断 */
+  minLevelUnderLoad?: number;
+  /** 特效开始播放 */
+  onPlay?: (effect: GiftEffect) => void;
+  /** 特效被丢弃 */
+  onDrop?: (effect: GiftEffect) => void;
+}
+
+/**
+ * 等待播放的礼物特效
+ */
+export interface GiftEffect {
+  effectID: string;
+  /** SVGA 资源地址 */
+  url: string;
+  gift: GiftParam;
+  count: number;
+  sender?: LiveUserInfoParam;
+  /** 本地用户送出的礼物总会播放 */
+  isSelf: boolean;
+  enqueuedAt: number;
+}
+
+/**
+ * 送礼贡献：按送礼用户累计
+ */
+export interface GiftContributor {
+  userID: string;
+  userName?: string;
+  avatarURL?: string;
+  /** 累计送出的礼物价值（coins × 数量） */
+  totalCoins: number;
+  /** 累计送出的礼物数量 */
+  giftCount: number;
+  lastGiftAt: number;
+}
+
+/**
+ * 宿主 App 提供的金币钱包
+ * 组件库只负责展示余额、送礼前校验和本地预扣，实际扣费仍由 Native sendGift 完成
+ */
+export interface GiftWalletProvider {
+  /** 查询当前余额 */
+  getBalance(): Promise<number>;
+  /** 打开充值流程，完成后会重新查询余额 */
+  recharge?(): Promise<void> | void;
+}
+
+/**
+ * 礼物事件表：事件名 -> 事件数据
+ */
+export interface GiftEventMap {
+  onReceiveGift: ReceiveGiftEvent;
+}
+
+export type GiftEventName = keyof GiftEventMap;
+
 /**
  * 直播监听器接口
  */
@@ -0,0 +1,148 @@
+/**
+ * 金币钱包
+ *
+ * 余额由宿主 App 通过 setGiftWalletProvider 提供。送礼前按礼物价格（coins × 数量）校验可用余额，
+ * 余额不足时抛出 InsufficientBalanceError；校验通过后先在本地预扣，发送成功确认扣费，失败退回。
+ * 未设置钱包、余额未知或礼物价格未知时不做校验，由 Native 自行处理。
+ *
+ * @example
+ * ```ts
+ * setGiftWalletProvider({
+ *   getBalance: () => api.fetchCoinBalance(),
+ *   recharge: () => navigation.navigate('Recharge'),
+ * });
+ * ```
+ */
+
+import { InsufficientBalanceError } from '../../errors';
+import { giftStore, giftWalletStore } from './store';
+import type { GiftParam, GiftWalletProvider } from './types';
+
+let walletProvider: GiftWalletProvider | null = null;
+// 只采用最后一次查询的结果
+let refreshSeq = 0;
+
+function normalizeBalance(value: unknown): number {
+  const balance = Number(value);
+  return Number.isFinite(balance) ? Math.max(0, balance) : 0;
+}
+
+/**
+ * 设置钱包，传 null 关闭余额校验；设置后立即查询一次余额
+ */
+export function setGiftWalletProvider(provider: GiftWalletProvider | null): void {
+  walletProvider = provider;
+  refreshSeq += 1;
+  giftWalletStore.setState({ hasWallet: !!provider, balance: null, pendingDebit: 0, isLoading: false });
+  if (provider) {
+    refreshGiftBalance();
+  }
+}
+
+/**
+ * 获取当前设置的钱包
+ */
+export function getGiftWalletProvider(): GiftWalletProvider | null {
+  return walletProvider;
+}
+
+/**
+ * 获取可用余额（已扣除发送中的礼物），未设置钱包或未查询到余额时返回 null
+ */
+export function getGiftBalance(): number | null {
+  const { balance, pendingDebit } = giftWalletStore.getState();
+  return balance === null ? null : Math.max(0, balance - pendingDebit);
+}
+
+/**
+ * 宿主 App 主动更新余额，例如收到支付结果推送时
+ */
+export function setGiftBalance(balance: number): void {
+  if (!walletProvider) {
+    return;
+  }
+  refreshSeq += 1;
+  giftWalletStore.setState({ balance: normalizeBalance(balance), isLoading: false });
+}
+
+/**
+ * 重新查询余额，返回最新的可用余额；查询失败时保留原有余额
+ */
+export async function refreshGiftBalance(): Promise<number | null> {
+  const provider = walletProvider;
+  if (!provider) {
+    return null;
+  }
+  refreshSeq += 1;
+  const seq = refreshSeq;
+  giftWalletStore.setState({ isLoading: true });
+  try {
+    const balance = normalizeBalance(await provider.getBalance());
+    if (seq === refreshSeq) {
+      giftWalletStore.setState({ balance, isLoading: false });
+    }
+  } catch (error) {
+    console.warn('[GiftWallet] 查询余额失败:', error);
+    if (seq === refreshSeq) {
+      giftWalletStore.setState({ isLoading: false });
+    }
+  }
+  return getGiftBalance();
+}
+
+/**
+ * 打开宿主 App 的充值流程，完成后刷新余额；钱包未实现 recharge 时返回 false
+ */
+export async function rechargeGiftBalance(): Promise<boolean> {
+  const provider = walletProvider;
+  if (!provider?.recharge) {
+    return false;
+  }
+  await provider.recharge();
+  await refreshGiftBalance();
+  return true;
+}
+
+/**
+ * 在直播间礼物列表中查找礼物
+ */
+export function findUsableGift(liveID: string, giftID: string): GiftParam | undefined {
+  for (const category of giftStore.getState(liveID).usableGifts) {
+    const gift = category.giftList?.find((item) => item.giftID === giftID);
+    if (gift) {
+      return gift;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 送礼前预扣余额，返回结算函数：发送成功传 true 确认扣费，失败传 false 退回
+ * 可用余额不足时抛出 InsufficientBalanceError
+ */
+export function debitGiftBalance(liveID: string, giftID: string, count: number): (success: boolean) => void {
+  const gift = findUsableGift(liveID, giftID);
+  const balance = getGiftBalance();
+  const amount = (gift?.coins ?? 0) * Math.max(0, count);
+  if (!walletProvider || balance === null || amount <= 0) {
+    return () => undefined;
+  }
+  if (amount > balance) {
+    throw new InsufficientBalanceError('sendGift', amount, balance);
+  }
+
+  giftWalletStore.setState((state) => ({ pendingDebit: state.pendingDebit + amount }));
+  const provider = walletProvider;
+  let settled = false;
+  return (success: boolean) => {
+    // 期间切换了钱包，预扣记录已被重置
+    if (settled || walletProvider !== provider) {
+      return;
+    }
+    settled = true;
+    giftWalletStore.setState((state) => ({
+      pendingDebit: Math.max(0, state.pendingDebit - amount),
+      balance: success && state.balance !== null ? Math.max(0, state.balance - amount) : state.balance,
+    }));
+  };
+}
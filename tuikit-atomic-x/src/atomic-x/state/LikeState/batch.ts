@@ -0,0 +1,409 @@
+/**
+ * 点赞合并发送与点赞爆发
+ *
+ * 本地点击通过 queueLike 累积，距上次发送不足时间窗口时合并为一次 sendLike({ count })；
+ * 点击后立即计入乐观计数，收到本人的点赞消息后按发送顺序抵扣，发送失败时撤销。
+ * 其他观众的点赞不参与抵扣；发送成功后迟迟没有本人消息时超时抵扣，避免乐观计数一直残留。
+ * 收到的点赞消息按用户在时间窗口内合并为一次点赞爆发，避免热门直播间逐条处理。
+ */
+
+import { addListener } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import { callNativeAPI, createDecodedListener } from '../../utils';
+import { loginStore } from '../LoginState/store';
+import { likeStore } from './store';
+import type {
+    LikeBatchOptions,
+    LikeBurst,
+    LikeBurstListener,
+    ReceiveLikesMessageEvent,
+} from './types';
+
+const LISTENER_ID = 'AtomicXLikeBurst';
+const CONFIRM_LISTENER_ID = 'AtomicXLikeConfirm';
+// sendLike 成功后等待本人点赞消息的最长时间
+const CONFIRM_TIMEOUT_MS = 10000;
+
+/**
+ * 单个直播间待发送的点赞
+ */
+interface LikeBatch {
+    pending: number;
+    timer: ReturnType<typeof setTimeout> | null;
+    lastSentAt: number;
+}
+
+/**
+ * 已发送、等待本人点赞消息确认的一批点赞
+ */
+interface SentLikes {
+    count: number;
+    timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * 进行中的点赞爆发及其结束定时器
+ */
+interface ActiveBurst {
+    burst: LikeBurst;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const batchOptions: Required<LikeBatchOptions> = {
+    windowMs: 6000,
+    burstWindowMs: 1000,
+};
+
+// liveID -> 待发送的点赞
+const likeBatches = new Map<string, LikeBatch>();
+// liveID -> userID -> 进行中的点赞爆发
+const activeBursts = new Map<string, Map<string, ActiveBurst>>();
+// liveID -> 按发送顺序排列的待确认点赞，以及监听本人点赞消息的订阅
+const sentLikes = new Map<string, { batches: SentLikes[]; subscription: HybridSubscription | void }>();
+// liveID -> 点赞爆发监听器
+const burstListeners = new Map<string, Set<LikeBurstListener>>();
+// liveID -> 引用计数与 Native 订阅
+const burstRetains = new Map<string, { count: number; release: () => void }>();
+
+let burstSeq = 0;
+
+/**
+ * 配置点赞合并参数
+ *
+ * @example
+ * ```ts
+ * setLikeBatchOptions({ windowMs: 3000, burstWindowMs: 500 });
+ * ```
+ */
+export function setLikeBatchOptions(options: LikeBatchOptions): void {
+    if (options.windowMs !== undefined) {
+        batchOptions.windowMs = Math.max(0, options.windowMs);
+    }
+    if (options.burstWindowMs !== undefined) {
+        batchOptions.burstWindowMs = Math.max(0, options.burstWindowMs);
+    }
+}
+
+/**
+ * 获取当前点赞合并配置
+ */
+export function getLikeBatchOptions(): Required<LikeBatchOptions> {
+    return { ...batchOptions };
+}
+
+function syncUnconfirmedCount(liveID: string): void {
+    const sent = sentLikes.get(liveID);
+    const unconfirmedLikeCount = sent?.batches.reduce((sum, batch) => sum + batch.count, 0) ?? 0;
+    likeStore.setState(liveID, { unconfirmedLikeCount });
+    if (sent && sent.batches.length === 0) {
+        sent.subscription?.remove();
+        sentLikes.delete(liveID);
+    }
+}
+
+function removeSentLikes(liveID: string, batch: SentLikes): void {
+    const sent = sentLikes.get(liveID);
+    const index = sent?.batches.indexOf(batch) ?? -1;
+    if (!sent || index < 0) {
+        return;
+    }
+    if (batch.timer) {
+        clearTimeout(batch.timer);
+    }
+    sent.batches.splice(index, 1);
+    syncUnconfirmedCount(liveID);
+}
+
+/**
+ * 收到本人的点赞消息，按发送顺序抵扣待确认的点赞
+ * 消息带有 count 时抵扣对应数量，否则视为确认最早发送的一批
+ */
+export function confirmSentLikes(liveID: string, event: ReceiveLikesMessageEvent): void {
+    const sent = sentLikes.get(liveID);
+    const selfUserID = loginStore.getState().loginUserInfo?.userID;
+    if (!sent || !selfUserID || event?.sender?.userID !== selfUserID) {
+        return;
+    }
+    let remaining = Number(event.count) > 0 ? Number(event.count) : sent.batches[0]?.count ?? 0;
+    while (remaining > 0 && sent.batches.length > 0) {
+        const batch = sent.batches[0]!;
+        const consumed = Math.min(batch.count, remaining);
+        batch.count -= consumed;
+        remaining -= consumed;
+        if (batch.count === 0) {
+            if (batch.timer) {
+                clearTimeout(batch.timer);
+            }
+            sent.batches.shift();
+        }
+    }
+    syncUnconfirmedCount(liveID);
+}
+
+function trackSentLikes(liveID: string, count: number): SentLikes {
+    let sent = sentLikes.get(liveID);
+    if (!sent) {
+        const key: HybridListenerKey = {
+            type: 'state',
+            store: 'LikeStore',
+            name: 'onReceiveLikesMessage',
+            roomID: liveID,
+            listenerID: CONFIRM_LISTENER_ID,
+        };
+        sent = {
+            batches: [],
+            subscription: addListener(
+                JSON.stringify(key),
+                createDecodedListener((event: ReceiveLikesMessageEvent) => confirmSentLikes(liveID, event)),
+            ),
+        };
+        sentLikes.set(liveID, sent);
+    }
+    const batch: SentLikes = { count, timer: null };
+    sent.batches.push(batch);
+    syncUnconfirmedCount(liveID);
+    return batch;
+}
+
+/**
+ * 立即发送直播间内累积的点赞，返回是否发送成功；没有待发送的点赞时返回 true
+ */
+export async function flushLikes(liveID: string): Promise<boolean> {
+    const batch = likeBatches.get(liveID);
+    if (batch?.timer) {
+        clearTimeout(batch.timer);
+        batch.timer = null;
+    }
+    if (!batch || batch.pending <= 0) {
+        return true;
+    }
+
+    const count = batch.pending;
+    batch.pending = 0;
+    batch.lastSentAt = Date.now();
+    likeStore.setState(liveID, (state) => ({
+        pendingLikeCount: Math.max(0, state.pendingLikeCount - count),
+    }));
+    const sent = trackSentLikes(liveID, count);
+
+    try {
+        const result = await callNativeAPI<void>('sendLike', { liveID, count });
+        if (result.success) {
+            // 本人点赞消息可能已先到达并完成抵扣
+            if (sent.count > 0 && sentLikes.get(liveID)?.batches.includes(sent)) {
+                sent.timer = setTimeout(() => removeSentLikes(liveID, sent), CONFIRM_TIMEOUT_MS);
+            }
+            return true;
+        }
+        console.warn('[LikeBatch] sendLike failed:', result.error);
+    } catch (error) {
+        console.warn('[LikeBatch] sendLike failed:', error);
+    }
+    // 发送失败，撤销乐观计数
+    removeSentLikes(liveID, sent);
+    return false;
+}
+
+/**
+ * 累积一次本地点赞：距上次发送超过时间窗口时立即发送，否则在窗口结束时合并发送
+ */
+export function queueLike(liveID: string, count = 1): void {
+    if (!liveID || count <= 0) {
+        return;
+    }
+    let batch = likeBatches.get(liveID);
+    if (!batch) {
+        batch = { pending: 0, timer: null, lastSentAt: 0 };
+        likeBatches.set(liveID, batch);
+    }
+    batch.pending += count;
+    likeStore.setState(liveID, (state) => ({ pendingLikeCount: state.pendingLikeCount + count }));
+
+    if (batch.timer) {
+        return;
+    }
+    const elapsed = Date.now() - batch.lastSentAt;
+    if (elapsed >= batchOptions.windowMs) {
+        flushLikes(liveID);
+        return;
+    }
+    batch.timer = setTimeout(() => {
+        flushLikes(liveID);
+    }, batchOptions.windowMs - elapsed);
+}
+
+/**
+ * 丢弃直播间内待发送的点赞，不调用 sendLike
+ */
+export function clearLikeBatch(liveID: string): void {
+    const batch = likeBatches.get(liveID);
+    if (!batch) {
+        return;
+    }
+    if (batch.timer) {
+        clearTimeout(batch.timer);
+    }
+    likeBatches.delete(liveID);
+    if (batch.pending > 0) {
+        likeStore.setState(liveID, (state) => ({
+            pendingLikeCount: Math.max(0, state.pendingLikeCount - batch.pending),
+        }));
+    }
+}
+
+function endBurst(liveID: string, userID: string): void {
+    const roomBursts = activeBursts.get(liveID);
+    const active = roomBursts?.get(userID);
+    if (!roomBursts || !active) {
+        return;
+    }
+    roomBursts.delete(userID);
+    if (roomBursts.size === 0) {
+        activeBursts.delete(liveID);
+    }
+    const burst = { ...active.burst, endedAt: Date.now() };
+    burstListeners.get(liveID)?.forEach((listener) => {
+        try {
+            listener(burst);
+        } catch (error) {
+            console.error('[LikeBurst] listener error:', error);
+        }
+    });
+}
+
+/**
+ * 处理一条收到的点赞消息，返回该用户更新后的点赞爆发
+ */
+export function feedLikeBurst(liveID: string, event: ReceiveLikesMessageEvent, now = Date.now()): LikeBurst | undefined {
+    const userID = event?.sender?.userID;
+    if (!liveID || !userID) {
+        return undefined;
+    }
+    // totalLikesReceived 是直播间总数，包含其他观众的点赞，不能用来推算单个用户的点赞数
+    const count = Number(event.count) > 0 ? Number(event.count) : 1;
+
+    let roomBursts = activeBursts.get(liveID);
+    if (!roomBursts) {
+        roomBursts = new Map();
+        activeBursts.set(liveID, roomBursts);
+    }
+    const existing = roomBursts.get(userID);
+    if (existing) {
+        existing.burst = {
+            ...existing.burst,
+            sender: event.sender,
+            count: existing.burst.count + count,
+        };
+        return existing.burst;
+    }
+
+    const burst: LikeBurst = {
+        burstID: `like_${now}_${++burstSeq}`,
+        liveID,
+        sender: event.sender,
+        count,
+        startedAt: now,
+        endedAt: now,
+    };
+    // 窗口从第一条消息开始计时，持续点赞时按窗口周期发出
+    const timer = setTimeout(() => endBurst(liveID, userID), batchOptions.burstWindowMs);
+    roomBursts.set(userID, { burst, timer });
+    return burst;
+}
+
+/**
+ * 立即结束直播间内所有进行中的点赞爆发并通知监听器
+ */
+export function flushLikeBursts(liveID: string): void {
+    const roomBursts = activeBursts.get(liveID);
+    if (!roomBursts) {
+        return;
+    }
+    Array.from(roomBursts.entries()).forEach(([userID, active]) => {
+        clearTimeout(active.timer);
+        endBurst(liveID, userID);
+    });
+}
+
+/**
+ * 丢弃直播间内所有进行中的点赞爆发，不通知监听器
+ */
+export function clearLikeBursts(liveID: string): void {
+    activeBursts.get(liveID)?.forEach(({ timer }) => clearTimeout(timer));
+    activeBursts.delete(liveID);
+}
+
+/**
+ * 监听直播间的点赞爆发，返回移除函数
+ *
+ * @example
+ * ```ts
+ * const remove = addLikeBurstListener(liveID, (burst) => {
+ *   console.log(burst.sender.userName, burst.count);
+ * });
+ * ```
+ */
+export function addLikeBurstListener(liveID: string, listener: LikeBurstListener): () => void {
+    let listeners = burstListeners.get(liveID);
+    if (!listeners) {
+        listeners = new Set();
+        burstListeners.set(liveID, listeners);
+    }
+    listeners.add(listener);
+    return () => {
+        const current = burstListeners.get(liveID);
+        current?.delete(listener);
+        if (current && current.size === 0) {
+            burstListeners.delete(liveID);
+        }
+    };
+}
+
+/**
+ * 引用计数 +1，首次引用时监听 Native 的点赞消息并开始合并点赞爆发；返回释放函数
+ * 最后一个引用释放时丢弃进行中的点赞爆发
+ */
+export function retainLikeBursts(liveID: string): () => void {
+    const retained = burstRetains.get(liveID);
+    if (retained) {
+        retained.count += 1;
+    } else {
+        const releaseStore = likeStore.retain(liveID);
+        const key: HybridListenerKey = {
+            type: 'state',
+            store: 'LikeStore',
+            name: 'onReceiveLikesMessage',
+            roomID: liveID,
+            listenerID: LISTENER_ID,
+        };
+        const subscription: HybridSubscription | void = addListener(
+            JSON.stringify(key),
+            createDecodedListener((event: ReceiveLikesMessageEvent) => feedLikeBurst(liveID, event)),
+        );
+        burstRetains.set(liveID, {
+            count: 1,
+            release: () => {
+                subscription?.remove();
+                clearLikeBursts(liveID);
+                releaseStore();
+            },
+        });
+    }
+
+    let released = false;
+    return () => {
+        if (released) {
+            return;
+        }
+        released = true;
+        const current = burstRetains.get(liveID);
+        if (!current) {
+            return;
+        }
+        current.count -= 1;
+        if (current.count <= 0) {
+            burstRetains.delete(liveID);
+            current.release();
+        }
+    };
+}
@@ -8,41 +8,21 @@
  * Use Cases: Like interactions, popularity statistics, interactive effects, user participation, and other basic interaction scenarios.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
     SendLikeOptions,
+    LikeEventMap,
+    LikeEventName,
 } from './types';
 import { likeStore } from './store';
-
-/**
- * Like listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Like status event name constants
- */
-const LIKE_EVENTS = [
-    'totalLikeCount',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-    try {
-        if (!json || typeof json !== 'string') {
-            return defaultValue;
-        }
-        return JSON.parse(json) as T;
-    } catch (error) {
-        console.error('safeJsonParse error:', error);
-        return defaultValue;
-    }
-}
+import { flushLikes, queueLike } from './batch';
+import type { LikeState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * LikeState Hook
@@ -77,8 +57,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useLikeState(liveID: string) {
-    // Get initial state from global store
-    const initialState = likeStore.getState(liveID);
+    // Read state from the global store; native listeners are registered once and shared by every mounted hook
+    const state = likeStore.useStore(liveID, (current) => current);
 
     /**
      * @memberof module:LikeState
@@ -90,117 +70,30 @@ export function useLikeState(liveID: string) {
      * console.log('Total like count:', totalLikeCount);
      * ```
      */
-    const [totalLikeCount, setTotalLikeCount] = useState<number>(initialState.totalLikeCount);
-
-    // Subscribe to global store state changes
-    useEffect(() => {
-        if (!liveID) {
-            return;
-        }
-
-        // Subscribe to state changes
-        const unsubscribe = likeStore.subscribe(liveID, (state) => {
-            setTotalLikeCount(state.totalLikeCount);
-        });
-
-        // Clean up subscription
-        return unsubscribe;
-    }, [liveID]);
-
-    // Event listener references
-    type WritableMap = Record<string, unknown>;
-
-    /**
-     * Handle like status change events
-     * Updates global store, which automatically notifies all subscribers
-     */
-    const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-        try {
-            // If event is already an object, use it directly; otherwise try to parse
-            const data = event && typeof event === 'object' && !Array.isArray(event)
-                ? event
-                : typeof event === 'string'
-                    ? JSON.parse(event)
-                    : event;
-
-            console.log(`[LikeState] ${eventName} event received:`, JSON.stringify(data));
-
-            // Check if data's keys match any value in LIKE_EVENTS
-            if (data && typeof data === 'object' && !Array.isArray(data)) {
-                const updates: {
-                    totalLikeCount?: number;
-                } = {};
-
-                Object.keys(data).forEach((key) => {
-                    if (LIKE_EVENTS.includes(key)) {
-                        const value = data[key];
-
-                        // Update corresponding reactive data based on different keys
-                        if (key === 'totalLikeCount') {
-                            // totalLikeCount is number type
-                            const parsedData = typeof value === 'number' ? value : (Number(value) || 0);
-                            updates.totalLikeCount = parsedData;
-                        }
-                    }
-                });
-
-                // Batch update global store (only update once to avoid multiple notifications)
-                if (Object.keys(updates).length > 0) {
-                    likeStore.setState(liveID, updates);
-                }
-            }
-        } catch (error) {
-            console.error(`[LikeState] ${eventName} event parse error:`, error);
-            console.log(`[LikeState] ${eventName} event received (raw):`, event);
-        }
-    }, [liveID]);
-
-    /**
-     * Bind event listeners
-     */
-    useEffect(() => {
-        if (!liveID) {
-            return;
-        }
-
-        const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-            return {
-                type: 'state',
-                store: 'LikeStore',
-                name: eventName,
-                roomID: liveID ?? null,
-                listenerID: listenerID ?? null,
-            };
-        };
+    const totalLikeCount = state.totalLikeCount;
 
-        // Save references to listener cleanup functions
-        const cleanupFunctions: Array<{ remove: () => void }> = [];
+    // Optimistic count: server total plus local likes that are queued or not yet reflected in it
+    const displayLikeCount = totalLikeCount + state.pendingLikeCount + state.unconfirmedLikeCount;
 
-        LIKE_EVENTS.forEach((eventName) => {
-            const keyObject = createListenerKeyObject(eventName);
-            const key = JSON.stringify(keyObject);
-            console.log(key);
-            // addListener automatically registers event listeners for both Native side and JS layer
-            const subscription = addListener(key, handleEvent(eventName));
-            if (subscription) {
-                cleanupFunctions.push(subscription);
-            }
+    const actions = useLikeActions(liveID);
 
-            console.log(`[LikeState] Added listener for: ${eventName}, eventName=${key}`);
-        });
-        return () => {
-            LIKE_EVENTS.forEach((eventName) => {
-                const keyObject = createListenerKeyObject(eventName);
-                const key = JSON.stringify(keyObject);
-                removeListener(key);
-            });
-            // Also clean up JS layer subscriptions
-            cleanupFunctions.forEach((cleanup) => {
-                cleanup.remove();
-            });
-        };
-    }, [handleEvent, liveID]);
+    return {
+        totalLikeCount,       // Total like count
+        displayLikeCount,     // Total like count including local likes not yet confirmed by the server
+        ...actions,
+    };
+}
 
+/**
+ * Like actions and listeners without subscribing to the like state
+ * Components that only send likes use this hook, so like count updates don't re-render them
+ *
+ * @example
+ * ```tsx
+ * const { sendLike, addLikeListener } = useLikeActions(liveID);
+ * ```
+ */
+export function useLikeActions(liveID: string) {
     /**
      * Send like
      * 
@@ -225,15 +118,41 @@ export function useLikeState(liveID: string) {
                 // Only trigger callback on success, state update is handled by event listener
                 onSuccess?.();
             } else {
-                const error = new Error(result.error || 'Send like failed');
+                const error = AtomicXError.fromResult('sendLike', result, 'Send like failed');
                 onError?.(error);
             }
         } catch (error: any) {
-            const err = error instanceof Error ? error : new Error(String(error));
+            const err = AtomicXError.from('sendLike', error);
             onError?.(err);
         }
     }, []);
 
+    /**
+     * Queue a local like; taps inside the batch window are coalesced into one sendLike({ count })
+     *
+     * @param count - Like count, default 1
+     * @example
+     * ```tsx
+     * <TouchableOpacity onPress={() => queueLike()} />
+     * ```
+     */
+    const queueLikeAction = useCallback((count?: number): void => {
+        queueLike(liveID, count);
+    }, [liveID]);
+
+    /**
+     * Send queued likes immediately, e.g. before leaving the live room
+     *
+     * @example
+     * ```tsx
+     * useEffect(() => () => { flushLikes(); }, [flushLikes]);
+     * ```
+     */
+    const flushLikesAction = useCallback((): Promise<boolean> => flushLikes(liveID), [liveID]);
+
+    // 本 hook 注册的监听器，removeLikeListener 只移除这些，不影响其他调用方
+    const [listenerGroup] = useState(createListenerGroup);
+
     /**
      * Add like event listener
      * 
@@ -242,12 +161,12 @@ export function useLikeState(liveID: string) {
      * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addLikeListener('onReceiveLikesMessage', (params) => {
-   *   console.log('Received like message:', params);
+   * addLikeListener('onReceiveLikesMessage', ({ totalLikesReceived, sender }) => {
+   *   console.log('Received like message:', totalLikesReceived, sender.userID);
    * });
    * ```
      */
-    const addLikeListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+    const addLikeListener = useCallback(<K extends LikeEventName>(eventName: K, listener: StateEventListener<LikeEventMap, K>, listenerID?: string): HybridSubscription | void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'LikeStore',
@@ -255,8 +174,8 @@ export function useLikeState(liveID: string) {
             roomID: liveID ?? null,
             listenerID: listenerID ?? null,
         };
-        addListener(JSON.stringify(createListenerKeyObject), listener);
-    }, [liveID]);
+        return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+    }, [liveID, listenerGroup]);
 
     /**
      * Remove like event listener
@@ -268,7 +187,7 @@ export function useLikeState(liveID: string) {
    * removeLikeListener('onReceiveLikesMessage');
    * ```
      */
-    const removeLikeListener = useCallback((eventName: string, listenerID?: string): void => {
+    const removeLikeListener = useCallback((eventName: LikeEventName, listenerID?: string): void => {
         const createListenerKeyObject: HybridListenerKey = {
             type: 'state',
             store: 'LikeStore',
@@ -276,16 +195,49 @@ export function useLikeState(liveID: string) {
             roomID: liveID ?? null,
             listenerID: listenerID ?? null,
         };
-        removeListener(JSON.stringify(createListenerKeyObject));
-    }, [liveID]);
+        listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+    }, [liveID, listenerGroup]);
+
+    // Promise-based variants: resolve with native data, reject with AtomicXError
+    const asyncActions = useMemo(() => ({
+        sendLikeAsync: toAsyncAction(sendLike, 'sendLike'),
+    }), [sendLike]);
 
     return {
-        totalLikeCount,       // Total like count
         sendLike,             // Send like
+        queueLike: queueLikeAction,    // Queue a like to be sent in batch
+        flushLikes: flushLikesAction,  // Send queued likes now
         addLikeListener,      // Add like event listener
         removeLikeListener,   // Remove like event listener
+        ...asyncActions,    // Promise-based action variants
     };
 }
 
+/**
+ * Subscribe to a single slice of the like state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const totalLikeCount = useLikeSelector(liveID, (state) => state.totalLikeCount);
+ * ```
+ */
+export function useLikeSelector<T>(liveID: string, selector: (state: LikeState) => T, equalityFn?: EqualityFn<T>): T {
+    return likeStore.useStore(liveID, selector, equalityFn);
+}
+
+export {
+    setLikeBatchOptions,
+    getLikeBatchOptions,
+    queueLike,
+    flushLikes,
+    clearLikeBatch,
+    feedLikeBurst,
+    flushLikeBursts,
+    clearLikeBursts,
+    addLikeBurstListener,
+    retainLikeBursts,
+} from './batch';
+
 export default useLikeState;
 
@@ -1,121 +1,30 @@
 /**
  * LikeState Store
- * 单例模式全局状态存储，解决状态隔离问题
+ * 全局状态存储，按 liveID 区分直播间，由 createRoomStore 统一管理 Native 订阅
  */
 
+import { createRoomStore, stateDecoders } from '../../store';
+
 /**
  * 单个直播间的点赞状态
  */
-interface LikeState {
-  totalLikeCount: number;
+export interface LikeState {
+    /** 服务端下发的总点赞数 */
+    totalLikeCount: number;
+    /** 本地已点击、等待合并发送的点赞数，仅在本地维护 */
+    pendingLikeCount: number;
+    /** 已发送、尚未收到本人点赞消息确认的点赞数，仅在本地维护 */
+    unconfirmedLikeCount: number;
 }
 
-/**
- * 状态变化监听器
- */
-type StateChangeListener = (state: LikeState) => void;
-
-/**
- * 全局状态存储
- * 按 liveID 索引，每个直播间有独立的状态
- */
-class LikeStore {
-  private static instance: LikeStore;
-  private states: Map<string, LikeState> = new Map();
-  private listeners: Map<string, Set<StateChangeListener>> = new Map();
-
-  private constructor() {}
-
-  static getInstance(): LikeStore {
-    if (!LikeStore.instance) {
-      LikeStore.instance = new LikeStore();
-    }
-    return LikeStore.instance;
-  }
-
-  /**
-   * 获取指定直播间的状态
-   */
-  getState(liveID: string): LikeState {
-    if (!this.states.has(liveID)) {
-      this.states.set(liveID, {
+export const likeStore = createRoomStore<LikeState>({
+    storeName: 'LikeStore',
+    initialState: () => ({
         totalLikeCount: 0,
-      });
-    }
-    return this.states.get(liveID)!;
-  }
-
-  /**
-   * 更新指定直播间的状态
-   */
-  setState(liveID: string, updates: Partial<LikeState>): void {
-    const currentState = this.getState(liveID);
-    const newState: LikeState = {
-      ...currentState,
-      ...updates,
-    };
-    this.states.set(liveID, newState);
-
-    // 通知所有订阅者
-    this.notifyListeners(liveID, newState);
-  }
-
-  /**
-   * 订阅状态变化
-   */
-  subscribe(liveID: string, listener: StateChangeListener): () => void {
-    if (!this.listeners.has(liveID)) {
-      this.listeners.set(liveID, new Set());
-    }
-    this.listeners.get(liveID)!.add(listener);
-
-    // 立即通知当前状态
-    listener(this.getState(liveID));
-
-    // 返回取消订阅函数
-    return () => {
-      const liveListeners = this.listeners.get(liveID);
-      if (liveListeners) {
-        liveListeners.delete(listener);
-        if (liveListeners.size === 0) {
-          this.listeners.delete(liveID);
-        }
-      }
-    };
-  }
-
-  /**
-   * 通知所有订阅者
-   */
-  private notifyListeners(liveID: string, state: LikeState): void {
-    const liveListeners = this.listeners.get(liveID);
-    if (liveListeners) {
-      liveListeners.forEach((listener) => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[LikeStore] Listener error:', error);
-        }
-      });
-    }
-  }
-
-  /**
-   * 清理指定直播间的状态
-   */
-  clearState(liveID: string): void {
-    this.states.delete(liveID);
-    this.listeners.delete(liveID);
-  }
-
-  /**
-   * 清理所有状态
-   */
-  clearAll(): void {
-    this.states.clear();
-    this.listeners.clear();
-  }
-}
-
-export const likeStore = LikeStore.getInstance();
-
+        pendingLikeCount: 0,
+        unconfirmedLikeCount: 0,
+    }),
+    decoders: {
+        totalLikeCount: stateDecoders.number(),
+    },
+});
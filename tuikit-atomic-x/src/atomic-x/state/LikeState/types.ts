@@ -2,6 +2,8 @@
  * Like State 类型定义
  */
 
+import type { LiveUserInfoParam } from '../LiveListState/types';
+
 /**
  * 发送点赞选项
  */
@@ -12,6 +14,51 @@ export interface SendLikeOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 收到点赞事件数据
+ */
+export interface ReceiveLikesMessageEvent {
+  liveID: string;
+  totalLikesReceived: number;
+  sender: LiveUserInfoParam;
+  /** 本条消息的点赞数，Native 未提供时按 1 计 */
+  count?: number;
+}
+
+/**
+ * 点赞合并配置
+ */
+export interface LikeBatchOptions {
+  /** 两次 sendLike 之间的最小间隔，期间的点赞合并为一次发送，默认 6000ms */
+  windowMs?: number;
+  /** 同一用户的点赞消息合并为一次点赞爆发的时间窗口，默认 1000ms */
+  burstWindowMs?: number;
+}
+
+/**
+ * 点赞爆发：同一用户在时间窗口内的点赞合并
+ */
+export interface LikeBurst {
+  burstID: string;
+  liveID: string;
+  sender: LiveUserInfoParam;
+  /** 窗口内的点赞数，消息带 count 时累加 count，否则每条消息按 1 计 */
+  count: number;
+  startedAt: number;
+  endedAt: number;
+}
+
+export type LikeBurstListener = (burst: LikeBurst) => void;
+
+/**
+ * 点赞事件表：事件名 -> 事件数据
+ */
+export interface LikeEventMap {
+  onReceiveLikesMessage: ReceiveLikesMessageEvent;
+}
+
+export type LikeEventName = keyof LikeEventMap;
+
 /**
  * 直播监听器接口
  */
@@ -8,10 +8,12 @@
  * Use Cases: Audience management, permission control, live room order maintenance, audience interaction management, and other core business scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   LiveUserInfoParam,
   FetchAudienceListOptions,
@@ -19,13 +21,12 @@ import type {
   RevokeAdministratorOptions,
   KickUserOutOfRoomOptions,
   DisableSendMessageOptions,
+  LiveAudienceEventMap,
+  LiveAudienceEventName,
 } from './types';
 import { liveAudienceStore } from './store';
-
-/**
- * Audience listener function type
- */
-type ILiveListener = (params?: unknown) => void;
+import type { LiveAudienceState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * LiveAudienceState Hook
@@ -58,8 +59,8 @@ type ILiveListener = (params?: unknown) => void;
  * ```
  */
 export function useLiveAudienceState(liveID: string) {
-  // Get initial state from global store
-  const initialState = liveAudienceStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = liveAudienceStore.useStore(liveID, (current) => current);
 
   /**
    * @memberof module:LiveAudienceState
@@ -74,7 +75,7 @@ export function useLiveAudienceState(liveID: string) {
    * });
    * ```
    */
-  const [audienceList, setAudienceList] = useState<LiveUserInfoParam[]>(initialState.audienceList);
+  const audienceList = state.audienceList;
 
   /**
    * @memberof module:LiveAudienceState
@@ -89,26 +90,10 @@ export function useLiveAudienceState(liveID: string) {
    * console.log('Audience count:', displayText);
    * ```
    */
-  const [audienceCount, setAudienceCount] = useState<number>(0);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = liveAudienceStore.subscribe(liveID, (state) => {
-      setAudienceList(state.audienceList);
-      const displayCount = state.audienceCount >= 100 
-        ? state.audienceCount 
-        : state.audienceList.length;
-      setAudienceCount(displayCount);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
+  // Native audienceCount is only precise above 100; below that the list itself is authoritative
+  const audienceCount = state.audienceCount >= 100
+    ? state.audienceCount
+    : state.audienceList.length;
 
   /**
    * Fetch live room audience list
@@ -123,7 +108,7 @@ export function useLiveAudienceState(liveID: string) {
    * });
    * ```
    */
-  const fetchAudienceList = useCallback(async (params?: FetchAudienceListOptions): Promise<void> => {
+  const fetchAudienceList = useCallback(async (params?: FetchAudienceListOptions): Promise<LiveUserInfoParam[] | undefined> => {
     const { onSuccess, onError, ...fetchParams } = params || {};
 
     try {
@@ -131,14 +116,16 @@ export function useLiveAudienceState(liveID: string) {
 
       if (result.success) {
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Fetch audience list failed');
+        const error = AtomicXError.fromResult('fetchAudienceList', result, 'Fetch audience list failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('fetchAudienceList', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -158,7 +145,7 @@ export function useLiveAudienceState(liveID: string) {
   const setAdministrator = useCallback(async (params: SetAdministratorOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('setAdministrator', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -171,11 +158,11 @@ export function useLiveAudienceState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Set administrator failed');
+        const error = AtomicXError.fromResult('setAdministrator', result, 'Set administrator failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setAdministrator', error);
       onError?.(err);
     }
   }, []);
@@ -197,7 +184,7 @@ export function useLiveAudienceState(liveID: string) {
   const revokeAdministrator = useCallback(async (params: RevokeAdministratorOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('revokeAdministrator', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -210,11 +197,11 @@ export function useLiveAudienceState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Revoke administrator failed');
+        const error = AtomicXError.fromResult('revokeAdministrator', result, 'Revoke administrator failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('revokeAdministrator', error);
       onError?.(err);
     }
   }, []);
@@ -236,7 +223,7 @@ export function useLiveAudienceState(liveID: string) {
   const kickUserOutOfRoom = useCallback(async (params: KickUserOutOfRoomOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('kickUserOutOfRoom', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -249,11 +236,11 @@ export function useLiveAudienceState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Kick user out of room failed');
+        const error = AtomicXError.fromResult('kickUserOutOfRoom', result, 'Kick user out of room failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('kickUserOutOfRoom', error);
       onError?.(err);
     }
   }, []);
@@ -276,7 +263,7 @@ export function useLiveAudienceState(liveID: string) {
   const disableSendMessage = useCallback(async (params: DisableSendMessageOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID || params.isDisable === undefined) {
-      const error = new Error('Missing required parameters: userID or isDisable');
+      const error = new AtomicXError('disableSendMessage', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: userID or isDisable');
       params.onError?.(error);
       return;
     }
@@ -289,15 +276,18 @@ export function useLiveAudienceState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Disable send message failed');
+        const error = AtomicXError.fromResult('disableSendMessage', result, 'Disable send message failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('disableSendMessage', error);
       onError?.(err);
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeAudienceListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add audience event listener
    * 
@@ -306,12 +296,12 @@ export function useLiveAudienceState(liveID: string) {
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addAudienceListener('onAudienceJoined', (params) => {
-   *   console.log('Audience joined:', params);
+   * addAudienceListener('onAudienceJoined', ({ audience }) => {
+   *   console.log('Audience joined:', audience.userID);
    * });
    * ```
    */
-  const addAudienceListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addAudienceListener = useCallback(<K extends LiveAudienceEventName>(eventName: K, listener: StateEventListener<LiveAudienceEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveAudienceStore',
@@ -319,8 +309,8 @@ export function useLiveAudienceState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove audience event listener
@@ -332,7 +322,7 @@ export function useLiveAudienceState(liveID: string) {
    * removeAudienceListener('onAudienceJoined');
    * ```
    */
-  const removeAudienceListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeAudienceListener = useCallback((eventName: LiveAudienceEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveAudienceStore',
@@ -340,8 +330,17 @@ export function useLiveAudienceState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    fetchAudienceListAsync: toAsyncAction(fetchAudienceList, 'fetchAudienceList'),
+    setAdministratorAsync: toAsyncAction(setAdministrator, 'setAdministrator'),
+    revokeAdministratorAsync: toAsyncAction(revokeAdministrator, 'revokeAdministrator'),
+    kickUserOutOfRoomAsync: toAsyncAction(kickUserOutOfRoom, 'kickUserOutOfRoom'),
+    disableSendMessageAsync: toAsyncAction(disableSendMessage, 'disableSendMessage'),
+  }), [fetchAudienceList, setAdministrator, revokeAdministrator, kickUserOutOfRoom, disableSendMessage]);
 
   return {
     audienceList,              // Live room audience list
@@ -353,9 +352,22 @@ export function useLiveAudienceState(liveID: string) {
     disableSendMessage,         // Disable user from sending messages
     addAudienceListener,       // Add audience event listener
     removeAudienceListener,     // Remove audience event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
-export default useLiveAudienceState;
+/**
+ * Subscribe to a single slice of the audience state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const audienceList = useLiveAudienceSelector(liveID, (state) => state.audienceList);
+ * ```
+ */
+export function useLiveAudienceSelector<T>(liveID: string, selector: (state: LiveAudienceState) => T, equalityFn?: EqualityFn<T>): T {
+  return liveAudienceStore.useStore(liveID, selector, equalityFn);
+}
 
+export default useLiveAudienceState;
 
@@ -2,6 +2,18 @@
  * LiveAudience State 类型定义
  */
 
+/**
+ * 直播间用户角色，取值与 RoomEngine 的 TUIRole 一致
+ */
+export enum LiveUserRole {
+  /** 房主 */
+  OWNER = 0,
+  /** 管理员 */
+  ADMINISTRATOR = 1,
+  /** 普通用户 */
+  GENERAL_USER = 2,
+}
+
 /**
  * 直播用户信息参数
  */
@@ -9,7 +21,7 @@ export interface LiveUserInfoParam {
   userID: string;
   nickname?: string;
   avatarURL?: string;
-  role?: string;
+  role?: LiveUserRole;
   [key: string]: unknown;
 }
 
@@ -63,6 +75,23 @@ export interface DisableSendMessageOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 观众进出房事件数据
+ */
+export interface AudienceEvent {
+  audience: LiveUserInfoParam;
+}
+
+/**
+ * 观众事件表：事件名 -> 事件数据
+ */
+export interface LiveAudienceEventMap {
+  onAudienceJoined: AudienceEvent;
+  onAudienceLeft: AudienceEvent;
+}
+
+export type LiveAudienceEventName = keyof LiveAudienceEventMap;
+
 /**
  * 直播监听器接口
  */
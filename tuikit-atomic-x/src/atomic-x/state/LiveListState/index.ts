@@ -8,10 +8,12 @@
  * Use Cases: Live list display, live room creation, live status management, live data statistics, and other core business scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   LiveInfoParam,
   FetchLiveListOptions,
@@ -21,34 +23,13 @@ import type {
   EndLiveOptions,
   UpdateLiveInfoOptions,
   CallExperimentalAPIOptions,
-  ILiveListener,
+  LiveListEventMap,
+  LiveListEventName,
 } from './types';
 import { validateRequired } from '../../utils';
 import { liveListStore } from './store';
-
-/**
- * Live list event name constants
- */
-const LIVE_LIST_EVENTS = [
-  'liveList',
-  'liveListCursor',
-  'currentLive',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { LiveListState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * LiveListState Hook
@@ -75,8 +56,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useLiveListState() {
-  // Get initial snapshot from global store, ensuring late-mounted components can access existing list and currentLive
-  const initialState = liveListStore.getState();
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = liveListStore.useStore((current) => current);
 
   /**
    * @memberof module:LiveListState
@@ -92,7 +73,7 @@ export function useLiveListState() {
    * });
    * ```
    */
-  const [liveList, setLiveList] = useState<LiveInfoParam[]>(initialState.liveList);
+  const liveList = state.liveList;
 
   /**
    * @memberof module:LiveListState
@@ -112,7 +93,7 @@ export function useLiveListState() {
    * }
    * ```
    */
-  const [liveListCursor, setLiveListCursor] = useState<string>(initialState.liveListCursor);
+  const liveListCursor = state.liveListCursor;
 
   /**
    * @memberof module:LiveListState
@@ -131,138 +112,9 @@ export function useLiveListState() {
    * }
    * ```
    */
-  const [currentLive, setCurrentLive] = useState<LiveInfoParam | null>(initialState.currentLive);
-
-  // Event listener references
+  const currentLive = state.currentLive;
 
   // Live list event listener mapping
-  type WritableMap = Record<string, unknown>;
-
-
-
-  /**
-   * Handle live state change events
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[LivePage] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data key matches any value in LIVE_LIST_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        Object.keys(data).forEach((key) => {
-          if (LIVE_LIST_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'liveList') {
-              // liveList is an array type
-              let parsedData: LiveInfoParam[];
-              if (Array.isArray(value)) {
-                parsedData = value as LiveInfoParam[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveInfoParam[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<LiveInfoParam[]>(JSON.stringify(value), []);
-              }
-              // Update global store, which drives all hook instances uniformly
-              liveListStore.setState({ liveList: parsedData });
-            } else if (key === 'liveListCursor') {
-              // liveListCursor is a string type
-              let parsedData: string;
-              if (typeof value === 'string') {
-                parsedData = value;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<string>(value, '');
-              } else {
-                parsedData = safeJsonParse<string>(JSON.stringify(value), '');
-              }
-              liveListStore.setState({ liveListCursor: parsedData });
-            } else if (key === 'currentLive') {
-              // currentLive can be an object or null
-              let parsedData: LiveInfoParam | null;
-              if (value === null || value === undefined) {
-                parsedData = null;
-              } else if (typeof value === 'object') {
-                parsedData = value as LiveInfoParam;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveInfoParam | null>(value, null);
-              } else {
-                parsedData = safeJsonParse<LiveInfoParam | null>(JSON.stringify(value), null);
-              }
-              liveListStore.setState({ currentLive: parsedData });
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error(`[LivePage] ${eventName} event parse error:`, error);
-      console.log(`[LivePage] ${eventName} event received (raw):`, event);
-    }
-  }, []);
-
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'LiveListStore',
-        name: eventName,
-        roomID: null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    LIVE_LIST_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register event listeners on both Native and JS layers
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[LivePage] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      LIVE_LIST_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent]);
-
-  /**
-   * Subscribe to global liveListStore changes to drive local state
-   * Ensures multiple pages share the same liveList / currentLive / cursor
-   */
-  useEffect(() => {
-    const unsubscribe = liveListStore.subscribe((state) => {
-      setLiveList(state.liveList);
-      setLiveListCursor(state.liveListCursor);
-      setCurrentLive(state.currentLive);
-    });
-    return unsubscribe;
-  }, []);
 
   /**
    * Fetch live list
@@ -273,7 +125,7 @@ export function useLiveListState() {
    * await fetchLiveList({ cursor: '', count: 20 });
    * ```
    */
-  const fetchLiveList = useCallback(async (params: FetchLiveListOptions): Promise<void> => {
+  const fetchLiveList = useCallback(async (params: FetchLiveListOptions): Promise<{ list: LiveInfoParam[]; cursor?: string } | undefined> => {
     // Extract callback functions
     const { onSuccess, onError, ...fetchParams } = params;
 
@@ -283,14 +135,16 @@ export function useLiveListState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Fetch live list failed');
+        const error = AtomicXError.fromResult('fetchLiveList', result, 'Fetch live list failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('fetchLiveList', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -302,7 +156,7 @@ export function useLiveListState() {
    * await createLive({ liveID: 'your_live_id',  title: 'my live', coverUrl: 'https://example.com/cover.jpg' });
    * ```
    */
-  const createLive = useCallback(async (params: CreateLiveOptions): Promise<void> => {
+  const createLive = useCallback(async (params: CreateLiveOptions): Promise<LiveInfoParam | undefined> => {
     // Extract callback functions
     const { onSuccess, onError, ...createParams } = params;
 
@@ -312,14 +166,16 @@ export function useLiveListState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Create live failed');
+        const error = AtomicXError.fromResult('createLive', result, 'Create live failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('createLive', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -331,13 +187,13 @@ export function useLiveListState() {
    * await joinLive({ liveID: 'host_live_id' });
    * ```
    */
-  const joinLive = useCallback(async (params: JoinLiveOptions): Promise<void> => {
+  const joinLive = useCallback(async (params: JoinLiveOptions): Promise<LiveInfoParam | undefined> => {
     // Validate required parameters
     const validation = validateRequired(params, ['liveID']);
     if (!validation.valid) {
-      const error = new Error(`Missing required parameters: ${validation.missing?.join(', ')}`);
+      const error = new AtomicXError('joinLive', AtomicXErrorCode.INVALID_PARAMETER, `Missing required parameters: ${validation.missing?.join(', ')}`);
       params.onError?.(error);
-      return;
+      return undefined;
     }
 
     // Extract callback functions
@@ -349,14 +205,16 @@ export function useLiveListState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Join live failed');
+        const error = AtomicXError.fromResult('joinLive', result, 'Join live failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('joinLive', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -379,11 +237,11 @@ export function useLiveListState() {
         liveListStore.clearState();
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Leave live failed');
+        const error = AtomicXError.fromResult('leaveLive', result, 'Leave live failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('leaveLive', error);
       onError?.(err);
     }
   }, []);
@@ -408,11 +266,11 @@ export function useLiveListState() {
         liveListStore.clearState();
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'End live failed');
+        const error = AtomicXError.fromResult('endLive', result, 'End live failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('endLive', error);
       onError?.(err);
     }
   }, []);
@@ -426,13 +284,13 @@ export function useLiveListState() {
    * await updateLiveInfo({ liveID: 'your_live_id', title: 'new title' });
    * ```
    */
-  const updateLiveInfo = useCallback(async (params: UpdateLiveInfoOptions): Promise<void> => {
+  const updateLiveInfo = useCallback(async (params: UpdateLiveInfoOptions): Promise<LiveInfoParam | undefined> => {
     // Validate required parameters
     const validation = validateRequired(params, ['liveID']);
     if (!validation.valid) {
-      const error = new Error(`Missing required parameters: ${validation.missing?.join(', ')}`);
+      const error = new AtomicXError('updateLiveInfo', AtomicXErrorCode.INVALID_PARAMETER, `Missing required parameters: ${validation.missing?.join(', ')}`);
       params.onError?.(error);
-      return;
+      return undefined;
     }
 
     // Extract callback functions
@@ -444,14 +302,16 @@ export function useLiveListState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Update live info failed');
+        const error = AtomicXError.fromResult('updateLiveInfo', result, 'Update live info failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('updateLiveInfo', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -492,6 +352,9 @@ export function useLiveListState() {
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeLiveListListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add live list event listener
    *
@@ -499,14 +362,12 @@ export function useLiveListState() {
    * @param listener - Event callback function
    * @example
    * ```tsx
-   * addLiveListListener('onLiveEnded', {
-   *   callback: (params) => {
-   *     console.log('result:', params);
-   *   }
+   * addLiveListListener('onLiveEnded', ({ liveID, reason }) => {
+   *   console.log('Live ended:', liveID, reason);
    * });
    * ```
    */
-  const addLiveListListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addLiveListListener = useCallback(<K extends LiveListEventName>(eventName: K, listener: StateEventListener<LiveListEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject = {
       type: 'state',
       store: 'LiveListStore',
@@ -514,8 +375,8 @@ export function useLiveListState() {
       roomID: null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, []);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [listenerGroup]);
 
   /**
    * Remove live list event listener
@@ -527,7 +388,7 @@ export function useLiveListState() {
    * removeLiveListListener('onLiveEnded', liveEndedListener);
    * ```
    */
-  const removeLiveListListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const removeLiveListListener = useCallback(<K extends LiveListEventName>(eventName: K, listener: StateEventListener<LiveListEventMap, K>, listenerID?: string): void => {
     const createListenerKeyObject = {
       type: 'state',
       store: 'LiveListStore',
@@ -536,11 +397,20 @@ export function useLiveListState() {
       listenerID: listenerID ?? null,
     };
 
-    removeListener(JSON.stringify(createListenerKeyObject));
-
-  }, []);
+    // 只移除传入的监听器，同一事件的其他订阅者不受影响
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
 
+  }, [listenerGroup]);
 
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    fetchLiveListAsync: toAsyncAction(fetchLiveList, 'fetchLiveList'),
+    createLiveAsync: toAsyncAction(createLive, 'createLive'),
+    joinLiveAsync: toAsyncAction(joinLive, 'joinLive'),
+    leaveLiveAsync: toAsyncAction(leaveLive, 'leaveLive'),
+    endLiveAsync: toAsyncAction(endLive, 'endLive'),
+    updateLiveInfoAsync: toAsyncAction(updateLiveInfo, 'updateLiveInfo'),
+  }), [fetchLiveList, createLive, joinLive, leaveLive, endLive, updateLiveInfo]);
 
   return {
     liveList,               // Live list data
@@ -557,7 +427,21 @@ export function useLiveListState() {
 
     addLiveListListener,    // Add event listener
     removeLiveListListener, // Remove event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
+/**
+ * Subscribe to a single slice of the live list state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const currentLiveID = useLiveListSelector((state) => state.currentLive?.liveID);
+ * ```
+ */
+export function useLiveListSelector<T>(selector: (state: LiveListState) => T, equalityFn?: EqualityFn<T>): T {
+  return liveListStore.useStore(selector, equalityFn);
+}
+
 export default useLiveListState;
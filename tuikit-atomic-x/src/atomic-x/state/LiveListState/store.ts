@@ -1,92 +1,28 @@
 /**
  * LiveListState Store
- * 全局直播列表与当前直播信息的单例存储
+ * 全局直播列表与当前直播信息，不区分直播间，由 createGlobalStore 统一管理 Native 订阅
  * 解决多个组件分别调用 useLiveListState 时状态不共享的问题
  */
 
+import { createGlobalStore, stateDecoders } from '../../store';
 import type { LiveInfoParam } from './types';
 
-interface LiveListState {
+export interface LiveListState {
     liveList: LiveInfoParam[];
     liveListCursor: string;
     currentLive: LiveInfoParam | null;
 }
 
-type StateChangeListener = (state: LiveListState) => void;
-
-class LiveListStore {
-    private static instance: LiveListStore;
-
-    private state: LiveListState = {
+export const liveListStore = createGlobalStore<LiveListState>({
+    storeName: 'LiveListStore',
+    initialState: () => ({
         liveList: [],
         liveListCursor: '',
         currentLive: null,
-    };
-
-    private listeners: Set<StateChangeListener> = new Set();
-
-    private constructor() { }
-
-    static getInstance(): LiveListStore {
-        if (!LiveListStore.instance) {
-            LiveListStore.instance = new LiveListStore();
-        }
-        return LiveListStore.instance;
-    }
-
-    /**
-     * 获取当前直播列表状态快照
-     */
-    getState(): LiveListState {
-        return this.state;
-    }
-
-    /**
-     * 局部更新状态，并通知所有订阅者
-     */
-    setState(updates: Partial<LiveListState>): void {
-        this.state = {
-            ...this.state,
-            ...updates,
-        };
-        this.notifyListeners();
-    }
-
-    /**
-     * 订阅状态变化
-     * 订阅时立刻推送一次当前快照，保证后挂载组件能拿到已有数据
-     */
-    subscribe(listener: StateChangeListener): () => void {
-        this.listeners.add(listener);
-        listener(this.state);
-        return () => {
-            this.listeners.delete(listener);
-        };
-    }
-
-    /**
-     * 清空状态（例如在全局重置时使用）
-     */
-    clearState(): void {
-        this.state = {
-            liveList: [],
-            liveListCursor: '',
-            currentLive: null,
-        };
-        this.notifyListeners();
-    }
-
-    private notifyListeners(): void {
-        this.listeners.forEach((listener) => {
-            try {
-                listener(this.state);
-            } catch (error) {
-                console.error('[LiveListStore] Listener error:', error);
-            }
-        });
-    }
-}
-
-export const liveListStore = LiveListStore.getInstance();
-
-
+    }),
+    decoders: {
+        liveList: stateDecoders.json<LiveInfoParam[]>([]),
+        liveListCursor: stateDecoders.string(),
+        currentLive: stateDecoders.json<LiveInfoParam | null>(null),
+    },
+});
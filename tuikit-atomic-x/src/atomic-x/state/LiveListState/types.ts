@@ -114,6 +114,25 @@ export interface CallExperimentalAPIOptions extends Record<string, unknown> {
   onResponse?: (res?: string) => void;
 }
 
+/**
+ * 直播结束 / 被踢出直播间事件数据
+ */
+export interface LiveEndedEvent {
+  liveID: string;
+  reason?: number | string;
+  message?: string;
+}
+
+/**
+ * 直播列表事件表：事件名 -> 事件数据
+ */
+export interface LiveListEventMap {
+  onLiveEnded: LiveEndedEvent;
+  onKickedOutOfLive: LiveEndedEvent;
+}
+
+export type LiveListEventName = keyof LiveListEventMap;
+
 /**
  * 直播监听器函数类型
  */
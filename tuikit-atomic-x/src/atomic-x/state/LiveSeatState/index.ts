@@ -8,13 +8,13 @@
  * Use Cases: Multi-person co-hosting, anchor PK, interactive games, online education, conference live streaming, and other scenarios requiring multi-person audio/video interaction.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
-  SeatInfo,
-  LiveCanvasParams,
   TakeSeatOptions,
   LeaveSeatOptions,
   MuteMicrophoneOptions,
@@ -27,78 +27,17 @@ import type {
   CloseRemoteCameraOptions,
   OpenRemoteMicrophoneOptions,
   CloseRemoteMicrophoneOptions,
+  LiveSeatEventMap,
+  LiveSeatEventName,
 } from './types';
 import { liveSeatStore } from './store';
-
-/**
- * Seat listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Seat state event name constants
- */
-const LIVE_SEAT_EVENTS = [
-  'seatList',
-  'canvas',
-  'speakingUsers',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { LiveSeatState } from './store';
+import type { EqualityFn } from '../../store';
 
 const DEVICE_CONTROL_POLICY_STRING_MAP: Record<string, number> = {
     'UNLOCK_ONLY': 1,
 };
 
-/**
- * Parse Map type (convert from JSON object or array to Map)
- */
-function parseMapFromJson(json: string): Map<string, number> | null {
-  try {
-    if (!json || typeof json !== 'string') {
-      return null;
-    }
-    const parsed = JSON.parse(json);
-    if (!parsed || typeof parsed !== 'object') {
-      return null;
-    }
-    // If array format [["key", value], ...]
-    if (Array.isArray(parsed)) {
-      const map = new Map<string, number>();
-      parsed.forEach(([key, value]: [string, number]) => {
-        if (typeof key === 'string' && typeof value === 'number') {
-          map.set(key, value);
-        }
-      });
-      return map;
-    }
-    // If object format { "key": value, ... }
-    const map = new Map<string, number>();
-    Object.entries(parsed).forEach(([key, value]) => {
-      if (typeof value === 'number') {
-        map.set(key, value);
-      }
-    });
-    return map;
-  } catch (error) {
-    console.error('parseMapFromJson error:', error);
-    return null;
-  }
-}
-
 /**
  * LiveSeatState Hook
  * 
@@ -138,8 +77,8 @@ function parseMapFromJson(json: string): Map<string, number> | null {
  * ```
  */
 export function useLiveSeatState(liveID: string) {
-  // Get initial state from global store
-  const initialState = liveSeatStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = liveSeatStore.useStore(liveID, (current) => current);
 
   /**
    * @memberof module:LiveSeatState
@@ -159,7 +98,7 @@ export function useLiveSeatState(liveID: string) {
    * });
    * ```
    */
-  const [seatList, setSeatList] = useState<SeatInfo[]>(initialState.seatList);
+  const seatList = state.seatList;
 
   /**
    * @memberof module:LiveSeatState
@@ -175,7 +114,7 @@ export function useLiveSeatState(liveID: string) {
    * }
    * ```
    */
-  const [canvas, setCanvas] = useState<LiveCanvasParams | null>(initialState.canvas);
+  const canvas = state.canvas;
 
   /**
    * @memberof module:LiveSeatState
@@ -196,154 +135,29 @@ export function useLiveSeatState(liveID: string) {
    * });
    * ```
    */
-  const [speakingUsers, setSpeakingUsers] = useState<Map<string, number> | null>(initialState.speakingUsers);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = liveSeatStore.subscribe(liveID, (state) => {
-      setSeatList(state.seatList);
-      setCanvas(state.canvas);
-      setSpeakingUsers(state.speakingUsers);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
+  const speakingUsers = state.speakingUsers;
 
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
+  const actions = useLiveSeatActions(liveID);
 
-  /**
-   * Handle seat state change events
-   * Update global store, which will automatically notify all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-
-      // Check if data key matches any value in LIVE_SEAT_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          seatList?: SeatInfo[];
-          canvas?: LiveCanvasParams | null;
-          speakingUsers?: Map<string, number> | null;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (LIVE_SEAT_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'seatList') {
-              // seatList is an array type
-              let parsedData: SeatInfo[];
-              if (Array.isArray(value)) {
-                parsedData = value as SeatInfo[];
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<SeatInfo[]>(value, []);
-              } else {
-                parsedData = safeJsonParse<SeatInfo[]>(JSON.stringify(value), []);
-              }
-              updates.seatList = parsedData;
-            } else if (key === 'canvas') {
-              // canvas can be an object or null
-              let parsedData: LiveCanvasParams | null;
-              if (value === null || value === undefined) {
-                parsedData = null;
-              } else if (typeof value === 'object') {
-                parsedData = value as LiveCanvasParams;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LiveCanvasParams | null>(value, null);
-              } else {
-                parsedData = safeJsonParse<LiveCanvasParams | null>(JSON.stringify(value), null);
-              }
-              updates.canvas = parsedData;
-            } else if (key === 'speakingUsers') {
-              // speakingUsers requires special parsing to Map
-              let parsedData: Map<string, number> | null;
-              if (value === null || value === undefined) {
-                parsedData = null;
-              } else if (value instanceof Map) {
-                parsedData = value;
-              } else if (typeof value === 'string') {
-                parsedData = parseMapFromJson(value);
-              } else {
-                parsedData = parseMapFromJson(JSON.stringify(value));
-              }
-              updates.speakingUsers = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          liveSeatStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[LiveSeatState] ${eventName} event parse error:`, error);
-      console.log(`[LiveSeatState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'LiveSeatStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    LIVE_SEAT_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register event listeners on both Native and JS layers
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[LiveSeatState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      LIVE_SEAT_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  return {
+    seatList,                    // Seat list
+    canvas,                      // Canvas information
+    speakingUsers,               // Speaking users list
+    ...actions,
+  };
+}
 
+/**
+ * Seat actions and listeners without subscribing to the seat state
+ * speakingUsers changes with every volume callback, so components that only operate on seats should use this hook
+ *
+ * @example
+ * ```tsx
+ * const { takeSeat, leaveSeat } = useLiveSeatActions(liveID);
+ * const seatList = useLiveSeatSelector(liveID, (state) => state.seatList);
+ * ```
+ */
+export function useLiveSeatActions(liveID: string) {
   /**
    * User takes seat
    * 
@@ -361,7 +175,7 @@ export function useLiveSeatState(liveID: string) {
   const takeSeat = useCallback(async (params: TakeSeatOptions): Promise<void> => {
     // Validate required parameters
     if (params.seatIndex === undefined) {
-      const error = new Error('Missing required parameter: seatIndex');
+      const error = new AtomicXError('takeSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: seatIndex');
       params.onError?.(error);
       return;
     }
@@ -374,11 +188,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Take seat failed');
+        const error = AtomicXError.fromResult('takeSeat', result, 'Take seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('takeSeat', error);
       onError?.(err);
     }
   }, []);
@@ -405,11 +219,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Leave seat failed');
+        const error = AtomicXError.fromResult('leaveSeat', result, 'Leave seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('leaveSeat', error);
       onError?.(err);
     }
   }, []);
@@ -436,11 +250,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Mute microphone failed');
+        const error = AtomicXError.fromResult('muteMicrophone', result, 'Mute microphone failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('muteMicrophone', error);
       onError?.(err);
     }
   }, []);
@@ -467,11 +281,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Unmute microphone failed');
+        const error = AtomicXError.fromResult('unmuteMicrophone', result, 'Unmute microphone failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('unmuteMicrophone', error);
       onError?.(err);
     }
   }, []);
@@ -493,7 +307,7 @@ export function useLiveSeatState(liveID: string) {
   const kickUserOutOfSeat = useCallback(async (params: KickUserOutOfSeatOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('kickUserOutOfSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -506,11 +320,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Kick user out of seat failed');
+        const error = AtomicXError.fromResult('kickUserOutOfSeat', result, 'Kick user out of seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('kickUserOutOfSeat', error);
       onError?.(err);
     }
   }, []);
@@ -533,7 +347,7 @@ export function useLiveSeatState(liveID: string) {
   const moveUserToSeat = useCallback(async (params: MoveUserToSeatOptions): Promise<void> => {
     // Validate required parameters
     if (params.fromSeatIndex === undefined || params.toSeatIndex === undefined) {
-      const error = new Error('Missing required parameters: fromSeatIndex or toSeatIndex');
+      const error = new AtomicXError('moveUserToSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameters: fromSeatIndex or toSeatIndex');
       params.onError?.(error);
       return;
     }
@@ -546,11 +360,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Move user to seat failed');
+        const error = AtomicXError.fromResult('moveUserToSeat', result, 'Move user to seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('moveUserToSeat', error);
       onError?.(err);
     }
   }, []);
@@ -572,7 +386,7 @@ export function useLiveSeatState(liveID: string) {
   const lockSeat = useCallback(async (params: LockSeatOptions): Promise<void> => {
     // Validate required parameters
     if (params.seatIndex === undefined) {
-      const error = new Error('Missing required parameter: seatIndex');
+      const error = new AtomicXError('lockSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: seatIndex');
       params.onError?.(error);
       return;
     }
@@ -585,11 +399,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Lock seat failed');
+        const error = AtomicXError.fromResult('lockSeat', result, 'Lock seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('lockSeat', error);
       onError?.(err);
     }
   }, []);
@@ -611,7 +425,7 @@ export function useLiveSeatState(liveID: string) {
   const unlockSeat = useCallback(async (params: UnlockSeatOptions): Promise<void> => {
     // Validate required parameters
     if (params.seatIndex === undefined) {
-      const error = new Error('Missing required parameter: seatIndex');
+      const error = new AtomicXError('unlockSeat', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: seatIndex');
       params.onError?.(error);
       return;
     }
@@ -624,11 +438,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Unlock seat failed');
+        const error = AtomicXError.fromResult('unlockSeat', result, 'Unlock seat failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('unlockSeat', error);
       onError?.(err);
     }
   }, []);
@@ -650,7 +464,7 @@ export function useLiveSeatState(liveID: string) {
   const openRemoteCamera = useCallback(async (params: OpenRemoteCameraOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('openRemoteCamera', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -667,11 +481,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Open remote camera failed');
+        const error = AtomicXError.fromResult('openRemoteCamera', result, 'Open remote camera failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('openRemoteCamera', error);
       onError?.(err);
     }
   }, []);
@@ -693,7 +507,7 @@ export function useLiveSeatState(liveID: string) {
   const closeRemoteCamera = useCallback(async (params: CloseRemoteCameraOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('closeRemoteCamera', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -706,11 +520,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Close remote camera failed');
+        const error = AtomicXError.fromResult('closeRemoteCamera', result, 'Close remote camera failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('closeRemoteCamera', error);
       onError?.(err);
     }
   }, []);
@@ -733,7 +547,7 @@ export function useLiveSeatState(liveID: string) {
   const openRemoteMicrophone = useCallback(async (params: OpenRemoteMicrophoneOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('openRemoteMicrophone', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -750,11 +564,11 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Open remote microphone failed');
+        const error = AtomicXError.fromResult('openRemoteMicrophone', result, 'Open remote microphone failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('openRemoteMicrophone', error);
       onError?.(err);
     }
   }, []);
@@ -776,7 +590,7 @@ export function useLiveSeatState(liveID: string) {
   const closeRemoteMicrophone = useCallback(async (params: CloseRemoteMicrophoneOptions): Promise<void> => {
     // Validate required parameters
     if (!params.userID) {
-      const error = new Error('Missing required parameter: userID');
+      const error = new AtomicXError('closeRemoteMicrophone', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userID');
       params.onError?.(error);
       return;
     }
@@ -789,15 +603,18 @@ export function useLiveSeatState(liveID: string) {
       if (result.success) {
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Close remote microphone failed');
+        const error = AtomicXError.fromResult('closeRemoteMicrophone', result, 'Close remote microphone failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('closeRemoteMicrophone', error);
       onError?.(err);
     }
   }, []);
 
+  // 本 hook 注册的监听器，removeLiveSeatEventListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add seat event listener
    * 
@@ -811,7 +628,7 @@ export function useLiveSeatState(liveID: string) {
    * });
    * ```
    */
-  const addLiveSeatEventListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addLiveSeatEventListener = useCallback(<K extends LiveSeatEventName>(eventName: K, listener: StateEventListener<LiveSeatEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveSeatStore',
@@ -819,8 +636,8 @@ export function useLiveSeatState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove seat event listener
@@ -832,7 +649,7 @@ export function useLiveSeatState(liveID: string) {
    * removeLiveSeatEventListener('onLocalCameraOpenedByAdmin');
    * ```
    */
-  const removeLiveSeatEventListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeLiveSeatEventListener = useCallback((eventName: LiveSeatEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveSeatStore',
@@ -840,13 +657,26 @@ export function useLiveSeatState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    takeSeatAsync: toAsyncAction(takeSeat, 'takeSeat'),
+    leaveSeatAsync: toAsyncAction(leaveSeat, 'leaveSeat'),
+    muteMicrophoneAsync: toAsyncAction(muteMicrophone, 'muteMicrophone'),
+    unmuteMicrophoneAsync: toAsyncAction(unmuteMicrophone, 'unmuteMicrophone'),
+    kickUserOutOfSeatAsync: toAsyncAction(kickUserOutOfSeat, 'kickUserOutOfSeat'),
+    moveUserToSeatAsync: toAsyncAction(moveUserToSeat, 'moveUserToSeat'),
+    lockSeatAsync: toAsyncAction(lockSeat, 'lockSeat'),
+    unlockSeatAsync: toAsyncAction(unlockSeat, 'unlockSeat'),
+    openRemoteCameraAsync: toAsyncAction(openRemoteCamera, 'openRemoteCamera'),
+    closeRemoteCameraAsync: toAsyncAction(closeRemoteCamera, 'closeRemoteCamera'),
+    openRemoteMicrophoneAsync: toAsyncAction(openRemoteMicrophone, 'openRemoteMicrophone'),
+    closeRemoteMicrophoneAsync: toAsyncAction(closeRemoteMicrophone, 'closeRemoteMicrophone'),
+  }), [takeSeat, leaveSeat, muteMicrophone, unmuteMicrophone, kickUserOutOfSeat, moveUserToSeat, lockSeat, unlockSeat, openRemoteCamera, closeRemoteCamera, openRemoteMicrophone, closeRemoteMicrophone]);
 
   return {
-    seatList,                    // Seat list
-    canvas,                      // Canvas information
-    speakingUsers,               // Speaking users list
     takeSeat,                    // User takes seat
     leaveSeat,                   // User leaves seat
     muteMicrophone,              // Mute microphone
@@ -861,9 +691,22 @@ export function useLiveSeatState(liveID: string) {
     closeRemoteMicrophone,       // Close remote microphone
     addLiveSeatEventListener,    // Add seat event listener
     removeLiveSeatEventListener,  // Remove seat event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
-export default useLiveSeatState;
+/**
+ * Subscribe to a single slice of the seat state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const volume = useLiveSeatSelector(liveID, (state) => state.speakingUsers?.get(userID) ?? 0);
+ * ```
+ */
+export function useLiveSeatSelector<T>(liveID: string, selector: (state: LiveSeatState) => T, equalityFn?: EqualityFn<T>): T {
+  return liveSeatStore.useStore(liveID, selector, equalityFn);
+}
 
+export default useLiveSeatState;
 
@@ -161,6 +161,25 @@ export interface CloseRemoteMicrophoneOptions extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 管理员开关本地设备事件数据
+ */
+export interface DeviceControlledByAdminEvent {
+  policy?: string;
+}
+
+/**
+ * 麦位事件表：事件名 -> 事件数据
+ */
+export interface LiveSeatEventMap {
+  onLocalCameraOpenedByAdmin: DeviceControlledByAdminEvent;
+  onLocalCameraClosedByAdmin: DeviceControlledByAdminEvent;
+  onLocalMicrophoneOpenedByAdmin: DeviceControlledByAdminEvent;
+  onLocalMicrophoneClosedByAdmin: DeviceControlledByAdminEvent;
+}
+
+export type LiveSeatEventName = keyof LiveSeatEventMap;
+
 /**
  * 直播监听器接口
  */
@@ -8,38 +8,15 @@
  * Use Cases: Live data display, anchor analysis, traffic statistics, business data reports, and other data analysis scenarios.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
-import type { SummaryData } from './types';
+import { useCallback, useState } from 'react';
+import { createDecodedListener } from '../../utils';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
+import type { LiveSummaryEventMap, LiveSummaryEventName } from './types';
 import { liveSummaryStore } from './store';
-
-/**
- * Statistics listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Statistics state event name constants
- */
-const LIVE_SUMMARY_EVENTS = [
-  'summaryData',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { LiveSummaryState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * LiveSummaryState Hook
@@ -66,127 +43,19 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useLiveSummaryState(liveID: string) {
-  // Get initial state from global store
-  const initialState = liveSummaryStore.getState(liveID);
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = liveSummaryStore.useStore(liveID, (current) => current);
 
   // Live room statistics information - using initial value from global store
-  const [summaryData, setSummaryData] = useState<SummaryData | undefined>(initialState.summaryData);
-
-  // Subscribe to global store state changes
-  useEffect(() => {
-    if (!liveID) {
-      return;
-    }
-
-    // Subscribe to state changes
-    const unsubscribe = liveSummaryStore.subscribe(liveID, (state) => {
-      setSummaryData(state.summaryData);
-    });
-
-    // Clean up subscription
-    return unsubscribe;
-  }, [liveID]);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
-
-  /**
-   * Handle statistics state change events
-   * Update global store, which will automatically notify all subscribers
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
+  const summaryData = state.summaryData;
 
-      // Check if data key matches any value in LIVE_SUMMARY_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        const updates: {
-          summaryData?: SummaryData;
-        } = {};
-
-        Object.keys(data).forEach((key) => {
-          if (LIVE_SUMMARY_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'summaryData') {
-              // summaryData is an object type
-              let parsedData: SummaryData;
-              if (value && typeof value === 'object' && !Array.isArray(value)) {
-                parsedData = value as SummaryData;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<SummaryData>(value, {} as SummaryData);
-              } else {
-                parsedData = safeJsonParse<SummaryData>(JSON.stringify(value), {} as SummaryData);
-              }
-              updates.summaryData = parsedData;
-            }
-          }
-        });
-
-        // Batch update global store (only update once to avoid multiple notifications)
-        if (Object.keys(updates).length > 0) {
-          liveSummaryStore.setState(liveID, updates);
-        }
-      }
-    } catch (error) {
-      console.error(`[LiveSummaryState] ${eventName} event parse error:`, error);
-      console.log(`[LiveSummaryState] ${eventName} event received (raw):`, event);
-    }
-  }, [liveID]);
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'LiveSummaryStore',
-        name: eventName,
-        roomID: liveID ?? null,
-        listenerID: listenerID ?? null,
-      };
-    };
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    LIVE_SUMMARY_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register event listeners on both Native and JS layers
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[LiveSummaryState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      LIVE_SUMMARY_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent, liveID]);
+  // 本 hook 注册的监听器，removeLiveSummaryListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
 
   /**
    * Add statistics event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onSummaryDataChanged'(summary data changed)
    * @param listener - Event callback function
    * @param listenerID - Listener ID (optional)
    * @example
@@ -196,7 +65,7 @@ export function useLiveSummaryState(liveID: string) {
    * });
    * ```
    */
-  const addLiveSummaryListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addLiveSummaryListener = useCallback(<K extends LiveSummaryEventName>(eventName: K, listener: StateEventListener<LiveSummaryEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveSummaryStore',
@@ -204,20 +73,20 @@ export function useLiveSummaryState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, [liveID]);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [liveID, listenerGroup]);
 
   /**
    * Remove statistics event listener
    *
-   * @param eventName - Event name
+   * @param eventName - Event name, options: 'onSummaryDataChanged'(summary data changed)
    * @param listenerID - Listener ID (optional)
    * @example
    * ```tsx
    * removeLiveSummaryListener('onSummaryDataChanged');
    * ```
    */
-  const removeLiveSummaryListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeLiveSummaryListener = useCallback((eventName: LiveSummaryEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LiveSummaryStore',
@@ -225,8 +94,8 @@ export function useLiveSummaryState(liveID: string) {
       roomID: liveID ?? null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, [liveID]);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [liveID, listenerGroup]);
 
   return {
     summaryData,     // Live room statistics information
@@ -235,5 +104,18 @@ export function useLiveSummaryState(liveID: string) {
   };
 }
 
+/**
+ * Subscribe to a single slice of the live summary state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const summaryData = useLiveSummarySelector(liveID, (state) => state.summaryData);
+ * ```
+ */
+export function useLiveSummarySelector<T>(liveID: string, selector: (state: LiveSummaryState) => T, equalityFn?: EqualityFn<T>): T {
+  return liveSummaryStore.useStore(liveID, selector, equalityFn);
+}
+
 export default useLiveSummaryState;
 
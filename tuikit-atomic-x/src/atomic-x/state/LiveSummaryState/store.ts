@@ -1,123 +1,24 @@
 /**
  * LiveSummaryState Store
- * 单例模式全局状态存储，解决状态隔离问题
+ * 全局状态存储，按 liveID 区分直播间，由 createRoomStore 统一管理 Native 订阅
  */
 
+import { createRoomStore, stateDecoders } from '../../store';
 import type { SummaryData } from './types';
 
 /**
  * 单个直播间的统计状态
  */
-interface LiveSummaryState {
+export interface LiveSummaryState {
   summaryData: SummaryData | undefined;
 }
 
-/**
- * 状态变化监听器
- */
-type StateChangeListener = (state: LiveSummaryState) => void;
-
-/**
- * 全局状态存储
- * 按 liveID 索引，每个直播间有独立的状态
- */
-class LiveSummaryStore {
-  private static instance: LiveSummaryStore;
-  private states: Map<string, LiveSummaryState> = new Map();
-  private listeners: Map<string, Set<StateChangeListener>> = new Map();
-
-  private constructor() {}
-
-  static getInstance(): LiveSummaryStore {
-    if (!LiveSummaryStore.instance) {
-      LiveSummaryStore.instance = new LiveSummaryStore();
-    }
-    return LiveSummaryStore.instance;
-  }
-
-  /**
-   * 获取指定直播间的状态
-   */
-  getState(liveID: string): LiveSummaryState {
-    if (!this.states.has(liveID)) {
-      this.states.set(liveID, {
-        summaryData: undefined,
-      });
-    }
-    return this.states.get(liveID)!;
-  }
-
-  /**
-   * 更新指定直播间的状态
-   */
-  setState(liveID: string, updates: Partial<LiveSummaryState>): void {
-    const currentState = this.getState(liveID);
-    const newState: LiveSummaryState = {
-      ...currentState,
-      ...updates,
-    };
-    this.states.set(liveID, newState);
-
-    // 通知所有订阅者
-    this.notifyListeners(liveID, newState);
-  }
-
-  /**
-   * 订阅状态变化
-   */
-  subscribe(liveID: string, listener: StateChangeListener): () => void {
-    if (!this.listeners.has(liveID)) {
-      this.listeners.set(liveID, new Set());
-    }
-    this.listeners.get(liveID)!.add(listener);
-
-    // 立即通知当前状态
-    listener(this.getState(liveID));
-
-    // 返回取消订阅函数
-    return () => {
-      const liveListeners = this.listeners.get(liveID);
-      if (liveListeners) {
-        liveListeners.delete(listener);
-        if (liveListeners.size === 0) {
-          this.listeners.delete(liveID);
-        }
-      }
-    };
-  }
-
-  /**
-   * 通知所有订阅者
-   */
-  private notifyListeners(liveID: string, state: LiveSummaryState): void {
-    const liveListeners = this.listeners.get(liveID);
-    if (liveListeners) {
-      liveListeners.forEach((listener) => {
-        try {
-          listener(state);
-        } catch (error) {
-          console.error('[LiveSummaryStore] Listener error:', error);
-        }
-      });
-    }
-  }
-
-  /**
-   * 清理指定直播间的状态
-   */
-  clearState(liveID: string): void {
-    this.states.delete(liveID);
-    this.listeners.delete(liveID);
-  }
-
-  /**
-   * 清理所有状态
-   */
-  clearAll(): void {
-    this.states.clear();
-    this.listeners.clear();
-  }
-}
-
-export const liveSummaryStore = LiveSummaryStore.getInstance();
-
+export const liveSummaryStore = createRoomStore<LiveSummaryState>({
+  storeName: 'LiveSummaryStore',
+  initialState: () => ({
+    summaryData: undefined,
+  }),
+  decoders: {
+    summaryData: stateDecoders.json<SummaryData>({} as SummaryData),
+  },
+});
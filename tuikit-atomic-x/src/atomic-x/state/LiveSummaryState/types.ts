@@ -13,3 +13,19 @@ export interface SummaryData extends Record<string, unknown> {
   [key: string]: unknown;
 }
 
+/**
+ * 统计数据变化事件数据
+ */
+export interface SummaryDataChangedEvent {
+  liveID: string;
+  summaryData: SummaryData;
+}
+
+/**
+ * 统计事件表：事件名 -> 事件数据
+ */
+export interface LiveSummaryEventMap {
+  onSummaryDataChanged: SummaryDataChangedEvent;
+}
+
+export type LiveSummaryEventName = keyof LiveSummaryEventMap;
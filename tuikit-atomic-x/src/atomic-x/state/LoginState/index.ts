@@ -8,47 +8,24 @@
  * Use Cases: User login, identity verification, session management, permission control, and other basic authentication scenarios.
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { callNativeAPI } from '../../utils';
-import { addListener, removeListener } from '../../bridge/HybridBridge';
-import type { HybridListenerKey } from '../../bridge/HybridBridge';
+import { useCallback, useMemo, useState } from 'react';
+import { callNativeAPI, createDecodedListener, toAsyncAction } from '../../utils';
+import { AtomicXError, AtomicXErrorCode } from '../../errors';
+import type { StateEventListener } from '../../types';
+import { createListenerGroup } from '../../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../../bridge/HybridBridge';
 import type {
   UserProfileParam,
   LoginOptions,
   LogoutOptions,
   SetSelfInfoOptions,
-  LoginStatus,
+  LoginEventMap,
+  LoginEventName,
 } from './types';
 import { validateRequired } from '../../utils';
 import { loginStore } from './store';
-
-/**
- * Login listener function type
- */
-type ILiveListener = (params?: unknown) => void;
-
-/**
- * Login state event name constants
- */
-const LOGIN_EVENTS = [
-  'loginUserInfo',
-  'loginStatus',
-];
-
-/**
- * Safely parse JSON
- */
-function safeJsonParse<T>(json: string, defaultValue: T): T {
-  try {
-    if (!json || typeof json !== 'string') {
-      return defaultValue;
-    }
-    return JSON.parse(json) as T;
-  } catch (error) {
-    console.error('safeJsonParse error:', error);
-    return defaultValue;
-  }
-}
+import type { LoginState } from './store';
+import type { EqualityFn } from '../../store';
 
 /**
  * LoginState Hook
@@ -80,8 +57,8 @@ function safeJsonParse<T>(json: string, defaultValue: T): T {
  * ```
  */
 export function useLoginState() {
-  // Get initial state from global store, ensuring late-mounted components can access existing login state
-  const initialState = loginStore.getState();
+  // Read state from the global store; native listeners are registered once and shared by every mounted hook
+  const state = loginStore.useStore((current) => current);
 
   /**
    * @memberof module:LoginState
@@ -98,9 +75,7 @@ export function useLoginState() {
    * }
    * ```
    */
-  const [loginUserInfo, setLoginUserInfo] = useState<UserProfileParam | undefined>(
-    initialState.loginUserInfo,
-  );
+  const loginUserInfo = state.loginUserInfo;
 
   /**
    * @memberof module:LoginState
@@ -122,128 +97,7 @@ export function useLoginState() {
    * }
    * ```
    */
-  const [loginStatus, setLoginStatus] = useState<LoginStatus>(initialState.loginStatus);
-
-  // Event listener references
-  type WritableMap = Record<string, unknown>;
-
-  /**
-   * Handle login state change events
-   */
-  const handleEvent = useCallback((eventName: string) => (event: WritableMap) => {
-    try {
-      // If event is already an object, use it directly; otherwise try to parse
-      const data = event && typeof event === 'object' && !Array.isArray(event)
-        ? event
-        : typeof event === 'string'
-          ? JSON.parse(event)
-          : event;
-
-      console.log(`[LoginState] ${eventName} event received:`, JSON.stringify(data));
-
-      // Check if data key matches any value in LOGIN_EVENTS
-      if (data && typeof data === 'object' && !Array.isArray(data)) {
-        Object.keys(data).forEach((key) => {
-          if (LOGIN_EVENTS.includes(key)) {
-            const value = data[key];
-
-            // Update corresponding reactive data based on different keys
-            if (key === 'loginUserInfo') {
-              // loginUserInfo is an object type
-              let parsedData: UserProfileParam;
-              if (value && typeof value === 'object' && !Array.isArray(value)) {
-                parsedData = value as UserProfileParam;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<UserProfileParam>(value, {} as UserProfileParam);
-              } else {
-                parsedData = safeJsonParse<UserProfileParam>(JSON.stringify(value), {} as UserProfileParam);
-              }
-              if (parsedData?.userID) {
-                // Update global store, which drives all hook instances uniformly
-                loginStore.setState({
-                  loginUserInfo: parsedData,
-                  loginStatus: 'LOGINED',
-                });
-              }
-            } else if (key === 'loginStatus') {
-              // loginStatus is a string type
-              let parsedData: LoginStatus;
-              if (typeof value === 'string') {
-                parsedData = value as LoginStatus;
-              } else if (typeof value === 'string') {
-                parsedData = safeJsonParse<LoginStatus>(value, 'UNLOGIN');
-              } else {
-                parsedData = safeJsonParse<LoginStatus>(JSON.stringify(value), 'UNLOGIN');
-              }
-              // Update global store, which drives all hook instances uniformly
-              loginStore.setState({
-                loginStatus: parsedData,
-                // If Native sends loginUserInfo at the same time, it can be overwritten in the next event; don't clear it actively here
-              });
-            }
-          }
-        });
-      }
-    } catch (error) {
-      console.error(`[LoginState] ${eventName} event parse error:`, error);
-      console.log(`[LoginState] ${eventName} event received (raw):`, event);
-    }
-  }, []);
-
-  /**
-   * Subscribe to global loginStore changes to drive local state
-   * Ensures multiple components share the same login state
-   */
-  useEffect(() => {
-    const unsubscribe = loginStore.subscribe((state) => {
-      setLoginUserInfo(state.loginUserInfo);
-      setLoginStatus(state.loginStatus);
-    });
-    return unsubscribe;
-  }, []);
-
-  /**
-   * Bind event listeners
-   */
-  useEffect(() => {
-    const createListenerKeyObject = (eventName: string, listenerID?: string | null): HybridListenerKey => {
-      return {
-        type: 'state',
-        store: 'LoginStore',
-        name: eventName,
-        roomID: null,
-        listenerID: listenerID ?? null,
-      };
-    };
-
-    // Save references to listener cleanup functions
-    const cleanupFunctions: Array<{ remove: () => void }> = [];
-
-    LOGIN_EVENTS.forEach((eventName) => {
-      const keyObject = createListenerKeyObject(eventName);
-      const key = JSON.stringify(keyObject);
-      console.log(key);
-      // addListener will automatically register event listeners on both Native and JS layers
-      const subscription = addListener(key, handleEvent(eventName));
-      if (subscription) {
-        cleanupFunctions.push(subscription);
-      }
-
-      console.log(`[LoginState] Added listener for: ${eventName}, eventName=${key}`);
-    });
-
-    return () => {
-      LOGIN_EVENTS.forEach((eventName) => {
-        const keyObject = createListenerKeyObject(eventName);
-        const key = JSON.stringify(keyObject);
-        removeListener(key);
-      });
-      // Also clean up JS layer subscriptions
-      cleanupFunctions.forEach((cleanup) => {
-        cleanup.remove();
-      });
-    };
-  }, [handleEvent]);
+  const loginStatus = state.loginStatus;
 
   /**
    * Login method
@@ -261,13 +115,13 @@ export function useLoginState() {
    * });
    * ```
    */
-  const login = useCallback(async (params: LoginOptions): Promise<void> => {
+  const login = useCallback(async (params: LoginOptions): Promise<UserProfileParam | undefined> => {
     // Validate required parameters
     const validation = validateRequired(params, ['userID', 'sdkAppID', 'userSig']);
     if (!validation.valid) {
-      const error = new Error(`Missing required parameters: ${validation.missing?.join(', ')}`);
+      const error = new AtomicXError('login', AtomicXErrorCode.INVALID_PARAMETER, `Missing required parameters: ${validation.missing?.join(', ')}`);
       params.onError?.(error);
-      return;
+      return undefined;
     }
 
     // Extract callback functions
@@ -279,14 +133,16 @@ export function useLoginState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Login failed');
+        const error = AtomicXError.fromResult('login', result, 'Login failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('login', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -312,11 +168,11 @@ export function useLoginState() {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
       } else {
-        const error = new Error(result.error || 'Logout failed');
+        const error = AtomicXError.fromResult('logout', result, 'Logout failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('logout', error);
       onError?.(err);
     }
   }, []);
@@ -339,12 +195,12 @@ export function useLoginState() {
    * });
    * ```
    */
-  const setSelfInfo = useCallback(async (userInfo: SetSelfInfoOptions): Promise<void> => {
+  const setSelfInfo = useCallback(async (userInfo: SetSelfInfoOptions): Promise<UserProfileParam | undefined> => {
     // Validate required parameters
     if (!userInfo.userProfile || !userInfo.userProfile.userID) {
-      const error = new Error('Missing required parameter: userProfile.userID');
+      const error = new AtomicXError('setSelfInfo', AtomicXErrorCode.INVALID_PARAMETER, 'Missing required parameter: userProfile.userID');
       userInfo.onError?.(error);
-      return;
+      return undefined;
     }
 
     // Extract callback functions
@@ -356,14 +212,16 @@ export function useLoginState() {
       if (result.success) {
         // On success, only trigger callback; state update is handled by event listeners
         onSuccess?.();
+        return result.data;
       } else {
-        const error = new Error(result.error || 'Set self info failed');
+        const error = AtomicXError.fromResult('setSelfInfo', result, 'Set self info failed');
         onError?.(error);
       }
     } catch (error: any) {
-      const err = error instanceof Error ? error : new Error(String(error));
+      const err = AtomicXError.from('setSelfInfo', error);
       onError?.(err);
     }
+    return undefined;
   }, []);
 
   /**
@@ -383,21 +241,24 @@ export function useLoginState() {
     return loginUserInfo;
   }, [loginUserInfo]);
 
+  // 本 hook 注册的监听器，removeLoginListener 只移除这些，不影响其他调用方
+  const [listenerGroup] = useState(createListenerGroup);
+
   /**
    * Add login event listener
    *
    * @memberof module:LoginState
-   * @param {string} eventName - Event name
+   * @param {string} eventName - Event name, options: 'onLoginStatusChanged'(login status changed)
    * @param {Function} listener - Event callback function
    * @param {string} listenerID - Listener ID (optional)
    * @example
    * ```tsx
-   * addLoginListener('onLoginStatusChanged', (params) => {
-   *   console.log('Login status changed:', params);
+   * addLoginListener('onLoginStatusChanged', ({ loginStatus }) => {
+   *   console.log('Login status changed:', loginStatus);
    * });
    * ```
    */
-  const addLoginListener = useCallback((eventName: string, listener: ILiveListener, listenerID?: string): void => {
+  const addLoginListener = useCallback(<K extends LoginEventName>(eventName: K, listener: StateEventListener<LoginEventMap, K>, listenerID?: string): HybridSubscription | void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LoginStore',
@@ -405,21 +266,21 @@ export function useLoginState() {
       roomID: null,
       listenerID: listenerID ?? null,
     };
-    addListener(JSON.stringify(createListenerKeyObject), listener);
-  }, []);
+    return listenerGroup.add(JSON.stringify(createListenerKeyObject), createDecodedListener(listener));
+  }, [listenerGroup]);
 
   /**
    * Remove login event listener
    *
    * @memberof module:LoginState
-   * @param {string} eventName - Event name
+   * @param {string} eventName - Event name, options: 'onLoginStatusChanged'(login status changed)
    * @param {string} listenerID - Listener ID (optional)
    * @example
    * ```tsx
    * removeLoginListener('onLoginStatusChanged');
    * ```
    */
-  const removeLoginListener = useCallback((eventName: string, listenerID?: string): void => {
+  const removeLoginListener = useCallback((eventName: LoginEventName, listenerID?: string): void => {
     const createListenerKeyObject: HybridListenerKey = {
       type: 'state',
       store: 'LoginStore',
@@ -427,8 +288,15 @@ export function useLoginState() {
       roomID: null,
       listenerID: listenerID ?? null,
     };
-    removeListener(JSON.stringify(createListenerKeyObject));
-  }, []);
+    listenerGroup.remove(JSON.stringify(createListenerKeyObject));
+  }, [listenerGroup]);
+
+  // Promise-based variants: resolve with native data, reject with AtomicXError
+  const asyncActions = useMemo(() => ({
+    loginAsync: toAsyncAction(login, 'login'),
+    logoutAsync: toAsyncAction(logout, 'logout'),
+    setSelfInfoAsync: toAsyncAction(setSelfInfo, 'setSelfInfo'),
+  }), [login, logout, setSelfInfo]);
 
   return {
     loginUserInfo,      // Current login user information
@@ -439,7 +307,21 @@ export function useLoginState() {
     getLoginUserInfo,   // Get login user information
     addLoginListener,   // Add login event listener
     removeLoginListener, // Remove login event listener
+    ...asyncActions,    // Promise-based action variants
   };
 }
 
+/**
+ * Subscribe to a single slice of the login state
+ * The component only re-renders when the selected value changes (shallow compare by default)
+ *
+ * @example
+ * ```tsx
+ * const loginStatus = useLoginSelector((state) => state.loginStatus);
+ * ```
+ */
+export function useLoginSelector<T>(selector: (state: LoginState) => T, equalityFn?: EqualityFn<T>): T {
+  return loginStore.useStore(selector, equalityFn);
+}
+
 export default useLoginState;
@@ -76,3 +76,20 @@ export interface SetSelfInfoOptions extends Record<string, unknown> {
  * - `UNLOGIN`: 未登录
  */
 export type LoginStatus = 'LOGINED' | 'LOGOUT' | 'UNLOGIN';
+
+/**
+ * 登录状态变化事件数据
+ */
+export interface LoginStatusChangedEvent {
+  loginStatus: LoginStatus;
+  loginUserInfo?: UserProfileParam;
+}
+
+/**
+ * 登录事件表：事件名 -> 事件数据
+ */
+export interface LoginEventMap {
+  onLoginStatusChanged: LoginStatusChangedEvent;
+}
+
+export type LoginEventName = keyof LoginEventMap;
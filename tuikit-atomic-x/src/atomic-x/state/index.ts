@@ -3,11 +3,13 @@
  */
 
 // 导出 LoginState
-export { useLoginState, default as useLoginStateDefault } from './LoginState';
+export { useLoginState, useLoginSelector, default as useLoginStateDefault } from './LoginState';
+export type { LoginState } from './LoginState/store';
 export * from './LoginState/types';
 
 // 导出 LiveListState
-export { useLiveListState, default as useLiveListStateDefault } from './LiveListState';
+export { useLiveListState, useLiveListSelector, default as useLiveListStateDefault } from './LiveListState';
+export type { LiveListState } from './LiveListState/store';
 // 导出类型，但排除内部类型 ILiveListener 以避免冲突
 export type {
   TakeSeatModeType,
@@ -20,41 +22,119 @@ export type {
   EndLiveOptions,
   UpdateLiveInfoOptions,
   CallExperimentalAPIOptions,
+  LiveEndedEvent,
+  LiveListEventMap,
+  LiveListEventName,
 } from './LiveListState/types';
 
 // 导出 LiveAudienceState
-export { useLiveAudienceState, default as useLiveAudienceStateDefault } from './LiveAudienceState';
+export { useLiveAudienceState, useLiveAudienceSelector, default as useLiveAudienceStateDefault } from './LiveAudienceState';
+export type { LiveAudienceState } from './LiveAudienceState/store';
 export type {
   FetchAudienceListOptions,
   SetAdministratorOptions,
   RevokeAdministratorOptions,
   KickUserOutOfRoomOptions,
   DisableSendMessageOptions,
+  AudienceEvent,
+  LiveAudienceEventMap,
+  LiveAudienceEventName,
 } from './LiveAudienceState/types';
+export { LiveUserRole } from './LiveAudienceState/types';
 
 // 导出 GiftState
-export { useGiftState, default as useGiftStateDefault } from './GiftState';
+export {
+  useGiftState,
+  useGiftActions,
+  useGiftSelector,
+  useGiftCombos,
+  useGiftLeaderboard,
+  useGiftWallet,
+  getGiftLeaderboard,
+  recordGiftContribution,
+  clearGiftLeaderboard,
+  retainGiftLeaderboard,
+  setGiftComboOptions,
+  getGiftComboOptions,
+  addGiftComboListener,
+  retainGiftCombos,
+  flushGiftCombos,
+  clearGiftCombos,
+  createGiftEffectScheduler,
+  getGiftEffectURL,
+  compareGiftEffects,
+  setGiftWalletProvider,
+  getGiftWalletProvider,
+  getGiftBalance,
+  setGiftBalance,
+  refreshGiftBalance,
+  rechargeGiftBalance,
+  debitGiftBalance,
+  findUsableGift,
+  default as useGiftStateDefault,
+} from './GiftState';
+export type { GiftEffectInput, GiftEffectScheduler } from './GiftState';
+export type { GiftState, GiftWalletState } from './GiftState/store';
 export type {
   GiftParam,
   GiftCategoryParam,
   RefreshUsableGiftsOptions,
   SendGiftOptions,
   SetLanguageOptions,
+  ReceiveGiftEvent,
+  GiftComboOptions,
+  GiftCombo,
+  GiftComboEventType,
+  GiftComboListener,
+  GiftEffectSchedulerOptions,
+  GiftEffect,
+  GiftContributor,
+  GiftWalletProvider,
+  GiftEventMap,
+  GiftEventName,
 } from './GiftState/types';
 
 // 导出 CoHostState
-export { useCoHostState, default as useCoHostStateDefault } from './CoHostState';
+export {
+  useCoHostState,
+  useCoHostSelector,
+  useRecentCoHosts,
+  DEFAULT_CANDIDATE_COUNT,
+  toCoHostCandidate,
+  matchesCoHostKeyword,
+  fetchCoHostCandidatePage,
+  RECENT_CO_HOST_LIMIT,
+  setCoHostRecentStorage,
+  loadRecentCoHosts,
+  recordRecentCoHosts,
+  clearRecentCoHosts,
+  retainRecentCoHosts,
+  default as useCoHostStateDefault,
+} from './CoHostState';
+export type { CoHostState, CoHostRecentState } from './CoHostState/store';
 export type {
   RequestHostConnectionOptions,
   CancelHostConnectionOptions,
   AcceptHostConnectionOptions,
   RejectHostConnectionOptions,
   ExitHostConnectionOptions,
+  FetchCoHostCandidatesOptions,
+  CoHostCandidatePage,
+  RecentCoHost,
+  CoHostRecentStorage,
+  CoHostUserParam,
+  CoHostRequestReceivedEvent,
+  CoHostRequestEvent,
+  CoHostRequestRespondedEvent,
+  CoHostUserEvent,
+  CoHostEventMap,
+  CoHostEventName,
 } from './CoHostState/types';
 export { CoHostStatus, CoHostLayoutTemplate } from './CoHostState/types';
 
 // 导出 CoGuestState
-export { useCoGuestState, default as useCoGuestStateDefault } from './CoGuestState';
+export { useCoGuestState, useCoGuestSelector, default as useCoGuestStateDefault } from './CoGuestState';
+export type { CoGuestState } from './CoGuestState/store';
 export type {
   SeatUserInfoParam,
   ApplyForSeatOptions,
@@ -66,11 +146,24 @@ export type {
   AcceptInvitationOptions,
   RejectInvitationOptions,
   DisconnectOptions,
+  HostInvitationEvent,
+  GuestApplicationRespondedEvent,
+  GuestApplicationNoResponseEvent,
+  KickedOffSeatEvent,
+  CoGuestGuestEventMap,
+  CoGuestGuestEventName,
+  GuestApplicationEvent,
+  GuestApplicationProcessedByOtherHostEvent,
+  HostInvitationRespondedEvent,
+  HostInvitationNoResponseEvent,
+  CoGuestHostEventMap,
+  CoGuestHostEventName,
 } from './CoGuestState/types';
 export { GuestApplicationNoResponseReason } from './CoGuestState/types';
 
 // 导出 LiveSeatState
-export { useLiveSeatState, default as useLiveSeatStateDefault } from './LiveSeatState';
+export { useLiveSeatState, useLiveSeatSelector, useLiveSeatActions, default as useLiveSeatStateDefault } from './LiveSeatState';
+export type { LiveSeatState } from './LiveSeatState/store';
 export type {
   SeatInfo,
   LiveCanvasParams,
@@ -86,10 +179,14 @@ export type {
   CloseRemoteCameraOptions,
   OpenRemoteMicrophoneOptions,
   CloseRemoteMicrophoneOptions,
+  DeviceControlledByAdminEvent,
+  LiveSeatEventMap,
+  LiveSeatEventName,
 } from './LiveSeatState/types';
 
 // 导出 DeviceState
-export { useDeviceState, default as useDeviceStateDefault } from './DeviceState';
+export { useDeviceState, useDeviceSelector, useDeviceActions, default as useDeviceStateDefault } from './DeviceState';
+export type { DeviceState } from './DeviceState/store';
 // 导出类型，但排除 VolumeOptions 以避免与 AudioEffectState 冲突
 export type {
   DeviceStatusCodeType,
@@ -97,6 +194,7 @@ export type {
   DeviceErrorCodeType,
   DeviceErrorType,
   AudioOutputType,
+  DeviceActionOptions,
   OpenLocalMicrophoneOptions,
   SetAudioRouteOptions,
   OpenLocalCameraOptions,
@@ -105,36 +203,148 @@ export type {
   SwitchMirrorOptions,
   NetworkInfo,
   LocalVideoQuality,
+  DeviceStatusChangedEvent,
+  DeviceEventMap,
+  DeviceEventName,
 } from './DeviceState/types';
 export { DeviceStatusCode, DeviceStatus, DeviceErrorCode, DeviceErrorEnum, MirrorType } from './DeviceState/types';
 
 // 导出 BarrageState
-export { useBarrageState, default as useBarrageStateDefault } from './BarrageState';
+export {
+  useBarrageState,
+  useBarrageSelector,
+  usePinnedMessage,
+  useBarrageActions,
+  setBarrageRetention,
+  getBarrageRetention,
+  loadEarlierBarrageMessages,
+  setBarrageFloodControl,
+  getBarrageFloodControl,
+  getBarrageMentions,
+  getBarrageReply,
+  isBarrageMentioned,
+  createBarrageReplyInfo,
+  getMentionQuery,
+  insertMention,
+  registerBarrageMessageCodec,
+  unregisterBarrageMessageCodec,
+  getBarrageMessageCodec,
+  clearBarrageMessageCodecs,
+  getBarragePayload,
+  PIN_BUSINESS_ID,
+  canPinMessage,
+  isLiveOwner,
+  isLiveAdministrator,
+  retainPinnedMessage,
+  STICKER_BUSINESS_ID,
+  DEFAULT_EMOJI_PACK,
+  registerBarrageEmojiPack,
+  unregisterBarrageEmojiPack,
+  getBarrageEmojiPacks,
+  resetBarrageEmojiPacks,
+  findBarrageEmoji,
+  parseBarrageTokens,
+  insertEmoji,
+  encodeBarrageSticker,
+  getBarrageSticker,
+  registerBarrageFilter,
+  unregisterBarrageFilter,
+  getBarrageFilters,
+  clearBarrageFilters,
+  addBarrageModerationListener,
+  createSensitiveWordFilter,
+  createContactFilter,
+  createLocalMuteFilter,
+  createRegexFilter,
+  default as useBarrageStateDefault,
+} from './BarrageState';
+export type {
+  BarrageThrottleReason,
+  BarrageModerationListener,
+  SensitiveWordFilterOptions,
+  ContactFilterOptions,
+  LocalMuteFilter,
+  RegexRule,
+  RegexFilterOptions,
+} from './BarrageState';
+export type { BarrageState } from './BarrageState/store';
 export type {
   BarrageParam,
   SendTextMessageOptions,
   SendCustomMessageOptions,
   AppendLocalTipOptions,
+  BarrageRetentionOptions,
+  BarrageFloodControlOptions,
+  BarrageMention,
+  BarrageReplyInfo,
+  BarrageEmojiSource,
+  BarrageEmoji,
+  BarrageEmojiPack,
+  BarrageToken,
+  BarrageSticker,
+  BarrageMessageCodec,
+  BarragePinnedMessage,
+  PinMessageOptions,
+  UnpinMessageOptions,
+  LoadEarlierMessagesOptions,
+  LoadEarlierMessagesResult,
+  BarrageModerationStage,
+  BarrageModerationReason,
+  BarrageFilterContext,
+  BarrageFilterResult,
+  BarrageFilter,
+  BarrageModerationFlag,
+  BarrageModerationResult,
+  MessageReceivedEvent,
+  BarrageEventMap,
+  BarrageEventName,
 } from './BarrageState/types';
 
 // 导出 LikeState
-export { useLikeState, default as useLikeStateDefault } from './LikeState';
+export {
+  useLikeState,
+  useLikeSelector,
+  useLikeActions,
+  setLikeBatchOptions,
+  getLikeBatchOptions,
+  queueLike,
+  flushLikes,
+  clearLikeBatch,
+  feedLikeBurst,
+  flushLikeBursts,
+  clearLikeBursts,
+  addLikeBurstListener,
+  retainLikeBursts,
+  default as useLikeStateDefault,
+} from './LikeState';
+export type { LikeState } from './LikeState/store';
 export type {
   SendLikeOptions,
+  ReceiveLikesMessageEvent,
+  LikeEventMap,
+  LikeEventName,
+  LikeBatchOptions,
+  LikeBurst,
+  LikeBurstListener,
 } from './LikeState/types';
 
 // 导出 BaseBeautyState
-export { useBaseBeautyState, default as useBaseBeautyStateDefault } from './BaseBeautyState';
+export { useBaseBeautyState, useBaseBeautySelector, default as useBaseBeautyStateDefault } from './BaseBeautyState';
+export type { BaseBeautyState } from './BaseBeautyState/store';
 export type {
   SetSmoothLevelOptions,
   SetWhitenessLevelOptions,
   SetRuddyLevelOptions,
   RealUiValues,
   BeautyType,
+  BeautyLevelChangedEvent,
+  BeautyEventMap,
+  BeautyEventName,
 } from './BaseBeautyState/types';
 
 // 导出 AudioEffectState
-export { useAudioEffectState, default as useAudioEffectStateDefault } from './AudioEffectState';
+export { useAudioEffectState, useAudioEffectSelector, default as useAudioEffectStateDefault } from './AudioEffectState';
+export type { AudioEffectState } from './AudioEffectState/store';
 export type {
   AudioChangerTypeParam,
   AudioReverbTypeParam,
@@ -142,16 +352,41 @@ export type {
   SetAudioReverbTypeOptions,
   SetVoiceEarMonitorEnableOptions,
   VolumeOptions,
+  AudioEffectChangedEvent,
+  AudioEffectEventMap,
+  AudioEffectEventName,
 } from './AudioEffectState/types';
 
 // 导出 LiveSummaryState
-export { useLiveSummaryState, default as useLiveSummaryStateDefault } from './LiveSummaryState';
+export { useLiveSummaryState, useLiveSummarySelector, default as useLiveSummaryStateDefault } from './LiveSummaryState';
+export type { LiveSummaryState } from './LiveSummaryState/store';
 export type {
   SummaryData,
+  SummaryDataChangedEvent,
+  LiveSummaryEventMap,
+  LiveSummaryEventName,
 } from './LiveSummaryState/types';
 
 // 导出 BattleState  
-export { useBattleState, default as useBattleStateDefault } from './BattleState';
+export {
+  useBattleState,
+  useBattleSelector,
+  setBattleLifecycleOptions,
+  getBattleLifecycleOptions,
+  transitionBattleStatus,
+  computeBattleResult,
+  getLastBattleRequest,
+  retainBattleLifecycle,
+  clearBattleLifecycle,
+  BATTLE_SUPPORTER_LIMIT,
+  getBattleSupporters,
+  getTopBattleSupporters,
+  recordBattleSupport,
+  clearBattleSupporters,
+  default as useBattleStateDefault,
+} from './BattleState';
+export type { LastBattleRequest } from './BattleState';
+export type { BattleState } from './BattleState/store';
 export type {
   BattleInfoParam,
   RequestBattleOptions,
@@ -159,5 +394,18 @@ export type {
   AcceptBattleOptions,
   RejectBattleOptions,
   ExitBattleOptions,
+  RematchBattleOptions,
+  BattleStatus,
+  BattleLifecycleEvent,
+  BattleRequestInfo,
+  BattleResult,
+  BattleSupporter,
+  BattleLifecycleOptions,
+  BattleStartedEvent,
+  BattleEndedEvent,
+  BattleUserEvent,
+  BattleRequestEvent,
+  BattleEventMap,
+  BattleEventName,
 } from './BattleState/types';
 
@@ -0,0 +1,455 @@
+/**
+ * 通用 State Store
+ *
+ * 各 State 的全局状态存储统一由 createRoomStore / createGlobalStore 创建：
+ * - 按 liveID 保存每个直播间的状态，状态变化时通知订阅者
+ * - 首个组件挂载时注册 Native 状态监听，最后一个组件卸载时注销并释放该直播间状态
+ * - 通过 useStore(liveID, selector) 读取状态切片，切片浅比较不变时组件不重新渲染
+ */
+
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import { addListener } from '../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../bridge/HybridBridge';
+
+/**
+ * 状态字段解码器
+ * 将 Native 推送的原始值转换为状态字段，返回 undefined 表示忽略本次推送
+ */
+export type StateDecoder<T> = (value: unknown) => T | undefined;
+
+/**
+ * 状态字段 -> 解码器，只有声明了解码器的字段才会监听 Native 推送
+ */
+export type StateDecoders<S> = { [K in keyof S]?: StateDecoder<S[K]> };
+
+/**
+ * 状态变化监听器
+ */
+export type StoreListener<S> = (state: S) => void;
+
+/**
+ * 选择器相等性判断
+ */
+export type EqualityFn<T> = (a: T, b: T) => boolean;
+
+/**
+ * createRoomStore 配置
+ */
+export interface RoomStoreOptions<S extends object> {
+    /** Native 侧 Store 名称，例如 `GiftStore` */
+    storeName: string;
+    /** 创建初始状态 */
+    initialState: () => S;
+    /** 需要监听的 Native 状态字段及其解码方式 */
+    decoders: StateDecoders<S>;
+    /** Native 监听 key 是否携带 roomID，默认 true；设备、美颜等全局状态为 false */
+    roomScoped?: boolean;
+    /** 最后一个组件卸载时是否释放状态，默认 true */
+    disposeOnRelease?: boolean;
+    /** 解码完成、写入状态前对本次更新做修正 */
+    normalize?: (updates: Partial<S>, state: S, liveID: string) => Partial<S>;
+    /** 直播间状态被释放或清理时调用，用于清理 Store 外部维护的缓存 */
+    onDispose?: (liveID: string) => void;
+}
+
+/**
+ * 按直播间划分的状态存储
+ */
+export interface RoomStore<S extends object> {
+    readonly storeName: string;
+    /** 获取指定直播间的状态 */
+    getState(liveID: string): S;
+    /** 更新指定直播间的状态并通知订阅者 */
+    setState(liveID: string, updates: Partial<S> | ((state: S) => Partial<S>)): void;
+    /** 订阅状态变化，不会触发 Native 监听注册 */
+    subscribe(liveID: string, listener: StoreListener<S>): () => void;
+    /** 引用计数 +1，首次引用时注册 Native 监听；返回释放函数 */
+    retain(liveID: string): () => void;
+    /** 当前引用计数 */
+    getRefCount(liveID: string): number;
+    /** 处理一次 Native 推送，返回本次实际写入的字段 */
+    applyNativeEvent(liveID: string, event: unknown): Partial<S>;
+    /** 清理指定直播间的状态 */
+    clearState(liveID: string): void;
+    /** 清理所有状态 */
+    clearAll(): void;
+    /** 在组件中读取状态切片，挂载期间持有该直播间的引用 */
+    useStore<T>(liveID: string, selector: (state: S) => T, equalityFn?: EqualityFn<T>): T;
+}
+
+/**
+ * 全局（不区分直播间）状态存储
+ */
+export interface GlobalStore<S extends object> {
+    readonly storeName: string;
+    getState(): S;
+    setState(updates: Partial<S> | ((state: S) => Partial<S>)): void;
+    subscribe(listener: StoreListener<S>): () => void;
+    retain(): () => void;
+    getRefCount(): number;
+    applyNativeEvent(event: unknown): Partial<S>;
+    /** 重置为初始状态并通知订阅者 */
+    clearState(): void;
+    useStore<T>(selector: (state: S) => T, equalityFn?: EqualityFn<T>): T;
+}
+
+/**
+ * 浅比较：基本类型按值比较，对象/数组逐个比较第一层字段
+ */
+export function shallowEqual<T>(a: T, b: T): boolean {
+    if (Object.is(a, b)) {
+        return true;
+    }
+    if (typeof a !== 'object' || a === null || typeof b !== 'object' || b === null) {
+        return false;
+    }
+    if (a instanceof Map || b instanceof Map) {
+        return false;
+    }
+    const keysA = Object.keys(a);
+    const keysB = Object.keys(b);
+    if (keysA.length !== keysB.length) {
+        return false;
+    }
+    return keysA.every((key) =>
+        Object.prototype.hasOwnProperty.call(b, key)
+        && Object.is((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
+
+/**
+ * 安全解析 JSON
+ */
+function safeJsonParse<T>(json: string, defaultValue: T): T {
+    try {
+        if (!json || typeof json !== 'string') {
+            return defaultValue;
+        }
+        return JSON.parse(json) as T;
+    } catch (error) {
+        console.error('safeJsonParse error:', error);
+        return defaultValue;
+    }
+}
+
+/**
+ * 常用解码器
+ */
+export const stateDecoders = {
+    /** JSON 对象/数组，Native 可能直接传对象，也可能传 JSON 字符串 */
+    json<T>(defaultValue: T): StateDecoder<T> {
+        return (value) => {
+            if (value === null || value === undefined) {
+                return defaultValue;
+            }
+            if (typeof value === 'object') {
+                return value as T;
+            }
+            if (typeof value === 'string') {
+                return safeJsonParse<T>(value, defaultValue);
+            }
+            return safeJsonParse<T>(JSON.stringify(value), defaultValue);
+        };
+    },
+
+    /** 数值，无法转换时使用默认值 */
+    number(defaultValue = 0): StateDecoder<number> {
+        return (value) => (typeof value === 'number' ? value : (Number(value) || defaultValue));
+    },
+
+    /** 布尔值 */
+    boolean(): StateDecoder<boolean> {
+        return (value) => (typeof value === 'boolean' ? value : Boolean(value));
+    },
+
+    /** 字符串 */
+    string(defaultValue = ''): StateDecoder<string> {
+        return (value) => {
+            if (typeof value === 'string') {
+                return value;
+            }
+            return value === null || value === undefined ? defaultValue : String(value);
+        };
+    },
+
+    /** `Map<string, number>`，支持 `{ key: value }` 和 `[[key, value]]` 两种格式 */
+    numberMap(): StateDecoder<Map<string, number> | null> {
+        return (value) => {
+            if (value === null || value === undefined) {
+                return null;
+            }
+            if (value instanceof Map) {
+                return value as Map<string, number>;
+            }
+            const parsed = typeof value === 'string' ? safeJsonParse<unknown>(value, null) : value;
+            if (!parsed || typeof parsed !== 'object') {
+                return null;
+            }
+            const map = new Map<string, number>();
+            const entries = Array.isArray(parsed) ? parsed : Object.entries(parsed);
+            entries.forEach((entry) => {
+                const [key, count] = Array.isArray(entry) ? entry : [];
+                if (typeof key === 'string' && typeof count === 'number') {
+                    map.set(key, count);
+                }
+            });
+            return map;
+        };
+    },
+};
+
+/**
+ * 创建按直播间划分的状态存储
+ *
+ * @example
+ * ```ts
+ * export const giftStore = createRoomStore<GiftState>({
+ *     storeName: 'GiftStore',
+ *     initialState: () => ({ usableGifts: [] }),
+ *     decoders: { usableGifts: stateDecoders.json<GiftCategoryParam[]>([]) },
+ * });
+ *
+ * // 组件中只订阅需要的切片
+ * const usableGifts = giftStore.useStore(liveID, (state) => state.usableGifts);
+ * ```
+ */
+export function createRoomStore<S extends object>(options: RoomStoreOptions<S>): RoomStore<S> {
+    const {
+        storeName,
+        initialState,
+        decoders,
+        roomScoped = true,
+        disposeOnRelease = true,
+        normalize,
+        onDispose,
+    } = options;
+    const eventNames = Object.keys(decoders) as Array<keyof S & string>;
+    const states = new Map<string, S>();
+    const listeners = new Map<string, Set<StoreListener<S>>>();
+    const refCounts = new Map<string, number>();
+    const nativeSubscriptions = new Map<string, HybridSubscription[]>();
+
+    const getState = (liveID: string): S => {
+        let state = states.get(liveID);
+        if (!state) {
+            state = initialState();
+            states.set(liveID, state);
+        }
+        return state;
+    };
+
+    const notifyListeners = (liveID: string): void => {
+        const roomListeners = listeners.get(liveID);
+        if (!roomListeners) {
+            return;
+        }
+        const state = getState(liveID);
+        roomListeners.forEach((listener) => {
+            try {
+                listener(state);
+            } catch (error) {
+                console.error(`[${storeName}] Listener error:`, error);
+            }
+        });
+    };
+
+    const setState = (liveID: string, updates: Partial<S> | ((state: S) => Partial<S>)): void => {
+        const currentState = getState(liveID);
+        const patch = typeof updates === 'function' ? updates(currentState) : updates;
+        states.set(liveID, { ...currentState, ...patch });
+
+        // 通知所有订阅者
+        notifyListeners(liveID);
+    };
+
+    const subscribe = (liveID: string, listener: StoreListener<S>): (() => void) => {
+        let roomListeners = listeners.get(liveID);
+        if (!roomListeners) {
+            roomListeners = new Set();
+            listeners.set(liveID, roomListeners);
+        }
+        roomListeners.add(listener);
+
+        return () => {
+            const current = listeners.get(liveID);
+            if (current) {
+                current.delete(listener);
+                if (current.size === 0) {
+                    listeners.delete(liveID);
+                }
+            }
+        };
+    };
+
+    const applyNativeEvent = (liveID: string, event: unknown): Partial<S> => {
+        // 事件可能是对象，也可能是 JSON 字符串
+        const data = typeof event === 'string' ? safeJsonParse<unknown>(event, null) : event;
+        if (!data || typeof data !== 'object' || Array.isArray(data)) {
+            return {};
+        }
+
+        let updates: Partial<S> = {};
+        Object.keys(data).forEach((key) => {
+            const decode = decoders[key as keyof S];
+            if (!decode) {
+                return;
+            }
+            const value = decode((data as Record<string, unknown>)[key]);
+            if (value !== undefined) {
+                updates[key as keyof S] = value;
+            }
+        });
+        if (normalize) {
+            updates = normalize(updates, getState(liveID), liveID);
+        }
+
+        // 批量更新，一次推送只通知一次
+        if (Object.keys(updates).length > 0) {
+            setState(liveID, updates);
+        }
+        return updates;
+    };
+
+    const registerNativeListeners = (liveID: string): void => {
+        const subscriptions: HybridSubscription[] = [];
+        eventNames.forEach((eventName) => {
+            const keyObject: HybridListenerKey = {
+                type: 'state',
+                store: storeName,
+                name: eventName,
+                roomID: roomScoped ? liveID : null,
+                listenerID: null,
+            };
+            const subscription = addListener(JSON.stringify(keyObject), (event: unknown) => {
+                try {
+                    applyNativeEvent(liveID, event);
+                } catch (error) {
+                    console.error(`[${storeName}] ${eventName} event parse error:`, error);
+                }
+            });
+            if (subscription) {
+                subscriptions.push(subscription);
+            }
+        });
+        nativeSubscriptions.set(liveID, subscriptions);
+    };
+
+    const unregisterNativeListeners = (liveID: string): void => {
+        // 只移除本 Store 的订阅，其他订阅者仍在时 Bridge 会保留 Native 监听
+        nativeSubscriptions.get(liveID)?.forEach((subscription) => subscription.remove());
+        nativeSubscriptions.delete(liveID);
+    };
+
+    const retain = (liveID: string): (() => void) => {
+        const count = refCounts.get(liveID) ?? 0;
+        refCounts.set(liveID, count + 1);
+        if (count === 0) {
+            registerNativeListeners(liveID);
+        }
+
+        let released = false;
+        return () => {
+            if (released) {
+                return;
+            }
+            released = true;
+            const remaining = (refCounts.get(liveID) ?? 1) - 1;
+            if (remaining > 0) {
+                refCounts.set(liveID, remaining);
+                return;
+            }
+            refCounts.delete(liveID);
+            unregisterNativeListeners(liveID);
+            if (disposeOnRelease) {
+                states.delete(liveID);
+                onDispose?.(liveID);
+            }
+        };
+    };
+
+    const clearState = (liveID: string): void => {
+        states.delete(liveID);
+        onDispose?.(liveID);
+        notifyListeners(liveID);
+    };
+
+    const clearAll = (): void => {
+        const liveIDs = Array.from(listeners.keys());
+        if (onDispose) {
+            Array.from(states.keys()).forEach(onDispose);
+        }
+        states.clear();
+        liveIDs.forEach(notifyListeners);
+    };
+
+    function useStore<T>(liveID: string, selector: (state: S) => T, equalityFn: EqualityFn<T> = shallowEqual): T {
+        const selectionRef = useRef<{ state: S; selector: (state: S) => T; selection: T } | null>(null);
+
+        useEffect(() => {
+            if (!liveID) {
+                return undefined;
+            }
+            return retain(liveID);
+        }, [liveID]);
+
+        const subscribeRoom = useCallback((onStoreChange: () => void) => subscribe(liveID, onStoreChange), [liveID]);
+
+        // 状态或 selector 变化时重新计算切片，浅比较相等则沿用旧引用，避免无意义的重新渲染
+        const getSnapshot = (): T => {
+            const state = getState(liveID);
+            const cached = selectionRef.current;
+            if (cached && cached.state === state && cached.selector === selector) {
+                return cached.selection;
+            }
+            const next = selector(state);
+            const selection = cached && equalityFn(cached.selection, next) ? cached.selection : next;
+            selectionRef.current = { state, selector, selection };
+            return selection;
+        };
+
+        return useSyncExternalStore(subscribeRoom, getSnapshot, getSnapshot);
+    }
+
+    return {
+        storeName,
+        getState,
+        setState,
+        subscribe,
+        retain,
+        getRefCount: (liveID: string) => refCounts.get(liveID) ?? 0,
+        applyNativeEvent,
+        clearState,
+        clearAll,
+        useStore,
+    };
+}
+
+/**
+ * 全局状态固定使用的 key
+ */
+const GLOBAL_KEY = '__global__';
+
+/**
+ * 创建全局（不区分直播间）状态存储，例如登录、设备、直播列表
+ * Native 监听 key 的 roomID 为 null，最后一个组件卸载时保留状态
+ */
+export function createGlobalStore<S extends object>(
+    options: Omit<RoomStoreOptions<S>, 'roomScoped' | 'disposeOnRelease'>
+): GlobalStore<S> {
+    const store = createRoomStore<S>({ ...options, roomScoped: false, disposeOnRelease: false });
+
+    function useGlobalStore<T>(selector: (state: S) => T, equalityFn?: EqualityFn<T>): T {
+        return store.useStore(GLOBAL_KEY, selector, equalityFn);
+    }
+
+    return {
+        storeName: store.storeName,
+        getState: () => store.getState(GLOBAL_KEY),
+        setState: (updates) => store.setState(GLOBAL_KEY, updates),
+        subscribe: (listener) => store.subscribe(GLOBAL_KEY, listener),
+        retain: () => store.retain(GLOBAL_KEY),
+        getRefCount: () => store.getRefCount(GLOBAL_KEY),
+        applyNativeEvent: (event) => store.applyNativeEvent(GLOBAL_KEY, event),
+        clearState: () => store.clearState(GLOBAL_KEY),
+        useStore: useGlobalStore,
+    };
+}
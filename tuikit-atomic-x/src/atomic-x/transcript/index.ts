@@ -0,0 +1,347 @@
+/**
+ * 直播文字记录
+ *
+ * 直播期间记录 messageList 中的消息以及礼物、点赞事件，按 liveID 保存到本地存储，
+ * 直播结束后可以导出为 JSON、CSV 或纯文本，用于内容审核。
+ *
+ * 默认使用内存存储，应用重启后丢失；需要持久化时通过 setTranscriptStorage 传入 AsyncStorage 等实现。
+ *
+ * @example
+ * ```ts
+ * setTranscriptStorage(AsyncStorage);
+ * const stop = startTranscript(liveID);
+ * // 直播结束
+ * await stop();
+ * const record = await loadTranscript(liveID);
+ * const csv = record ? exportTranscript(record, { format: 'csv', includeOffset: true }) : '';
+ * ```
+ */
+
+import { addListener } from '../bridge/HybridBridge';
+import type { HybridListenerKey, HybridSubscription } from '../bridge/HybridBridge';
+import { createDecodedListener } from '../utils';
+import { barrageStore, getBarrageMessageKey } from '../state/BarrageState/store';
+import type { BarrageParam } from '../state/BarrageState/types';
+import { liveListStore } from '../state/LiveListState/store';
+import type { ReceiveGiftEvent } from '../state/GiftState/types';
+import type { ReceiveLikesMessageEvent } from '../state/LikeState/types';
+import type {
+    StartTranscriptOptions,
+    TranscriptEntry,
+    TranscriptExportOptions,
+    TranscriptRecord,
+    TranscriptStorage,
+} from './types';
+
+export * from './types';
+
+const STORAGE_KEY_PREFIX = 'atomicx_transcript_';
+// 记录变化后延迟写入存储，避免高频弹幕时频繁写入
+const PERSIST_DELAY = 1000;
+const LISTENER_ID = 'AtomicXTranscript';
+
+/**
+ * 正在记录的直播
+ */
+interface ActiveTranscript {
+    record: TranscriptRecord;
+    /** 消息 key -> 记录，用于去重和更新折叠计数 */
+    entriesByKey: Map<string, TranscriptEntry>;
+    persistTimer: ReturnType<typeof setTimeout> | null;
+    cleanups: Array<() => void>;
+}
+
+const memoryItems = new Map<string, string>();
+const memoryStorage: TranscriptStorage = {
+    getItem: async (key) => memoryItems.get(key) ?? null,
+    setItem: async (key, value) => {
+        memoryItems.set(key, value);
+    },
+    removeItem: async (key) => {
+        memoryItems.delete(key);
+    },
+};
+
+let storage: TranscriptStorage = memoryStorage;
+const activeTranscripts = new Map<string, ActiveTranscript>();
+// 停止记录后尚未写完的存储操作，读取前先等待
+const pendingPersists = new Map<string, Promise<void>>();
+
+/**
+ * 设置本地存储实现，传 null 恢复为内存存储
+ */
+export function setTranscriptStorage(next: TranscriptStorage | null): void {
+    storage = next ?? memoryStorage;
+}
+
+function getStorageKey(liveID: string): string {
+    return `${STORAGE_KEY_PREFIX}${liveID}`;
+}
+
+// Native 的时间戳可能是秒，统一转为毫秒
+function normalizeTimestamp(value: unknown): number {
+    const timestamp = Number(value);
+    if (!Number.isFinite(timestamp) || timestamp <= 0) {
+        return Date.now();
+    }
+    return timestamp < 1e12 ? timestamp * 1000 : timestamp;
+}
+
+function getSender(sender: unknown, message?: BarrageParam): { senderID?: string; senderName?: string } {
+    if (sender && typeof sender === 'object') {
+        const user = sender as { userID?: string; userName?: string; nickname?: string };
+        return { senderID: user.userID, senderName: user.userName || user.nickname || user.userID };
+    }
+    const senderID = message?.userID ?? (typeof sender === 'string' ? sender : undefined);
+    return { senderID, senderName: message?.nickname ?? senderID };
+}
+
+function createMessageEntry(message: BarrageParam): TranscriptEntry {
+    const text = message.text ?? message.content ?? message.textContent;
+    const hasSender = !!(message.sender || message.userID);
+    const entry: TranscriptEntry = {
+        type: message.businessID ? 'custom' : hasSender ? 'message' : 'tip',
+        timestamp: normalizeTimestamp(message.timestamp),
+        messageID: message.messageID,
+        ...getSender(message.sender, message),
+        text: message.businessID ? String(message.data ?? '') : typeof text === 'string' ? text : '',
+    };
+    if (message.businessID) {
+        entry.businessID = message.businessID;
+    }
+    if (message.repeatCount && message.repeatCount > 1) {
+        entry.repeatCount = message.repeatCount;
+    }
+    if (message.moderationFlags?.length) {
+        entry.moderationFlags = message.moderationFlags.map((flag) => flag.reason);
+    }
+    return entry;
+}
+
+function schedulePersist(active: ActiveTranscript): void {
+    if (active.persistTimer) {
+        return;
+    }
+    active.persistTimer = setTimeout(() => {
+        active.persistTimer = null;
+        persist(active.record).catch((error) => console.error('[Transcript] Persist failed:', error));
+    }, PERSIST_DELAY);
+}
+
+async function persist(record: TranscriptRecord): Promise<void> {
+    await storage.setItem(getStorageKey(record.liveID), JSON.stringify(record));
+}
+
+function recordMessages(active: ActiveTranscript, messageList: BarrageParam[]): void {
+    let changed = false;
+    messageList.forEach((message) => {
+        // 礼物提示由礼物事件记录，避免重复
+        if (message.gift) {
+            return;
+        }
+        const key = getBarrageMessageKey(message);
+        const existing = active.entriesByKey.get(key);
+        if (existing) {
+            if (message.repeatCount && message.repeatCount > (existing.repeatCount ?? 1)) {
+                existing.repeatCount = message.repeatCount;
+                changed = true;
+            }
+            return;
+        }
+        const entry = createMessageEntry(message);
+        active.entriesByKey.set(key, entry);
+        active.record.entries.push(entry);
+        changed = true;
+    });
+    if (changed) {
+        schedulePersist(active);
+    }
+}
+
+function listenRoomEvent<T>(liveID: string, store: string, name: string, listener: (event: T) => void): () => void {
+    const key: HybridListenerKey = { type: 'state', store, name, roomID: liveID, listenerID: LISTENER_ID };
+    const subscription: HybridSubscription | void = addListener(JSON.stringify(key), createDecodedListener(listener));
+    return () => subscription?.remove();
+}
+
+/**
+ * 开始记录直播间的消息、礼物和点赞，返回停止函数；重复调用返回同一个停止函数
+ */
+export function startTranscript(liveID: string, options: StartTranscriptOptions = {}): () => Promise<TranscriptRecord | undefined> {
+    const stop = () => stopTranscript(liveID);
+    if (activeTranscripts.has(liveID)) {
+        return stop;
+    }
+
+    const currentLive = liveListStore.getState().currentLive;
+    const createTime = currentLive?.liveID === liveID ? currentLive.createTime : undefined;
+    const active: ActiveTranscript = {
+        record: {
+            liveID,
+            startTime: options.startTime ?? (createTime ? normalizeTimestamp(createTime) : Date.now()),
+            entries: [],
+        },
+        entriesByKey: new Map(),
+        persistTimer: null,
+        cleanups: [],
+    };
+    activeTranscripts.set(liveID, active);
+
+    const pushEntry = (entry: TranscriptEntry) => {
+        active.record.entries.push(entry);
+        schedulePersist(active);
+    };
+
+    active.cleanups.push(
+        barrageStore.retain(liveID),
+        barrageStore.subscribe(liveID, (state) => recordMessages(active, state.messageList)),
+        listenRoomEvent<ReceiveGiftEvent>(liveID, 'GiftStore', 'onReceiveGift', ({ gift, count, sender }) => {
+            pushEntry({
+                type: 'gift',
+                timestamp: Date.now(),
+                ...getSender(sender),
+                text: gift?.name || gift?.giftID || '',
+                giftID: gift?.giftID,
+                giftCount: count || 1,
+            });
+        }),
+        listenRoomEvent<ReceiveLikesMessageEvent>(liveID, 'LikeStore', 'onReceiveLikesMessage', ({ count, sender }) => {
+            // 累计点赞数包含其他观众的点赞，只使用本条消息的点赞数，没有时按 1 次记录
+            pushEntry({ type: 'like', timestamp: Date.now(), ...getSender(sender), text: '', likeCount: count ?? 1 });
+        })
+    );
+    recordMessages(active, barrageStore.getState(liveID).messageList);
+    return stop;
+}
+
+/**
+ * 停止记录并立即写入存储，返回最终的记录；未在记录时返回 undefined
+ */
+export async function stopTranscript(liveID: string): Promise<TranscriptRecord | undefined> {
+    const active = activeTranscripts.get(liveID);
+    if (!active) {
+        return undefined;
+    }
+    activeTranscripts.delete(liveID);
+    active.cleanups.forEach((cleanup) => cleanup());
+    if (active.persistTimer) {
+        clearTimeout(active.persistTimer);
+        active.persistTimer = null;
+    }
+    active.record.endTime = Date.now();
+    const pending = persist(active.record).finally(() => {
+        if (pendingPersists.get(liveID) === pending) {
+            pendingPersists.delete(liveID);
+        }
+    });
+    pendingPersists.set(liveID, pending);
+    await pending;
+    return active.record;
+}
+
+/**
+ * 是否正在记录该直播间
+ */
+export function isTranscriptActive(liveID: string): boolean {
+    return activeTranscripts.has(liveID);
+}
+
+/**
+ * 读取直播间的记录，正在记录时返回当前内容的快照
+ */
+export async function loadTranscript(liveID: string): Promise<TranscriptRecord | undefined> {
+    const active = activeTranscripts.get(liveID);
+    if (active) {
+        return { ...active.record, entries: [...active.record.entries] };
+    }
+    await pendingPersists.get(liveID)?.catch(() => undefined);
+    const value = await storage.getItem(getStorageKey(liveID));
+    if (!value) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(value) as TranscriptRecord;
+    } catch (error) {
+        console.error('[Transcript] Corrupted transcript:', liveID, error);
+        return undefined;
+    }
+}
+
+/**
+ * 删除本地保存的记录
+ */
+export async function removeTranscript(liveID: string): Promise<void> {
+    await storage.removeItem(getStorageKey(liveID));
+}
+
+function formatOffset(offsetMs: number): string {
+    const sign = offsetMs < 0 ? '-' : '';
+    const totalSeconds = Math.floor(Math.abs(offsetMs) / 1000);
+    const hours = Math.floor(totalSeconds / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+    return `${sign}${[hours, minutes, seconds].map((value) => value.toString().padStart(2, '0')).join(':')}`;
+}
+
+function escapeCsv(value: string | number | undefined): string {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function describeEntry(entry: TranscriptEntry): string {
+    switch (entry.type) {
+        case 'gift':
+            return `[gift] ${entry.text} x${entry.giftCount ?? 1}`;
+        case 'like':
+            return `[like] x${entry.likeCount ?? 1}`;
+        case 'custom':
+            return `[custom:${entry.businessID ?? ''}] ${entry.text}`;
+        default:
+            return entry.repeatCount ? `${entry.text} x${entry.repeatCount}` : entry.text;
+    }
+}
+
+/**
+ * 导出记录，条目按时间排序
+ *
+ * - `json`: 完整记录，includeOffset 时每条记录增加 offsetMs
+ * - `csv`: 每条记录一行，首行为表头
+ * - `text`: 每条记录一行，便于直接阅读
+ */
+export function exportTranscript(record: TranscriptRecord, options: TranscriptExportOptions): string {
+    const { format, includeOffset = false } = options;
+    const entries = [...record.entries].sort((a, b) => a.timestamp - b.timestamp);
+
+    if (format === 'json') {
+        return JSON.stringify({
+            ...record,
+            entries: includeOffset
+                ? entries.map((entry) => ({ ...entry, offsetMs: entry.timestamp - record.startTime }))
+                : entries,
+        }, null, 2);
+    }
+
+    if (format === 'csv') {
+        const header = ['time', ...(includeOffset ? ['offset'] : []), 'type', 'messageID', 'senderID', 'senderName', 'content', 'count', 'flags'];
+        const rows = entries.map((entry) => [
+            new Date(entry.timestamp).toISOString(),
+            ...(includeOffset ? [formatOffset(entry.timestamp - record.startTime)] : []),
+            entry.type,
+            entry.messageID,
+            entry.senderID,
+            entry.senderName,
+            entry.businessID ? `${entry.businessID}:${entry.text}` : entry.text,
+            entry.giftCount ?? entry.likeCount ?? entry.repeatCount,
+            entry.moderationFlags?.join('|'),
+        ].map(escapeCsv).join(','));
+        return [header.join(','), ...rows].join('\n');
+    }
+
+    return entries.map((entry) => {
+        const offsetMs = entry.timestamp - record.startTime;
+        const offset = includeOffset ? ` (${offsetMs < 0 ? '' : '+'}${formatOffset(offsetMs)})` : '';
+        const sender = entry.senderName || entry.senderID;
+        const flags = entry.moderationFlags?.length ? ` {${entry.moderationFlags.join(', ')}}` : '';
+        return `[${new Date(entry.timestamp).toISOString()}]${offset} ${sender ? `${sender}: ` : ''}${describeEntry(entry)}${flags}`;
+    }).join('\n');
+}
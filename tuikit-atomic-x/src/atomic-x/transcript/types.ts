@@ -0,0 +1,75 @@
+/**
+ * Transcript 类型定义
+ */
+
+/**
+ * 记录类型
+ * - `message`: 文本弹幕
+ * - `custom`: 自定义消息
+ * - `tip`: 本地提示消息
+ * - `gift`: 收到礼物
+ * - `like`: 收到点赞
+ */
+export type TranscriptEntryType = 'message' | 'custom' | 'tip' | 'gift' | 'like';
+
+/**
+ * 单条记录
+ */
+export interface TranscriptEntry {
+    type: TranscriptEntryType;
+    /** 发生时间（毫秒） */
+    timestamp: number;
+    messageID?: string;
+    senderID?: string;
+    senderName?: string;
+    /** 文本内容；自定义消息为原始 data，礼物为礼物名称 */
+    text: string;
+    businessID?: string;
+    /** 折叠模式下合并的相同消息条数 */
+    repeatCount?: number;
+    /** 接收端审核标记的原因 */
+    moderationFlags?: string[];
+    giftID?: string;
+    giftCount?: number;
+    likeCount?: number;
+}
+
+/**
+ * 一场直播的完整记录
+ */
+export interface TranscriptRecord {
+    liveID: string;
+    /** 直播开始时间（毫秒），用于计算相对时间 */
+    startTime: number;
+    /** 停止记录的时间（毫秒），记录中为 undefined */
+    endTime?: number;
+    entries: TranscriptEntry[];
+}
+
+/**
+ * 本地存储适配器，接口与 AsyncStorage 兼容
+ */
+export interface TranscriptStorage {
+    getItem(key: string): Promise<string | null>;
+    setItem(key: string, value: string): Promise<void>;
+    removeItem(key: string): Promise<void>;
+}
+
+export type TranscriptFormat = 'json' | 'csv' | 'text';
+
+/**
+ * 导出选项
+ */
+export interface TranscriptExportOptions {
+    format: TranscriptFormat;
+    /** 是否输出相对直播开始时间的偏移列，默认 false */
+    includeOffset?: boolean;
+}
+
+/**
+ * 开始记录选项
+ */
+export interface StartTranscriptOptions {
+    /** 直播开始时间，默认取 currentLive.createTime，没有时取当前时间 */
+    startTime?: number;
+}
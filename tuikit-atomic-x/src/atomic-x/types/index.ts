@@ -37,3 +37,9 @@ export interface BaseRequestParams {
     [key: string]: unknown;
 }
 
+
+/**
+ * 类型化事件监听器
+ * M 为事件表（事件名 -> 事件数据），K 为事件名，事件数据类型由事件名推导
+ */
+export type StateEventListener<M, K extends keyof M> = (event: M[K]) => void;
@@ -5,8 +5,10 @@
 import { callAPI } from '../bridge/HybridBridge';
 import type { HybridRequest, HybridResponse } from '../bridge/HybridBridge';
 import type { BaseResponse, StateResult, StateOptions } from '../types';
+import { AtomicXError } from '../errors';
 
 export { startForegroundService, stopForegroundService } from './foregroundService';
+export { RingBuffer } from './ringBuffer';
 
 /**
  * 默认配置
@@ -18,14 +20,23 @@ const DEFAULT_OPTIONS: Required<StateOptions> = {
 };
 
 /**
- * 创建超时 Promise
+ * 创建超时 Promise，请求结束后需调用 clear 释放定时器
  */
-function createTimeoutPromise(timeout: number): Promise<never> {
-    return new Promise((_, reject) => {
-        setTimeout(() => {
+function createTimeoutPromise(timeout: number): { promise: Promise<never>; clear: () => void } {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const promise = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
             reject(new Error(`Request timeout after ${timeout}ms`));
         }, timeout);
     });
+    return {
+        promise,
+        clear: () => {
+            if (timer !== undefined) {
+                clearTimeout(timer);
+            }
+        },
+    };
 }
 
 /**
@@ -56,11 +67,12 @@ export async function callNativeAPI<T = unknown>(
     let lastError: Error | null = null;
 
     for (let attempt = 0; attempt <= opts.retry; attempt++) {
+        const timeoutPromise = createTimeoutPromise(opts.timeout);
         try {
             // 创建超时和 API 调用的竞态
             const response = await Promise.race([
                 callAPI(request),
-                createTimeoutPromise(opts.timeout),
+                timeoutPromise.promise,
             ]) as HybridResponse;
 
             // 解析响应
@@ -91,6 +103,8 @@ export async function callNativeAPI<T = unknown>(
                 await delay(opts.retryDelay);
                 continue;
             }
+        } finally {
+            timeoutPromise.clear();
         }
     }
 
@@ -101,6 +115,125 @@ export async function callNativeAPI<T = unknown>(
     };
 }
 
+/**
+ * 回调风格 action 的回调参数
+ */
+type ActionCallbacks = {
+    onSuccess?: (...args: any[]) => void;
+    onError?: (error: Error | string) => void;
+};
+
+/**
+ * Promise 风格的 action，参数与原 action 相同（onSuccess/onError 会被忽略）
+ */
+export type AsyncAction<O, T> = undefined extends O
+    ? (options?: O) => Promise<T>
+    : (options: O) => Promise<T>;
+
+/**
+ * 将回调风格的 State action 转换为 Promise 风格
+ * 成功时 resolve Native 返回的 data，失败时 reject AtomicXError
+ *
+ * @example
+ * ```ts
+ * try {
+ *     await toAsyncAction(takeSeat, 'takeSeat')({ seatIndex: 1 });
+ * } catch (error) {
+ *     if (error instanceof AtomicXError && error.category === 'SEAT') {
+ *         // 麦位已被占用、已锁定等
+ *     }
+ * }
+ * ```
+ */
+export function toAsyncAction<O extends ActionCallbacks | undefined, T>(
+    action: (options: O) => Promise<T>,
+    api: string
+): AsyncAction<O, Exclude<T, undefined> | undefined> {
+    return ((options?: O) =>
+        new Promise((resolve, reject) => {
+            let failed = false;
+            const callbackOptions = {
+                ...(options ?? {}),
+                onSuccess: undefined,
+                onError: (error: Error | string) => {
+                    failed = true;
+                    reject(AtomicXError.from(api, error));
+                },
+            } as O;
+            action(callbackOptions).then(
+                (data) => {
+                    if (!failed) {
+                        resolve(data as Exclude<T, undefined> | undefined);
+                    }
+                },
+                (error) => {
+                    if (!failed) {
+                        reject(AtomicXError.from(api, error));
+                    }
+                }
+            );
+        })) as AsyncAction<O, Exclude<T, undefined> | undefined>;
+}
+
+/**
+ * 已解码的事件数据缓存
+ * 同一个 Native 事件会扇出给多个监听器，按原始事件对象缓存，保证只解码一次
+ */
+const decodedEventCache = new WeakMap<object, Record<string, unknown>>();
+
+/**
+ * 监听器与解码包装函数的映射，保证同一监听器多次注册/移除时使用同一个包装函数
+ */
+const decodedListenerCache = new WeakMap<object, (event: unknown) => void>();
+
+function decodeJsonValue(value: unknown): unknown {
+    if (typeof value !== 'string') {
+        return value;
+    }
+    const trimmed = value.trim();
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) {
+        return value;
+    }
+    try {
+        return JSON.parse(trimmed);
+    } catch {
+        return value;
+    }
+}
+
+/**
+ * 解码 Native 事件数据
+ * Native 事件为扁平对象，其中对象/数组字段以 JSON 字符串传递，这里统一解析为对象
+ */
+export function decodeEventPayload<T = Record<string, unknown>>(raw: unknown): T {
+    const source = decodeJsonValue(raw);
+    if (!source || typeof source !== 'object' || Array.isArray(source)) {
+        return {} as T;
+    }
+    const cached = decodedEventCache.get(source);
+    if (cached) {
+        return cached as T;
+    }
+    const decoded: Record<string, unknown> = {};
+    Object.keys(source).forEach((key) => {
+        decoded[key] = decodeJsonValue((source as Record<string, unknown>)[key]);
+    });
+    decodedEventCache.set(source, decoded);
+    return decoded as T;
+}
+
+/**
+ * 包装事件监听器，回调前先解码事件数据
+ */
+export function createDecodedListener<T>(listener: (event: T) => void): (event: unknown) => void {
+    let wrapped = decodedListenerCache.get(listener);
+    if (!wrapped) {
+        wrapped = (event: unknown) => listener(decodeEventPayload<T>(event));
+        decodedListenerCache.set(listener, wrapped);
+    }
+    return wrapped;
+}
+
 /**
  * 验证必填参数
  */
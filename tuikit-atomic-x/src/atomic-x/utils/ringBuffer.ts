@@ -0,0 +1,57 @@
+/**
+ * 固定容量的环形缓冲区
+ * 按时间顺序保存元素，写满后自动丢弃最旧的元素
+ */
+export class RingBuffer<T> {
+    private items: Array<T | undefined>;
+    private start = 0;
+    private count = 0;
+
+    constructor(readonly capacity: number) {
+        if (!Number.isInteger(capacity) || capacity <= 0) {
+            throw new RangeError(`RingBuffer capacity must be a positive integer, got ${capacity}`);
+        }
+        this.items = new Array(capacity);
+    }
+
+    /** 当前元素数量 */
+    get size(): number {
+        return this.count;
+    }
+
+    /**
+     * 按顺序追加元素（最新的在最后），超出容量时丢弃最旧的元素
+     */
+    push(...values: T[]): void {
+        values.forEach((value) => {
+            const index = (this.start + this.count) % this.capacity;
+            this.items[index] = value;
+            if (this.count < this.capacity) {
+                this.count += 1;
+            } else {
+                this.start = (this.start + 1) % this.capacity;
+            }
+        });
+    }
+
+    /**
+     * 取出最新的 n 个元素，按时间顺序（旧 -> 新）返回
+     */
+    popNewest(n: number): T[] {
+        const takeCount = Math.max(0, Math.min(n, this.count));
+        const result: T[] = [];
+        for (let i = this.count - takeCount; i < this.count; i += 1) {
+            const index = (this.start + i) % this.capacity;
+            result.push(this.items[index] as T);
+            this.items[index] = undefined;
+        }
+        this.count -= takeCount;
+        return result;
+    }
+
+    clear(): void {
+        this.items = new Array(this.capacity);
+        this.start = 0;
+        this.count = 0;
+    }
+}
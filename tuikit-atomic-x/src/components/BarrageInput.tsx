@@ -3,19 +3,57 @@
  * 弹幕输入框组件
  */
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
     View,
+    Text,
+    TouchableOpacity,
     TextInput,
+    Image,
+    ScrollView,
     StyleSheet,
     Dimensions,
     Keyboard,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { useBarrageState } from '../atomic-x/state/BarrageState';
+import {
+    useBarrageActions,
+    useBarrageSelector,
+    createBarrageReplyInfo,
+    getMentionQuery,
+    insertMention,
+    getBarrageEmojiPacks,
+    insertEmoji,
+    encodeBarrageSticker,
+    STICKER_BUSINESS_ID,
+} from '../atomic-x/state/BarrageState';
+import type { BarrageEmoji, BarrageEmojiPack, BarrageMention } from '../atomic-x/state/BarrageState/types';
+import { useLiveAudienceSelector } from '../atomic-x/state/LiveAudienceState';
+import { useLoginSelector } from '../atomic-x/state/LoginState';
+import { ContentRejectedError, SendThrottledError } from '../atomic-x/errors';
+import { showToast } from './CustomToast';
+
+// 内置审核原因对应的提示文案，自定义原因使用通用提示
+const MODERATION_REASON_KEYS: Record<string, string> = {
+    SENSITIVE_WORD: 'barrage.rejected.sensitiveWord',
+    LINK: 'barrage.rejected.link',
+    PHONE_NUMBER: 'barrage.rejected.phoneNumber',
+    REGEX_RULE: 'barrage.rejected.default',
+};
 
 const screenWidth = Dimensions.get('window').width;
 
+// @ 提及候选最多展示的条数
+const MAX_MENTION_SUGGESTIONS = 5;
+
+// 表情没有图片时用字符渲染
+function EmojiIcon({ emoji, size }: { emoji: BarrageEmoji; size: number }) {
+    if (emoji.source !== undefined) {
+        return <Image source={emoji.source} style={{ width: size, height: size }} resizeMode="contain" />;
+    }
+    return <Text style={{ fontSize: size * 0.8, lineHeight: size }}>{emoji.text || `[${emoji.key}]`}</Text>;
+}
+
 interface BarrageInputProps {
     liveID: string;
     onSend?: () => void;
@@ -24,26 +62,125 @@ interface BarrageInputProps {
 export function BarrageInput({ liveID, onSend }: BarrageInputProps) {
     const { t } = useTranslation();
     const [inputValue, setInputValue] = useState('');
-    const { sendTextMessage, allowSendMessage } = useBarrageState(liveID);
+    const { sendTextMessage, sendCustomMessage, setReplyTarget } = useBarrageActions(liveID);
+    const allowSendMessage = useBarrageSelector(liveID, (state) => state.allowSendMessage);
+    const sendCooldownUntil = useBarrageSelector(liveID, (state) => state.sendCooldownUntil);
+    const replyTarget = useBarrageSelector(liveID, (state) => state.replyTarget);
+    const audienceList = useLiveAudienceSelector(liveID, (state) => state.audienceList);
+    const loginUserID = useLoginSelector((state) => state.loginUserInfo?.userID);
+    const [now, setNow] = useState(() => Date.now());
+    const [selection, setSelection] = useState({ start: 0, end: 0 });
+    const [mentions, setMentions] = useState<BarrageMention[]>([]);
+    const [emojiPanelVisible, setEmojiPanelVisible] = useState(false);
+    const [emojiPacks, setEmojiPacks] = useState<BarrageEmojiPack[]>([]);
+    const [activePackID, setActivePackID] = useState<string | null>(null);
+    const activePack = emojiPacks.find((pack) => pack.packID === activePackID) ?? emojiPacks[0];
+
+    // 光标前正在输入的 @ 关键字，从观众列表中匹配候选
+    const mentionQuery = getMentionQuery(inputValue, selection.start);
+    const mentionSuggestions = useMemo(() => {
+        if (mentionQuery === null) {
+            return [];
+        }
+        const query = mentionQuery.toLowerCase();
+        return audienceList
+            .filter((user) => user.userID !== loginUserID)
+            .map((user) => ({ userID: user.userID, userName: String(user.userName || user.nickname || user.userID) }))
+            .filter((user) => user.userName.toLowerCase().includes(query) || user.userID.toLowerCase().includes(query))
+            .slice(0, MAX_MENTION_SUGGESTIONS);
+    }, [mentionQuery, audienceList, loginUserID]);
+
+    const handleSelectMention = (mention: BarrageMention) => {
+        const next = insertMention(inputValue, selection.start, mention);
+        setInputValue(next.text);
+        setSelection({ start: next.cursor, end: next.cursor });
+        setMentions((prev) => [...prev.filter((item) => item.userID !== mention.userID), mention]);
+    };
+
+    // 冷却期间每秒刷新一次倒计时
+    useEffect(() => {
+        if (sendCooldownUntil <= Date.now()) {
+            return undefined;
+        }
+        setNow(Date.now());
+        const timer = setInterval(() => {
+            const current = Date.now();
+            setNow(current);
+            if (current >= sendCooldownUntil) {
+                clearInterval(timer);
+            }
+        }, 1000);
+        return () => clearInterval(timer);
+    }, [sendCooldownUntil]);
+
+    const cooldownSeconds = Math.max(0, Math.ceil((sendCooldownUntil - now) / 1000));
+    const isCoolingDown = cooldownSeconds > 0;
 
     const handleSend = () => {
         // if (!inputValue.trim() || !allowSendMessage) {
         //     return;
         // }
+        if (isCoolingDown) {
+            return;
+        }
 
         sendTextMessage({
             liveID: liveID,
             text: inputValue.trim(),
+            mentions,
+            replyTo: replyTarget ? createBarrageReplyInfo(replyTarget) : undefined,
             onSuccess: () => {
                 setInputValue('');
+                setMentions([]);
+                setReplyTarget(null);
                 onSend?.();
             },
             onError: (error) => {
+                // 被本地审核拦截时提示原因，保留输入内容方便修改
+                if (error instanceof ContentRejectedError) {
+                    showToast(t(MODERATION_REASON_KEYS[error.reason] ?? 'barrage.rejected.default'), 2000);
+                    return;
+                }
+                if (error instanceof SendThrottledError) {
+                    showToast(error.reason === 'DUPLICATE' ? t('barrage.duplicate') : t('barrage.tooFast'), 2000);
+                    return;
+                }
                 console.error('发送消息失败:', error);
             },
         });
     };
 
+    // 每次打开面板时读取表情包，宿主应用可能在运行时注册新的表情包
+    const toggleEmojiPanel = () => {
+        if (!emojiPanelVisible) {
+            Keyboard.dismiss();
+            setEmojiPacks(getBarrageEmojiPacks());
+        }
+        setEmojiPanelVisible(!emojiPanelVisible);
+    };
+
+    // 小表情插入短码，大表情直接作为一条消息发送
+    const handleSelectEmoji = (pack: BarrageEmojiPack, emoji: BarrageEmoji) => {
+        if (pack.type === 'emoji') {
+            const next = insertEmoji(inputValue, selection.start, emoji.key);
+            setInputValue(next.text);
+            setSelection({ start: next.cursor, end: next.cursor });
+            return;
+        }
+        sendCustomMessage({
+            liveID: liveID,
+            businessID: STICKER_BUSINESS_ID,
+            data: encodeBarrageSticker(pack.packID, emoji.key),
+            onSuccess: () => {
+                setEmojiPanelVisible(false);
+                onSend?.();
+            },
+            onError: (error) => {
+                console.error('发送大表情失败:', error);
+            },
+        });
+    };
+
     // 当输入框失去焦点时关闭键盘
     const handleBlur = () => {
         Keyboard.dismiss();
@@ -51,19 +188,80 @@ export function BarrageInput({ liveID, onSend }: BarrageInputProps) {
 
     return (
         <View style={styles.container}>
+            {/* @ 提及候选 */}
+            {mentionSuggestions.length > 0 && (
+                <View style={styles.suggestionList}>
+                    {mentionSuggestions.map((user) => (
+                        <TouchableOpacity
+                            key={user.userID}
+                            style={styles.suggestionItem}
+                            onPress={() => handleSelectMention(user)}>
+                            <Text style={styles.suggestionText} numberOfLines={1}>@{user.userName}</Text>
+                        </TouchableOpacity>
+                    ))}
+                </View>
+            )}
+            {/* 正在回复的消息 */}
+            {replyTarget && mentionSuggestions.length === 0 && (
+                <View style={styles.replyBanner}>
+                    <Text style={styles.replyText} numberOfLines={1}>
+                        {t('barrage.replyTo', { name: createBarrageReplyInfo(replyTarget)?.senderName || '' })}
+                    </Text>
+                    <TouchableOpacity onPress={() => setReplyTarget(null)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                        <Text style={styles.replyClose}>✕</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+            {/* 表情面板 */}
+            {emojiPanelVisible && activePack && (
+                <View style={styles.emojiPanel}>
+                    <ScrollView contentContainerStyle={styles.emojiGrid}>
+                        {activePack.emojis.map((emoji) => (
+                            <TouchableOpacity
+                                key={emoji.key}
+                                style={activePack.type === 'sticker' ? styles.stickerItem : styles.emojiItem}
+                                onPress={() => handleSelectEmoji(activePack, emoji)}>
+                                <EmojiIcon emoji={emoji} size={activePack.type === 'sticker' ? 56 : 28} />
+                            </TouchableOpacity>
+                        ))}
+                    </ScrollView>
+                    {emojiPacks.length > 1 && (
+                        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.packTabs}>
+                            {emojiPacks.map((pack) => (
+                                <TouchableOpacity
+                                    key={pack.packID}
+                                    style={[styles.packTab, pack.packID === activePack.packID && styles.packTabActive]}
+                                    onPress={() => setActivePackID(pack.packID)}>
+                                    {pack.icon !== undefined ? (
+                                        <Image source={pack.icon} style={styles.packTabIcon} resizeMode="contain" />
+                                    ) : pack.emojis[0] ? (
+                                        <EmojiIcon emoji={pack.emojis[0]} size={20} />
+                                    ) : null}
+                                </TouchableOpacity>
+                            ))}
+                        </ScrollView>
+                    )}
+                </View>
+            )}
             <TextInput
-                style={styles.input}
-                placeholder={t('barrage.placeholder')}
+                style={[styles.input, isCoolingDown && styles.inputDisabled]}
+                placeholder={isCoolingDown ? t('barrage.cooldown', { seconds: cooldownSeconds }) : t('barrage.placeholder')}
                 placeholderTextColor="rgba(255, 255, 255, 0.5)"
                 value={inputValue}
                 onChangeText={setInputValue}
+                selection={selection}
+                onSelectionChange={(event) => setSelection(event.nativeEvent.selection)}
                 onSubmitEditing={handleSend}
                 onBlur={handleBlur}
                 returnKeyType="send"
                 returnKeyLabel={t('barrage.send')}
                 // editable={allowSendMessage}
                 multiline={false}
+                onFocus={() => setEmojiPanelVisible(false)}
             />
+            <TouchableOpacity style={styles.emojiButton} onPress={toggleEmojiPanel}>
+                <Image source={require('../static/images/emoji.png')} style={styles.emojiButtonIcon} />
+            </TouchableOpacity>
         </View>
     );
 }
@@ -77,12 +275,118 @@ const styles = StyleSheet.create({
         backgroundColor: 'rgba(34, 38, 46, 0.5)',
         borderRadius: 36,
         height: 36,
-        paddingHorizontal: 20,
+        paddingLeft: 20,
+        paddingRight: 36,
         paddingVertical: 8,
         color: '#ffffff',
         fontSize: 14,
         borderWidth: 1,
         borderColor: 'rgba(255, 255, 255, 0.14)',
     },
+    inputDisabled: {
+        opacity: 0.5,
+    },
+    emojiButton: {
+        position: 'absolute',
+        right: 8,
+        top: 6,
+        width: 24,
+        height: 24,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    emojiButtonIcon: {
+        width: 20,
+        height: 20,
+    },
+    emojiPanel: {
+        position: 'absolute',
+        bottom: 42,
+        left: 0,
+        width: screenWidth - 32,
+        maxHeight: 220,
+        backgroundColor: 'rgba(34, 38, 46, 0.95)',
+        borderRadius: 12,
+        paddingVertical: 8,
+    },
+    emojiGrid: {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        paddingHorizontal: 8,
+    },
+    emojiItem: {
+        width: 40,
+        height: 40,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    stickerItem: {
+        width: 72,
+        height: 72,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    packTabs: {
+        flexGrow: 0,
+        marginTop: 8,
+        paddingHorizontal: 8,
+        borderTopWidth: StyleSheet.hairlineWidth,
+        borderTopColor: 'rgba(255, 255, 255, 0.14)',
+    },
+    packTab: {
+        width: 36,
+        height: 32,
+        marginTop: 6,
+        marginRight: 4,
+        borderRadius: 6,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    packTabActive: {
+        backgroundColor: 'rgba(255, 255, 255, 0.14)',
+    },
+    packTabIcon: {
+        width: 20,
+        height: 20,
+    },
+    suggestionList: {
+        position: 'absolute',
+        bottom: 42,
+        left: 0,
+        width: screenWidth * 0.5,
+        backgroundColor: 'rgba(34, 38, 46, 0.9)',
+        borderRadius: 8,
+        paddingVertical: 4,
+    },
+    suggestionItem: {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+    },
+    suggestionText: {
+        color: '#ffffff',
+        fontSize: 14,
+    },
+    replyBanner: {
+        position: 'absolute',
+        bottom: 42,
+        left: 0,
+        width: screenWidth * 0.5,
+        flexDirection: 'row',
+        alignItems: 'center',
+        backgroundColor: 'rgba(34, 38, 46, 0.9)',
+        borderRadius: 8,
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+    },
+    replyText: {
+        flex: 1,
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 12,
+    },
+    replyClose: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 12,
+        marginLeft: 8,
+    },
 });
 
@@ -3,26 +3,59 @@
  * 弹幕列表组件
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import {
     View,
+    ActivityIndicator,
     Text,
     StyleSheet,
     FlatList,
     TouchableOpacity,
     Image,
     Dimensions,
+    Animated,
+    Easing,
 } from 'react-native';
+import type { NativeScrollEvent, NativeSyntheticEvent } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { useLiveListState } from '../atomic-x/state/LiveListState';
-import { useBarrageState } from '../atomic-x/state/BarrageState';
+import { useLiveListSelector } from '../atomic-x/state/LiveListState';
+import {
+    useBarrageActions,
+    useBarrageSelector,
+    usePinnedMessage,
+    getBarrageReply,
+    isBarrageMentioned,
+    getBarrageSticker,
+    parseBarrageTokens,
+    getBarrageMessageCodec,
+    getBarragePayload,
+} from '../atomic-x/state/BarrageState';
 import type { BarrageParam } from '../atomic-x/state/BarrageState/types';
-import { useLoginState } from '../atomic-x/state/LoginState';
+import { useLoginSelector } from '../atomic-x/state/LoginState';
+import { useGiftCombos } from '../atomic-x/state/GiftState';
+import type { GiftCombo } from '../atomic-x/state/GiftState/types';
+import { ActionSheet } from './ActionSheet';
 import { DEFAULT_AVATAR_URL } from './constants';
 
 const screenWidth = Dimensions.get('window').width;
 const screenHeight = Dimensions.get('window').height;
 
+// 距离顶部/底部小于该值时视为滚动到边缘
+const SCROLL_EDGE_THRESHOLD = 24;
+// 上拉一次加载的历史消息条数
+const EARLIER_MESSAGE_PAGE_SIZE = 20;
+// 点击回复跳转到原消息后，原消息高亮的时长
+const REPLY_HIGHLIGHT_DURATION = 1500;
+// 底部输入框高度、输入框与消息列表的间距
+const INPUT_BAR_HEIGHT = 46;
+const INPUT_BAR_SPACING = 20;
+// 消息列表高度，置顶消息显示在列表上方
+const CHAT_LIST_HEIGHT = 190;
+const PINNED_BANNER_SPACING = 8;
+// 礼物提示的默认位置和每条提示占用的高度
+const TOAST_BOTTOM = screenHeight - 460;
+const TOAST_HEIGHT = 60;
+
 interface BarrageMessage {
     sequence?: string;
     sender?: {
@@ -36,6 +69,8 @@ interface BarrageMessage {
         iconURL?: string;
     };
     count?: number;
+    // 折叠模式下合并的相同消息条数
+    repeatCount?: number;
     [key: string]: unknown;
 }
 
@@ -47,46 +82,44 @@ const convertBarrageParamToMessage = (param: BarrageParam, index: number): Barra
 
     if (typeof senderValue === 'object' && senderValue !== null) {
         senderObj = {
-            userID: (senderValue as any).userID || param.userID,
-            userName: (senderValue as any).userName || (senderValue as any).nickname || param.nickname,
-            avatarURL: (senderValue as any).avatarURL || param.avatarURL,
+            userID: senderValue.userID || param.userID,
+            userName: senderValue.userName || param.nickname,
+            avatarURL: senderValue.avatarURL || param.avatarURL,
         };
     } else {
         senderObj = {
-            userID: param.userID || (typeof senderValue === 'string' ? senderValue : undefined),
-            userName: param.nickname || (typeof senderValue === 'string' ? senderValue : undefined),
+            userID: param.userID || senderValue,
+            userName: param.nickname || senderValue,
             avatarURL: param.avatarURL,
         };
     }
 
-    // 处理礼物消息的 textContent：如果是礼物消息，textContent 应该是完整格式
-    // 格式：xx 送给 xx 什么礼物 x count
-    // 如果是主播本人发送，则显示"送给我"，否则显示"送给主播的 userName || userID"
-    let textContent: string;
-    if ((param as any).gift) {
-        // 礼物消息：textContent 需要包含完整信息
-        // 注意：这里先设置礼物名称，完整的 textContent 会在 BarrageList 组件中根据模式动态生成
-        // 但为了兼容，这里先设置礼物名称
-        textContent = ((param as any).gift?.name || '') as string;
-    } else {
-        // 普通消息：从多个可能的字段中获取
-        // 优先顺序：text > content > textContent（如果 param 中已有）> 空字符串
-        textContent = param.text || param.content || (param as any).textContent || '';
-    }
+    // 礼物消息先用礼物名称占位，完整的 "xx 送给 xx 什么礼物 x count" 在渲染时根据模式生成
+    // 普通消息优先顺序：text > content > textContent > 空字符串
+    const textContent = param.gift
+        ? param.gift.name || ''
+        : param.text || param.content || param.textContent || '';
 
-    // 先构建基础对象，确保 textContent 在最后设置，不会被覆盖
-    const message: BarrageMessage = {
+    // 保留 gift、count 等其他字段，sender 和 textContent 使用上面整理后的值
+    return {
+        ...param,
         sequence: param.messageID || `msg_${index}`,
         sender: senderObj,
-        // 保留其他字段（如 gift、count 等）
-        ...(param as any),
-        // 最后设置 textContent，确保它不会被覆盖
-        textContent: textContent,
+        textContent,
     };
-
-    return message;
 };
 
+// 将文本中的表情短码渲染为行内图片，没有图片的表情直接渲染字符
+const renderBarrageText = (text: string) => parseBarrageTokens(text).map((token, index) => {
+    if (token.type === 'text') {
+        return token.text;
+    }
+    if (token.emoji.source !== undefined) {
+        return <Image key={`${token.key}_${index}`} source={token.emoji.source} style={styles.inlineEmoji} />;
+    }
+    return token.emoji.text || `[${token.key}]`;
+});
+
 interface GiftToast {
     id: string;
     avatarURL?: string;
@@ -103,6 +136,76 @@ interface GiftToast {
     autoHide?: boolean;
 }
 
+// 礼物图标为空时，PNG 格式的资源地址可以直接作为图标
+const getGiftIconURL = (gift: GiftCombo['gift']): string => {
+    const iconURL = gift.iconURL || (gift.iconUrl as string | undefined) || '';
+    if (iconURL) {
+        return iconURL;
+    }
+    const resourceURL = gift.resourceURL || (gift.resourceUrl as string | undefined) || '';
+    const urlLower = resourceURL.toLowerCase();
+    return urlLower.endsWith('.png') || urlLower.includes('.png?') ? resourceURL : '';
+};
+
+/**
+ * 礼物连击提示：数量增加时 ×N 弹跳，底部进度条显示连击剩余时间
+ */
+function GiftComboToast({ combo, bottom }: { combo: GiftCombo; bottom: number }) {
+    const scale = useRef(new Animated.Value(1)).current;
+    const remaining = useRef(new Animated.Value(1)).current;
+
+    useEffect(() => {
+        scale.setValue(1.6);
+        Animated.spring(scale, { toValue: 1, friction: 4, useNativeDriver: true }).start();
+
+        // 每次连击都会刷新超时时间，进度条重新开始收缩
+        remaining.setValue(1);
+        const countdown = Animated.timing(remaining, {
+            toValue: 0,
+            duration: Math.max(0, combo.expiresAt - Date.now()),
+            easing: Easing.linear,
+            useNativeDriver: false,
+        });
+        countdown.start();
+        return () => countdown.stop();
+    }, [combo.count, combo.expiresAt, scale, remaining]);
+
+    const iconURL = getGiftIconURL(combo.gift);
+
+    return (
+        <View style={[styles.toastContainer, styles.comboToast, { bottom }]}>
+            <View style={[styles.toastContent, styles.comboToastContent]}>
+                <Image
+                    source={{ uri: combo.sender?.avatarURL || DEFAULT_AVATAR_URL }}
+                    style={styles.userAvatar}
+                />
+                <View style={styles.userDetails}>
+                    <Text style={styles.username} numberOfLines={1}>
+                        {combo.sender?.userName || combo.sender?.userID || ''}
+                    </Text>
+                    <Text style={styles.actionText} numberOfLines={1}>
+                        {combo.gift.name || ''}
+                    </Text>
+                </View>
+                {iconURL !== '' && (
+                    <View style={styles.iconContainer}>
+                        <Image source={{ uri: iconURL }} style={styles.icon} resizeMode="contain" />
+                    </View>
+                )}
+                <Animated.View
+                    style={[
+                        styles.comboTimeoutBar,
+                        { width: remaining.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] }) },
+                    ]}
+                />
+            </View>
+            <Animated.Text style={[styles.comboCount, { transform: [{ scale }] }]}>
+                ×{combo.count}
+            </Animated.Text>
+        </View>
+    );
+}
+
 interface BarrageListProps {
     mode?: 'anchor' | 'audience';
     bottomPx?: number;
@@ -126,13 +229,31 @@ export function BarrageList({
     onToastClosed,
 }: BarrageListProps) {
     const { t } = useTranslation();
-    const { currentLive } = useLiveListState();
-    const { messageList } = useBarrageState(liveID || '');
-    const { loginUserInfo } = useLoginState();
+    const currentLive = useLiveListSelector((state) => state.currentLive);
+    const { messageList, hasEarlierMessages, isLoadingEarlierMessages } = useBarrageSelector(liveID || '', (state) => ({
+        messageList: state.messageList,
+        hasEarlierMessages: state.hasEarlierMessages,
+        isLoadingEarlierMessages: state.isLoadingEarlierMessages,
+    }));
+    const { loadEarlierMessages, collapseEarlierMessages, setReplyTarget, pinMessage, unpinMessage } = useBarrageActions(liveID || '');
+    const loginUserInfo = useLoginSelector((state) => state.loginUserInfo);
+    // 房主或管理员可以置顶消息，被设为管理员后立即生效；晚进房时从直播间 metaData 恢复置顶
+    const { pinnedMessage, canPin } = usePinnedMessage(liveID || '');
+    const [isPinnedExpanded, setIsPinnedExpanded] = useState(false);
+    // 房主/管理员长按消息时弹出的操作面板
+    const [actionTarget, setActionTarget] = useState<BarrageParam | null>(null);
+
+    // 进行中的礼物连击，同一用户连续送出的同一礼物只显示一条提示
+    const giftCombos = useGiftCombos(liveID || '');
 
     // 计算礼物相关的前缀和接收者名称（与 Vue 版本保持一致）
     const [visibleToasts, setVisibleToasts] = useState<GiftToast[]>([]);
     const flatListRef = useRef<FlatList>(null);
+    // 用户停留在底部时新消息自动滚动到底部，上滑查看历史时保持当前位置
+    const isAtBottomRef = useRef(true);
+    // 点击回复引用后高亮的原消息
+    const [highlightedKey, setHighlightedKey] = useState<string | null>(null);
+    const highlightTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     // 将 BarrageParam[] 转换为 BarrageMessage[]
     const mixMessageList: BarrageMessage[] = messageList.map((param, index) => {
@@ -173,11 +294,11 @@ export function BarrageList({
         console.log('[BarrageList] showToast 被调用:', toastConfig);
         const defaultPosition = {
             top: 'auto',
-            bottom: screenHeight - 460,
+            bottom: TOAST_BOTTOM,
             left: 16,
             right: 'auto',
         };
-        const toastHeight = 60;
+        const toastHeight = TOAST_HEIGHT;
 
         setVisibleToasts((prev) => {
             const newToast: GiftToast = {
@@ -283,27 +404,122 @@ export function BarrageList({
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [toastProp]);
 
-    // 自动滚动到底部
+    // 自动滚动到底部：窗口写满后消息条数不再变化，按最后一条消息判断是否有新消息
+    const lastMessageKey = mixMessageList[mixMessageList.length - 1]?.sequence;
     useEffect(() => {
-        if (mixMessageList.length > 0 && flatListRef.current) {
+        if (lastMessageKey && flatListRef.current && isAtBottomRef.current) {
             setTimeout(() => {
                 flatListRef.current?.scrollToEnd({ animated: true });
             }, 100);
         }
-    }, [mixMessageList.length]);
+    }, [lastMessageKey]);
+
+    // 滚动到顶部时加载更早的消息，回到底部时收起已加载的历史消息
+    const handleScroll = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+        const distanceFromBottom = contentSize.height - (contentOffset.y + layoutMeasurement.height);
+        const isAtBottom = distanceFromBottom <= SCROLL_EDGE_THRESHOLD;
+        if (isAtBottom && !isAtBottomRef.current) {
+            collapseEarlierMessages();
+        }
+        isAtBottomRef.current = isAtBottom;
+
+        if (contentOffset.y <= SCROLL_EDGE_THRESHOLD && !isAtBottom && liveID && hasEarlierMessages && !isLoadingEarlierMessages) {
+            loadEarlierMessages({ liveID, count: EARLIER_MESSAGE_PAGE_SIZE });
+        }
+    }, [liveID, hasEarlierMessages, isLoadingEarlierMessages, loadEarlierMessages, collapseEarlierMessages]);
+
+    useEffect(() => () => {
+        if (highlightTimerRef.current) {
+            clearTimeout(highlightTimerRef.current);
+        }
+    }, []);
+
+    // 点击回复引用：滚动到原消息并短暂高亮；原消息已不在列表中时不处理
+    const handleReplyTap = (messageID: string) => {
+        const index = mixMessageList.findIndex((message) => message.sequence === messageID);
+        if (index < 0) {
+            return;
+        }
+        flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+        setHighlightedKey(messageID);
+        if (highlightTimerRef.current) {
+            clearTimeout(highlightTimerRef.current);
+        }
+        highlightTimerRef.current = setTimeout(() => setHighlightedKey(null), REPLY_HIGHLIGHT_DURATION);
+    };
+
+    // 房主/管理员长按可以回复或置顶，其他人长按直接回复
+    const handleItemLongPress = (param: BarrageParam) => {
+        if (canPin) {
+            setActionTarget(param);
+        } else {
+            setReplyTarget(param);
+        }
+    };
+
+    const handleActionSelect = (index: number) => {
+        const target = actionTarget;
+        setActionTarget(null);
+        if (!target || !liveID) {
+            return;
+        }
+        if (index === 0) {
+            setReplyTarget(target);
+            return;
+        }
+        pinMessage({
+            liveID,
+            message: target,
+            onError: (error) => console.error('[BarrageList] 置顶消息失败:', error),
+        });
+    };
+
+    const handleUnpin = () => {
+        if (!liveID) {
+            return;
+        }
+        unpinMessage({
+            liveID,
+            onError: (error) => console.error('[BarrageList] 取消置顶失败:', error),
+        });
+    };
+
+    // 行高不固定，目标行尚未渲染时先滚动到估算位置，渲染后再定位
+    const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+        flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+        setTimeout(() => {
+            flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+        }, 100);
+    };
 
     // 渲染消息项
-    const renderMessageItem = ({ item }: { item: BarrageMessage }) => {
+    const renderMessageItem = ({ item, index }: { item: BarrageMessage; index: number }) => {
         const owner = currentLive?.liveOwner as { userID?: string } | undefined;
         const isOwner =
             item.sender?.userID === owner?.userID;
+        const param = messageList[index];
+        const reply = param ? getBarrageReply(param) : undefined;
+        const isMentioned = !!param && isBarrageMentioned(param, loginUserInfo?.userID);
+        const sticker = param ? getBarrageSticker(param) : undefined;
+        // 已注册编解码器的自定义消息使用编解码器的 render 渲染
+        const codec = param?.businessID ? getBarrageMessageCodec(param.businessID) : undefined;
+        const payload = param && codec?.render ? getBarragePayload(param, codec.businessID) : undefined;
+        const customContent = param && codec?.render && payload !== undefined ? codec.render(payload, param) : undefined;
 
         return (
             <TouchableOpacity
                 style={styles.chatItem}
                 onPress={() => handleItemTap(item)}
+                // 长按普通弹幕进入回复
+                onLongPress={!item.gift && param ? () => handleItemLongPress(param) : undefined}
                 activeOpacity={0.7}>
-                <View style={styles.messageContentWrapper}>
+                <View
+                    style={[
+                        styles.messageContentWrapper,
+                        isMentioned && styles.messageMentioned,
+                        highlightedKey === item.sequence && styles.messageHighlighted,
+                    ]}>
                     {item.gift ? (
                         // 礼物消息：textContent 已经包含完整格式 "xx 送给 xx 什么礼物 x count"
                         <View style={styles.nicknameContentGift}>
@@ -311,6 +527,10 @@ export function BarrageList({
                                 {item.textContent || t('barrage.gift', { name: item.sender?.userName || item.sender?.userID, gift: `${getGiftReceiverName(item.sender?.userID)} ${item.gift?.name || ''}${item.count && item.count > 1 ? ` x${item.count}` : ''}` })}
                             </Text>
                         </View>
+                    ) : customContent !== undefined ? (
+                        <View style={styles.customMessage}>
+                            {customContent}
+                        </View>
                     ) : (
                         // 普通弹幕：
                         // 左侧为按钮感更强的「主播」标签；
@@ -324,14 +544,40 @@ export function BarrageList({
                                 </View>
                             )}
                             <View style={styles.messageTextWrapper}>
+                                {reply && (
+                                    <Text
+                                        style={styles.replyQuote}
+                                        numberOfLines={1}
+                                        onPress={() => handleReplyTap(reply.messageID)}>
+                                        {`${t('barrage.replyTo', { name: reply.senderName || reply.senderID || '' })}: ${reply.text || ''}`}
+                                    </Text>
+                                )}
                                 <Text style={styles.messageText}>
+                                    {isMentioned && (
+                                        <Text style={styles.mentionedTag}>
+                                            {`[${t('barrage.mentionedYou')}] `}
+                                        </Text>
+                                    )}
                                     <Text style={styles.chatNicknameInline}>
                                         {item.sender?.userName || item.sender?.userID}：
                                     </Text>
-                                    <Text style={styles.chatContentInline}>
-                                        {item.textContent || ''}
-                                    </Text>
+                                    {!sticker && (
+                                        <Text style={styles.chatContentInline}>
+                                            {renderBarrageText(item.textContent || '')}
+                                        </Text>
+                                    )}
+                                    {item.repeatCount && item.repeatCount > 1 ? (
+                                        <Text style={styles.repeatCountInline}>
+                                            {` ×${item.repeatCount}`}
+                                        </Text>
+                                    ) : null}
                                 </Text>
+                                {/* 大表情消息 */}
+                                {sticker && (sticker.emoji.source !== undefined ? (
+                                    <Image source={sticker.emoji.source} style={styles.sticker} resizeMode="contain" />
+                                ) : (
+                                    <Text style={styles.stickerText}>{sticker.emoji.text || `[${sticker.key}]`}</Text>
+                                ))}
                             </View>
                         </View>
                     )}
@@ -342,6 +588,24 @@ export function BarrageList({
 
     return (
         <>
+            {/* 置顶消息，点击展开/收起 */}
+            {pinnedMessage && (
+                <TouchableOpacity
+                    style={[styles.pinnedBanner, { bottom: bottomPx + INPUT_BAR_HEIGHT + INPUT_BAR_SPACING + CHAT_LIST_HEIGHT + PINNED_BANNER_SPACING }]}
+                    onPress={() => setIsPinnedExpanded(!isPinnedExpanded)}
+                    activeOpacity={0.8}>
+                    <Text style={styles.pinnedText} numberOfLines={isPinnedExpanded ? undefined : 1}>
+                        <Text style={styles.pinnedLabel}>{`📌 ${t('barrage.pinned')} `}</Text>
+                        {pinnedMessage.senderName ? `${pinnedMessage.senderName}：` : ''}
+                        {renderBarrageText(pinnedMessage.text)}
+                    </Text>
+                    {canPin && (
+                        <TouchableOpacity onPress={handleUnpin} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                            <Text style={styles.pinnedClose}>✕</Text>
+                        </TouchableOpacity>
+                    )}
+                </TouchableOpacity>
+            )}
             {/* 聊天消息列表 - 直接使用绝对定位，不依赖父容器 */}
             <FlatList
                 ref={flatListRef}
@@ -351,13 +615,27 @@ export function BarrageList({
                 style={[
                     styles.chatList,
                     {
-                        bottom: bottomPx + 46 + 20, // 输入框高度(46) + 间距(20)
+                        bottom: bottomPx + INPUT_BAR_HEIGHT + INPUT_BAR_SPACING,
                     },
                 ]}
                 contentContainerStyle={styles.chatListContent}
                 showsVerticalScrollIndicator={false}
                 inverted={false}
                 ListEmptyComponent={undefined}
+                onScroll={handleScroll}
+                scrollEventThrottle={100}
+                onScrollToIndexFailed={handleScrollToIndexFailed}
+                // 头部插入历史消息时保持当前可见内容的位置
+                maintainVisibleContentPosition={{ minIndexForVisible: 0 }}
+                ListHeaderComponent={isLoadingEarlierMessages ? (
+                    <ActivityIndicator size="small" color="#ffffff" style={styles.historyLoading} />
+                ) : undefined}
+            />
+            <ActionSheet
+                visible={!!actionTarget}
+                itemList={[t('barrage.reply'), t('barrage.pin')]}
+                onSelect={handleActionSelect}
+                onCancel={() => setActionTarget(null)}
             />
             {/* GiftToast 提示 */}
             {visibleToasts.map((toastItem) => (
@@ -397,6 +675,14 @@ export function BarrageList({
                     </View>
                 </View>
             ))}
+            {/* 礼物连击提示，排在普通提示之后 */}
+            {giftCombos.map((combo, index) => (
+                <GiftComboToast
+                    key={combo.comboID}
+                    combo={combo}
+                    bottom={TOAST_BOTTOM - (visibleToasts.length + index) * TOAST_HEIGHT}
+                />
+            ))}
         </>
     );
 }
@@ -409,12 +695,15 @@ const styles = StyleSheet.create({
         position: 'absolute',
         left: 16,
         width: screenWidth * 0.65,
-        height: 190,
+        height: CHAT_LIST_HEIGHT,
         zIndex: 1000,
     },
     chatListContent: {
         paddingBottom: 25,
     },
+    historyLoading: {
+        paddingVertical: 4,
+    },
     chatItem: {
         flexDirection: 'row',
         alignItems: 'flex-start',
@@ -588,6 +877,77 @@ const styles = StyleSheet.create({
         lineHeight: 16,
         fontWeight: '500',
     },
+    // @ 了本人或回复本人的消息
+    messageMentioned: {
+        backgroundColor: 'rgba(255, 165, 0, 0.35)',
+    },
+    // 点击回复引用后跳转到的原消息
+    messageHighlighted: {
+        backgroundColor: 'rgba(43, 106, 214, 0.6)',
+    },
+    replyQuote: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: 11,
+        lineHeight: 14,
+        marginBottom: 2,
+    },
+    mentionedTag: {
+        color: '#FFA500',
+        fontWeight: '600',
+    },
+    pinnedBanner: {
+        position: 'absolute',
+        left: 16,
+        width: screenWidth * 0.65,
+        flexDirection: 'row',
+        alignItems: 'flex-start',
+        backgroundColor: 'rgba(0, 0, 0, 0.45)',
+        borderRadius: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 6,
+        zIndex: 1001,
+    },
+    pinnedText: {
+        flex: 1,
+        color: '#ffffff',
+        fontSize: 12,
+        lineHeight: 16,
+    },
+    pinnedLabel: {
+        color: '#FFD84D',
+        fontWeight: '600',
+    },
+    pinnedClose: {
+        color: 'rgba(255, 255, 255, 0.8)',
+        fontSize: 12,
+        lineHeight: 16,
+        marginLeft: 8,
+    },
+    // 自定义消息：内容由编解码器渲染，宽度与普通弹幕一致
+    customMessage: {
+        maxWidth: screenWidth * 0.65,
+        minWidth: 0,
+    },
+    inlineEmoji: {
+        width: 16,
+        height: 16,
+    },
+    sticker: {
+        width: 64,
+        height: 64,
+        marginTop: 2,
+    },
+    stickerText: {
+        fontSize: 40,
+        lineHeight: 48,
+    },
+    // 折叠消息的 ×N 计数
+    repeatCountInline: {
+        color: '#FFD84D',
+        fontSize: 12,
+        lineHeight: 16,
+        fontWeight: '600',
+    },
     toastContainer: {
         zIndex: 999,
     },
@@ -645,5 +1005,28 @@ const styles = StyleSheet.create({
         width: 40,
         height: 40,
     },
+    comboToast: {
+        position: 'absolute',
+        left: 16,
+        flexDirection: 'row',
+        alignItems: 'center',
+    },
+    comboToastContent: {
+        overflow: 'hidden',
+    },
+    comboTimeoutBar: {
+        position: 'absolute',
+        left: 0,
+        bottom: 0,
+        height: 2,
+        backgroundColor: '#FFD84D',
+    },
+    comboCount: {
+        marginLeft: 8,
+        color: '#FFD84D',
+        fontSize: 24,
+        fontWeight: '700',
+        fontStyle: 'italic',
+    },
 });
 
@@ -0,0 +1,375 @@
+/**
+ * BattleOverlay Component
+ * 主播 PK 浮层组件
+ *
+ * 功能：
+ * 1. 显示 PK 倒计时
+ * 2. 按双方得分显示拔河进度条
+ * 3. 进度条下方显示双方送礼最多的前 3 名支持者
+ * 4. PK 结束后的惩罚时间内显示胜利 / 失败 / 平局结果
+ *
+ * @format
+ */
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    View,
+    Text,
+    Image,
+    StyleSheet,
+    Animated,
+} from 'react-native';
+import type { StyleProp, ViewStyle } from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { DEFAULT_AVATAR_URL } from './constants';
+import { BATTLE_SUPPORTER_LIMIT, useBattleState } from '../atomic-x/state/BattleState';
+import type {
+    BattleInfoParam,
+    BattleResult,
+    BattleSupporter,
+    SeatUserInfoParam,
+} from '../atomic-x/state/BattleState/types';
+import { useLiveListState } from '../atomic-x/state/LiveListState';
+
+const MIN_BAR_RATIO = 0.1; // 一方得分为 0 时进度条保留的最小比例
+
+type BattleOutcome = 'victory' | 'defeat' | 'draw';
+
+interface BattleSides {
+    ourUser?: SeatUserInfoParam;
+    opponents: SeatUserInfoParam[];
+    ourScore: number;
+    opponentScore: number;
+    ourSupporters: BattleSupporter[];
+    opponentSupporters: BattleSupporter[];
+}
+
+interface BattleOverlayProps {
+    liveID: string;
+    style?: StyleProp<ViewStyle>;
+}
+
+// Native 可能下发秒或毫秒时间戳，统一转为毫秒
+function toMillis(time?: number): number {
+    if (!time) {
+        return 0;
+    }
+    return time < 1e12 ? time * 1000 : time;
+}
+
+function getBattleEndTime(battleInfo: BattleInfoParam): number {
+    const endTime = toMillis(battleInfo.endTime);
+    if (endTime > 0) {
+        return endTime;
+    }
+    const startTime = toMillis(battleInfo.startTime);
+    return startTime > 0 && battleInfo.duration ? startTime + battleInfo.duration * 1000 : 0;
+}
+
+function formatCountdown(remainingMs: number): string {
+    const totalSeconds = Math.ceil(Math.max(0, remainingMs) / 1000);
+    const minutes = Math.floor(totalSeconds / 60);
+    const seconds = totalSeconds % 60;
+    return `${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+function getBattleOutcome(result: BattleResult, ourUser?: SeatUserInfoParam): BattleOutcome {
+    if (result.isDraw || !ourUser) {
+        return 'draw';
+    }
+    if (!result.winnerUserIDs.includes(ourUser.userID)) {
+        return 'defeat';
+    }
+    // 与其他主播并列第一按平局处理
+    return result.winnerUserIDs.length === 1 ? 'victory' : 'draw';
+}
+
+export function BattleOverlay({
+    liveID,
+    style,
+}: BattleOverlayProps) {
+    const { t } = useTranslation();
+    const {
+        currentBattleInfo,
+        battleUsers,
+        battleScore,
+        battleStatus,
+        battleResult,
+        battleSupporters,
+    } = useBattleState(liveID);
+    const { currentLive } = useLiveListState();
+    const ownerUserID = currentLive?.liveOwner?.userID;
+
+    const [now, setNow] = useState(() => Date.now());
+    const ratio = useRef(new Animated.Value(0.5)).current;
+
+    // 惩罚时间内展示结束时的得分和结果
+    const result = battleStatus === 'punishment' ? battleResult : null;
+    const isInBattle = !!currentBattleInfo && !result;
+
+    // 本直播间主播为我方，其余参与者为对方
+    const sides = useMemo<BattleSides>(() => {
+        const users = result ? result.users : battleUsers;
+        const scores = result ? result.scores : battleScore;
+        const supporters = result ? result.supporters : battleSupporters;
+        const isOurs = (user: SeatUserInfoParam) => user.liveID === liveID || (!!ownerUserID && user.userID === ownerUserID);
+        const scoreOf = (user: SeatUserInfoParam) => scores?.get(user.userID) ?? 0;
+        const ourUser = users.find(isOurs);
+        const opponents = users.filter((user) => !isOurs(user));
+        return {
+            ourUser,
+            opponents,
+            ourScore: ourUser ? scoreOf(ourUser) : 0,
+            opponentScore: opponents.reduce((sum, user) => sum + scoreOf(user), 0),
+            ourSupporters: ourUser ? supporters[ourUser.userID] ?? [] : [],
+            // 多位对手时合并后取前 3 名
+            opponentSupporters: opponents
+                .flatMap((user) => supporters[user.userID] ?? [])
+                .sort((a, b) => b.totalCoins - a.totalCoins)
+                .slice(0, BATTLE_SUPPORTER_LIMIT),
+        };
+    }, [result, battleUsers, battleScore, battleSupporters, liveID, ownerUserID]);
+
+    const endTime = isInBattle && currentBattleInfo ? getBattleEndTime(currentBattleInfo) : 0;
+
+    // 倒计时
+    useEffect(() => {
+        if (!endTime) {
+            return undefined;
+        }
+        setNow(Date.now());
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, [endTime]);
+
+    // 得分变化时进度条平滑移动
+    useEffect(() => {
+        const total = sides.ourScore + sides.opponentScore;
+        const target = total > 0
+            ? Math.min(Math.max(sides.ourScore / total, MIN_BAR_RATIO), 1 - MIN_BAR_RATIO)
+            : 0.5;
+        Animated.timing(ratio, {
+            toValue: target,
+            duration: 300,
+            useNativeDriver: false,
+        }).start();
+    }, [sides.ourScore, sides.opponentScore, ratio]);
+
+    if (!isInBattle && !result) {
+        return null;
+    }
+
+    const outcome = result ? getBattleOutcome(result, sides.ourUser) : null;
+    const ourWidth = ratio.interpolate({ inputRange: [0, 1], outputRange: ['0%', '100%'] });
+
+    return (
+        <View style={[styles.container, style]} pointerEvents="none">
+            {/* 倒计时 */}
+            <View style={styles.timerPill}>
+                <Image source={require('../static/images/host-pk.png')} style={styles.pkIcon} resizeMode="contain" />
+                <Text style={styles.timerText}>
+                    {isInBattle
+                        ? (endTime ? formatCountdown(endTime - now) : '--:--')
+                        : t('battle.ended')}
+                </Text>
+            </View>
+
+            {/* 拔河进度条 */}
+            <View style={styles.scoreBar}>
+                <Animated.View style={[styles.ourBar, { width: ourWidth }]}>
+                    <Text style={styles.scoreText} numberOfLines={1}>
+                        {t('battle.ourSide')} {sides.ourScore}
+                    </Text>
+                </Animated.View>
+                <View style={styles.opponentBar}>
+                    <Text style={[styles.scoreText, styles.opponentScoreText]} numberOfLines={1}>
+                        {sides.opponentScore} {t('battle.opponentSide')}
+                    </Text>
+                </View>
+            </View>
+
+            <View style={styles.userRow}>
+                <Image
+                    source={{ uri: sides.ourUser?.avatarURL || DEFAULT_AVATAR_URL }}
+                    style={styles.userAvatar}
+                />
+                <View style={styles.opponentAvatars}>
+                    {sides.opponents.map((user) => (
+                        <Image
+                            key={user.userID}
+                            source={{ uri: user.avatarURL || DEFAULT_AVATAR_URL }}
+                            style={styles.userAvatar}
+                        />
+                    ))}
+                </View>
+            </View>
+
+            {/* 支持者 */}
+            <View style={styles.supporterRow}>
+                {renderSupporters(sides.ourSupporters, styles.ourRankBadge)}
+                {renderSupporters(sides.opponentSupporters, styles.opponentRankBadge)}
+            </View>
+
+            {/* 结果 */}
+            {outcome && (
+                <View style={styles.resultContainer}>
+                    <Text style={[styles.resultText, styles[`${outcome}Text`]]}>
+                        {t(`battle.${outcome}`)}
+                    </Text>
+                </View>
+            )}
+        </View>
+    );
+}
+
+function renderSupporters(supporters: BattleSupporter[], badgeStyle: StyleProp<ViewStyle>) {
+    return (
+        <View style={styles.supporterGroup}>
+            {supporters.map((supporter, index) => (
+                <View key={supporter.userID} style={styles.supporterItem}>
+                    <Image
+                        source={{ uri: supporter.avatarURL || DEFAULT_AVATAR_URL }}
+                        style={styles.supporterAvatar}
+                    />
+                    <View style={[styles.rankBadge, badgeStyle]}>
+                        <Text style={styles.rankText}>{index + 1}</Text>
+                    </View>
+                </View>
+            ))}
+        </View>
+    );
+}
+
+const styles = StyleSheet.create({
+    container: {
+        position: 'absolute',
+        left: 0,
+        right: 0,
+        alignItems: 'center',
+        paddingHorizontal: 12,
+        zIndex: 100,
+    },
+    timerPill: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingHorizontal: 10,
+        height: 24,
+        borderRadius: 12,
+        backgroundColor: 'rgba(0, 0, 0, 0.45)',
+        marginBottom: 6,
+    },
+    pkIcon: {
+        width: 16,
+        height: 16,
+        marginRight: 4,
+    },
+    timerText: {
+        color: '#ffffff',
+        fontSize: 12,
+        fontWeight: '600',
+    },
+    scoreBar: {
+        flexDirection: 'row',
+        width: '100%',
+        height: 18,
+        borderRadius: 9,
+        overflow: 'hidden',
+        backgroundColor: '#2B6AD6',
+    },
+    ourBar: {
+        height: '100%',
+        justifyContent: 'center',
+        paddingLeft: 8,
+        backgroundColor: '#F23C5B',
+    },
+    opponentBar: {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'flex-end',
+        paddingRight: 8,
+    },
+    scoreText: {
+        color: '#ffffff',
+        fontSize: 11,
+        fontWeight: '600',
+    },
+    opponentScoreText: {
+        textAlign: 'right',
+    },
+    userRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        width: '100%',
+        marginTop: 4,
+    },
+    opponentAvatars: {
+        flexDirection: 'row',
+    },
+    userAvatar: {
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        marginLeft: 2,
+        backgroundColor: '#f0f0f0',
+    },
+    supporterRow: {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        width: '100%',
+        marginTop: 4,
+    },
+    supporterGroup: {
+        flexDirection: 'row',
+    },
+    supporterItem: {
+        marginHorizontal: 2,
+        alignItems: 'center',
+    },
+    supporterAvatar: {
+        width: 22,
+        height: 22,
+        borderRadius: 11,
+        backgroundColor: '#f0f0f0',
+    },
+    rankBadge: {
+        marginTop: -6,
+        minWidth: 12,
+        height: 12,
+        borderRadius: 6,
+        paddingHorizontal: 2,
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    ourRankBadge: {
+        backgroundColor: '#F23C5B',
+    },
+    opponentRankBadge: {
+        backgroundColor: '#2B6AD6',
+    },
+    rankText: {
+        color: '#ffffff',
+        fontSize: 8,
+        fontWeight: '600',
+    },
+    resultContainer: {
+        marginTop: 24,
+        paddingHorizontal: 24,
+        paddingVertical: 8,
+        borderRadius: 20,
+        backgroundColor: 'rgba(0, 0, 0, 0.55)',
+    },
+    resultText: {
+        fontSize: 28,
+        fontWeight: '700',
+        color: '#ffffff',
+    },
+    victoryText: {
+        color: '#FFC53D',
+    },
+    defeatText: {
+        color: '#A3AAB8',
+    },
+    drawText: {
+        color: '#ffffff',
+    },
+});
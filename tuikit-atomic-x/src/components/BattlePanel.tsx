@@ -0,0 +1,439 @@
+/**
+ * BattlePanel Component
+ * 主播 PK 面板组件
+ *
+ * 功能：
+ * 1. 选择已连线的主播和 PK 时长，发起 PK 邀请
+ * 2. 等待对方响应时支持取消邀请
+ * 3. PK 进行中支持结束 PK，惩罚时间内支持再来一局
+ * 4. 收到 PK 邀请时弹窗确认接受或拒绝（面板关闭时同样生效）
+ *
+ * @format
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import {
+    View,
+    Text,
+    Image,
+    StyleSheet,
+    TouchableOpacity,
+    FlatList,
+    Modal,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { showToast, CustomToastContainer } from './CustomToast';
+import { ConfirmDialog } from './ConfirmDialog';
+import { DEFAULT_AVATAR_URL } from './constants';
+import { useBattleState } from '../atomic-x/state/BattleState';
+import { getLastBattleRequest } from '../atomic-x/state/BattleState';
+import type { BattleRequestEvent, SeatUserInfoParam } from '../atomic-x/state/BattleState/types';
+import { useCoHostState } from '../atomic-x/state/CoHostState';
+import type { LiveUserInfoParam } from '../atomic-x/state/CoHostState/types';
+import { useLoginState } from '../atomic-x/state/LoginState';
+
+const BATTLE_DURATIONS = [60, 180, 300]; // 可选的 PK 时长（秒）
+const BATTLE_REQUEST_TIMEOUT = 10; // PK 邀请超时时间（秒）
+const LISTENER_ID = 'BattlePanel';
+
+interface BattlePanelProps {
+    visible: boolean;
+    liveID: string;
+    onClose: () => void;
+}
+
+export function BattlePanel({
+    visible,
+    liveID,
+    onClose,
+}: BattlePanelProps) {
+    const { t } = useTranslation();
+    const safeAreaInsets = useSafeAreaInsets();
+    const { loginUserInfo } = useLoginState();
+    const { connected } = useCoHostState(liveID);
+    const {
+        currentBattleInfo,
+        battleStatus,
+        battleRequest,
+        requestBattle,
+        cancelBattleRequest,
+        acceptBattle,
+        rejectBattle,
+        exitBattle,
+        rematch,
+        addBattleListener,
+        removeBattleListener,
+    } = useBattleState(liveID);
+
+    const [duration, setDuration] = useState(BATTLE_DURATIONS[1]!);
+    const [deselectedUserIDs, setDeselectedUserIDs] = useState<string[]>([]);
+    // 已发出、等待对方响应的 PK 邀请
+    const pendingRequest = battleRequest?.direction === 'outgoing' ? battleRequest : null;
+    // 收到的、尚未处理的 PK 邀请
+    const receivedRequest = battleRequest?.direction === 'incoming' && !battleRequest.accepted ? battleRequest : null;
+
+    // 可以邀请 PK 的连线主播（排除自己）
+    const coHosts = useMemo(
+        () => connected.filter((item) => item.userID && item.userID !== loginUserInfo?.userID),
+        [connected, loginUserInfo?.userID]
+    );
+    const selectedUserIDs = useMemo(
+        () => coHosts.map((item) => item.userID).filter((userID) => !deselectedUserIDs.includes(userID)),
+        [coHosts, deselectedUserIDs]
+    );
+
+    const toggleCoHost = useCallback((userID: string) => {
+        setDeselectedUserIDs((prev) => (
+            prev.includes(userID) ? prev.filter((item) => item !== userID) : [...prev, userID]
+        ));
+    }, []);
+
+    // 邀请被拒绝时提示，邀请状态由 BattleState 维护
+    useEffect(() => {
+        if (!liveID) return;
+
+        const handleRequestReject = ({ invitee }: BattleRequestEvent) => {
+            showToast(t('battle.requestRejected', { name: invitee?.nickname || invitee?.userID || '' }), 2000);
+        };
+
+        addBattleListener('onBattleRequestReject', handleRequestReject, LISTENER_ID);
+
+        return () => {
+            removeBattleListener('onBattleRequestReject', LISTENER_ID);
+        };
+    }, [liveID, addBattleListener, removeBattleListener, t]);
+
+    const handleRequestTimeout = useCallback(() => {
+        showToast(t('battle.requestTimeout'), 2000);
+    }, [t]);
+
+    const handleStartBattle = useCallback(() => {
+        if (selectedUserIDs.length === 0) {
+            showToast(t('battle.selectCoHost'), 2000);
+            return;
+        }
+        requestBattle({
+            liveID,
+            userIDList: selectedUserIDs,
+            timeout: BATTLE_REQUEST_TIMEOUT,
+            config: {
+                duration,
+                needResponse: true,
+            },
+            onTimeout: handleRequestTimeout,
+            onError: (error) => {
+                console.error('[BattlePanel] 发起 PK 失败:', error);
+                showToast(t('battle.requestFailed'), 2000);
+            },
+        });
+    }, [selectedUserIDs, liveID, duration, requestBattle, handleRequestTimeout, t]);
+
+    const handleRematch = useCallback(() => {
+        rematch({
+            liveID,
+            onTimeout: handleRequestTimeout,
+            onError: (error) => {
+                console.error('[BattlePanel] 再来一局失败:', error);
+                showToast(t('battle.requestFailed'), 2000);
+            },
+        });
+    }, [liveID, rematch, handleRequestTimeout, t]);
+
+    const handleCancelRequest = useCallback(() => {
+        if (!pendingRequest) return;
+        cancelBattleRequest({
+            liveID,
+            battleID: pendingRequest.battleID,
+            userIDList: pendingRequest.userIDList,
+            onError: (error) => {
+                console.error('[BattlePanel] 取消 PK 邀请失败:', error);
+            },
+        });
+    }, [pendingRequest, liveID, cancelBattleRequest]);
+
+    const handleExitBattle = useCallback(() => {
+        if (!currentBattleInfo?.battleID) return;
+        exitBattle({
+            liveID,
+            battleID: currentBattleInfo.battleID,
+            onSuccess: () => {
+                onClose();
+            },
+            onError: (error) => {
+                console.error('[BattlePanel] 结束 PK 失败:', error);
+            },
+        });
+    }, [currentBattleInfo?.battleID, liveID, exitBattle, onClose]);
+
+    const handleAcceptRequest = useCallback(() => {
+        if (!receivedRequest) return;
+        acceptBattle({
+            liveID,
+            battleID: receivedRequest.battleID,
+            onError: (error) => {
+                console.error('[BattlePanel] 接受 PK 失败:', error);
+            },
+        });
+    }, [receivedRequest, liveID, acceptBattle]);
+
+    const handleRejectRequest = useCallback(() => {
+        if (!receivedRequest) return;
+        rejectBattle({
+            liveID,
+            battleID: receivedRequest.battleID,
+            onError: (error) => {
+                console.error('[BattlePanel] 拒绝 PK 失败:', error);
+            },
+        });
+    }, [receivedRequest, liveID, rejectBattle]);
+
+    const renderCoHostItem = useCallback(({ item }: { item: LiveUserInfoParam }) => {
+        const isSelected = selectedUserIDs.includes(item.userID);
+        return (
+            <TouchableOpacity
+                style={styles.coHostItem}
+                onPress={() => toggleCoHost(item.userID)}
+                disabled={!!pendingRequest}
+                activeOpacity={0.7}>
+                <Image source={{ uri: item.avatarURL || DEFAULT_AVATAR_URL }} style={styles.coHostAvatar} />
+                <Text style={styles.coHostName} numberOfLines={1}>
+                    {item.nickname || item.userID}
+                </Text>
+                <View style={[styles.checkbox, isSelected && styles.checkboxSelected]} />
+            </TouchableOpacity>
+        );
+    }, [selectedUserIDs, pendingRequest, toggleCoHost]);
+
+    const receivedInviter: SeatUserInfoParam | undefined = receivedRequest?.inviter;
+
+    return (
+        <>
+            <Modal
+                visible={visible}
+                transparent
+                animationType="slide"
+                onRequestClose={onClose}>
+                <View style={styles.bottomDrawerContainer}>
+                    <TouchableOpacity
+                        style={styles.drawerOverlay}
+                        activeOpacity={1}
+                        onPress={onClose}
+                    />
+                    <View style={[styles.bottomDrawer, { paddingBottom: safeAreaInsets.bottom + 20 }]}>
+                        {/* 头部 */}
+                        <View style={styles.header}>
+                            <Text style={styles.headerTitle}>{t('battle.title')}</Text>
+                        </View>
+
+                        {battleStatus === 'inBattle' ? (
+                            // PK 进行中
+                            <View style={styles.statusSection}>
+                                <Text style={styles.statusText}>{t('battle.inProgress')}</Text>
+                                <TouchableOpacity style={[styles.primaryButton, styles.dangerButton]} onPress={handleExitBattle}>
+                                    <Text style={styles.primaryButtonText}>{t('battle.end')}</Text>
+                                </TouchableOpacity>
+                            </View>
+                        ) : (
+                            <>
+                                <Text style={styles.sectionTitle}>{t('battle.selectCoHost')}</Text>
+                                <FlatList
+                                    data={coHosts}
+                                    renderItem={renderCoHostItem}
+                                    keyExtractor={(item, index) => `battle-${item.userID || index}`}
+                                    style={styles.coHostList}
+                                    ListEmptyComponent={
+                                        <Text style={styles.emptyText}>{t('battle.noCoHost')}</Text>
+                                    }
+                                />
+
+                                <Text style={styles.sectionTitle}>{t('battle.duration')}</Text>
+                                <View style={styles.durationRow}>
+                                    {BATTLE_DURATIONS.map((item) => {
+                                        const isActive = item === duration;
+                                        return (
+                                            <TouchableOpacity
+                                                key={item}
+                                                style={[styles.durationOption, isActive && styles.durationOptionActive]}
+                                                onPress={() => setDuration(item)}
+                                                disabled={!!pendingRequest}
+                                                activeOpacity={0.7}>
+                                                <Text style={[styles.durationText, isActive && styles.durationTextActive]}>
+                                                    {t('battle.minutes', { count: item / 60 })}
+                                                </Text>
+                                            </TouchableOpacity>
+                                        );
+                                    })}
+                                </View>
+
+                                {battleStatus === 'punishment' && !pendingRequest && getLastBattleRequest(liveID) && (
+                                    <TouchableOpacity style={[styles.primaryButton, styles.rematchButton]} onPress={handleRematch}>
+                                        <Text style={styles.primaryButtonText}>{t('battle.rematch')}</Text>
+                                    </TouchableOpacity>
+                                )}
+
+                                {pendingRequest ? (
+                                    <TouchableOpacity style={[styles.primaryButton, styles.waitingButton]} onPress={handleCancelRequest}>
+                                        <Text style={styles.primaryButtonText}>{t('battle.waiting')}</Text>
+                                    </TouchableOpacity>
+                                ) : (
+                                    <TouchableOpacity
+                                        style={[styles.primaryButton, coHosts.length === 0 && styles.disabledButton]}
+                                        onPress={handleStartBattle}
+                                        disabled={coHosts.length === 0}>
+                                        <Text style={styles.primaryButtonText}>{t('battle.start')}</Text>
+                                    </TouchableOpacity>
+                                )}
+                            </>
+                        )}
+                    </View>
+                </View>
+
+                {/* Toast 容器 - 在 Modal 内部渲染，确保显示在面板之上 */}
+                <CustomToastContainer />
+            </Modal>
+
+            {/* 收到 PK 邀请 */}
+            <ConfirmDialog
+                visible={!!receivedRequest}
+                message={t('battle.invited', { name: receivedInviter?.nickname || receivedInviter?.userID || '' })}
+                confirmText={t('battle.accept')}
+                cancelText={t('battle.reject')}
+                onConfirm={handleAcceptRequest}
+                onCancel={handleRejectRequest}
+            />
+        </>
+    );
+}
+
+const styles = StyleSheet.create({
+    bottomDrawerContainer: {
+        flex: 1,
+        justifyContent: 'flex-end',
+    },
+    drawerOverlay: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    },
+    bottomDrawer: {
+        backgroundColor: 'rgba(34, 38, 46, 1)',
+        borderTopLeftRadius: 16,
+        borderTopRightRadius: 16,
+        minHeight: 360,
+        paddingHorizontal: 24,
+    },
+    header: {
+        alignItems: 'center',
+        paddingVertical: 20,
+    },
+    headerTitle: {
+        color: 'rgba(255, 255, 255, 0.9)',
+        fontSize: 16,
+    },
+    sectionTitle: {
+        fontSize: 14,
+        color: 'rgba(255, 255, 255, 0.9)',
+        marginBottom: 10,
+    },
+    coHostList: {
+        maxHeight: 160,
+        marginBottom: 16,
+    },
+    coHostItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 8,
+    },
+    coHostAvatar: {
+        width: 40,
+        height: 40,
+        borderRadius: 20,
+        marginRight: 12,
+        backgroundColor: '#f0f0f0',
+    },
+    coHostName: {
+        flex: 1,
+        fontSize: 16,
+        fontWeight: '500',
+        color: '#ffffff',
+    },
+    checkbox: {
+        width: 18,
+        height: 18,
+        borderRadius: 9,
+        borderWidth: 1,
+        borderColor: 'rgba(255, 255, 255, 0.5)',
+    },
+    checkboxSelected: {
+        borderColor: '#2B6AD6',
+        backgroundColor: '#2B6AD6',
+    },
+    emptyText: {
+        fontSize: 14,
+        color: 'rgba(255, 255, 255, 0.5)',
+        paddingVertical: 16,
+        textAlign: 'center',
+    },
+    durationRow: {
+        flexDirection: 'row',
+        marginBottom: 24,
+    },
+    durationOption: {
+        paddingHorizontal: 16,
+        height: 32,
+        borderRadius: 16,
+        marginRight: 12,
+        backgroundColor: 'rgba(255, 255, 255, 0.1)',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    durationOptionActive: {
+        backgroundColor: '#2B6AD6',
+    },
+    durationText: {
+        fontSize: 14,
+        color: 'rgba(255, 255, 255, 0.7)',
+    },
+    durationTextActive: {
+        color: '#ffffff',
+    },
+    statusSection: {
+        alignItems: 'center',
+        paddingVertical: 24,
+    },
+    statusText: {
+        fontSize: 14,
+        color: 'rgba(255, 255, 255, 0.7)',
+        marginBottom: 24,
+    },
+    primaryButton: {
+        alignSelf: 'stretch',
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: '#2B6AD6',
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    rematchButton: {
+        marginBottom: 12,
+        backgroundColor: '#F23C5B',
+    },
+    waitingButton: {
+        backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    },
+    dangerButton: {
+        backgroundColor: '#E6594C',
+    },
+    disabledButton: {
+        opacity: 0.5,
+    },
+    primaryButtonText: {
+        color: '#ffffff',
+        fontSize: 16,
+        fontWeight: '500',
+    },
+});
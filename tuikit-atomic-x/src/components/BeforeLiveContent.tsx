@@ -19,7 +19,7 @@ import {
 import { useTranslation } from 'react-i18next';
 import { showToast } from './CustomToast';
 import { useLoginState } from '../atomic-x/state/LoginState';
-import { useDeviceState } from '../atomic-x/state/DeviceState';
+import { useDeviceActions, useDeviceSelector } from '../atomic-x/state/DeviceState';
 import { BeautyPanel } from './BeautyPanel';
 import { AudioEffectPanel } from './AudioEffectPanel';
 import { ActionSheet } from './ActionSheet';
@@ -90,7 +90,8 @@ export function BeforeLiveContent({
 }: BeforeLiveContentProps) {
     const { t } = useTranslation();
     const { loginUserInfo } = useLoginState();
-    const { switchCamera, isFrontCamera, openLocalMicrophone, openLocalCamera } = useDeviceState();
+    const { switchCamera, openLocalMicrophone, openLocalCamera } = useDeviceActions();
+    const isFrontCamera = useDeviceSelector((state) => state.isFrontCamera);
 
     // 内部状态
     const [localCoverURL, setLocalCoverURL] = useState(coverURL || DEFAULT_COVER_URL);
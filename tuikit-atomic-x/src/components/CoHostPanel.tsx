@@ -7,6 +7,8 @@
  * 2. 显示推荐主播列表并支持邀请连线
  * 3. 支持断开连线操作
  * 4. 支持刷新和加载更多
+ * 5. 支持按直播间 ID 或主播昵称搜索
+ * 6. 显示最近连线过的主播，可直接再次邀请
  *
  * @format
  */
@@ -22,19 +24,23 @@ import {
     FlatList,
     Modal,
     RefreshControl,
+    TextInput,
+    Platform,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { showToast, CustomToastContainer } from './CustomToast';
-import { useCoHostState } from '../atomic-x/state/CoHostState';
-import { useLiveListState } from '../atomic-x/state/LiveListState';
-import type { FetchLiveListOptions } from '../atomic-x/state/LiveListState/types';
+import { useCoHostState, useRecentCoHosts } from '../atomic-x/state/CoHostState';
 import { useLoginState } from '../atomic-x/state/LoginState';
 import { useCoGuestState } from '../atomic-x/state/CoGuestState';
 import { ConfirmDialog } from './ConfirmDialog';
 import { ConnectionCode } from '../atomic-x/state/CoHostState/types';
+import type { CoHostUserParam } from '../atomic-x/state/CoHostState/types';
 
 const { width: screenWidth } = Dimensions.get('window');
 const DEFAULT_AVATAR_URL = 'https://web.sdk.qcloud.com/component/TUIKit/assets/avatar_01.png';
+const PAGE_COUNT = 20;
+// 输入停顿后再发起搜索
+const SEARCH_DEBOUNCE_MS = 300;
 
 interface CoHostPanelProps {
     visible: boolean;
@@ -42,15 +48,6 @@ interface CoHostPanelProps {
     onClose: () => void;
 }
 
-interface HostInfo {
-    liveID: string;
-    liveOwner: {
-        userID: string;
-        userName?: string;
-        avatarURL?: string;
-    };
-}
-
 export function CoHostPanel({
     visible,
     liveID,
@@ -61,24 +58,25 @@ export function CoHostPanel({
     const { loginUserInfo } = useLoginState();
     const { applicants, rejectApplication } = useCoGuestState(liveID);
     const {
-        candidates,
         connected,
         requestHostConnection,
         invitees,
         exitHostConnection,
+        candidateList,
+        candidateCursor,
+        candidateKeyword,
+        isFetchingCandidates,
+        fetchCoHostCandidates,
     } = useCoHostState(liveID);
-    const {
-        liveListCursor,
-        currentLive,
-        fetchLiveList,
-        liveList,
-    } = useLiveListState();
+    const { recentCoHosts } = useRecentCoHosts(liveID);
 
     // 本地状态
     const [isRefreshing, setIsRefreshing] = useState(false);
     const [isLoadingMore, setIsLoadingMore] = useState(false);
     const [showExitConfirmModal, setShowExitConfirmModal] = useState(false);
+    const [searchText, setSearchText] = useState('');
     const flatListRef = useRef<FlatList>(null);
+    const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
     // 计算过滤后的已连线列表（排除自己）
     const filteredConnected = useMemo(() => {
@@ -87,23 +85,27 @@ export function CoHostPanel({
         return list.filter(item => item?.userID !== selfId);
     }, [connected, loginUserInfo?.userID]);
 
-    // 过滤推荐主播列表
-    const filterInviteHosts = useCallback((list: any[]) => {
-        const hosts = Array.isArray(list) ? list : [];
+    // 当前可邀请的主播列表（获取后才连线成功的主播需要再过滤一次）
+    const currentInviteHosts = useMemo(() => {
+        const connectedLiveIds = new Set((connected || []).map(item => item?.liveID));
+        return (candidateList || []).filter(item => !connectedLiveIds.has(item?.liveID));
+    }, [candidateList, connected]);
+
+    // 最近连线的主播，搜索时隐藏
+    const currentRecentHosts = useMemo(() => {
+        if (candidateKeyword) {
+            return [];
+        }
         const connectedLiveIds = new Set((connected || []).map(item => item?.liveID));
-        return hosts.filter(item =>
-            item?.liveOwner?.userID !== currentLive?.liveOwner?.userID &&
-            !connectedLiveIds.has(item?.liveID)
+        return (recentCoHosts || []).filter(item =>
+            item.liveID !== liveID &&
+            item.userID !== loginUserInfo?.userID &&
+            !connectedLiveIds.has(item.liveID)
         );
-    }, [connected, currentLive?.liveOwner?.userID]);
-
-    // 当前可邀请的主播列表
-    const currentInviteHosts = useMemo(() => {
-        return filterInviteHosts(liveList || []);
-    }, [liveList, filterInviteHosts]);
+    }, [candidateKeyword, connected, recentCoHosts, liveID, loginUserInfo?.userID]);
 
     // 判断主播是否处于邀请中
-    const isHostInviting = useCallback((host: HostInfo) => {
+    const isHostInviting = useCallback((host: CoHostUserParam) => {
         const inviteesList = invitees || [];
         const targetLiveID = host?.liveID;
         if (!targetLiveID) return false;
@@ -122,12 +124,65 @@ export function CoHostPanel({
         }
     }, [applicants, invitees, liveID, rejectApplication]);
 
+    // 从头获取（搜索）主播列表
+    const searchHosts = useCallback((keyword: string) => {
+        fetchCoHostCandidates({
+            liveID,
+            cursor: '',
+            count: PAGE_COUNT,
+            keyword,
+            onError: (error: Error | string) => {
+                console.error('获取可连线主播失败:', error);
+            }
+        });
+    }, [fetchCoHostCandidates, liveID]);
+
+    // 打开面板时按当前关键字获取第一页
+    useEffect(() => {
+        if (visible && liveID) {
+            searchHosts(searchText);
+        }
+        // eslint-disable-next-line react-hooks/exhaustive-deps
+    }, [visible, liveID]);
+
+    // 清理未执行的搜索
+    useEffect(() => {
+        return () => {
+            if (searchTimerRef.current) {
+                clearTimeout(searchTimerRef.current);
+            }
+        };
+    }, []);
+
+    // 输入关键字
+    const handleSearchTextChange = useCallback((text: string) => {
+        setSearchText(text);
+        if (searchTimerRef.current) {
+            clearTimeout(searchTimerRef.current);
+        }
+        searchTimerRef.current = setTimeout(() => {
+            searchTimerRef.current = null;
+            searchHosts(text);
+        }, SEARCH_DEBOUNCE_MS);
+    }, [searchHosts]);
+
+    // 点击键盘搜索立即搜索
+    const handleSearchSubmit = useCallback(() => {
+        if (searchTimerRef.current) {
+            clearTimeout(searchTimerRef.current);
+            searchTimerRef.current = null;
+        }
+        searchHosts(searchText);
+    }, [searchHosts, searchText]);
+
     // 刷新列表
     const handleRefresh = useCallback(() => {
         setIsRefreshing(true);
-        const params = {
+        fetchCoHostCandidates({
+            liveID,
             cursor: '',
-            count: 20,
+            count: PAGE_COUNT,
+            keyword: candidateKeyword,
             onSuccess: () => {
                 setIsRefreshing(false);
                 showToast(t('toast.refreshSuccess'), 2000);
@@ -136,53 +191,32 @@ export function CoHostPanel({
                 setIsRefreshing(false);
                 showToast(t('toast.refreshFailed'), 3000);
             }
-        };
-        fetchLiveList(params);
-    }, [fetchLiveList, t]);
-
-    // 递归获取列表数据
-    const fetchLiveListRecursively = useCallback((cursor: string) => {
-        if (!cursor) {
-            return;
-        }
-
-        const params: FetchLiveListOptions = {
-            cursor: cursor,
-            count: 20,
-            onSuccess: () => {
-                // 获取最新的 cursor 来判断是否还有下一页
-                // 注意：onSuccess 不会接收 res 参数，需要通过其他方式获取最新数据
-                // 这里暂时移除递归逻辑，因为无法在回调中获取 cursor
-            },
-            onError: (err: Error | string) => {
-                console.error(`fetchLiveListRecursively failed, err: ${JSON.stringify(err)}`);
-            }
-        };
-        fetchLiveList(params);
-    }, [fetchLiveList]);
+        });
+    }, [fetchCoHostCandidates, liveID, candidateKeyword, t]);
 
     // 加载更多
     const loadMore = useCallback(() => {
-        if (!liveListCursor || isLoadingMore) {
+        if (!candidateCursor || isLoadingMore || isFetchingCandidates) {
             return;
         }
 
         setIsLoadingMore(true);
-        const params = {
-            cursor: liveListCursor,
-            count: 20,
+        fetchCoHostCandidates({
+            liveID,
+            cursor: candidateCursor,
+            count: PAGE_COUNT,
+            keyword: candidateKeyword,
             onSuccess: () => {
                 setIsLoadingMore(false);
             },
             onError: () => {
                 setIsLoadingMore(false);
             }
-        };
-        fetchLiveList(params);
-    }, [liveListCursor, isLoadingMore, fetchLiveList]);
+        });
+    }, [candidateCursor, candidateKeyword, isLoadingMore, isFetchingCandidates, fetchCoHostCandidates, liveID]);
 
     // 发起连线
-    const startLink = useCallback((host: HostInfo) => {
+    const startLink = useCallback((host: CoHostUserParam) => {
         if (applicants && applicants.length > 0) {
             showToast(t('coHost.hostBusy'), 3000);
             return;
@@ -209,7 +243,7 @@ export function CoHostPanel({
     }, [applicants, requestHostConnection, liveID, t]);
 
     // 点击邀请连线
-    const onStartLinkTap = useCallback((host: HostInfo) => {
+    const onStartLinkTap = useCallback((host: CoHostUserParam) => {
         if (isHostInviting(host)) {
             return;
         }
@@ -263,7 +297,7 @@ export function CoHostPanel({
     ), []);
 
     // 渲染推荐主播项
-    const renderInviteHostItem = useCallback(({ item }: { item: HostInfo }) => {
+    const renderInviteHostItem = useCallback(({ item }: { item: CoHostUserParam }) => {
         const isInviting = isHostInviting(item);
 
         return (
@@ -271,7 +305,7 @@ export function CoHostPanel({
                 <View style={styles.audienceInfo}>
                     <View style={styles.audienceAvatarContainer}>
                         <Image
-                            source={{ uri: item?.liveOwner?.avatarURL || DEFAULT_AVATAR_URL }}
+                            source={{ uri: item?.avatarURL || DEFAULT_AVATAR_URL }}
                             style={styles.audienceAvatar}
                             resizeMode="cover"
                         />
@@ -279,7 +313,7 @@ export function CoHostPanel({
                     <View style={styles.audienceItemRight}>
                         <View style={styles.audienceDetail}>
                             <Text style={styles.audienceName} numberOfLines={1}>
-                                {item?.liveOwner?.userName || item?.liveOwner?.userID}
+                                {item?.nickname || item?.userID}
                             </Text>
                         </View>
                         <TouchableOpacity
@@ -296,7 +330,29 @@ export function CoHostPanel({
                 <View style={styles.audienceItemBottomLine} />
             </View>
         );
-    }, [isHostInviting, onStartLinkTap]);
+    }, [isHostInviting, onStartLinkTap, t]);
+
+    // 渲染最近连线主播项
+    const renderRecentHostItem = useCallback(({ item }: { item: CoHostUserParam }) => {
+        const isInviting = isHostInviting(item);
+
+        return (
+            <TouchableOpacity
+                style={styles.recentItem}
+                onPress={() => onStartLinkTap(item)}
+                disabled={isInviting}
+            >
+                <Image
+                    source={{ uri: item.avatarURL || DEFAULT_AVATAR_URL }}
+                    style={[styles.recentAvatar, isInviting && styles.recentAvatarInviting]}
+                    resizeMode="cover"
+                />
+                <Text style={styles.recentName} numberOfLines={1}>
+                    {isInviting ? t('coHost.inviting') : (item.nickname || item.userID)}
+                </Text>
+            </TouchableOpacity>
+        );
+    }, [isHostInviting, onStartLinkTap, t]);
 
     return (
         <Modal
@@ -347,6 +403,38 @@ export function CoHostPanel({
                         </View>
                     )}
 
+                    {/* 搜索框 */}
+                    <View style={styles.searchContainer}>
+                        <TextInput
+                            style={styles.searchInput}
+                            placeholder={t('coHost.searchPlaceholder')}
+                            placeholderTextColor="rgba(255, 255, 255, 0.4)"
+                            value={searchText}
+                            onChangeText={handleSearchTextChange}
+                            onSubmitEditing={handleSearchSubmit}
+                            returnKeyType="search"
+                            autoCapitalize="none"
+                            autoCorrect={false}
+                            maxLength={64}
+                            {...(Platform.OS === 'android' && { textAlignVertical: 'center' as const })}
+                        />
+                    </View>
+
+                    {/* 最近连线 */}
+                    {currentRecentHosts.length > 0 && (
+                        <View style={styles.recentSection}>
+                            <Text style={styles.titleText}>{t('coHost.recentConnected')}</Text>
+                            <FlatList
+                                data={currentRecentHosts}
+                                renderItem={renderRecentHostItem}
+                                keyExtractor={(item) => `recent-${item.liveID}`}
+                                horizontal
+                                showsHorizontalScrollIndicator={false}
+                                style={styles.recentList}
+                            />
+                        </View>
+                    )}
+
                     {/* 推荐列表标题 */}
                     <View style={styles.recommendHeader}>
                         <Text style={styles.titleText}>{t('coHost.onlineAnchors')}</Text>
@@ -357,7 +445,7 @@ export function CoHostPanel({
                         ref={flatListRef}
                         data={currentInviteHosts}
                         renderItem={renderInviteHostItem}
-                        keyExtractor={(item, index) => `invite-${item?.liveID || item?.liveOwner?.userID || index}`}
+                        keyExtractor={(item, index) => `invite-${item?.liveID || item?.userID || index}`}
                         style={styles.audienceContent}
                         showsVerticalScrollIndicator={false}
                         refreshControl={
@@ -369,6 +457,13 @@ export function CoHostPanel({
                         }
                         onEndReached={loadMore}
                         onEndReachedThreshold={0.1}
+                        ListEmptyComponent={
+                            !isFetchingCandidates && candidateKeyword ? (
+                                <View style={styles.loadingFooter}>
+                                    <Text style={styles.loadingText}>{t('coHost.noSearchResult')}</Text>
+                                </View>
+                            ) : undefined
+                        }
                         ListFooterComponent={
                             isLoadingMore ? (
                                 <View style={styles.loadingFooter}>
@@ -466,6 +561,45 @@ const styles = StyleSheet.create({
     connectedList: {
         marginTop: 10,
     },
+    searchContainer: {
+        paddingHorizontal: 24,
+        marginBottom: 16,
+    },
+    searchInput: {
+        height: 36,
+        borderRadius: 18,
+        paddingHorizontal: 16,
+        paddingVertical: 0,
+        fontSize: 14,
+        color: '#ffffff',
+        backgroundColor: 'rgba(79, 88, 107, 0.3)',
+    },
+    recentSection: {
+        paddingHorizontal: 24,
+        marginBottom: 16,
+    },
+    recentList: {
+        marginTop: 10,
+    },
+    recentItem: {
+        width: 56,
+        marginRight: 12,
+        alignItems: 'center',
+    },
+    recentAvatar: {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+    },
+    recentAvatarInviting: {
+        opacity: 0.5,
+    },
+    recentName: {
+        marginTop: 4,
+        fontSize: 12,
+        color: 'rgba(255, 255, 255, 0.7)',
+        maxWidth: 56,
+    },
     recommendHeader: {
         flexDirection: 'row',
         justifyContent: 'space-between',
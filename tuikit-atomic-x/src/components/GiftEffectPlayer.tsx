@@ -0,0 +1,110 @@
+/**
+ * GiftEffectPlayer Component
+ * 礼物特效播放组件：按优先级排队播放 SVGA 礼物特效，上一个播放完成后再播放下一个
+ *
+ * @format
+ */
+
+import { useEffect, useImperativeHandle, useRef, useState, forwardRef } from 'react';
+import type { ViewStyle } from 'react-native';
+import { SVGAAnimationView } from './SVGAAnimationView';
+import type { SVGAAnimationViewRef } from './SVGAAnimationView';
+import { useLoginSelector } from '../atomic-x/state/LoginState';
+import { createGiftEffectScheduler } from '../atomic-x/state/GiftState';
+import type { GiftEffect, GiftEffectSchedulerOptions, GiftParam, ReceiveGiftEvent } from '../atomic-x/state/GiftState/types';
+
+// 等待 SVGA 视图挂载后再开始播放
+const START_DELAY = 100;
+
+export interface GiftEffectPlayerProps extends GiftEffectSchedulerOptions {
+  style?: ViewStyle;
+  /** 单个特效的最长播放时间，超时未收到 onFinished 时播放下一个，默认 10000ms */
+  effectTimeoutMs?: number;
+}
+
+export interface GiftEffectPlayerRef {
+  /** 加入播放队列，返回是否排队成功 */
+  enqueue: (event: Pick<ReceiveGiftEvent, 'gift'> & Partial<ReceiveGiftEvent>) => boolean;
+  /** 清空队列并停止当前特效 */
+  clear: () => void;
+}
+
+/**
+ * 队列长度等调度参数只在首次渲染时生效
+ *
+ * @example
+ * ```tsx
+ * const giftEffectRef = useRef<GiftEffectPlayerRef>(null);
+ *
+ * addGiftListener('onReceiveGift', (event) => giftEffectRef.current?.enqueue(event));
+ *
+ * <GiftEffectPlayer ref={giftEffectRef} style={StyleSheet.absoluteFill} />
+ * ```
+ */
+export const GiftEffectPlayer = forwardRef<GiftEffectPlayerRef, GiftEffectPlayerProps>(
+  ({ style, effectTimeoutMs = 10000, ...options }, ref) => {
+    const loginUserID = useLoginSelector((state) => state.loginUserInfo?.userID);
+    const svgaRef = useRef<SVGAAnimationViewRef>(null);
+    const callbacksRef = useRef(options);
+    callbacksRef.current = options;
+
+    const [scheduler] = useState(() => createGiftEffectScheduler({
+      maxQueueLength: options.maxQueueLength,
+      loadThreshold: options.loadThreshold,
+      minCoinsUnderLoad: options.minCoinsUnderLoad,
+      minLevelUnderLoad: options.minLevelUnderLoad,
+      onPlay: (effect) => callbacksRef.current.onPlay?.(effect),
+      onDrop: (effect) => callbacksRef.current.onDrop?.(effect),
+    }));
+    const [current, setCurrent] = useState<GiftEffect | null>(null);
+
+    useEffect(() => {
+      const unsubscribe = scheduler.subscribe(setCurrent);
+      return () => {
+        unsubscribe();
+        scheduler.clear();
+      };
+    }, [scheduler]);
+
+    useEffect(() => {
+      if (!current) {
+        return undefined;
+      }
+      const startTimer = setTimeout(() => svgaRef.current?.startAnimation(current.url), START_DELAY);
+      // 原生视图不可用或没有回调时不阻塞后续特效
+      const timeoutTimer = setTimeout(() => scheduler.finish(), START_DELAY + effectTimeoutMs);
+      return () => {
+        clearTimeout(startTimer);
+        clearTimeout(timeoutTimer);
+      };
+    }, [current, scheduler, effectTimeoutMs]);
+
+    useImperativeHandle(ref, () => ({
+      enqueue: ({ gift, count, sender }) => {
+        if (!gift) {
+          return false;
+        }
+        const isSelf = !!loginUserID && sender?.userID === loginUserID;
+        return !!scheduler.enqueue({ gift: gift as GiftParam, count, sender, isSelf });
+      },
+      clear: () => scheduler.clear(),
+    }), [scheduler, loginUserID]);
+
+    if (!current) {
+      return null;
+    }
+
+    return (
+      <SVGAAnimationView
+        key={current.effectID}
+        ref={svgaRef}
+        style={style}
+        onFinished={() => scheduler.finish()}
+      />
+    );
+  }
+);
+
+GiftEffectPlayer.displayName = 'GiftEffectPlayer';
+
+export default GiftEffectPlayer;
@@ -15,10 +15,15 @@ import {
   StatusBar,
   Dimensions,
   FlatList,
+  ScrollView,
+  TextInput,
+  KeyboardAvoidingView,
+  Platform,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useGiftState } from '../atomic-x/state/GiftState';
+import { ConfirmDialog } from './ConfirmDialog';
+import { useGiftState, useGiftWallet } from '../atomic-x/state/GiftState';
 import type { GiftParam } from '../atomic-x/state/GiftState/types';
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
@@ -27,24 +32,43 @@ interface GiftPickerProps {
   visible: boolean;
   liveID: string;
   onClose?: () => void;
-  onGiftSelect?: (gift: GiftParam) => void;
+  onGiftSelect?: (gift: GiftParam, count: number) => void;
   onRecharge?: () => void;
+  // 总价达到该金币数时需要二次确认，默认 1000，传 Infinity 关闭确认
+  confirmThreshold?: number;
 }
 
 const ITEMS_PER_PAGE = 8; // 每页显示8个礼物（2行 x 4列）
+const GIFT_COUNT_PRESETS = [1, 10, 66, 188, 520, 1314];
+const MAX_GIFT_COUNT = 9999;
+const DEFAULT_CONFIRM_THRESHOLD = 1000;
+
+// 自定义数量只保留数字，并限制在 1 ~ MAX_GIFT_COUNT
+function parseGiftCount(text: string): number {
+  const count = parseInt(text.replace(/[^0-9]/g, ''), 10);
+  return Number.isFinite(count) ? Math.min(Math.max(count, 1), MAX_GIFT_COUNT) : 1;
+}
 
 export function GiftPicker({
   visible,
   liveID,
   onClose,
   onGiftSelect,
+  onRecharge,
+  confirmThreshold = DEFAULT_CONFIRM_THRESHOLD,
 }: GiftPickerProps) {
   const { t } = useTranslation();
   const safeAreaInsets = useSafeAreaInsets();
   const { usableGifts, refreshUsableGifts } = useGiftState(liveID);
+  const { hasWallet, balance, refreshBalance } = useGiftWallet();
 
   const [selectedGiftIndex, setSelectedGiftIndex] = useState(-1);
   const [currentPage, setCurrentPage] = useState(0);
+  const [giftCount, setGiftCount] = useState(1);
+  const [isCustomCount, setIsCustomCount] = useState(false);
+  const [customCountText, setCustomCountText] = useState('');
+  // 等待二次确认的大额送礼
+  const [pendingSend, setPendingSend] = useState<{ gift: GiftParam; count: number } | null>(null);
 
   // 扁平化礼物列表（兼容新的分类结构与旧的扁平结构）
   const flattenedGifts = useMemo(() => {
@@ -90,11 +114,28 @@ export function GiftPicker({
     }
   }, [visible, liveID, refreshUsableGifts]);
 
+  // 面板打开时刷新余额
+  useEffect(() => {
+    if (visible && hasWallet) {
+      refreshBalance();
+    }
+  }, [visible, hasWallet, refreshBalance]);
+
+  // 按当前数量计算总价，余额未知时不限制
+  const isAffordable = useCallback(
+    (gift: GiftParam) => balance === null || (gift.coins || 0) * giftCount <= balance,
+    [balance, giftCount]
+  );
+
   // 面板关闭时重置选择
   useEffect(() => {
     if (!visible) {
       setSelectedGiftIndex(-1);
       setCurrentPage(0);
+      setGiftCount(1);
+      setIsCustomCount(false);
+      setCustomCountText('');
+      setPendingSend(null);
     }
   }, [visible]);
 
@@ -103,6 +144,27 @@ export function GiftPicker({
     setSelectedGiftIndex(index);
   }, []);
 
+  // 选择预设数量
+  const selectPresetCount = useCallback((count: number) => {
+    setIsCustomCount(false);
+    setGiftCount(count);
+  }, []);
+
+  // 输入自定义数量，清空时回到 1 个
+  const handleCustomCountChange = useCallback((text: string) => {
+    const digits = text.replace(/[^0-9]/g, '');
+    setCustomCountText(digits);
+    setIsCustomCount(digits.length > 0);
+    setGiftCount(parseGiftCount(digits));
+  }, []);
+
+  const handleCustomCountFocus = useCallback(() => {
+    if (customCountText) {
+      setIsCustomCount(true);
+      setGiftCount(parseGiftCount(customCountText));
+    }
+  }, [customCountText]);
+
   // 发送礼物
   const handleSendGift = useCallback(
     (index: number) => {
@@ -111,12 +173,38 @@ export function GiftPicker({
       const gift = flattenedGifts[index];
       if (!gift) return;
 
-      onGiftSelect?.(gift);
+      // 余额不足时进入充值流程
+      if (!isAffordable(gift)) {
+        onRecharge?.();
+        return;
+      }
+
+      // 大额送礼先确认
+      if ((gift.coins || 0) * giftCount >= confirmThreshold) {
+        setPendingSend({ gift, count: giftCount });
+        return;
+      }
+
+      onGiftSelect?.(gift, giftCount);
       setSelectedGiftIndex(-1);
     },
-    [selectedGiftIndex, flattenedGifts, onGiftSelect]
+    [selectedGiftIndex, flattenedGifts, giftCount, confirmThreshold, isAffordable, onGiftSelect, onRecharge]
   );
 
+  const handleConfirmSend = useCallback(() => {
+    if (pendingSend) {
+      onGiftSelect?.(pendingSend.gift, pendingSend.count);
+      setSelectedGiftIndex(-1);
+    }
+    setPendingSend(null);
+  }, [pendingSend, onGiftSelect]);
+
+  const handleCancelSend = useCallback(() => {
+    setPendingSend(null);
+  }, []);
+
+  const selectedGift = selectedGiftIndex >= 0 ? flattenedGifts[selectedGiftIndex] : undefined;
+
   // 处理页面变化
   const handlePageChange = useCallback((index: number) => {
     setCurrentPage(index);
@@ -127,11 +215,12 @@ export function GiftPicker({
     (gift: GiftParam, index: number, pageIndex: number) => {
       const globalIndex = pageIndex * ITEMS_PER_PAGE + index;
       const isSelected = selectedGiftIndex === globalIndex;
+      const affordable = isAffordable(gift);
 
       return (
         <TouchableOpacity
           key={gift.giftID || index}
-          style={[styles.giftItem, isSelected && styles.giftItemSelected]}
+          style={[styles.giftItem, isSelected && styles.giftItemSelected, !affordable && styles.giftItemUnaffordable]}
           onPress={() => selectGift(globalIndex)}
           activeOpacity={0.7}>
           {/* 礼物图片 */}
@@ -147,14 +236,14 @@ export function GiftPicker({
             )}
           </View>
 
-          {/* 选中时显示赠送按钮 */}
+          {/* 选中时显示赠送按钮，余额不足时显示充值 */}
           {isSelected ? (
             <View style={styles.giftAction}>
               <TouchableOpacity
                 style={styles.sendBtn}
                 onPress={() => handleSendGift(globalIndex)}
                 activeOpacity={0.7}>
-                <Text style={styles.sendText}>{t('gift.send')}</Text>
+                <Text style={styles.sendText}>{affordable ? t('gift.send') : t('gift.recharge')}</Text>
               </TouchableOpacity>
             </View>
           ) : (
@@ -170,7 +259,7 @@ export function GiftPicker({
         </TouchableOpacity>
       );
     },
-    [selectedGiftIndex, selectGift, handleSendGift]
+    [selectedGiftIndex, isAffordable, selectGift, handleSendGift, t]
   );
 
   // 渲染单页礼物
@@ -235,7 +324,9 @@ export function GiftPicker({
       statusBarTranslucent
       onRequestClose={onClose}>
       <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
-      <View style={styles.container}>
+      <KeyboardAvoidingView
+        style={styles.container}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}>
         <TouchableWithoutFeedback onPress={onClose}>
           <View style={styles.overlay} />
         </TouchableWithoutFeedback>
@@ -252,6 +343,12 @@ export function GiftPicker({
             <View style={styles.headerContent}>
               <Text style={styles.giftTitle}>{t('gift.title')}</Text>
             </View>
+            {hasWallet && (
+              <TouchableOpacity style={styles.walletButton} onPress={onRecharge} activeOpacity={0.7}>
+                <Text style={styles.balanceText}>{t('gift.balance', { balance: balance ?? '--' })}</Text>
+                <Text style={styles.rechargeText}>{t('gift.recharge')}</Text>
+              </TouchableOpacity>
+            )}
           </View>
 
           {/* 礼物内容 */}
@@ -278,6 +375,46 @@ export function GiftPicker({
                 />
               </View>
               {renderPageIndicator()}
+
+              {/* 数量选择 */}
+              <View style={styles.countBar}>
+                <ScrollView
+                  horizontal
+                  showsHorizontalScrollIndicator={false}
+                  keyboardShouldPersistTaps="handled"
+                  contentContainerStyle={styles.countOptions}>
+                  {GIFT_COUNT_PRESETS.map((count) => {
+                    const isActive = !isCustomCount && giftCount === count;
+                    return (
+                      <TouchableOpacity
+                        key={count}
+                        style={[styles.countOption, isActive && styles.countOptionActive]}
+                        onPress={() => selectPresetCount(count)}
+                        activeOpacity={0.7}>
+                        <Text style={[styles.countOptionText, isActive && styles.countOptionTextActive]}>
+                          {count}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  <TextInput
+                    style={[styles.countOption, styles.countInput, isCustomCount && styles.countOptionActive]}
+                    value={customCountText}
+                    onChangeText={handleCustomCountChange}
+                    onFocus={handleCustomCountFocus}
+                    placeholder={t('gift.customCount')}
+                    placeholderTextColor="rgba(255, 255, 255, 0.5)"
+                    keyboardType="number-pad"
+                    returnKeyType="done"
+                    maxLength={String(MAX_GIFT_COUNT).length}
+                  />
+                </ScrollView>
+                {selectedGift && (
+                  <Text style={styles.totalText}>
+                    {t('gift.total', { coins: (selectedGift.coins || 0) * giftCount })}
+                  </Text>
+                )}
+              </View>
             </>
           ) : (
             <View style={styles.emptyContainer}>
@@ -285,7 +422,21 @@ export function GiftPicker({
             </View>
           )}
         </View>
-      </View>
+      </KeyboardAvoidingView>
+
+      {/* 大额送礼确认 */}
+      <ConfirmDialog
+        visible={!!pendingSend}
+        message={t('gift.confirmSend', {
+          gift: pendingSend?.gift.name || '',
+          count: pendingSend?.count ?? 0,
+          coins: (pendingSend?.gift.coins || 0) * (pendingSend?.count ?? 0),
+        })}
+        confirmText={t('gift.send')}
+        cancelText={t('common.cancel')}
+        onConfirm={handleConfirmSend}
+        onCancel={handleCancelSend}
+      />
     </Modal>
   );
 }
@@ -311,7 +462,7 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(34, 38, 46, 1)',
     borderTopLeftRadius: 16,
     borderTopRightRadius: 16,
-    height: 355, // 710rpx / 2 = 355px
+    height: 400, // 礼物区 355px + 数量选择 45px
   },
   giftHeader: {
     paddingTop: 20,
@@ -330,6 +481,27 @@ const styles = StyleSheet.create({
     color: '#ffffff',
     fontWeight: '600',
   },
+  walletButton: {
+    position: 'absolute',
+    right: 16,
+    top: 18,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 50,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  balanceText: {
+    fontSize: 12,
+    color: '#FFC53D',
+  },
+  rechargeText: {
+    marginLeft: 6,
+    fontSize: 12,
+    color: '#ffffff',
+    fontWeight: '500',
+  },
   giftContent: {
     flex: 1,
     paddingBottom: 0, // 分页指示器已移到外部，不需要 padding
@@ -366,6 +538,9 @@ const styles = StyleSheet.create({
     borderColor: '#2B6AD6',
     backgroundColor: 'rgba(43, 106, 214, 0.12)',
   },
+  giftItemUnaffordable: {
+    opacity: 0.4,
+  },
   giftImageContainer: {
     width: 55,
     height: 55,
@@ -433,6 +608,48 @@ const styles = StyleSheet.create({
     width: 16,
     borderRadius: 3,
   },
+  countBar: {
+    height: 45,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  countOptions: {
+    alignItems: 'center',
+  },
+  countOption: {
+    minWidth: 44,
+    height: 28,
+    marginRight: 8,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  countOptionActive: {
+    backgroundColor: '#2b6ad6',
+  },
+  countOptionText: {
+    fontSize: 12,
+    color: 'rgba(255, 255, 255, 0.7)',
+  },
+  countOptionTextActive: {
+    color: '#ffffff',
+    fontWeight: '500',
+  },
+  countInput: {
+    width: 72,
+    paddingVertical: 0,
+    fontSize: 12,
+    color: '#ffffff',
+    textAlign: 'center',
+  },
+  totalText: {
+    marginLeft: 8,
+    fontSize: 12,
+    color: '#FFC53D',
+  },
   emptyContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -0,0 +1,209 @@
+/**
+ * GiftRankingPanel Component
+ * 送礼排行面板组件
+ */
+
+import {
+    View,
+    Text,
+    StyleSheet,
+    Modal,
+    TouchableWithoutFeedback,
+    FlatList,
+    Image,
+    StatusBar,
+    Dimensions,
+} from 'react-native';
+import { useTranslation } from 'react-i18next';
+import { useSafeAreaInsets } from 'react-native-safe-area-context';
+import { DEFAULT_AVATAR_URL } from './constants';
+import { useGiftLeaderboard } from '../atomic-x/state/GiftState';
+import type { GiftContributor } from '../atomic-x/state/GiftState/types';
+
+const screenWidth = Dimensions.get('window').width;
+// rpx to px conversion: 750rpx = screenWidth
+const rpxToPx = (rpx: number) => (rpx * screenWidth) / 750;
+
+// 前三名的名次颜色
+const TOP_RANK_COLORS = ['#FFC53D', '#C0C8D6', '#E0945B'];
+
+interface GiftRankingPanelProps {
+    visible: boolean;
+    liveID: string;
+    // 只显示前 N 名，默认全部
+    limit?: number;
+    onClose?: () => void;
+    onContributorPress?: (contributor: GiftContributor) => void;
+}
+
+export function GiftRankingPanel({
+    visible,
+    liveID,
+    limit,
+    onClose,
+    onContributorPress,
+}: GiftRankingPanelProps) {
+    const { t } = useTranslation();
+    const safeAreaInsets = useSafeAreaInsets();
+    const { leaderboard, totalCoins } = useGiftLeaderboard(liveID);
+    const contributors = limit === undefined ? leaderboard : leaderboard.slice(0, limit);
+
+    const renderContributorItem = ({ item, index }: { item: GiftContributor; index: number }) => (
+        <TouchableWithoutFeedback onPress={() => onContributorPress?.(item)}>
+            <View style={styles.rankingItem}>
+                <Text style={[styles.rankText, index < TOP_RANK_COLORS.length && { color: TOP_RANK_COLORS[index] }]}>
+                    {index + 1}
+                </Text>
+                <Image source={{ uri: item.avatarURL || DEFAULT_AVATAR_URL }} style={styles.rankingAvatar} />
+                <View style={styles.rankingDetail}>
+                    <Text style={styles.rankingName} numberOfLines={1}>
+                        {item.userName || item.userID}
+                    </Text>
+                    <Text style={styles.rankingGiftCount}>{t('giftRanking.giftCount', { count: item.giftCount })}</Text>
+                </View>
+                <Text style={styles.rankingCoins}>{t('giftRanking.coins', { coins: item.totalCoins })}</Text>
+            </View>
+        </TouchableWithoutFeedback>
+    );
+
+    if (!visible) {
+        return null;
+    }
+
+    return (
+        <Modal
+            transparent
+            visible={visible}
+            animationType="slide"
+            statusBarTranslucent
+            onRequestClose={onClose}>
+            <StatusBar barStyle="light-content" translucent backgroundColor="transparent" />
+            <View style={styles.bottomDrawerContainer}>
+                <TouchableWithoutFeedback onPress={onClose}>
+                    <View style={styles.drawerOverlay} />
+                </TouchableWithoutFeedback>
+                <View
+                    style={[
+                        styles.bottomDrawer,
+                        {
+                            paddingBottom: safeAreaInsets.bottom,
+                            height: rpxToPx(1000), // 1000rpx
+                        },
+                    ]}>
+                    {/* 头部 */}
+                    <View style={styles.rankingHeader}>
+                        <Text style={styles.rankingTitle}>{t('giftRanking.title')}</Text>
+                        <Text style={styles.rankingSubtitle}>{t('giftRanking.total', { coins: totalCoins })}</Text>
+                    </View>
+
+                    <FlatList
+                        data={contributors}
+                        keyExtractor={(item) => item.userID}
+                        renderItem={renderContributorItem}
+                        contentContainerStyle={styles.rankingContent}
+                        style={styles.rankingListScroll}
+                        ListEmptyComponent={
+                            <View style={styles.emptyState}>
+                                <Text style={styles.emptyText}>{t('giftRanking.empty')}</Text>
+                            </View>
+                        }
+                    />
+                </View>
+            </View>
+        </Modal>
+    );
+}
+
+const styles = StyleSheet.create({
+    bottomDrawerContainer: {
+        position: 'absolute',
+        bottom: 0,
+        left: 0,
+        right: 0,
+        top: 0,
+        zIndex: 1000,
+    },
+    drawerOverlay: {
+        position: 'absolute',
+        top: 0,
+        left: 0,
+        right: 0,
+        bottom: 0,
+        backgroundColor: 'rgba(0, 0, 0, 0.4)',
+    },
+    bottomDrawer: {
+        position: 'absolute',
+        bottom: 0,
+        left: 0,
+        right: 0,
+        backgroundColor: '#1F2024',
+        borderTopLeftRadius: rpxToPx(32), // 32rpx
+        borderTopRightRadius: rpxToPx(32), // 32rpx
+    },
+    rankingHeader: {
+        alignItems: 'center',
+        justifyContent: 'center',
+        height: rpxToPx(120), // 120rpx
+    },
+    rankingTitle: {
+        fontSize: rpxToPx(32), // 32rpx
+        color: '#ffffff',
+        fontWeight: '400',
+    },
+    rankingSubtitle: {
+        marginTop: rpxToPx(8), // 8rpx
+        fontSize: rpxToPx(24), // 24rpx
+        color: 'rgba(255, 255, 255, 0.55)',
+    },
+    rankingListScroll: {
+        flex: 1,
+    },
+    rankingContent: {
+        paddingHorizontal: rpxToPx(32), // 32rpx
+        paddingBottom: rpxToPx(32), // 32rpx
+    },
+    rankingItem: {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: rpxToPx(16), // 16rpx
+    },
+    rankText: {
+        width: rpxToPx(56), // 56rpx
+        fontSize: rpxToPx(30), // 30rpx
+        fontWeight: '600',
+        color: 'rgba(255, 255, 255, 0.55)',
+    },
+    rankingAvatar: {
+        width: rpxToPx(80), // 80rpx
+        height: rpxToPx(80), // 80rpx
+        borderRadius: rpxToPx(40), // 40rpx
+        marginRight: rpxToPx(20), // 20rpx
+        backgroundColor: '#f0f0f0',
+    },
+    rankingDetail: {
+        flex: 1,
+    },
+    rankingName: {
+        fontSize: rpxToPx(28), // 28rpx
+        color: '#ffffff',
+    },
+    rankingGiftCount: {
+        marginTop: rpxToPx(4), // 4rpx
+        fontSize: rpxToPx(22), // 22rpx
+        color: 'rgba(255, 255, 255, 0.55)',
+    },
+    rankingCoins: {
+        fontSize: rpxToPx(28), // 28rpx
+        color: '#FFC53D',
+        fontWeight: '600',
+    },
+    emptyState: {
+        paddingVertical: rpxToPx(64), // 64rpx
+        justifyContent: 'center',
+        alignItems: 'center',
+    },
+    emptyText: {
+        color: 'rgba(255, 255, 255, 0.6)',
+        fontSize: rpxToPx(28), // 28rpx
+    },
+});
@@ -1,6 +1,6 @@
 /**
  * Like Component
- * 点赞组件 - 支持点赞动画和批量发送
+ * 点赞组件 - 支持点赞动画，点赞由 LikeState 合并发送
  * 
  * @format
  */
@@ -13,7 +13,8 @@ import {
     View,
     Animated,
 } from 'react-native';
-import { useLikeState } from '../atomic-x/state/LikeState';
+import { useLikeActions, addLikeBurstListener, retainLikeBursts } from '../atomic-x/state/LikeState';
+import type { LikeBurst } from '../atomic-x/state/LikeState/types';
 import { useLoginState } from '../atomic-x/state/LoginState';
 
 interface LikeProps {
@@ -45,24 +46,20 @@ const heartImages = [
 ];
 
 const CLICK_INTERVAL = 100; // 点击间隔时间（毫秒）
-const BATCH_DELAY = 6000; // 6秒批量发送延迟
 const FIXED_ANIMATION_COUNT = 3; // 固定创建3个动画
+const MAX_BURST_ANIMATION_COUNT = 9; // 单次点赞爆发最多创建9个动画
 
 export function Like({
     liveID,
     role = 'audience',
     maxConcurrent = 20,
 }: LikeProps) {
-    const { sendLike, addLikeListener, removeLikeListener } = useLikeState(liveID);
+    const { queueLike, flushLikes } = useLikeActions(liveID);
     const { loginUserInfo } = useLoginState();
 
     const [likeAnimations, setLikeAnimations] = useState<LikeAnimation[]>([]);
     const likeAnimationIdRef = useRef(0);
     const lastClickTimeRef = useRef(0);
-    const pendingLikeCountRef = useRef(0);
-    const batchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-    const lastSendTimeRef = useRef(0);
-    const isFirstClickRef = useRef(true);
 
     // 随机选择心形图片索引
     const getRandomHeartImageIndex = useCallback(() => {
@@ -70,8 +67,8 @@ export function Like({
     }, []);
 
     // 创建点赞动画
-    const createLikeAnimation = useCallback((_count: number = FIXED_ANIMATION_COUNT) => {
-        const actualCount = Math.min(FIXED_ANIMATION_COUNT, maxConcurrent);
+    const createLikeAnimation = useCallback((count: number = FIXED_ANIMATION_COUNT) => {
+        const actualCount = Math.min(count, maxConcurrent);
 
         const newAnimations: LikeAnimation[] = [];
 
@@ -139,151 +136,47 @@ export function Like({
         });
     }, [maxConcurrent, getRandomHeartImageIndex]);
 
-    // 批量发送点赞
-    const sendBatchLikes = useCallback(() => {
-        if (pendingLikeCountRef.current > 0) {
-            console.log('=== 批量发送点赞 ===');
-            console.log('发送数量:', pendingLikeCountRef.current);
-
-            sendLike({
-                liveID,
-                count: pendingLikeCountRef.current,
-                onSuccess: () => {
-                    console.log('批量sendLike success, count:', pendingLikeCountRef.current);
-                    lastSendTimeRef.current = Date.now();
-                    isFirstClickRef.current = false;
-                },
-                onError: (error) => {
-                    console.error('批量sendLike failed:', error);
-                },
-            });
-
-            pendingLikeCountRef.current = 0;
-        }
-
-        if (batchTimerRef.current) {
-            clearTimeout(batchTimerRef.current);
-            batchTimerRef.current = null;
-        }
-    }, [sendLike, liveID]);
-
-    // 处理点赞点击事件
+    // 处理点赞点击事件：本地立即显示动画，发送由 LikeState 合并
     const handleLikeClick = useCallback(() => {
-        console.log('=== 点赞点击事件开始 ===');
-
         // 添加点击间隔控制
         const currentTime = Date.now();
         if (currentTime - lastClickTimeRef.current < CLICK_INTERVAL) {
-            console.log('点击间隔太短，跳过本次点击');
             return;
         }
         lastClickTimeRef.current = currentTime;
 
-        // 智能发送策略
-        const timeSinceLastSend = currentTime - lastSendTimeRef.current;
-        const shouldSendImmediately = isFirstClickRef.current || timeSinceLastSend >= BATCH_DELAY;
-
-        console.log('智能发送判断:', {
-            isFirstClick: isFirstClickRef.current,
-            timeSinceLastSend: timeSinceLastSend,
-            shouldSendImmediately: shouldSendImmediately,
-        });
-
-        // 累积点赞数量
-        pendingLikeCountRef.current += 1;
-
-        if (shouldSendImmediately) {
-            // 第一次点击或距离上次发送超过6秒，立即发送
-            console.log('立即发送点赞');
-            sendBatchLikes();
-            console.log('立即发送，显示动画');
-            createLikeAnimation(FIXED_ANIMATION_COUNT);
-        } else {
-            // 距离上次发送不足6秒，累积并设置定时器
-            console.log('累积点赞，设置延迟发送');
-            console.log('6秒内点击，不显示动画，只累积数量');
-
-            // 清除之前的定时器
-            if (batchTimerRef.current) {
-                clearTimeout(batchTimerRef.current);
-            }
-
-            // 计算剩余等待时间
-            const remainingTime = BATCH_DELAY - timeSinceLastSend;
-            console.log('剩余等待时间:', remainingTime, 'ms');
-
-            // 设置剩余时间的定时器
-            batchTimerRef.current = setTimeout(() => {
-                sendBatchLikes();
-                console.log('批量发送，显示动画');
-                createLikeAnimation(FIXED_ANIMATION_COUNT);
-            }, remainingTime);
-        }
-
-        console.log('=== 点赞点击事件结束 ===');
-    }, [sendBatchLikes, createLikeAnimation]);
-
-    // 处理接收到的点赞消息
-    const handleReceiveLikesMessage = useCallback((params?: unknown) => {
-        try {
-            // 解析参数
-            let data: any;
-            if (typeof params === 'string') {
-                data = JSON.parse(params);
-            } else if (params && typeof params === 'object') {
-                data = params;
-            } else {
-                return;
-            }
-
-            // 解析 sender 信息（sender 可能是 JSON 字符串）
-            let sender: any = null;
-            if (data.sender) {
-                if (typeof data.sender === 'string') {
-                    try {
-                        sender = JSON.parse(data.sender);
-                    } catch {
-                        // 如果解析失败，尝试直接使用
-                        sender = data.sender;
-                    }
-                } else {
-                    sender = data.sender;
-                }
-            }
-
-            // 如果发送人是自己，不显示动画（自己的点赞已经在点击时显示了动画）
-            if (sender?.userID && loginUserInfo?.userID && sender.userID === loginUserInfo.userID) {
-                console.log('收到自己的点赞消息，跳过动画');
-                return;
-            }
+        queueLike();
+        createLikeAnimation(FIXED_ANIMATION_COUNT);
+    }, [queueLike, createLikeAnimation]);
 
-            console.log('收到其他用户的点赞消息，显示动画');
-            createLikeAnimation(FIXED_ANIMATION_COUNT);
-        } catch (error) {
-            console.error('处理点赞消息失败:', error);
+    // 处理其他用户的点赞爆发，点赞越多动画越多
+    const handleLikeBurst = useCallback(({ sender, count }: LikeBurst) => {
+        // 如果发送人是自己，不显示动画（自己的点赞已经在点击时显示了动画）
+        if (sender?.userID && loginUserInfo?.userID && sender.userID === loginUserInfo.userID) {
+            return;
         }
+        createLikeAnimation(Math.min(Math.max(count, FIXED_ANIMATION_COUNT), MAX_BURST_ANIMATION_COUNT));
     }, [createLikeAnimation, loginUserInfo?.userID]);
 
-    // 监听点赞消息
+    // 监听点赞爆发
     useEffect(() => {
         if (!liveID) return;
 
-        addLikeListener('onReceiveLikesMessage', handleReceiveLikesMessage);
+        const release = retainLikeBursts(liveID);
+        const removeListener = addLikeBurstListener(liveID, handleLikeBurst);
 
         return () => {
-            removeLikeListener('onReceiveLikesMessage');
-            // 清理定时器
-            if (batchTimerRef.current) {
-                clearTimeout(batchTimerRef.current);
-                batchTimerRef.current = null;
-            }
-            // 组件卸载时发送待发送的点赞
-            if (pendingLikeCountRef.current > 0) {
-                console.log('组件卸载，发送待发送的点赞（不显示动画）');
-                sendBatchLikes();
-            }
+            removeListener();
+            release();
+        };
+    }, [liveID, handleLikeBurst]);
+
+    // 组件卸载时发送待发送的点赞（不显示动画）
+    useEffect(() => {
+        return () => {
+            flushLikes();
         };
-    }, [liveID, addLikeListener, removeLikeListener, handleReceiveLikesMessage, sendBatchLikes]);
+    }, [flushLikes]);
 
     return (
         <View style={styles.container} pointerEvents="box-none">
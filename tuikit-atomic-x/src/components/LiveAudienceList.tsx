@@ -22,6 +22,7 @@ import { DEFAULT_AVATAR_URL } from './constants';
 import type { LiveUserInfoParam } from '../atomic-x/state/LiveAudienceState/types';
 import { useLiveAudienceState } from '../atomic-x/state/LiveAudienceState';
 import { AudienceActionPanel } from './AudienceActionPanel';
+import { GiftRankingPanel } from './GiftRankingPanel';
 
 const screenWidth = Dimensions.get('window').width;
 // rpx to px conversion: 750rpx = screenWidth
@@ -53,6 +54,7 @@ export function LiveAudienceList({
 
     const [selectedAudience, setSelectedAudience] = useState<LiveUserInfoParam | null>(null);
     const [isActionPanelVisible, setIsActionPanelVisible] = useState(false);
+    const [isRankingVisible, setIsRankingVisible] = useState(false);
 
     const handleAudienceMorePress = (item: LiveUserInfoParam) => {
         setSelectedAudience(item);
@@ -124,6 +126,12 @@ export function LiveAudienceList({
                         {/* 头部 */}
                         <View style={styles.audienceHeader}>
                             <Text style={styles.audienceTitle}>{t('audienceListPanel.title')}</Text>
+                            <TouchableOpacity
+                                style={styles.rankingEntry}
+                                onPress={() => setIsRankingVisible(true)}
+                                activeOpacity={0.7}>
+                                <Text style={styles.rankingEntryText}>{t('giftRanking.title')}</Text>
+                            </TouchableOpacity>
                         </View>
 
                         {/* 观众列表 - 使用 FlatList 实现可滚动 */}
@@ -150,6 +158,11 @@ export function LiveAudienceList({
                 userInfo={selectedAudience || undefined}
                 onClose={() => setIsActionPanelVisible(false)}
             />
+            <GiftRankingPanel
+                visible={isRankingVisible}
+                liveID={liveID}
+                onClose={() => setIsRankingVisible(false)}
+            />
         </Modal>
     );
 }
@@ -197,6 +210,18 @@ const styles = StyleSheet.create({
         fontWeight: '400',
         textAlign: 'center',
     },
+    rankingEntry: {
+        position: 'absolute',
+        right: rpxToPx(32), // 32rpx
+        paddingVertical: rpxToPx(8), // 8rpx
+        paddingHorizontal: rpxToPx(20), // 20rpx
+        borderRadius: rpxToPx(24), // 24rpx
+        backgroundColor: 'rgba(255, 197, 61, 0.15)',
+    },
+    rankingEntryText: {
+        fontSize: rpxToPx(24), // 24rpx
+        color: '#FFC53D',
+    },
     audienceListScroll: {
         flex: 1,
     },
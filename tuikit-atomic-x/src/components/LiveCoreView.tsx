@@ -24,7 +24,7 @@ import {
 import type { ViewStyle } from 'react-native';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { requireNativeComponent } from 'react-native';
-import { useLiveSeatState } from '../atomic-x/state/LiveSeatState';
+import { useLiveSeatSelector } from '../atomic-x/state/LiveSeatState';
 import { useLoginState } from '../atomic-x/state/LoginState';
 import { useCoHostState } from '../atomic-x/state/CoHostState';
 import { useCoGuestState } from '../atomic-x/state/CoGuestState';
@@ -178,7 +178,7 @@ export const LiveStreamView = forwardRef<LiveStreamViewRef, LiveStreamViewProps>
 
   // 状态管理
   const { loginUserInfo } = useLoginState();
-  const { seatList, canvas } = useLiveSeatState(liveID);
+  const { seatList, canvas } = useLiveSeatSelector(liveID, (state) => ({ seatList: state.seatList, canvas: state.canvas }));
   const { connected: coHostConnected } = useCoHostState(liveID);
   const { connected: audienceConnected } = useCoGuestState(liveID);
   const { currentLive } = useLiveListState();
@@ -23,7 +23,7 @@ import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
 import { showToast } from './CustomToast';
 import { useLiveListState } from '../atomic-x/state/LiveListState';
-import { useDeviceState } from '../atomic-x/state/DeviceState';
+import { useDeviceActions, useDeviceSelector } from '../atomic-x/state/DeviceState';
 import type { LiveInfoParam } from '../atomic-x/state/LiveListState/types';
 import { useLoginState } from '../atomic-x/state/LoginState';
 import { DEFAULT_COVER_URL, DEFAULT_AVATAR_URL } from './constants';
@@ -136,7 +136,8 @@ export function LiveList({ onJoinSuccess, onJoinAsAnchor, handleTopSafeArea = tr
   const [isRefreshing, setIsRefreshing] = useState(false);
   const [joiningLiveId, setJoiningLiveId] = useState<string | null>(null);
   const hasInitializedRef = useRef(false);
-  const { isFrontCamera, openLocalMicrophone, openLocalCamera } = useDeviceState();
+  const { openLocalMicrophone, openLocalCamera } = useDeviceActions();
+  const isFrontCamera = useDeviceSelector((state) => state.isFrontCamera);
   // 根据输入框的关键字过滤直播列表（前端过滤）
   const filteredLiveList = useMemo(() => {
     const keyword = inputLiveId.trim().toLowerCase();
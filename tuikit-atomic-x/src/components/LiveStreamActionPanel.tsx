@@ -9,10 +9,10 @@ import {
   TouchableWithoutFeedback,
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
-import { useDeviceState } from '../atomic-x/state/DeviceState';
+import { useDeviceActions, useDeviceSelector } from '../atomic-x/state/DeviceState';
 import { useCoGuestState } from '../atomic-x/state/CoGuestState';
 import { useCoHostState } from '../atomic-x/state/CoHostState';
-import { useLiveSeatState } from '../atomic-x/state/LiveSeatState';
+import { useLiveSeatActions, useLiveSeatSelector } from '../atomic-x/state/LiveSeatState';
 import type { SeatInfo } from '../atomic-x/state/LiveSeatState/types';
 import { DEFAULT_AVATAR_URL } from './constants';
 import { ConfirmDialog } from './ConfirmDialog';
@@ -54,17 +54,17 @@ export const LiveStreamActionPanel: React.FC<LiveStreamActionPanelProps> = ({
   const [isCameraDisabledByAdmin, setIsCameraDisabledByAdmin] = useState(false);
   const [isMicDisabledByAdmin, setIsMicDisabledByAdmin] = useState(false);
 
+  const isFrontCamera = useDeviceSelector((state) => state.isFrontCamera);
   const {
-    isFrontCamera,
     openLocalCamera,
     closeLocalCamera,
     switchCamera,
-  } = useDeviceState();
+  } = useDeviceActions();
 
   const { exitHostConnection, coHostStatus } = useCoHostState(liveID);
   const { disconnect } = useCoGuestState(liveID);
+  const seatList = useLiveSeatSelector(liveID, (state) => state.seatList);
   const {
-    seatList,
     muteMicrophone,
     unmuteMicrophone,
     openRemoteCamera,
@@ -74,7 +74,7 @@ export const LiveStreamActionPanel: React.FC<LiveStreamActionPanelProps> = ({
     kickUserOutOfSeat,
     addLiveSeatEventListener,
     removeLiveSeatEventListener
-  } = useLiveSeatState(liveID);
+  } = useLiveSeatActions(liveID);
 
   const handleClose = () => {
     onClose?.();
@@ -16,7 +16,7 @@ import {
 } from 'react-native';
 import { useTranslation } from 'react-i18next';
 import { useSafeAreaInsets } from 'react-native-safe-area-context';
-import { useDeviceState } from '../atomic-x/state/DeviceState';
+import { useDeviceSelector } from '../atomic-x/state/DeviceState';
 
 interface NetworkQualityPanelProps {
     visible: boolean;
@@ -26,7 +26,7 @@ interface NetworkQualityPanelProps {
 export function NetworkQualityPanel({ visible, onClose }: NetworkQualityPanelProps) {
     const { t } = useTranslation();
     const safeAreaInsets = useSafeAreaInsets();
-    const { networkInfo } = useDeviceState();
+    const networkInfo = useDeviceSelector((state) => state.networkInfo);
 
     // 获取网络指标值，提供默认值
     // Vue 版本中 downLoss 和 upLoss 直接显示为 {{ networkInfo.downLoss }}%
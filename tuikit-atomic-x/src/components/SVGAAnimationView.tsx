@@ -14,6 +14,7 @@ import {
   View,
 } from 'react-native';
 import type { ViewStyle } from 'react-native';
+import { resolveGiftResource } from '../atomic-x/giftResource';
 
 // ==================== 类型定义 ====================
 
@@ -87,8 +88,9 @@ const SVGAAnimationView = forwardRef<SVGAAnimationViewRef, SVGAAnimationViewProp
       );
     }, []);
 
+    // 已预加载的资源使用本地缓存路径
     const startAnimation = useCallback((url: string) => {
-      dispatchCommand('startAnimation', [url]);
+      dispatchCommand('startAnimation', [resolveGiftResource(url)]);
     }, [dispatchCommand]);
 
     const stopAnimation = useCallback(() => {
@@ -7,6 +7,8 @@ export { AudienceActionPanel } from './AudienceActionPanel';
 export { AudioEffectPanel } from './AudioEffectPanel';
 export { BarrageInput } from './BarrageInput';
 export { BarrageList } from './BarrageList';
+export { BattleOverlay } from './BattleOverlay';
+export { BattlePanel } from './BattlePanel';
 export { BeautyPanel } from './BeautyPanel';
 export { BeforeLiveContent } from './BeforeLiveContent';
 export { CoGuestPanel } from './CoGuestPanel';
@@ -14,7 +16,10 @@ export { CoGuestRequestPanel } from './CoGuestRequestPanel';
 export { CoHostPanel } from './CoHostPanel';
 export { ConfirmDialog } from './ConfirmDialog';
 export { CustomToast, CustomToastContainer, showToast } from './CustomToast';
+export { GiftEffectPlayer } from './GiftEffectPlayer';
+export type { GiftEffectPlayerProps, GiftEffectPlayerRef } from './GiftEffectPlayer';
 export { GiftPicker } from './GiftPicker';
+export { GiftRankingPanel } from './GiftRankingPanel';
 export { Like } from './Like';
 export { LiveAudienceList } from './LiveAudienceList';
 export { LiveCoreView, LiveStreamView } from './LiveCoreView';